@@ -0,0 +1,227 @@
+/**
+ * Tests for the check-examples command.
+ *
+ * Validates how examples are extracted and located, each rule, and the
+ * JSON report of the CLI command. Uses a small temporary docs tree, so
+ * the virtual program is built only twice.
+ *
+ * @module __tests__/commands/check-examples
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkExamples, runCheckExamples } from '../../commands/check-examples.js';
+import { buildIndex } from '../../indexer/index-builder.js';
+import type { ExampleCheckReport, ExampleIssue } from '../../types/index.js';
+import { writeDoc } from '../tools/docs-setup.js';
+
+/** Fence for the example code blocks (kept out of the template literals' way) */
+const FENCE = '```';
+
+/** The fixture docs, by path relative to the docs root */
+const FIXTURE_DOCS: Record<string, string> = {
+  '02-components/button.md': [
+    '# Button',
+    '',
+    '## Usage',
+    '',
+    `${FENCE}tsx`,
+    "import { Button } from '@fluentui/react-components';",
+    '',
+    'export const Save = () => <Button appearance="primary">Save</Button>;',
+    FENCE,
+    '',
+    '## Broken',
+    '',
+    `${FENCE}tsx`,
+    '<div>',
+    '  <Button>',
+    FENCE,
+    '',
+    '## Missing Import',
+    '',
+    `${FENCE}typescript`,
+    "import * as React from 'react';",
+    'export const App = () => <Input value={value} />;',
+    FENCE,
+    '',
+    '## Do and Don\'t',
+    '',
+    `${FENCE}tsx`,
+    '// ✅ Do',
+    '<label htmlFor="name">Name</label>',
+    '',
+    '// ❌ Don\'t',
+    '<label>Name</label>',
+    '<input id="name" />',
+    FENCE,
+    '',
+    '## Snippet',
+    '',
+    `${FENCE}tsx`,
+    '// With an icon',
+    '<Button icon={<SaveRegular />} />',
+    FENCE,
+  ].join('\n'),
+  '02-components/input.md': [
+    '# Input',
+    '',
+    '## Usage',
+    '',
+    `${FENCE}tsx`,
+    "import * as React from 'react';",
+    "import { Input, Button } from '@fluentui/react-components';",
+    "import { format } from 'date-fns';",
+    "import { Header } from './Header';",
+    '',
+    'export const Dated = () => {',
+    '  const [value] = React.useState(format(new Date()));',
+    '  return <><Header /><Input value={value} /><Button /></>;',
+    '};',
+    FENCE,
+    '',
+    '## Package Import',
+    '',
+    `${FENCE}typescript`,
+    "import { Button } from '@fluentui/react-button';",
+    FENCE,
+    '',
+    `${FENCE}bash`,
+    'npm install @fluentui/react-components',
+    FENCE,
+  ].join('\n'),
+};
+
+let docsPath: string;
+let report: ExampleCheckReport;
+
+beforeAll(async () => {
+  docsPath = mkdtempSync(join(tmpdir(), 'fluentui-examples-'));
+  for (const [relativePath, content] of Object.entries(FIXTURE_DOCS)) {
+    writeDoc(docsPath, relativePath, content);
+  }
+  const { store } = await buildIndex(docsPath);
+  report = checkExamples(store, 'v9');
+});
+
+afterAll(() => {
+  rmSync(docsPath, { recursive: true, force: true });
+});
+
+/**
+ * Find the issues of one example.
+ *
+ * @param relativePath - Path of the example's document
+ * @param example - Position of the example in the document (1-based)
+ * @returns The example's issues
+ */
+function issuesOf(relativePath: string, example: number): ExampleIssue[] {
+  return report.issues.filter((issue) => issue.relativePath === relativePath && issue.example === example);
+}
+
+// ============================================================================
+// Examples
+// ============================================================================
+
+describe('checkExamples — examples', () => {
+  it('should check every TypeScript and TSX example', () => {
+    expect(report.documents).toBe(2);
+    expect(report.examples).toBe(7);
+  });
+
+  it('should accept examples that import what they use', () => {
+    expect(issuesOf('02-components/button.md', 1)).toEqual([]);
+  });
+
+  it('should accept imports from React, other packages, and relative files', () => {
+    expect(issuesOf('02-components/input.md', 1)).toEqual([]);
+  });
+
+  it('should accept a JSX-only example with sibling elements', () => {
+    expect(issuesOf('02-components/button.md', 4)).toEqual([]);
+  });
+
+  it('should locate issues by document, section, and example', () => {
+    expect(issuesOf('02-components/button.md', 3)[0]).toMatchObject({
+      docId: 'components/button',
+      section: 'Button › Missing Import',
+      anchor: 'missing-import',
+      line: 2,
+      column: 27,
+    });
+  });
+});
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+describe('checkExamples — rules', () => {
+  it('should report syntax errors and skip further checks', () => {
+    const issues = issuesOf('02-components/button.md', 2);
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every((issue) => issue.rule === 'syntax-error')).toBe(true);
+  });
+
+  it('should report unresolved identifiers', () => {
+    expect(issuesOf('02-components/button.md', 3).map((issue) => issue.message)).toEqual([
+      expect.stringContaining("Cannot find name 'Input'."),
+      "Cannot find name 'value'.",
+    ]);
+  });
+
+  it('should report unresolved identifiers of snippets without imports separately', () => {
+    expect(issuesOf('02-components/button.md', 5)).toEqual([
+      expect.objectContaining({ rule: 'unresolved-in-snippet', line: 2, column: 2 }),
+      expect.objectContaining({ rule: 'unresolved-in-snippet', line: 2, column: 16 }),
+    ]);
+  });
+
+  it('should report names imported from another module than usual', () => {
+    expect(issuesOf('02-components/input.md', 2)).toEqual([expect.objectContaining({
+      rule: 'inconsistent-import',
+      line: 1,
+      column: 24,
+      message: "'Button' is imported from '@fluentui/react-button' here, " +
+        "but from '@fluentui/react-components' in 2 other examples.",
+    })]);
+  });
+
+  it('should count issues and failed examples', () => {
+    expect(report.failedExamples).toBe(4);
+    expect(report.counts['unresolved-identifier']).toBe(2);
+    expect(report.counts['unresolved-in-snippet']).toBe(2);
+    expect(report.counts['inconsistent-import']).toBe(1);
+    expect(report.counts['syntax-error']).toBe(report.issues.length - 5);
+  });
+});
+
+// ============================================================================
+// CLI Command
+// ============================================================================
+
+describe('runCheckExamples', () => {
+  it('should print the report as JSON and exit with 1 when issues were found', async () => {
+    const savedDocsPath = process.env.FLUENTUI_DOCS_PATH;
+    process.env.FLUENTUI_DOCS_PATH = docsPath;
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      const exitCode = await runCheckExamples(['v9', '--no-cache']);
+      expect(exitCode).toBe(1);
+      expect(JSON.parse(String(stdout.mock.calls[0][0]))).toEqual(report);
+      expect(stderr.mock.calls[0][0]).toContain('Checked 7 v9 examples in 2 docs');
+    } finally {
+      stdout.mockRestore();
+      stderr.mockRestore();
+      if (savedDocsPath === undefined) {
+        delete process.env.FLUENTUI_DOCS_PATH;
+      } else {
+        process.env.FLUENTUI_DOCS_PATH = savedDocsPath;
+      }
+    }
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for the lint-docs command.
+ *
+ * Runs the command on a small temporary docs folder, passed instead of a
+ * version, and validates its output and exit code.
+ *
+ * @module __tests__/commands/lint-docs
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runLintDocs } from '../../commands/lint-docs.js';
+
+let docsPath: string;
+
+beforeAll(() => {
+  docsPath = mkdtempSync(join(tmpdir(), 'fluentui-lint-docs-'));
+  mkdirSync(join(docsPath, '02-components', 'forms'), { recursive: true });
+  writeFileSync(join(docsPath, '02-components', 'forms', 'input.md'), '# Input\n\n## Usage\n\nType text.\n');
+  writeFileSync(
+    join(docsPath, '02-components', 'forms', 'field.md'),
+    "# Field\n\n> **Package**: `@fluentui/react-field`\n\n## Usage\n\nLabels an input.\n"
+  );
+});
+
+afterAll(() => {
+  rmSync(docsPath, { recursive: true, force: true });
+});
+
+/**
+ * Run the command with stdout and stderr captured.
+ *
+ * @param argv - Arguments after the command name
+ * @returns The exit code and what was written to stdout and stderr
+ */
+async function run(argv: string[]): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  const stderr = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  try {
+    const exitCode = await runLintDocs(argv);
+    return {
+      exitCode,
+      stdout: stdout.mock.calls.map(([chunk]) => String(chunk)).join(''),
+      stderr: stderr.mock.calls.map((args) => args.join(' ')).join('\n'),
+    };
+  } finally {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  }
+}
+
+// ============================================================================
+// runLintDocs
+// ============================================================================
+
+describe('runLintDocs', () => {
+  it('should print one line per violation and exit with 1', async () => {
+    const { exitCode, stdout } = await run([docsPath]);
+    expect(exitCode).toBe(1);
+    expect(stdout).toBe(
+      '02-components/forms/input.md: [missing-package] No `> **Package**:` line; the component\'s package is unknown.\n'
+    );
+  });
+
+  it('should name the folder as the version in the summary', async () => {
+    const { stderr } = await run([docsPath]);
+    expect(stderr).toContain(`Linted 2 fluentui-lint-docs-`);
+    expect(stderr).toContain('1 violations in 1 files');
+  });
+
+  it('should exit with 0 when there are no violations', async () => {
+    writeFileSync(
+      join(docsPath, '02-components', 'forms', 'input.md'),
+      "# Input\n\n> **Package**: `@fluentui/react-input`\n\n## Usage\n\nType text.\n"
+    );
+    const { exitCode, stdout } = await run([docsPath]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Tests for the argument completion module.
+ *
+ * Validates suggestions for component names, categories, modules, pattern
+ * names, foundation/enterprise topics, versions, and resource template
+ * variables, plus the response limits. Uses the real docs/v9/ index.
+ *
+ * @module __tests__/completions/argument-completions
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { CompleteRequestParams } from '@modelcontextprotocol/sdk/types.js';
+import type { DocumentStore } from '../../indexer/document-store.js';
+import type { ToolContext } from '../../tools/dispatcher.js';
+import { getTestContext } from '../tools/tools-setup.js';
+import {
+  completeArgument,
+  MAX_COMPLETION_VALUES,
+} from '../../completions/argument-completions.js';
+import {
+  COMPONENT_TEMPLATE_URI,
+  DOCUMENT_TEMPLATE_URI,
+} from '../../resources/document-resources.js';
+
+let context: ToolContext;
+let store: DocumentStore;
+
+beforeAll(async () => {
+  context = await getTestContext();
+  store = context.indexes.get('v9')!.store;
+});
+
+/**
+ * Complete an argument of a prompt or tool.
+ *
+ * @param refName - Prompt or tool name
+ * @param name - Argument name
+ * @param value - Partial value
+ * @param filled - Already-filled arguments
+ * @returns The suggested values
+ */
+function completeNamed(
+  refName: string,
+  name: string,
+  value: string,
+  filled?: Record<string, string>
+): string[] {
+  const params: CompleteRequestParams = {
+    ref: { type: 'ref/prompt', name: refName },
+    argument: { name, value },
+    context: filled ? { arguments: filled } : undefined,
+  };
+  return completeArgument(params, context).values;
+}
+
+/**
+ * Complete a resource template variable.
+ *
+ * @param uri - Resource template URI
+ * @param name - Template variable name
+ * @param value - Partial value
+ * @returns The suggested values
+ */
+function completeTemplate(uri: string, name: string, value: string): string[] {
+  return completeArgument(
+    { ref: { type: 'ref/resource', uri }, argument: { name, value } },
+    context
+  ).values;
+}
+
+// ============================================================================
+// Component names
+// ============================================================================
+
+describe('completeArgument — component names', () => {
+  it('should suggest component titles for query_component', () => {
+    const values = completeNamed('query_component', 'componentName', 'but');
+    expect(values[0]).toBe('Button');
+  });
+
+  it('should match case-insensitively', () => {
+    expect(completeNamed('get_props_reference', 'componentName', 'DIAL')).toContain('Dialog');
+  });
+
+  it('should include substring matches after prefix matches', () => {
+    const values = completeNamed('get_component_examples', 'componentName', 'button');
+    expect(values[0]).toBe('Button');
+    expect(values).toContain('ToggleButton');
+  });
+
+  it('should only suggest component documents', () => {
+    expect(completeNamed('query_component', 'componentName', 'theming')).toEqual([]);
+  });
+
+  it('should complete the migrate-to-v9 prompt target component', () => {
+    expect(completeNamed('migrate-to-v9', 'targetComponent', 'combo')).toContain('Combobox');
+  });
+});
+
+// ============================================================================
+// Categories, modules, and patterns
+// ============================================================================
+
+describe('completeArgument — categories, modules, and patterns', () => {
+  it('should suggest component categories', () => {
+    expect(completeNamed('list_by_category', 'category', 'ov')).toEqual(['overlays']);
+  });
+
+  it('should suggest modules', () => {
+    expect(completeNamed('search_docs', 'module', 'pat')).toEqual(['patterns']);
+  });
+
+  it('should suggest pattern categories', () => {
+    expect(completeNamed('get_pattern', 'patternCategory', 'f')).toEqual(['forms']);
+  });
+
+  it('should suggest pattern names scoped to the chosen category', () => {
+    const values = completeNamed('get_pattern', 'patternName', 'val', { patternCategory: 'forms' });
+    expect(values).toEqual(['validation']);
+  });
+
+  it('should suggest pattern names across all categories without a category', () => {
+    const scoped = completeNamed('get_pattern', 'patternName', '', { patternCategory: 'forms' });
+    const all = completeNamed('get_pattern', 'patternName', '');
+    expect(all.length).toBeGreaterThan(scoped.length);
+  });
+});
+
+// ============================================================================
+// Documents and sections
+// ============================================================================
+
+describe('completeArgument — documents and sections', () => {
+  it('should suggest document names of every module', () => {
+    expect(completeNamed('get_section', 'docName', 'themi')).toEqual(['Theming in FluentUI v9']);
+  });
+
+  it('should suggest the headings of the chosen document', () => {
+    const values = completeNamed('get_section', 'heading', 'controlled', { docName: 'Input' });
+    expect(values[0]).toBe('Controlled vs Uncontrolled');
+  });
+
+  it('should match headings by their anchors', () => {
+    const values = completeNamed('get_section', 'heading', 'controlled-vs', { docName: 'Input' });
+    expect(values).toEqual(['Controlled vs Uncontrolled']);
+  });
+
+  it('should suggest no headings without a document', () => {
+    expect(completeNamed('get_section', 'heading', 'acc')).toEqual([]);
+    expect(completeNamed('get_section', 'heading', 'acc', { docName: 'zzzzzzzzzz' })).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Prop names
+// ============================================================================
+
+describe('completeArgument — prop names', () => {
+  it('should suggest the props of the chosen component', () => {
+    const values = completeNamed('get_props_reference', 'propName', 'disab', { componentName: 'Button' });
+    expect(values).toEqual(['disabled', 'disabledFocusable']);
+  });
+
+  it('should suggest slot names once', () => {
+    const values = completeNamed('get_props_reference', 'propName', 'ic', { componentName: 'Button' });
+    expect(values).toEqual(['icon', 'iconPosition']);
+  });
+
+  it('should suggest no props without a component', () => {
+    expect(completeNamed('get_props_reference', 'propName', 'dis')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Topics
+// ============================================================================
+
+describe('completeArgument — topics', () => {
+  it('should suggest foundation topics by prefix', () => {
+    expect(completeNamed('get_foundation', 'topic', 'th')).toEqual(['theming']);
+  });
+
+  it('should suggest the canonical foundation topic for an alias', () => {
+    expect(completeNamed('get_foundation', 'topic', 'a11y')).toEqual(['accessibility']);
+  });
+
+  it('should suggest enterprise topics independently of foundation topics', () => {
+    expect(completeNamed('get_enterprise', 'topic', 'da')).toEqual(['dashboard', 'data']);
+  });
+
+  it('should suggest the canonical enterprise topic for an alias', () => {
+    expect(completeNamed('get_enterprise', 'topic', 'kpi')).toEqual(['dashboard']);
+  });
+
+  it('should list every topic for an empty value', () => {
+    expect(completeNamed('get_enterprise', 'topic', '')).toHaveLength(5);
+  });
+});
+
+// ============================================================================
+// Resource templates
+// ============================================================================
+
+describe('completeArgument — resource templates', () => {
+  it('should suggest component names for the component template', () => {
+    expect(completeTemplate(COMPONENT_TEMPLATE_URI, 'name', 'card')[0]).toBe('Card');
+  });
+
+  it('should suggest document IDs for the document template', () => {
+    expect(completeTemplate(DOCUMENT_TEMPLATE_URI, 'documentId', 'foundation/th'))
+      .toEqual(['foundation/theming']);
+  });
+
+  it('should suggest the served version', () => {
+    expect(completeTemplate(COMPONENT_TEMPLATE_URI, 'version', '')).toEqual(['v9']);
+  });
+});
+
+// ============================================================================
+// Lint rules
+// ============================================================================
+
+describe('completeArgument — lint rules', () => {
+  it('should suggest lint rules for lint_docs', () => {
+    expect(completeNamed('lint_docs', 'rule', 'un')).toEqual(['unparseable-props-table', 'unresolved-see-also']);
+  });
+});
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+describe('completeArgument — versions', () => {
+  it('should complete the version argument of every tool', () => {
+    expect(completeNamed('reindex', 'version', '')).toEqual(['v9']);
+    expect(completeNamed('suggest_components', 'version', 'v')).toEqual(['v9']);
+  });
+
+  it('should fall back to the default version for an unknown filled-in version', () => {
+    expect(completeNamed('query_component', 'componentName', 'butt', { version: 'v7' }))
+      .toContain('Button');
+  });
+});
+
+// ============================================================================
+// Limits and unknown references
+// ============================================================================
+
+describe('completeArgument — limits and unknown references', () => {
+  it('should cap values and report the total', () => {
+    const completion = completeArgument(
+      { ref: { type: 'ref/resource', uri: DOCUMENT_TEMPLATE_URI }, argument: { name: 'documentId', value: '' } },
+      context
+    );
+    expect(completion.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(completion.total).toBe(store.size);
+    expect(completion.hasMore).toBe(true);
+  });
+
+  it('should return no values for an unknown reference', () => {
+    expect(completeNamed('no_such_tool', 'componentName', 'b')).toEqual([]);
+  });
+
+  it('should return no values for a free-text argument', () => {
+    expect(completeNamed('search_docs', 'query', 'b')).toEqual([]);
+  });
+});
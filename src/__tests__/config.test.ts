@@ -0,0 +1,306 @@
+/**
+ * Tests for the server configuration resolver.
+ *
+ * Validates version resolution and discovery, transport flag parsing (both `--flag value`
+ * and `--flag=value` forms), environment variable fallbacks, and validation
+ * of invalid transport options, the index cache directory options,
+ * watch mode, and the search ranking options.
+ *
+ * @module __tests__/config
+ */
+
+import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveConfig } from '../config.js';
+
+/** Environment variables the resolver reads — reset around every test */
+const CONFIG_ENV_VARS = [
+  'FLUENTUI_DOCS_PATH',
+  'FLUENTUI_DOCS_ROOT',
+  'FLUENTUI_VERSION',
+  'FLUENTUI_TRANSPORT',
+  'FLUENTUI_PORT',
+  'FLUENTUI_HOST',
+  'FLUENTUI_CACHE_DIR',
+  'XDG_CACHE_HOME',
+  'FLUENTUI_WATCH',
+  'FLUENTUI_RANKING',
+  'FLUENTUI_BM25_K1',
+  'FLUENTUI_BM25_B',
+];
+
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(() => {
+  savedEnv = {};
+  for (const name of CONFIG_ENV_VARS) {
+    savedEnv[name] = process.env[name];
+    delete process.env[name];
+  }
+});
+
+afterEach(() => {
+  for (const name of CONFIG_ENV_VARS) {
+    if (savedEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = savedEnv[name];
+    }
+  }
+});
+
+// ============================================================================
+// Version resolution
+// ============================================================================
+
+describe('resolveConfig — version', () => {
+  it('should default to v9 when no args are given', () => {
+    const config = resolveConfig([]);
+    expect(config.version).toBe('v9');
+    expect(config.serverName).toBe('fluentui-v9-docs');
+  });
+
+  it('should use the first positional argument as the version', () => {
+    const config = resolveConfig(['v9']);
+    expect(config.version).toBe('v9');
+    expect(config.docsPath).toMatch(/docs[/\\]v9$/);
+  });
+
+  it('should find the version positional after transport flags', () => {
+    const config = resolveConfig(['--transport', 'http', 'v9']);
+    expect(config.version).toBe('v9');
+  });
+
+  it('should throw when the version docs folder does not exist', () => {
+    expect(() => resolveConfig(['v999'])).toThrow('Documentation path not found');
+  });
+});
+
+// ============================================================================
+// Version discovery
+// ============================================================================
+
+describe('resolveConfig — version discovery', () => {
+  /** Temporary docs root with v8, v9, and v10 folders (plus a stray file) */
+  let docsRoot: string;
+
+  beforeAll(() => {
+    docsRoot = mkdtempSync(join(tmpdir(), 'fluentui-docs-'));
+    for (const version of ['v9', 'v10', 'v8']) {
+      mkdirSync(join(docsRoot, version));
+    }
+    writeFileSync(join(docsRoot, 'README.md'), '# Not a version');
+  });
+
+  afterAll(() => {
+    rmSync(docsRoot, { recursive: true, force: true });
+  });
+
+  it('should serve every bundled version folder', () => {
+    const config = resolveConfig([]);
+    expect(config.versions.map((v) => v.version)).toContain('v9');
+    expect(config.versions.find((v) => v.version === 'v9')?.docsPath).toBe(config.docsPath);
+  });
+
+  it('should discover every folder under FLUENTUI_DOCS_ROOT, sorted by version', () => {
+    process.env.FLUENTUI_DOCS_ROOT = docsRoot;
+    const config = resolveConfig([]);
+    expect(config.versions.map((v) => v.version)).toEqual(['v8', 'v9', 'v10']);
+    expect(config.versions[0].docsPath).toBe(join(docsRoot, 'v8'));
+  });
+
+  it('should use the version argument as the default version', () => {
+    process.env.FLUENTUI_DOCS_ROOT = docsRoot;
+    const config = resolveConfig(['v8']);
+    expect(config.version).toBe('v8');
+    expect(config.docsPath).toBe(join(docsRoot, 'v8'));
+    expect(config.versions).toHaveLength(3);
+  });
+
+  it('should list the available versions when the default is missing', () => {
+    process.env.FLUENTUI_DOCS_ROOT = docsRoot;
+    expect(() => resolveConfig(['v7'])).toThrow('Available versions: v8, v9, v10');
+  });
+
+  it('should serve only the default version from FLUENTUI_DOCS_PATH', () => {
+    process.env.FLUENTUI_DOCS_ROOT = docsRoot;
+    process.env.FLUENTUI_DOCS_PATH = join(docsRoot, 'v10');
+    const config = resolveConfig(['v10']);
+    expect(config.versions).toEqual([{ version: 'v10', docsPath: join(docsRoot, 'v10') }]);
+  });
+});
+
+// ============================================================================
+// Transport resolution
+// ============================================================================
+
+describe('resolveConfig — transport', () => {
+  it('should default to stdio with the default HTTP port and host', () => {
+    const config = resolveConfig([]);
+    expect(config.transport).toBe('stdio');
+    expect(config.httpPort).toBe(3333);
+    expect(config.httpHost).toBe('127.0.0.1');
+  });
+
+  it('should parse --transport and --port as separate arguments', () => {
+    const config = resolveConfig(['--transport', 'http', '--port', '4444']);
+    expect(config.transport).toBe('http');
+    expect(config.httpPort).toBe(4444);
+  });
+
+  it('should parse --flag=value syntax', () => {
+    const config = resolveConfig(['--transport=http', '--port=5555', '--host=0.0.0.0']);
+    expect(config.transport).toBe('http');
+    expect(config.httpPort).toBe(5555);
+    expect(config.httpHost).toBe('0.0.0.0');
+  });
+
+  it('should accept the transport name case-insensitively', () => {
+    expect(resolveConfig(['--transport', 'HTTP']).transport).toBe('http');
+  });
+
+  it('should fall back to environment variables', () => {
+    process.env.FLUENTUI_TRANSPORT = 'http';
+    process.env.FLUENTUI_PORT = '6666';
+    process.env.FLUENTUI_HOST = 'localhost';
+    const config = resolveConfig([]);
+    expect(config.transport).toBe('http');
+    expect(config.httpPort).toBe(6666);
+    expect(config.httpHost).toBe('localhost');
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    process.env.FLUENTUI_PORT = '6666';
+    expect(resolveConfig(['--port', '7777']).httpPort).toBe(7777);
+  });
+
+  it('should ignore unknown boolean flags', () => {
+    const config = resolveConfig(['--verbose', 'v9']);
+    expect(config.version).toBe('v9');
+    expect(config.transport).toBe('stdio');
+  });
+
+  it('should reject an unknown transport', () => {
+    expect(() => resolveConfig(['--transport', 'websocket'])).toThrow('Invalid transport');
+  });
+
+  it('should reject a non-numeric port', () => {
+    expect(() => resolveConfig(['--port', 'abc'])).toThrow('Invalid port');
+  });
+
+  it('should reject an out-of-range port', () => {
+    expect(() => resolveConfig(['--port', '70000'])).toThrow('Invalid port');
+  });
+
+  it('should reject a value flag with no value', () => {
+    expect(() => resolveConfig(['--port'])).toThrow('Missing value for --port');
+  });
+});
+
+// ============================================================================
+// Index cache
+// ============================================================================
+
+describe('resolveConfig — index cache', () => {
+  it('should default to fluentui-mcp under XDG_CACHE_HOME', () => {
+    process.env.XDG_CACHE_HOME = join(tmpdir(), 'xdg-cache');
+    expect(resolveConfig([]).cacheDir).toBe(join(tmpdir(), 'xdg-cache', 'fluentui-mcp'));
+  });
+
+  it('should default to ~/.cache/fluentui-mcp without XDG_CACHE_HOME', () => {
+    expect(resolveConfig([]).cacheDir).toMatch(/[\\/]\.cache[\\/]fluentui-mcp$/);
+  });
+
+  it('should use FLUENTUI_CACHE_DIR', () => {
+    process.env.FLUENTUI_CACHE_DIR = join(tmpdir(), 'env-cache');
+    expect(resolveConfig([]).cacheDir).toBe(join(tmpdir(), 'env-cache'));
+  });
+
+  it('should prefer --cache-dir over the environment variable', () => {
+    process.env.FLUENTUI_CACHE_DIR = join(tmpdir(), 'env-cache');
+    const config = resolveConfig(['--cache-dir', join(tmpdir(), 'cli-cache')]);
+    expect(config.cacheDir).toBe(join(tmpdir(), 'cli-cache'));
+  });
+
+  it('should disable the cache with --no-cache', () => {
+    process.env.FLUENTUI_CACHE_DIR = join(tmpdir(), 'env-cache');
+    expect(resolveConfig(['--no-cache']).cacheDir).toBeNull();
+  });
+
+  it('should not treat --no-cache as the version argument', () => {
+    const config = resolveConfig(['--no-cache', 'v9']);
+    expect(config.version).toBe('v9');
+    expect(config.cacheDir).toBeNull();
+  });
+});
+
+// ============================================================================
+// Watch mode
+// ============================================================================
+
+describe('resolveConfig — watch mode', () => {
+  it('should be off by default', () => {
+    expect(resolveConfig([]).watch).toBe(false);
+  });
+
+  it('should be enabled by --watch', () => {
+    const config = resolveConfig(['v9', '--watch']);
+    expect(config.watch).toBe(true);
+    expect(config.version).toBe('v9');
+  });
+
+  it('should be enabled by FLUENTUI_WATCH=1 or true', () => {
+    process.env.FLUENTUI_WATCH = '1';
+    expect(resolveConfig([]).watch).toBe(true);
+    process.env.FLUENTUI_WATCH = 'TRUE';
+    expect(resolveConfig([]).watch).toBe(true);
+  });
+
+  it('should stay off for other FLUENTUI_WATCH values', () => {
+    process.env.FLUENTUI_WATCH = '0';
+    expect(resolveConfig([]).watch).toBe(false);
+  });
+});
+
+// ============================================================================
+// Search ranking
+// ============================================================================
+
+describe('resolveConfig — search ranking', () => {
+  it('should default to TF-IDF with the standard BM25 parameters', () => {
+    expect(resolveConfig([]).ranking).toEqual({ model: 'tfidf', k1: 1.2, b: 0.75 });
+  });
+
+  it('should parse the ranking flags', () => {
+    const config = resolveConfig(['--ranking', 'bm25', '--bm25-k1=2', '--bm25-b', '0.3', 'v9']);
+    expect(config.ranking).toEqual({ model: 'bm25', k1: 2, b: 0.3 });
+    expect(config.version).toBe('v9');
+  });
+
+  it('should fall back to the environment variables', () => {
+    process.env.FLUENTUI_RANKING = 'BM25';
+    process.env.FLUENTUI_BM25_K1 = '0.9';
+    process.env.FLUENTUI_BM25_B = '1';
+    expect(resolveConfig([]).ranking).toEqual({ model: 'bm25', k1: 0.9, b: 1 });
+  });
+
+  it('should prefer the CLI flags over the environment variables', () => {
+    process.env.FLUENTUI_RANKING = 'bm25';
+    expect(resolveConfig(['--ranking=tfidf']).ranking.model).toBe('tfidf');
+  });
+
+  it('should reject an unknown ranking model', () => {
+    expect(() => resolveConfig(['--ranking', 'pagerank'])).toThrow(/Invalid ranking "pagerank"/);
+  });
+
+  it('should reject a negative or non-numeric k1', () => {
+    expect(() => resolveConfig(['--bm25-k1=-1'])).toThrow(/Invalid BM25 k1/);
+    expect(() => resolveConfig(['--bm25-k1', 'high'])).toThrow(/Invalid BM25 k1/);
+  });
+
+  it('should reject a b outside 0 to 1', () => {
+    expect(() => resolveConfig(['--bm25-b', '1.5'])).toThrow(/Invalid BM25 b/);
+  });
+});
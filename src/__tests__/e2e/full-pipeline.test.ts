@@ -3,7 +3,7 @@
  *
  * Tests the complete workflow: scan docs → build index → run tools.
  * Verifies that a fresh server startup produces a working system
- * where all 12 tools can be invoked successfully.
+ * where all 18 tools can be invoked successfully.
  *
  * @module __tests__/e2e/full-pipeline
  */
@@ -14,8 +14,11 @@ import { buildIndex } from '../../indexer/index-builder.js';
 import type { DocumentStore } from '../../indexer/document-store.js';
 import type { SearchEngine } from '../../indexer/search-engine.js';
 
-// Import all 12 tools
+// Import all 18 tools
 import { queryComponent } from '../../tools/query-component.js';
+import { getSection } from '../../tools/get-section.js';
+import { getOutline } from '../../tools/get-outline.js';
+import { getRelatedDocs } from '../../tools/get-related-docs.js';
 import { searchDocs } from '../../tools/search-docs.js';
 import { listByCategory } from '../../tools/list-by-category.js';
 import { getFoundation } from '../../tools/get-foundation.js';
@@ -25,7 +28,10 @@ import { suggestComponents } from '../../tools/suggest-components.js';
 import { getImplementationGuide } from '../../tools/get-implementation-guide.js';
 import { getComponentExamples } from '../../tools/get-component-examples.js';
 import { getPropsReference } from '../../tools/get-props-reference.js';
+import { validateUsage } from '../../tools/validate-usage.js';
+import { compareComponents } from '../../tools/compare-components.js';
 import { listAllDocs } from '../../tools/list-all-docs.js';
+import { lintDocs } from '../../tools/lint-docs.js';
 import { reindex } from '../../tools/reindex.js';
 
 /** Absolute path to the bundled v9 docs directory */
@@ -46,7 +52,7 @@ beforeAll(async () => {
 });
 
 // ============================================================================
-// E2E: All 12 tools return non-empty, non-error responses
+// E2E: All 18 tools return non-empty, non-error responses
 // ============================================================================
 
 describe('E2E: full pipeline — all tools work after fresh index', () => {
@@ -121,7 +127,43 @@ describe('E2E: full pipeline — all tools work after fresh index', () => {
     expect(result).toContain('Dialog');
   });
 
-  it('12. reindex rebuilds the index', async () => {
+  it('12. get_section returns one section of a document', () => {
+    const result = getSection(store, { docName: 'Dialog', heading: 'Accessibility' });
+    expect(result).toContain('## Accessibility');
+    expect(result).not.toContain('Error');
+  });
+
+  it('13. get_outline returns a document outline', () => {
+    const result = getOutline(store, { docName: 'Dialog' });
+    expect(result).toContain('# Outline: Dialog');
+    expect(result).toContain('tokens');
+  });
+
+  it('14. validate_usage reports invented props', () => {
+    const result = validateUsage(store, { code: '<Button variant="primary">Save</Button>' });
+    expect(result).toContain('unknown-prop');
+    expect(result).toContain('appearance');
+  });
+
+  it('15. lint_docs checks the doc shape', () => {
+    const result = lintDocs(store);
+    expect(result).toContain('# Docs Lint');
+    expect(result).not.toContain('Error');
+  });
+
+  it('16. get_related_docs lists backlinks', () => {
+    const result = getRelatedDocs(store, { docName: 'Field' });
+    expect(result).toContain('## Referenced By');
+    expect(result).toContain('`components/forms/input`');
+  });
+
+  it('17. compare_components compares components side by side', () => {
+    const result = compareComponents(store, { components: ['Select', 'Combobox'] });
+    expect(result).toContain('# Component Comparison: Select vs Combobox');
+    expect(result).toContain('## Shared Props');
+  });
+
+  it('18. reindex rebuilds the index', async () => {
     const result = await reindex(store, searchEngine, DOCS_V9_PATH);
     expect(result).toContain('Reindex Complete');
     // Tools should still work after reindex
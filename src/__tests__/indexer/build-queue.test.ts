@@ -0,0 +1,46 @@
+/**
+ * Tests for the build queue that serializes the builds of a docs version.
+ *
+ * Validates that builds run one at a time in queue order, and that a
+ * failed build neither blocks the queue nor leaks into later builds.
+ *
+ * @module __tests__/indexer/build-queue
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BuildQueue } from '../../indexer/build-queue.js';
+
+/**
+ * Wait for a fixed time.
+ *
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+}
+
+describe('BuildQueue', () => {
+  it('should run builds one at a time, in queue order', async () => {
+    const queue = new BuildQueue();
+    const events: string[] = [];
+    const build = (name: string, ms: number) => async (): Promise<string> => {
+      events.push(`start ${name}`);
+      await sleep(ms);
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([queue.run(build('a', 20)), queue.run(build('b', 0))]);
+    expect(results).toEqual(['a', 'b']);
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('should pass a failed build to its caller and keep running later builds', async () => {
+    const queue = new BuildQueue();
+    const failed = queue.run(() => Promise.reject(new Error('scan failed')));
+    const next = queue.run(() => Promise.resolve('rebuilt'));
+
+    await expect(failed).rejects.toThrow('scan failed');
+    await expect(next).resolves.toBe('rebuilt');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the docs linter.
+ *
+ * Builds a small temporary docs tree with one document per kind of
+ * violation (and one that follows the doc shape), and validates each rule.
+ *
+ * @module __tests__/indexer/docs-linter
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildIndex } from '../../indexer/index-builder.js';
+import { lintDocuments } from '../../indexer/docs-linter.js';
+import type { LintRule, LintViolation } from '../../types/index.js';
+import { writeDoc } from '../tools/docs-setup.js';
+
+/** The fixture docs, by path relative to the docs root */
+const FIXTURE_DOCS: Record<string, string> = {
+  '02-components/buttons/button.md': [
+    '# Button',
+    '',
+    "> **Package**: `@fluentui/react-button`",
+    '',
+    '## Overview',
+    '',
+    'Triggers an action.',
+    '',
+    '---',
+    '',
+    '## Props Reference',
+    '',
+    '| Prop | Type | Default | Description |',
+    '|------|------|---------|-------------|',
+    "| `size` | `'small' \\| 'medium'` | `'medium'` | Size |",
+    '',
+    '### Slots',
+    '',
+    '| Slot | Element | Description |',
+    '|------|---------|-------------|',
+    '| `icon` | `<span>` | Icon |',
+    '',
+    '## Accessibility',
+    '',
+    '### Keyboard',
+    '',
+    'Enter and Space activate it.',
+    '',
+    '## See Also',
+    '',
+    '- [Input](../forms/input.md) - Text entry',
+    '- [Forms](../forms/) - All form components',
+    '- [Usage](#overview) - Above',
+    '- [Fluent](https://react.fluentui.dev) - Storybook',
+  ].join('\n'),
+  '02-components/forms/00-forms-index.md': [
+    '# Forms',
+    '',
+    'Every form component.',
+  ].join('\n'),
+  '02-components/forms/input.md': [
+    '# Input',
+    '',
+    '## Overview',
+    '',
+    'Single-line text entry.',
+    '',
+    '## Usage',
+    '',
+    '---',
+    '',
+    '## Props Reference',
+    '',
+    '| Name | Description |',
+    '|------|-------------|',
+    '| `value` | The value |',
+    '',
+    '## See Also',
+    '',
+    '- [Textarea](textarea.md) - Multi-line text entry',
+  ].join('\n'),
+  '02-components/forms/text-input.md': [
+    '# Input',
+    '',
+    "> **Package**: `@fluentui/react-input`",
+    '',
+    'A second document titled Input, sized like [Button](../buttons/button.md#sizes)',
+    'and opening a [Popover](../overlay/popover.md).',
+    '',
+    '## Props Reference',
+    '',
+    'See the Input props.',
+  ].join('\n'),
+};
+
+let docsPath: string;
+let violations: LintViolation[];
+
+beforeAll(async () => {
+  docsPath = mkdtempSync(join(tmpdir(), 'fluentui-lint-'));
+  for (const [relativePath, content] of Object.entries(FIXTURE_DOCS)) {
+    writeDoc(docsPath, relativePath, content);
+  }
+  const { store } = await buildIndex(docsPath);
+  violations = lintDocuments(store);
+});
+
+afterAll(() => {
+  rmSync(docsPath, { recursive: true, force: true });
+});
+
+/**
+ * Find the violations of one rule.
+ *
+ * @param rule - The rule
+ * @returns The rule's violations
+ */
+function violationsOf(rule: LintRule): LintViolation[] {
+  return violations.filter((violation) => violation.rule === rule);
+}
+
+// ============================================================================
+// Documents following the doc shape
+// ============================================================================
+
+describe('lintDocuments — valid documents', () => {
+  it('should not report a document that follows the doc shape', () => {
+    expect(violations.filter((violation) => violation.relativePath === '02-components/buttons/button.md')).toEqual([]);
+  });
+
+  it('should order violations by document path', () => {
+    const paths = violations.map((violation) => violation.relativePath);
+    expect(paths).toEqual([...paths].sort());
+  });
+});
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+describe('lintDocuments — rules', () => {
+  it('should report component docs without a package', () => {
+    expect(violationsOf('missing-package')).toEqual([expect.objectContaining({
+      docId: 'components/forms/input',
+      relativePath: '02-components/forms/input.md',
+      section: null,
+    })]);
+  });
+
+  it('should not require a package of category index pages', () => {
+    expect(violations.some((violation) => violation.relativePath.endsWith('00-forms-index.md'))).toBe(false);
+  });
+
+  it('should report props tables the props parser cannot read', () => {
+    const [tableViolation, noTableViolation] = violationsOf('unparseable-props-table');
+    expect(tableViolation).toMatchObject({ relativePath: '02-components/forms/input.md', section: 'Props Reference' });
+    expect(tableViolation.message).toContain('has columns Name | Description');
+    expect(noTableViolation).toMatchObject({ relativePath: '02-components/forms/text-input.md' });
+    expect(noTableViolation.message).toContain('no markdown table');
+  });
+
+  it('should report See Also links to files that are not indexed', () => {
+    const [violation, ...others] = violationsOf('unresolved-see-also');
+    expect(others).toEqual([]);
+    expect(violation).toMatchObject({ relativePath: '02-components/forms/input.md', section: 'Input › See Also' });
+    expect(violation.message).toContain('textarea.md (02-components/forms/textarea.md)');
+  });
+
+  it('should report other links to missing files or headings as broken links', () => {
+    const [anchorViolation, fileViolation, ...others] = violationsOf('broken-link');
+    expect(others).toEqual([]);
+    expect(anchorViolation).toMatchObject({ relativePath: '02-components/forms/text-input.md', section: 'Input' });
+    expect(anchorViolation.message).toContain('02-components/buttons/button.md has no heading with anchor "sizes"');
+    expect(fileViolation.message).toContain('../overlay/popover.md (02-components/overlay/popover.md)');
+  });
+
+  it('should report titles that find another document in the name index', () => {
+    const [violation, ...others] = violationsOf('duplicate-title');
+    expect(others).toEqual([]);
+    expect(violation.message).toMatch(/Title "Input" resolves to 02-components\/forms\/(text-)?input\.md/);
+  });
+
+  it('should report headings without content, counting thematic breaks as empty', () => {
+    expect(violationsOf('empty-section')).toEqual([expect.objectContaining({
+      relativePath: '02-components/forms/input.md',
+      section: 'Input › Usage',
+      message: '"Usage" has no content.',
+    })]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for the docs watcher used by `--watch` mode.
+ *
+ * Watches a small temporary docs tree and validates that markdown changes
+ * trigger a single debounced, incremental reindex, that a reindex waits
+ * for other builds of the version, and that a closed watcher stops
+ * reindexing.
+ *
+ * @module __tests__/indexer/docs-watcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildIndex } from '../../indexer/index-builder.js';
+import type { IndexResult } from '../../indexer/index-builder.js';
+import { watchDocs } from '../../indexer/docs-watcher.js';
+import { BuildQueue } from '../../indexer/build-queue.js';
+import type { DocsWatcherHandle } from '../../indexer/docs-watcher.js';
+import { DocumentStore } from '../../indexer/document-store.js';
+import { SearchEngine } from '../../indexer/search-engine.js';
+import { writeDoc } from '../tools/docs-setup.js';
+
+/** Debounce period used by the tests */
+const DEBOUNCE_MS = 50;
+
+/** How long to wait for a reindex that is expected to happen */
+const REINDEX_TIMEOUT_MS = 5000;
+
+let docsPath: string;
+let store: DocumentStore;
+let searchEngine: SearchEngine;
+let watcher: DocsWatcherHandle | null;
+let results: IndexResult[];
+let buildQueue: BuildQueue;
+
+beforeEach(async () => {
+  docsPath = mkdtempSync(join(tmpdir(), 'fluentui-watch-'));
+  writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button.\n');
+  store = new DocumentStore();
+  searchEngine = new SearchEngine();
+  await buildIndex(docsPath, store, searchEngine);
+  watcher = null;
+  results = [];
+  buildQueue = new BuildQueue();
+});
+
+afterEach(() => {
+  watcher?.close();
+  rmSync(docsPath, { recursive: true, force: true });
+});
+
+/**
+ * Start watching the temporary docs tree, recording every reindex.
+ *
+ * @returns A promise resolving with the first reindex result
+ */
+function startWatching(): Promise<IndexResult> {
+  return new Promise((resolvePromise, rejectPromise) => {
+    const timeout = setTimeout(
+      () => rejectPromise(new Error('No reindex happened')),
+      REINDEX_TIMEOUT_MS
+    );
+    watcher = watchDocs({
+      docsPath,
+      store,
+      searchEngine,
+      buildQueue,
+      debounceMs: DEBOUNCE_MS,
+      onReindex: (result) => {
+        results.push(result);
+        clearTimeout(timeout);
+        resolvePromise(result);
+      },
+      onError: rejectPromise,
+    });
+  });
+}
+
+/**
+ * Wait for a fixed time.
+ *
+ * @param ms - Milliseconds to wait
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+}
+
+// ============================================================================
+// Reindexing on changes
+// ============================================================================
+
+describe('watchDocs', () => {
+  it('should reindex when a markdown file is added', async () => {
+    const reindexed = startWatching();
+    writeDoc(docsPath, '02-components/overlays/dialog.md', '# Dialog\n\nA modal window.\n');
+
+    const { changes } = await reindexed;
+    expect(changes.added).toEqual(['components/overlays/dialog']);
+    expect(store.findByName('Dialog')).toBeDefined();
+    expect(searchEngine.search('modal')[0]?.document.title).toBe('Dialog');
+  });
+
+  it('should reindex a modified file incrementally', async () => {
+    const reindexed = startWatching();
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button with an icon.\n');
+
+    const { changes } = await reindexed;
+    expect(changes.changed).toEqual(['components/buttons/button']);
+    expect(searchEngine.search('icon')[0]?.document.title).toBe('Button');
+  });
+
+  it('should reindex when a markdown file is deleted', async () => {
+    const reindexed = startWatching();
+    rmSync(join(docsPath, '02-components/buttons/button.md'));
+
+    const { changes } = await reindexed;
+    expect(changes.deleted).toEqual(['components/buttons/button']);
+    expect(store.size).toBe(0);
+  });
+
+  it('should debounce a burst of changes into one reindex', async () => {
+    const reindexed = startWatching();
+    writeDoc(docsPath, '02-components/overlays/dialog.md', '# Dialog\n');
+    writeDoc(docsPath, '02-components/overlays/popover.md', '# Popover\n');
+
+    const { changes } = await reindexed;
+    await sleep(DEBOUNCE_MS * 4);
+    expect(changes.added).toEqual(['components/overlays/dialog', 'components/overlays/popover']);
+    expect(results).toHaveLength(1);
+  });
+
+  it('should wait for a build already running on the build queue', async () => {
+    let finishBuild!: () => void;
+    const running = buildQueue.run(
+      () => new Promise<void>((resolvePromise) => (finishBuild = resolvePromise))
+    );
+    const reindexed = startWatching();
+    writeDoc(docsPath, '02-components/overlays/dialog.md', '# Dialog\n');
+
+    await sleep(DEBOUNCE_MS * 4);
+    expect(results).toHaveLength(0);
+
+    finishBuild();
+    await running;
+    const { changes } = await reindexed;
+    expect(changes.added).toEqual(['components/overlays/dialog']);
+  });
+
+  it('should stop reindexing once closed', async () => {
+    startWatching().catch(() => {
+      // No reindex is expected after closing
+    });
+    watcher!.close();
+    writeDoc(docsPath, '02-components/overlays/dialog.md', '# Dialog\n');
+
+    await sleep(DEBOUNCE_MS * 4);
+    expect(results).toHaveLength(0);
+    expect(store.findByName('Dialog')).toBeUndefined();
+  });
+});
@@ -32,6 +32,11 @@ function createTestDoc(overrides: Partial<DocumentEntry> = {}): DocumentEntry {
     module: 'components',
     category: 'buttons',
     metadata: createTestMetadata(),
+    outline: [],
+    props: [],
+    slots: [],
+    inheritsPropsFrom: [],
+    links: [],
   };
   return { ...defaults, ...overrides };
 }
@@ -50,6 +55,12 @@ function createTestMetadata(overrides: Partial<DocumentMetadata> = {}): Document
     seeAlso: [],
     hasPropsTable: true,
     hasCodeExamples: true,
+    aliases: [],
+    tags: [],
+    status: null,
+    since: null,
+    deprecated: false,
+    deprecationNote: null,
   };
   return { ...defaults, ...overrides };
 }
@@ -189,6 +200,105 @@ describe('DocumentStore — findByName', () => {
   it('should return undefined when no name matches', () => {
     expect(store.findByName('nonexistent-widget')).toBeUndefined();
   });
+
+  it('should find a document by a frontmatter alias', () => {
+    store.addDocument(createTestDoc({
+      id: 'components/overlays/dialog',
+      title: 'Dialog',
+      relativePath: '02-components/overlays/dialog.md',
+      metadata: createTestMetadata({ aliases: ['Modal Window'] }),
+    }));
+    expect(store.findByName('modal window')?.title).toBe('Dialog');
+    expect(store.findByName('modalwindow')?.title).toBe('Dialog');
+  });
+
+  it('should not let an alias take over another document\'s title', () => {
+    store.addDocument(createTestDoc({
+      id: 'components/buttons/compound-button',
+      title: 'CompoundButton',
+      relativePath: '02-components/buttons/compound-button.md',
+      metadata: createTestMetadata({ aliases: ['Button'] }),
+    }));
+    expect(store.findByName('button')?.title).toBe('Button');
+  });
+});
+
+// ============================================================================
+// Typo-tolerant name matching (matchName)
+// ============================================================================
+
+describe('DocumentStore — matchName', () => {
+  let store: DocumentStore;
+
+  beforeEach(() => {
+    store = createPopulatedStore();
+  });
+
+  it('should report an exact, prefix, or substring match as uncorrected', () => {
+    expect(store.matchName('button')).toMatchObject({ corrected: false });
+    expect(store.matchName('toggle')).toMatchObject({ corrected: false });
+  });
+
+  it('should correct a misspelled name', () => {
+    const match = store.matchName('buton');
+    expect(match?.document.title).toBe('Button');
+    expect(match?.corrected).toBe(true);
+  });
+
+  it('should correct swapped letters', () => {
+    expect(store.matchName('toggelbutton')?.document.title).toBe('ToggleButton');
+  });
+
+  it('should let findByName find misspelled names', () => {
+    expect(store.findByName('themign')?.title).toBe('Theming');
+  });
+
+  it('should not correct short names', () => {
+    expect(store.matchName('btn')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Name completion (completeName)
+// ============================================================================
+
+describe('DocumentStore — completeName', () => {
+  let store: DocumentStore;
+
+  beforeEach(() => {
+    store = createPopulatedStore();
+  });
+
+  it('should return every document whose name matches the partial name', () => {
+    const titles = store.completeName('b').map((doc) => doc.title);
+    expect(titles).toEqual(['Basic Forms', 'Button', 'ToggleButton']);
+  });
+
+  it('should rank prefix matches before substring matches', () => {
+    const titles = store.completeName('button').map((doc) => doc.title);
+    expect(titles).toEqual(['Button', 'ToggleButton']);
+  });
+
+  it('should normalize the partial name like findByName', () => {
+    const titles = store.completeName('  TOGGLE ').map((doc) => doc.title);
+    expect(titles).toEqual(['ToggleButton']);
+  });
+
+  it('should restrict matches to a module', () => {
+    const docs = store.completeName('', 'components');
+    expect(docs).toHaveLength(3);
+    expect(docs.every((doc) => doc.module === 'components')).toBe(true);
+  });
+
+  it('should list each document only once', () => {
+    const ids = store.completeName('').map((doc) => doc.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toHaveLength(5);
+  });
+
+  it('should return an empty array when nothing matches', () => {
+    expect(store.completeName('zzz')).toEqual([]);
+  });
 });
 
 // ============================================================================
@@ -243,3 +353,56 @@ describe('DocumentStore — category and module indexing', () => {
     expect(compModule!.count).toBe(3);
   });
 });
+
+// ============================================================================
+// Link graph
+// ============================================================================
+
+describe('DocumentStore — getLinkGraph', () => {
+  /** A link from Input to Button */
+  const linkToButton = {
+    text: 'Button',
+    target: '../buttons/button.md',
+    section: 'Input › See Also',
+    path: '02-components/buttons/button.md',
+    anchor: null,
+  };
+
+  it('should resolve the links of the stored documents', () => {
+    const store = new DocumentStore();
+    store.addDocument(createTestDoc());
+    store.addDocument(createTestDoc({
+      id: 'components/forms/input',
+      title: 'Input',
+      relativePath: '02-components/forms/input.md',
+      links: [linkToButton],
+    }));
+
+    expect(store.getLinkGraph().getBacklinks('components/buttons/button')).toEqual([
+      { docId: 'components/forms/input', title: 'Input', text: 'Button', section: 'Input › See Also', anchor: null },
+    ]);
+  });
+
+  it('should rebuild the graph after documents are added', () => {
+    const store = new DocumentStore();
+    store.addDocument(createTestDoc({
+      id: 'components/forms/input',
+      title: 'Input',
+      relativePath: '02-components/forms/input.md',
+      links: [linkToButton],
+    }));
+    expect(store.getLinkGraph().getLinks('components/forms/input')[0].status).toBe('missing-file');
+
+    store.addDocument(createTestDoc());
+    expect(store.getLinkGraph().getLinks('components/forms/input')[0].status).toBe('ok');
+  });
+
+  it('should rebuild the graph after the store is cleared', () => {
+    const store = createPopulatedStore();
+    const graph = store.getLinkGraph();
+    expect(store.getLinkGraph()).toBe(graph);
+
+    store.clear();
+    expect(store.getLinkGraph()).not.toBe(graph);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for the YAML frontmatter parser.
+ *
+ * Validates delimiter detection, scalar quoting, inline and block lists,
+ * block scalars, comments, and the string/list accessors.
+ *
+ * @module __tests__/indexer/frontmatter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseFrontmatter,
+  getFrontmatterString,
+  getFrontmatterList,
+} from '../../indexer/frontmatter.js';
+
+// ============================================================================
+// Delimiters and body
+// ============================================================================
+
+describe('parseFrontmatter — delimiters', () => {
+  it('should split the frontmatter from the body', () => {
+    const { data, body } = parseFrontmatter('---\ntitle: Button\n---\n# Button\n');
+    expect(data).toEqual({ title: 'Button' });
+    expect(body).toBe('# Button\n');
+  });
+
+  it('should return the whole document without frontmatter', () => {
+    const content = '# Button\n\ntitle: not frontmatter\n';
+    expect(parseFrontmatter(content)).toEqual({ data: {}, body: content });
+  });
+
+  it('should ignore a frontmatter block that is never closed', () => {
+    const content = '---\ntitle: Button\n# Button\n';
+    expect(parseFrontmatter(content)).toEqual({ data: {}, body: content });
+  });
+
+  it('should not treat a horizontal rule later in the document as frontmatter', () => {
+    expect(parseFrontmatter('# Title\n\n---\n\ntext\n').data).toEqual({});
+  });
+
+  it('should accept "..." as the closing delimiter', () => {
+    expect(parseFrontmatter('---\ntitle: Button\n...\nbody').data.title).toBe('Button');
+  });
+
+  it('should handle CRLF line endings and a byte order mark', () => {
+    const { data } = parseFrontmatter('\uFEFF---\r\ntitle: Button\r\n---\r\n# Button\r\n');
+    expect(data.title).toBe('Button');
+  });
+});
+
+// ============================================================================
+// Values
+// ============================================================================
+
+describe('parseFrontmatter — values', () => {
+  it('should unquote single- and double-quoted scalars', () => {
+    const { data } = parseFrontmatter(`---\na: "x: y"\nb: 'it''s'\n---\n`);
+    expect(data.a).toBe('x: y');
+    expect(data.b).toBe("it's");
+  });
+
+  it('should keep numbers as strings', () => {
+    expect(parseFrontmatter('---\nsince: 9.10\n---\n').data.since).toBe('9.10');
+  });
+
+  it('should lowercase keys', () => {
+    expect(parseFrontmatter('---\nTitle: Button\n---\n').data.title).toBe('Button');
+  });
+
+  it('should parse inline lists, respecting quoted commas', () => {
+    const { data } = parseFrontmatter('---\naliases: [A, "B, C", \'D\']\n---\n');
+    expect(data.aliases).toEqual(['A', 'B, C', 'D']);
+  });
+
+  it('should parse block lists, indented or not', () => {
+    const { data } = parseFrontmatter('---\ntags:\n  - one\n- two\nnext: x\n---\n');
+    expect(data.tags).toEqual(['one', 'two']);
+    expect(data.next).toBe('x');
+  });
+
+  it('should strip comments outside quotes', () => {
+    const { data } = parseFrontmatter('---\n# a comment\nstatus: stable # since 9.0\nnote: "a # b"\n---\n');
+    expect(data.status).toBe('stable');
+    expect(data.note).toBe('a # b');
+  });
+
+  it('should join literal and folded block scalars', () => {
+    const { data } = parseFrontmatter('---\nliteral: |\n  line one\n  line two\nfolded: >\n  line one\n  line two\n---\n');
+    expect(data.literal).toBe('line one\nline two');
+    expect(data.folded).toBe('line one line two');
+  });
+
+  it('should skip nested mappings', () => {
+    const { data } = parseFrontmatter('---\nextra:\n  nested: value\ntitle: Button\n---\n');
+    expect(data.title).toBe('Button');
+    expect(data).not.toHaveProperty('nested');
+  });
+});
+
+// ============================================================================
+// Accessors
+// ============================================================================
+
+describe('getFrontmatterString / getFrontmatterList', () => {
+  it('should return null for a missing or empty string value', () => {
+    expect(getFrontmatterString({}, 'title')).toBeNull();
+    expect(getFrontmatterString({ title: '  ' }, 'title')).toBeNull();
+  });
+
+  it('should join a list when a string is requested', () => {
+    expect(getFrontmatterString({ package: ['a', 'b'] }, 'package')).toBe('a, b');
+  });
+
+  it('should split a comma-separated scalar into a list', () => {
+    expect(getFrontmatterList({ tags: 'forms, actions' }, 'tags')).toEqual(['forms', 'actions']);
+  });
+
+  it('should return an empty list for a missing key', () => {
+    expect(getFrontmatterList({}, 'tags')).toEqual([]);
+  });
+});
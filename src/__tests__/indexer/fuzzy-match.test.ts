@@ -0,0 +1,88 @@
+/**
+ * Tests for typo-tolerant term matching.
+ *
+ * Validates the length-dependent edit distance bound, the bounded edit
+ * distance (including adjacent transpositions), and closest-candidate lookup.
+ *
+ * @module __tests__/indexer/fuzzy-match
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMaxEditDistance,
+  boundedEditDistance,
+  findClosestMatches,
+} from '../../indexer/fuzzy-match.js';
+
+// ============================================================================
+// Edit distance bound
+// ============================================================================
+
+describe('getMaxEditDistance', () => {
+  it('should never correct terms shorter than 4 characters', () => {
+    expect(getMaxEditDistance('tab')).toBe(0);
+  });
+
+  it('should allow one edit for terms of 4 to 7 characters', () => {
+    expect(getMaxEditDistance('buton')).toBe(1);
+    expect(getMaxEditDistance('comobox')).toBe(1);
+  });
+
+  it('should allow two edits for terms of 8 characters or more', () => {
+    expect(getMaxEditDistance('datagird')).toBe(2);
+  });
+});
+
+// ============================================================================
+// Bounded edit distance
+// ============================================================================
+
+describe('boundedEditDistance', () => {
+  it('should be 0 for equal strings', () => {
+    expect(boundedEditDistance('dialog', 'dialog', 2)).toBe(0);
+  });
+
+  it('should count insertions, deletions, and substitutions', () => {
+    expect(boundedEditDistance('comobox', 'combobox', 2)).toBe(1);
+    expect(boundedEditDistance('buttton', 'button', 2)).toBe(1);
+    expect(boundedEditDistance('dialog', 'dialag', 2)).toBe(1);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    expect(boundedEditDistance('datagird', 'datagrid', 2)).toBe(1);
+  });
+
+  it('should return one more than the bound when the distance exceeds it', () => {
+    expect(boundedEditDistance('button', 'dialog', 2)).toBe(3);
+    expect(boundedEditDistance('tab', 'tabs-and-more', 1)).toBe(2);
+  });
+});
+
+// ============================================================================
+// Closest matches
+// ============================================================================
+
+describe('findClosestMatches', () => {
+  it('should return the candidates at the smallest distance', () => {
+    expect(findClosestMatches('datagird', ['datagrid', 'datagrids', 'dialog'])).toEqual([
+      { candidate: 'datagrid', distance: 1 },
+    ]);
+  });
+
+  it('should return every candidate tied at the smallest distance', () => {
+    expect(findClosestMatches('cart', ['card', 'care', 'carts']).map((m) => m.candidate))
+      .toEqual(['card', 'care', 'carts']);
+  });
+
+  it('should skip exact matches', () => {
+    expect(findClosestMatches('button', ['button'])).toEqual([]);
+  });
+
+  it('should not correct short terms', () => {
+    expect(findClosestMatches('tav', ['tab'])).toEqual([]);
+  });
+
+  it('should return nothing when no candidate is close enough', () => {
+    expect(findClosestMatches('xyzzy', ['button', 'dialog'])).toEqual([]);
+  });
+});
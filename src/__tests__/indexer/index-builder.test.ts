@@ -2,16 +2,20 @@
  * Tests for the index builder module.
  *
  * Validates the full indexing pipeline: scan → read → extract → store → search.
- * Uses the real docs/v9/ directory for integration-level testing.
+ * Uses the real docs/v9/ directory for integration-level testing, and a
+ * small temporary docs tree for the incremental change report.
  *
  * @module __tests__/indexer/index-builder
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import { buildIndex } from '../../indexer/index-builder.js';
 import { DocumentStore } from '../../indexer/document-store.js';
 import { SearchEngine } from '../../indexer/search-engine.js';
+import { writeDoc } from '../tools/docs-setup.js';
 
 /** Absolute path to the bundled v9 docs directory */
 const DOCS_V9_PATH = join(process.cwd(), 'docs', 'v9');
@@ -95,3 +99,98 @@ describe('buildIndex — reindex with existing instances', () => {
     expect(results.length).toBeGreaterThan(0);
   });
 });
+
+// ============================================================================
+// Incremental reindex tests
+// ============================================================================
+
+describe('buildIndex — incremental reindex', () => {
+  let docsPath: string;
+  let store: DocumentStore;
+  let engine: SearchEngine;
+
+  beforeEach(async () => {
+    docsPath = mkdtempSync(join(tmpdir(), 'fluentui-reindex-'));
+    writeDoc(docsPath, '01-foundation/01-theming.md', '# Theming\n\nDesign tokens.\n');
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button.\n');
+    store = new DocumentStore();
+    engine = new SearchEngine();
+    await buildIndex(docsPath, store, engine);
+  });
+
+  afterEach(() => {
+    rmSync(docsPath, { recursive: true, force: true });
+  });
+
+  it('should report every document as added on the first build', async () => {
+    const { changes } = await buildIndex(docsPath);
+    expect(changes.added).toEqual(['components/buttons/button', 'foundation/theming']);
+    expect(changes.changed).toEqual([]);
+    expect(changes.deleted).toEqual([]);
+  });
+
+  it('should report no changes and reuse every file when nothing changed', async () => {
+    const { changes, stats } = await buildIndex(docsPath, store, engine);
+    expect(changes).toEqual({ added: [], changed: [], deleted: [] });
+    expect(stats.cachedFiles).toBe(2);
+  });
+
+  it('should report added, changed, and deleted documents', async () => {
+    writeDoc(docsPath, '02-components/overlays/dialog.md', '# Dialog\n\nA modal window.\n');
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button with an icon.\n');
+    rmSync(join(docsPath, '01-foundation/01-theming.md'));
+
+    const { changes, stats } = await buildIndex(docsPath, store, engine);
+    expect(changes.added).toEqual(['components/overlays/dialog']);
+    expect(changes.changed).toEqual(['components/buttons/button']);
+    expect(changes.deleted).toEqual(['foundation/theming']);
+    expect(stats.cachedFiles).toBe(0);
+  });
+
+  it('should make changed content searchable', async () => {
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button with an icon.\n');
+    await buildIndex(docsPath, store, engine);
+    expect(engine.search('icon')[0]?.document.id).toBe('components/buttons/button');
+    expect(store.findByName('Theming')).toBeDefined();
+  });
+
+  it('should apply frontmatter title and category to the entry', async () => {
+    writeDoc(docsPath, '02-components/buttons/button.md', '---\ntitle: Action Button\ncategory: actions\n---\n# Button\n');
+    writeDoc(docsPath, '01-foundation/01-theming.md', '---\ncategory: actions\n---\n# Theming\n');
+    await buildIndex(docsPath, store, engine);
+    const button = store.getById('components/buttons/button');
+    expect(button?.title).toBe('Action Button');
+    expect(button?.category).toBe('actions');
+    expect(store.getById('foundation/theming')?.category).toBeNull();
+  });
+
+  it('should store the outline on the entry', async () => {
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\n## Usage\n\n```tsx\n<Button />\n```\n');
+    await buildIndex(docsPath, store, engine);
+    const [button] = store.getById('components/buttons/button')!.outline;
+    expect(button.heading).toBe('Button');
+    expect(button.children.map((node) => node.anchor)).toEqual(['usage']);
+    expect(button.children[0].hasCode).toBe(true);
+  });
+
+  it('should store the props and slots on the entry', async () => {
+    writeDoc(
+      docsPath,
+      '02-components/buttons/button.md',
+      '# Button\n\n## Props\n\n| Prop | Type | Default | Description |\n|---|---|---|---|\n' +
+      '| `size` | `\'small\' \\| \'large\'` | - | Size |\n\n' +
+      '| Slot | Element | Description |\n|---|---|---|\n| `icon` | `<span>` | Icon |\n'
+    );
+    await buildIndex(docsPath, store, engine);
+    const button = store.getById('components/buttons/button')!;
+    expect(button.props.map((prop) => [prop.name, prop.type])).toEqual([['size', "'small' | 'large'"]]);
+    expect(button.slots.map((slot) => slot.name)).toEqual(['icon']);
+  });
+
+  it('should re-parse every file when forced but still report changes', async () => {
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button with an icon.\n');
+    const { changes, stats } = await buildIndex(docsPath, store, engine, { force: true });
+    expect(stats.cachedFiles).toBe(0);
+    expect(changes.changed).toEqual(['components/buttons/button']);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the persistent index cache.
+ *
+ * Validates that unchanged files are reused from the cache, changed and
+ * deleted files are picked up, and that corrupt, outdated, or foreign
+ * caches fall back to a full rebuild. Uses a small temporary docs tree.
+ *
+ * @module __tests__/indexer/index-cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  mkdtempSync,
+  mkdirSync,
+  writeFileSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  existsSync,
+  utimesSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { buildIndex } from '../../indexer/index-builder.js';
+import {
+  getCacheFilePath,
+  loadIndexCache,
+  saveIndexCache,
+  INDEX_CACHE_VERSION,
+} from '../../indexer/index-cache.js';
+import { writeDoc } from '../tools/docs-setup.js';
+
+/** Markdown files of the temporary docs tree, keyed by relative path */
+const DOCS_FILES: Record<string, string> = {
+  '01-foundation/01-theming.md': '# Theming\n\nDesign tokens and themes.\n',
+  '02-components/buttons/button.md': '# Button\n\nA clickable button.\n',
+  '02-components/overlays/dialog.md': '# Dialog\n\nA modal dialog window.\n',
+};
+
+let rootDir: string;
+let docsPath: string;
+let cacheFile: string;
+
+beforeEach(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'fluentui-cache-'));
+  docsPath = join(rootDir, 'docs');
+  cacheFile = getCacheFilePath(join(rootDir, 'cache'), docsPath);
+  for (const [relativePath, content] of Object.entries(DOCS_FILES)) {
+    writeDoc(docsPath, relativePath, content);
+  }
+});
+
+afterEach(() => {
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+/**
+ * Build the index of the temporary docs tree with the cache enabled.
+ *
+ * @returns The index result
+ */
+function build(): ReturnType<typeof buildIndex> {
+  return buildIndex(docsPath, undefined, undefined, { cacheFile });
+}
+
+// ============================================================================
+// Cache file location
+// ============================================================================
+
+describe('getCacheFilePath', () => {
+  it('should name the cache file after the docs path', () => {
+    expect(getCacheFilePath('/cache', '/docs/v9')).toMatch(/[\\/]index-[0-9a-f]{16}\.json$/);
+  });
+
+  it('should use different files for different docs paths', () => {
+    expect(getCacheFilePath('/cache', '/docs/v8')).not.toBe(getCacheFilePath('/cache', '/docs/v9'));
+  });
+});
+
+// ============================================================================
+// Reuse and invalidation
+// ============================================================================
+
+describe('buildIndex — index cache', () => {
+  it('should write the cache on the first build', async () => {
+    const { stats } = await build();
+    expect(stats.cachedFiles).toBe(0);
+    expect(existsSync(cacheFile)).toBe(true);
+    expect((await loadIndexCache(cacheFile, docsPath)).size).toBe(3);
+  });
+
+  it('should reuse every unchanged file on the next build', async () => {
+    await build();
+    const { stats, store } = await build();
+    expect(stats.cachedFiles).toBe(3);
+    expect(stats.indexedFiles).toBe(3);
+    expect(store.findByName('Button')?.title).toBe('Button');
+  });
+
+  it('should keep cached documents searchable', async () => {
+    await build();
+    const { searchEngine } = await build();
+    expect(searchEngine.search('modal')[0]?.document.title).toBe('Dialog');
+  });
+
+  it('should reprocess a file whose content changed', async () => {
+    await build();
+    writeDoc(docsPath, '02-components/buttons/button.md', '# Button\n\nA clickable button with a tooltip hint.\n');
+    const { stats, searchEngine } = await build();
+    expect(stats.cachedFiles).toBe(2);
+    expect(searchEngine.search('tooltip')[0]?.document.title).toBe('Button');
+  });
+
+  it('should reuse a touched file whose content hash is unchanged', async () => {
+    await build();
+    const future = new Date(Date.now() + 60_000);
+    utimesSync(join(docsPath, '01-foundation/01-theming.md'), future, future);
+    const { stats } = await build();
+    expect(stats.cachedFiles).toBe(3);
+  });
+
+  it('should drop deleted files from the index and the cache', async () => {
+    await build();
+    rmSync(join(docsPath, '02-components/overlays/dialog.md'));
+    const { store } = await build();
+    expect(store.size).toBe(2);
+    expect((await loadIndexCache(cacheFile, docsPath)).has('02-components/overlays/dialog.md')).toBe(false);
+  });
+
+  it('should remove its temporary file when a save fails', async () => {
+    await build();
+    const files = [...(await loadIndexCache(cacheFile, docsPath)).values()];
+    rmSync(cacheFile);
+    mkdirSync(join(cacheFile, 'blocked'), { recursive: true });
+    await expect(saveIndexCache(cacheFile, docsPath, files)).rejects.toThrow();
+    expect(readdirSync(dirname(cacheFile)).filter((file) => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('should not use a cache when no cache file is given', async () => {
+    await build();
+    const { stats } = await buildIndex(docsPath);
+    expect(stats.cachedFiles).toBe(0);
+  });
+});
+
+// ============================================================================
+// Unusable caches
+// ============================================================================
+
+describe('buildIndex — unusable index cache', () => {
+  it('should rebuild from a corrupt cache', async () => {
+    await build();
+    writeFileSync(cacheFile, '{ not json');
+    const { stats } = await build();
+    expect(stats.cachedFiles).toBe(0);
+    expect(stats.indexedFiles).toBe(3);
+  });
+
+  it('should rebuild from a cache with another version', async () => {
+    await build();
+    const data = JSON.parse(readFileSync(cacheFile, 'utf-8'));
+    expect(data.cacheVersion).toBe(INDEX_CACHE_VERSION);
+    writeFileSync(cacheFile, JSON.stringify({ ...data, cacheVersion: 'outdated' }));
+    const { stats } = await build();
+    expect(stats.cachedFiles).toBe(0);
+  });
+
+  it('should ignore a cache built from another docs folder', async () => {
+    await build();
+    expect((await loadIndexCache(cacheFile, join(rootDir, 'other-docs'))).size).toBe(0);
+  });
+
+  it('should still index when the cache cannot be written', async () => {
+    writeFileSync(join(rootDir, 'cache'), 'a file, not a directory');
+    const { stats } = await build();
+    expect(stats.indexedFiles).toBe(3);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for the link graph.
+ *
+ * Validates link extraction (internal links only, outside code, with their
+ * section and resolved path) and the graph built from it: target
+ * resolution, broken links, and backlinks.
+ *
+ * @module __tests__/indexer/link-graph
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractLinks, LinkGraph } from '../../indexer/link-graph.js';
+import type { DocumentEntry } from '../../types/index.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+/**
+ * Create a DocumentEntry with its links extracted from its content.
+ *
+ * @param relativePath - Path relative to the docs root
+ * @param content - Markdown content
+ * @returns A complete DocumentEntry
+ */
+function createDoc(relativePath: string, content: string): DocumentEntry {
+  const id = relativePath.replace(/\d+-/g, '').replace(/\.md$/, '');
+  return {
+    id,
+    title: content.match(/^# (.+)$/m)?.[1] ?? id,
+    content,
+    filePath: `/docs/v9/${relativePath}`,
+    relativePath,
+    module: 'components',
+    category: null,
+    metadata: {
+      packageName: null,
+      importStatement: null,
+      description: null,
+      seeAlso: [],
+      hasPropsTable: false,
+      hasCodeExamples: false,
+      aliases: [],
+      tags: [],
+      status: null,
+      since: null,
+      deprecated: false,
+      deprecationNote: null,
+    },
+    outline: [],
+    props: [],
+    slots: [],
+    inheritsPropsFrom: [],
+    links: extractLinks(content, relativePath),
+  };
+}
+
+const FIELD = createDoc('02-components/forms/field.md', [
+  '# Field',
+  '',
+  '## Validation',
+  '',
+  'Shows messages.',
+].join('\n'));
+
+const INPUT = createDoc('02-components/forms/input.md', [
+  '# Input',
+  '',
+  'Wrap it in a [Field](field.md#validation) for validation messages.',
+  '',
+  '## See Also',
+  '',
+  '- [Field](field.md)',
+  '- [Forms](./)',
+  '- [Button](../buttons/button.md)',
+  '- [Field labels](field.md#labels)',
+  '- [Top](#input)',
+].join('\n'));
+
+const CHECKBOX = createDoc('02-components/forms/checkbox.md', [
+  '# Checkbox',
+  '',
+  '## See Also',
+  '',
+  '- [Field](field.md)',
+].join('\n'));
+
+// ============================================================================
+// extractLinks
+// ============================================================================
+
+describe('extractLinks', () => {
+  it('should extract links with their section and resolved path', () => {
+    expect(extractLinks('# Input\n\n## See Also\n\n- [Field](../forms/field.md#usage)', '02-components/forms/input.md'))
+      .toEqual([{
+        text: 'Field',
+        target: '../forms/field.md#usage',
+        section: 'Input › See Also',
+        path: '02-components/forms/field.md',
+        anchor: 'usage',
+      }]);
+  });
+
+  it('should resolve same-document anchors to the document itself', () => {
+    const [link] = extractLinks('# Input\n\nSee [Usage](#usage).', '02-components/forms/input.md');
+    expect(link).toMatchObject({ path: '02-components/forms/input.md', anchor: 'usage' });
+  });
+
+  it('should resolve root-relative links against the docs root', () => {
+    const [link] = extractLinks('# Input\n\nSee [Theming](/01-foundation/02-theming.md).', '02-components/forms/input.md');
+    expect(link.path).toBe('01-foundation/02-theming.md');
+  });
+
+  it('should skip external links and images', () => {
+    const content = [
+      '# Input',
+      '',
+      '[Storybook](https://react.fluentui.dev) [Mail](mailto:team@example.com)',
+      '![Screenshot](./input.png)',
+    ].join('\n');
+    expect(extractLinks(content, '02-components/forms/input.md')).toEqual([]);
+  });
+
+  it('should skip links inside code blocks and inline code', () => {
+    const content = [
+      '# Input',
+      '',
+      '```tsx',
+      'const link = "[Field](field.md)";',
+      '```',
+      '',
+      'Write `[Field](field.md)` to link.',
+    ].join('\n');
+    expect(extractLinks(content, '02-components/forms/input.md')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// LinkGraph
+// ============================================================================
+
+describe('LinkGraph', () => {
+  const graph = new LinkGraph([FIELD, INPUT, CHECKBOX]);
+
+  it('should resolve links to documents, headings, and folders', () => {
+    const links = graph.getLinks(INPUT.id);
+    expect(links.map((link) => [link.text, link.docId, link.status])).toEqual([
+      ['Field', FIELD.id, 'ok'],
+      ['Field', FIELD.id, 'ok'],
+      ['Forms', null, 'ok'],
+      ['Button', null, 'missing-file'],
+      ['Field labels', FIELD.id, 'missing-anchor'],
+      ['Top', INPUT.id, 'ok'],
+    ]);
+  });
+
+  it('should list backlinks from other documents, by linking document', () => {
+    expect(graph.getBacklinks(FIELD.id)).toEqual([
+      { docId: CHECKBOX.id, title: 'Checkbox', text: 'Field', section: 'Checkbox › See Also', anchor: null },
+      { docId: INPUT.id, title: 'Input', text: 'Field', section: 'Input', anchor: 'validation' },
+      { docId: INPUT.id, title: 'Input', text: 'Field', section: 'Input › See Also', anchor: null },
+    ]);
+  });
+
+  it('should not count broken links or links to the document itself as backlinks', () => {
+    expect(graph.getBacklinks(INPUT.id)).toEqual([]);
+  });
+
+  it('should return no links for unknown documents', () => {
+    expect(graph.getLinks('components/unknown')).toEqual([]);
+    expect(graph.getBacklinks('components/unknown')).toEqual([]);
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Validates extraction of titles, package names, import statements,
  * descriptions, see-also references, code blocks, props sections,
- * and content indicators from markdown documents.
+ * content indicators, and YAML frontmatter from markdown documents.
  *
  * @module __tests__/indexer/metadata-extractor
  */
@@ -12,6 +12,7 @@ import { describe, it, expect } from 'vitest';
 import {
   extractMetadata,
   extractTitle,
+  extractCategory,
   extractCodeBlocks,
   extractPropsSection,
 } from '../../indexer/metadata-extractor.js';
@@ -201,6 +202,98 @@ describe('extractMetadata', () => {
   });
 });
 
+// ============================================================================
+// Frontmatter tests
+// ============================================================================
+
+/** Component doc whose frontmatter overrides the blockquote metadata */
+const FRONTMATTER_DOC = `---
+title: Primary Button
+aliases: [PrimaryButton, "Call to action"]
+package: "@fluentui/react-primary-button"
+import: import { PrimaryButton } from '@fluentui/react-components'
+category: Data Display
+tags:
+  - actions
+  - forms
+status: preview
+since: 9.10
+deprecated: Use Button with appearance="primary" instead
+---
+${FULL_COMPONENT_DOC}`;
+
+describe('extractMetadata — frontmatter', () => {
+  it('should prefer the frontmatter title over the first heading', () => {
+    expect(extractTitle(FRONTMATTER_DOC)).toBe('Primary Button');
+  });
+
+  it('should prefer frontmatter package and import over blockquotes', () => {
+    const metadata = extractMetadata(FRONTMATTER_DOC);
+    expect(metadata.packageName).toBe('@fluentui/react-primary-button');
+    expect(metadata.importStatement).toBe("import { PrimaryButton } from '@fluentui/react-components'");
+  });
+
+  it('should parse aliases and tags as lists', () => {
+    const metadata = extractMetadata(FRONTMATTER_DOC);
+    expect(metadata.aliases).toEqual(['PrimaryButton', 'Call to action']);
+    expect(metadata.tags).toEqual(['actions', 'forms']);
+  });
+
+  it('should keep status and since as strings', () => {
+    const metadata = extractMetadata(FRONTMATTER_DOC);
+    expect(metadata.status).toBe('preview');
+    expect(metadata.since).toBe('9.10');
+  });
+
+  it('should keep a textual deprecated value as the deprecation note', () => {
+    const metadata = extractMetadata(FRONTMATTER_DOC);
+    expect(metadata.deprecated).toBe(true);
+    expect(metadata.deprecationNote).toBe('Use Button with appearance="primary" instead');
+  });
+
+  it('should treat deprecated: true as a flag without a note', () => {
+    const metadata = extractMetadata('---\ndeprecated: true\n---\n# Old\n');
+    expect(metadata.deprecated).toBe(true);
+    expect(metadata.deprecationNote).toBeNull();
+  });
+
+  it('should treat status: deprecated as deprecated', () => {
+    expect(extractMetadata('---\nstatus: deprecated\n---\n# Old\n').deprecated).toBe(true);
+  });
+
+  it('should not be deprecated for deprecated: false', () => {
+    expect(extractMetadata('---\ndeprecated: false\n---\n# New\n').deprecated).toBe(false);
+  });
+
+  it('should still run the heuristics on the markdown after the frontmatter', () => {
+    const metadata = extractMetadata(FRONTMATTER_DOC);
+    expect(metadata.description).toContain('Button is the primary interactive element');
+    expect(metadata.hasPropsTable).toBe(true);
+  });
+
+  it('should not take a frontmatter line as the description', () => {
+    const metadata = extractMetadata('---\ntags: [a]\n---\nJust a paragraph.\n');
+    expect(metadata.description).toBe('Just a paragraph.');
+  });
+
+  it('should default the frontmatter fields without frontmatter', () => {
+    const metadata = extractMetadata(MINIMAL_DOC);
+    expect(metadata.aliases).toEqual([]);
+    expect(metadata.tags).toEqual([]);
+    expect(metadata.status).toBeNull();
+    expect(metadata.since).toBeNull();
+    expect(metadata.deprecated).toBe(false);
+  });
+
+  it('should take the category from frontmatter as a folder-style name', () => {
+    expect(extractCategory(FRONTMATTER_DOC, 'buttons')).toBe('data-display');
+  });
+
+  it('should fall back to the given category without frontmatter', () => {
+    expect(extractCategory(FULL_COMPONENT_DOC, 'buttons')).toBe('buttons');
+  });
+});
+
 // ============================================================================
 // extractCodeBlocks tests
 // ============================================================================
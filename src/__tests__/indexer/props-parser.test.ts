@@ -0,0 +1,198 @@
+/**
+ * Tests for the props and slots table parser.
+ *
+ * Validates table parsing (including escaped pipes), prop and slot
+ * definitions, required/deprecated detection, and which tables are read.
+ *
+ * @module __tests__/indexer/props-parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractPropDefinitions,
+  parseMarkdownTables,
+  extractPropTables,
+} from '../../indexer/props-parser.js';
+
+/** A props section with a props table and a slots table */
+const BUTTON_DOC = [
+  '# Button',
+  '',
+  '## Props Reference',
+  '',
+  '| Prop | Type | Default | Description |',
+  '|------|------|---------|-------------|',
+  "| `appearance` | `'secondary' \\| 'primary'` | `'secondary'` | Visual style |",
+  '| `disabled` | `boolean` | `false` | Whether the button is disabled |',
+  '| `icon` | `Slot<\'span\'>` | - | Icon element |',
+  '',
+  '### Slots',
+  '',
+  '| Slot | Element | Description |',
+  '|------|---------|-------------|',
+  '| `root` | `<button>` or `<a>` | Root element |',
+  '',
+  '## Usage',
+  '',
+  '| Prop | Type | Default | Description |',
+  '|------|------|---------|-------------|',
+  '| `outside` | `string` | - | Not in the props section |',
+].join('\n');
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+describe('parseMarkdownTables', () => {
+  it('should parse rows keyed by column header', () => {
+    const tables = parseMarkdownTables('| Prop | Type |\n|---|---|\n| `size` | `string` |');
+    expect(tables).toEqual([
+      { heading: null, columns: ['Prop', 'Type'], rows: [{ Prop: '`size`', Type: '`string`' }] },
+    ]);
+  });
+
+  it('should not split cells at escaped pipes', () => {
+    const [table] = parseMarkdownTables("| Prop | Type |\n|---|---|\n| `size` | `'small' \\| 'large'` |");
+    expect(table.rows[0].Type).toBe("`'small' | 'large'`");
+  });
+
+  it('should label tables with the nearest heading above them', () => {
+    const tables = parseMarkdownTables(BUTTON_DOC);
+    expect(tables.map((table) => table.heading)).toEqual(['Props Reference', 'Slots', 'Usage']);
+  });
+
+  it('should skip tables without data rows', () => {
+    expect(parseMarkdownTables('| Prop | Type |\n|---|---|\n')).toEqual([]);
+  });
+});
+
+describe('extractPropTables', () => {
+  it('should keep prop-like tables only', () => {
+    const content = '| Prop | Type |\n|---|---|\n| a | b |\n\n| Key | Action |\n|---|---|\n| Tab | Move |\n';
+    expect(extractPropTables(content)).toEqual(['| Prop | Type |\n|---|---|\n| a | b |']);
+  });
+});
+
+// ============================================================================
+// Props
+// ============================================================================
+
+describe('extractPropDefinitions — props', () => {
+  it('should parse props with unwrapped names, types, and defaults', () => {
+    const { props } = extractPropDefinitions(BUTTON_DOC);
+    expect(props[0]).toEqual({
+      name: 'appearance',
+      type: "'secondary' | 'primary'",
+      default: "'secondary'",
+      description: 'Visual style',
+      required: false,
+      deprecated: false,
+      component: null,
+    });
+  });
+
+  it('should read a dash as no default', () => {
+    const { props } = extractPropDefinitions(BUTTON_DOC);
+    expect(props.find((prop) => prop.name === 'icon')?.default).toBeNull();
+  });
+
+  it('should only read tables in the props section when there is one', () => {
+    const { props } = extractPropDefinitions(BUTTON_DOC);
+    expect(props.map((prop) => prop.name)).toEqual(['appearance', 'disabled', 'icon']);
+  });
+
+  it('should take the component from headings outside a props section', () => {
+    const content = '## Option Props\n\n| Prop | Type | Default | Description |\n|---|---|---|---|\n' +
+      '| `value` | `string` | required | Option value |\n';
+    expect(extractPropDefinitions(content).props[0].component).toBe('Option');
+  });
+
+  it('should fall back to prop-like tables without a props section', () => {
+    const content = '# Tree\n\n| Prop | Type | Description |\n|---|---|---|\n| `items` | `Item[]` | Tree items |\n';
+    const { props } = extractPropDefinitions(content);
+    expect(props).toEqual([
+      {
+        name: 'items',
+        type: 'Item[]',
+        default: null,
+        description: 'Tree items',
+        required: false,
+        deprecated: false,
+        component: null,
+      },
+    ]);
+  });
+
+  it('should mark props with a "required" default as required', () => {
+    const content = '## Props\n\n| Prop | Type | Default | Description |\n|---|---|---|---|\n' +
+      '| `value` | `string` | **required** | Option value |\n';
+    const [prop] = extractPropDefinitions(content).props;
+    expect(prop.required).toBe(true);
+    expect(prop.default).toBeNull();
+  });
+
+  it('should mark props whose description says "(required)" as required', () => {
+    const content = '## Props\n\n| Prop | Type | Description |\n|---|---|---|\n| `id` | `string` | The id (required) |\n';
+    expect(extractPropDefinitions(content).props[0].required).toBe(true);
+  });
+
+  it('should mark struck-through or deprecated props as deprecated', () => {
+    const content = '## Props\n\n| Prop | Type | Description |\n|---|---|---|\n' +
+      '| ~~`size`~~ | `string` | Old size |\n| `shape` | `string` | Deprecated: use appearance |\n';
+    const { props } = extractPropDefinitions(content);
+    expect(props.map((prop) => [prop.name, prop.deprecated])).toEqual([['size', true], ['shape', true]]);
+  });
+
+  it('should take the component from a "<Component> Props" heading', () => {
+    const content = '## Dialog Props\n\n| Prop | Type | Description |\n|---|---|---|\n| `open` | `boolean` | Open |\n\n' +
+      '## DialogSurface Props Reference\n\n| Prop | Type | Description |\n|---|---|---|\n| `as` | `\'div\'` | Element |\n';
+    const { props } = extractPropDefinitions(content);
+    expect(props.map((prop) => [prop.name, prop.component])).toEqual([['open', 'Dialog'], ['as', 'DialogSurface']]);
+  });
+
+  it('should ignore tables without a Type column', () => {
+    const content = '## Props\n\n| Prop | Description |\n|---|---|\n| `size` | Size |\n';
+    expect(extractPropDefinitions(content).props).toEqual([]);
+  });
+
+  it('should ignore frontmatter', () => {
+    const content = '---\ntitle: Button\n---\n' + BUTTON_DOC;
+    expect(extractPropDefinitions(content).props).toHaveLength(3);
+  });
+});
+
+// ============================================================================
+// Inheritance
+// ============================================================================
+
+describe('extractPropDefinitions — inheritance', () => {
+  it('should name a linked component the props are inherited from', () => {
+    const content = '## Props Reference\n\nInherits all [Button props](button.md) plus:\n';
+    expect(extractPropDefinitions(content).inheritsPropsFrom).toEqual(['Button']);
+  });
+
+  it('should name every component in the inherits line', () => {
+    const content = '## Props Reference\n\nInherits Button and MenuButton props, plus:\n';
+    expect(extractPropDefinitions(content).inheritsPropsFrom).toEqual(['Button', 'MenuButton']);
+  });
+
+  it('should inherit nothing without an inherits line', () => {
+    expect(extractPropDefinitions(BUTTON_DOC).inheritsPropsFrom).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Slots
+// ============================================================================
+
+describe('extractPropDefinitions — slots', () => {
+  it('should parse slots with their element and description', () => {
+    expect(extractPropDefinitions(BUTTON_DOC).slots).toEqual([
+      { name: 'root', element: '`<button>` or `<a>`', description: 'Root element', component: null },
+    ]);
+  });
+
+  it('should return no props or slots for a document without tables', () => {
+    expect(extractPropDefinitions('# Theming\n\nSome text.')).toEqual({ props: [], slots: [], inheritsPropsFrom: [] });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the search query parser.
+ *
+ * Validates plain words, quoted phrases, required and excluded modifiers,
+ * field filters, OR groups, and writing a parsed query back as text.
+ *
+ * @module __tests__/indexer/query-parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseQuery, formatQuery, isValidFilter } from '../../indexer/query-parser.js';
+
+// ============================================================================
+// Elements
+// ============================================================================
+
+describe('parseQuery — elements', () => {
+  it('should parse plain words as optional terms', () => {
+    expect(parseQuery('form validation').groups).toEqual([
+      {
+        elements: [
+          { text: 'form', phrase: false, modifier: 'optional' },
+          { text: 'validation', phrase: false, modifier: 'optional' },
+        ],
+        filters: [],
+      },
+    ]);
+  });
+
+  it('should parse a quoted phrase as a required phrase', () => {
+    expect(parseQuery('"controlled vs uncontrolled"').groups[0].elements).toEqual([
+      { text: 'controlled vs uncontrolled', phrase: true, modifier: 'required' },
+    ]);
+  });
+
+  it('should parse + and - prefixes', () => {
+    expect(parseQuery('+form -dialog -"form dialog"').groups[0].elements).toEqual([
+      { text: 'form', phrase: false, modifier: 'required' },
+      { text: 'dialog', phrase: false, modifier: 'excluded' },
+      { text: 'form dialog', phrase: true, modifier: 'excluded' },
+    ]);
+  });
+
+  it('should keep hyphens inside words', () => {
+    expect(parseQuery('aria-label').groups[0].elements).toEqual([
+      { text: 'aria-label', phrase: false, modifier: 'optional' },
+    ]);
+  });
+
+  it('should run an unterminated quote to the end of the query', () => {
+    expect(parseQuery('"focus trap').groups[0].elements).toEqual([
+      { text: 'focus trap', phrase: true, modifier: 'required' },
+    ]);
+  });
+
+  it('should skip empty phrases', () => {
+    expect(parseQuery('"" button').groups[0].elements).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+describe('parseQuery — filters', () => {
+  it('should parse field:value filters apart from the words', () => {
+    expect(parseQuery('category:forms has:props validation').groups).toEqual([
+      {
+        elements: [{ text: 'validation', phrase: false, modifier: 'optional' }],
+        filters: [
+          { field: 'category', value: 'forms', negated: false },
+          { field: 'has', value: 'props', negated: false },
+        ],
+      },
+    ]);
+  });
+
+  it('should parse every filter field', () => {
+    const { filters } = parseQuery(
+      'category:forms package:@fluentui/react-table has:examples module:patterns title:menu'
+    ).groups[0];
+    expect(filters.map((filter) => `${filter.field}=${filter.value}`)).toEqual([
+      'category=forms',
+      'package=@fluentui/react-table',
+      'has=examples',
+      'module=patterns',
+      'title=menu',
+    ]);
+  });
+
+  it('should negate a filter with -', () => {
+    expect(parseQuery('-has:props').groups[0].filters).toEqual([
+      { field: 'has', value: 'props', negated: true },
+    ]);
+  });
+
+  it('should accept a quoted filter value', () => {
+    expect(parseQuery('title:"date picker"').groups[0].filters).toEqual([
+      { field: 'title', value: 'date picker', negated: false },
+    ]);
+  });
+
+  it('should accept filter names in any case', () => {
+    expect(parseQuery('Category:forms').groups[0].filters[0].field).toBe('category');
+  });
+
+  it('should keep a group of filters only', () => {
+    expect(parseQuery('has:props').groups).toEqual([
+      { elements: [], filters: [{ field: 'has', value: 'props', negated: false }] },
+    ]);
+  });
+
+  it('should treat unknown field names as words', () => {
+    const [group] = parseQuery('aria:label').groups;
+    expect(group.filters).toEqual([]);
+    expect(group.elements).toEqual([{ text: 'aria:label', phrase: false, modifier: 'optional' }]);
+  });
+
+  it('should skip filters without a value', () => {
+    expect(parseQuery('title:"" button').groups[0].filters).toEqual([]);
+  });
+
+  it('should keep filters within their OR group', () => {
+    const { groups } = parseQuery('category:forms OR module:patterns');
+    expect(groups.map((group) => group.filters.map((filter) => filter.field))).toEqual([
+      ['category'],
+      ['module'],
+    ]);
+  });
+});
+
+describe('isValidFilter', () => {
+  it('should accept the known has: values in any case', () => {
+    expect(isValidFilter({ field: 'has', value: 'examples', negated: false })).toBe(true);
+    expect(isValidFilter({ field: 'has', value: 'Props', negated: false })).toBe(true);
+  });
+
+  it('should reject unknown has: values', () => {
+    expect(isValidFilter({ field: 'has', value: 'tests', negated: false })).toBe(false);
+  });
+
+  it('should accept any value for other fields', () => {
+    expect(isValidFilter({ field: 'category', value: 'anything', negated: false })).toBe(true);
+  });
+});
+
+// ============================================================================
+// OR groups
+// ============================================================================
+
+describe('parseQuery — OR', () => {
+  it('should split the query into groups at OR', () => {
+    const { groups } = parseQuery('+dialog modal OR +drawer');
+    expect(groups.map((group) => group.elements.map((element) => element.text))).toEqual([
+      ['dialog', 'modal'],
+      ['drawer'],
+    ]);
+  });
+
+  it('should treat lowercase "or" as a word', () => {
+    expect(parseQuery('dialog or drawer').groups).toHaveLength(1);
+  });
+
+  it('should drop empty groups', () => {
+    expect(parseQuery('OR dialog OR OR drawer OR').groups).toHaveLength(2);
+  });
+
+  it('should return no groups for an empty query', () => {
+    expect(parseQuery('   ').groups).toEqual([]);
+  });
+});
+
+// ============================================================================
+// formatQuery
+// ============================================================================
+
+describe('formatQuery', () => {
+  it('should write a parsed query back as equivalent text', () => {
+    const query = '+dialog -"form dialog" modal OR "aria-label"';
+    expect(formatQuery(parseQuery(query))).toBe(query);
+  });
+
+  it('should write filters after the words of their group', () => {
+    expect(formatQuery(parseQuery('has:props -title:"date picker" validation OR menu')))
+      .toBe('validation has:props -title:"date picker" OR menu');
+  });
+
+  it('should normalize whitespace and redundant modifiers', () => {
+    expect(formatQuery(parseQuery('  +"focus trap"   tabs '))).toBe('"focus trap" tabs');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Ranking regression suite for the bundled v9 documentation.
+ *
+ * Runs real queries against `docs/v9` with both ranking models and pins
+ * the results that matter: the document a user is looking for must stay
+ * on top, and the places where BM25 ranks differently from TF-IDF are
+ * recorded so a scoring change that moves them is noticed.
+ *
+ * When the docs themselves change, update the expectations here after
+ * checking that the new ranking still makes sense.
+ *
+ * @module __tests__/indexer/ranking-regression
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { SearchEngine } from '../../indexer/search-engine.js';
+import { getTestIndex } from '../tools/tools-setup.js';
+
+/** TF-IDF engine over the v9 docs (the shared test index) */
+let tfidf: SearchEngine;
+
+/** BM25 engine over the same v9 documents */
+let bm25: SearchEngine;
+
+beforeAll(async () => {
+  const { store, searchEngine } = await getTestIndex();
+  tfidf = searchEngine;
+  bm25 = new SearchEngine({ model: 'bm25' });
+  bm25.buildIndex(store.getAllDocuments());
+});
+
+/**
+ * Get the titles of the top results for a query.
+ *
+ * @param engine - The engine to search
+ * @param query - The search query
+ * @param limit - Number of results
+ * @returns Result titles, best first
+ */
+function topTitles(engine: SearchEngine, query: string, limit: number = 5): string[] {
+  return engine.search(query, limit).map((result) => result.document.title);
+}
+
+/**
+ * Get the relevance of a document in the results for a query.
+ *
+ * @param engine - The engine to search
+ * @param query - The search query
+ * @param title - Title of the document
+ * @returns The document's relevance, or -1 if it is not in the top 10
+ */
+function relevanceOf(engine: SearchEngine, query: string, title: string): number {
+  return engine.search(query, 10).find((result) => result.document.title === title)?.relevance ?? -1;
+}
+
+// ============================================================================
+// Shared expectations
+// ============================================================================
+
+describe('ranking regression — top result', () => {
+  /** Queries whose best answer does not depend on the ranking model */
+  const TOP_RESULTS: Array<[query: string, title: string]> = [
+    ['button', 'Button'],
+    ['dialog', 'Dialog'],
+    ['tooltip', 'Tooltip'],
+    ['drawer', 'Drawer'],
+    ['checkbox', 'Checkbox'],
+    ['input', 'Input'],
+    ['tree', 'Tree'],
+    ['tabs', 'Tabs'],
+    ['date picker', 'Date & Time Pickers'],
+    ['form validation', 'Form Validation Patterns'],
+    ['table sorting', 'Table Sorting'],
+    ['spin button', 'SpinButton'],
+    ['toast notification', 'Toast'],
+    ['accessibility keyboard', 'Enterprise Accessibility: Keyboard & Focus Management'],
+    ['makeStyles', 'Quick Reference: Styling & Tokens'],
+  ];
+
+  for (const [query, title] of TOP_RESULTS) {
+    it(`should rank "${title}" first for "${query}" with both models`, () => {
+      expect(topTitles(tfidf, query, 1)).toEqual([title]);
+      expect(topTitles(bm25, query, 1)).toEqual([title]);
+    });
+  }
+});
+
+// ============================================================================
+// Ranking changes
+// ============================================================================
+
+describe('ranking regression — BM25 changes', () => {
+  it('should move the filtering pattern above the table basics for "table sorting"', () => {
+    expect(topTitles(tfidf, 'table sorting')).toEqual([
+      'Table Sorting',
+      'Table Basics',
+      'Table Selection',
+      'Data-Heavy Apps: Filtering & Sorting',
+      'Table & DataGrid Components',
+    ]);
+    expect(topTitles(bm25, 'table sorting')).toEqual([
+      'Table Sorting',
+      'Data-Heavy Apps: Filtering & Sorting',
+      'Table Basics',
+      'Table Selection',
+      'Admin Interface: CRUD Data Tables',
+    ]);
+  });
+
+  it('should rank the loading pattern above the cheatsheet for "spin button"', () => {
+    expect(topTitles(tfidf, 'spin button')).toEqual([
+      'SpinButton',
+      'Spinner',
+      'Button',
+      'Quick Reference: Component Cheatsheet',
+      'Loading States Pattern',
+    ]);
+    expect(topTitles(bm25, 'spin button')).toEqual([
+      'SpinButton',
+      'Spinner',
+      'Button',
+      'Loading States Pattern',
+      'Quick Reference: Component Cheatsheet',
+    ]);
+  });
+
+  it('should swap the basic form structure for the registration pattern for "form validation"', () => {
+    expect(topTitles(tfidf, 'form validation')).toEqual([
+      'Form Validation Patterns',
+      'Form Patterns',
+      'Form Library Integration',
+      'Multi-Step Form Patterns',
+      'Basic Form Structure',
+    ]);
+    expect(topTitles(bm25, 'form validation')).toEqual([
+      'Form Validation Patterns',
+      'Form Patterns',
+      'Form Library Integration',
+      'Multi-Step Form Patterns',
+      'Registration Form Pattern',
+    ]);
+  });
+
+  it('should bring the filtering pattern close to Combobox for "combobox filtering"', () => {
+    expect(topTitles(bm25, 'combobox filtering', 2)).toEqual([
+      'Combobox',
+      'Data-Heavy Apps: Filtering & Sorting',
+    ]);
+    expect(relevanceOf(bm25, 'combobox filtering', 'Data-Heavy Apps: Filtering & Sorting'))
+      .toBeGreaterThan(relevanceOf(bm25, 'combobox filtering', 'Combobox') * 0.8);
+    expect(relevanceOf(tfidf, 'combobox filtering', 'Data-Heavy Apps: Filtering & Sorting'))
+      .toBeLessThan(relevanceOf(tfidf, 'combobox filtering', 'Combobox') * 0.5);
+  });
+});
+
+// ============================================================================
+// Relevance percentages
+// ============================================================================
+
+describe('ranking regression — relevance', () => {
+  it('should give an exact component match a majority relevance with BM25', () => {
+    for (const query of ['button', 'dialog', 'tooltip', 'checkbox', 'tabs']) {
+      expect(bm25.search(query, 1)[0].relevance).toBeGreaterThanOrEqual(50);
+    }
+  });
+
+  it('should score the dialog pattern docs much closer to Dialog with BM25', () => {
+    const pattern = 'Basic Dialog Patterns - FluentUI v9';
+    const bm25Ratio = relevanceOf(bm25, 'dialog', pattern) / relevanceOf(bm25, 'dialog', 'Dialog');
+    const tfidfRatio = relevanceOf(tfidf, 'dialog', pattern) / relevanceOf(tfidf, 'dialog', 'Dialog');
+    expect(bm25Ratio).toBeGreaterThan(0.5);
+    expect(tfidfRatio).toBeLessThan(0.5);
+  });
+
+  it('should give multi-term matches meaningful relevance with BM25', () => {
+    expect(relevanceOf(tfidf, 'accessibility keyboard', 'Enterprise Accessibility: Keyboard & Focus Management'))
+      .toBeLessThan(10);
+    expect(relevanceOf(bm25, 'accessibility keyboard', 'Enterprise Accessibility: Keyboard & Focus Management'))
+      .toBeGreaterThan(30);
+  });
+
+  it('should keep weak matches at a low relevance with BM25', () => {
+    const results = bm25.search('tree', 5);
+    expect(results[0].relevance).toBeGreaterThanOrEqual(50);
+    for (const result of results.slice(1)) {
+      expect(result.relevance).toBeLessThan(10);
+    }
+  });
+});
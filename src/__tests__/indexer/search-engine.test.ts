@@ -2,14 +2,16 @@
  * Tests for the SearchEngine class.
  *
  * Validates TF-IDF search, tokenization, field-weighted scoring,
- * module filtering, result limiting, and excerpt extraction.
+ * module filtering, result limiting, excerpt extraction, the
+ * BM25 ranking model, typo tolerance, query syntax, filters, and
+ * code search.
  *
  * @module __tests__/indexer/search-engine
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SearchEngine } from '../../indexer/search-engine.js';
-import type { DocumentEntry, DocumentMetadata } from '../../types/index.js';
+import type { DocumentEntry, DocumentMetadata, RankingOptions, SearchScope } from '../../types/index.js';
 
 // ============================================================================
 // Test helpers
@@ -24,6 +26,12 @@ function createMeta(overrides: Partial<DocumentMetadata> = {}): DocumentMetadata
     seeAlso: [],
     hasPropsTable: false,
     hasCodeExamples: false,
+    aliases: [],
+    tags: [],
+    status: null,
+    since: null,
+    deprecated: false,
+    deprecationNote: null,
     ...overrides,
   };
 }
@@ -39,13 +47,18 @@ function createDoc(overrides: Partial<DocumentEntry> = {}): DocumentEntry {
     module: 'components',
     category: null,
     metadata: createMeta(),
+    outline: [],
+    props: [],
+    slots: [],
+    inheritsPropsFrom: [],
+    links: [],
     ...overrides,
   };
 }
 
 /** Build a search engine pre-loaded with several test documents */
-function createPopulatedEngine(): SearchEngine {
-  const engine = new SearchEngine();
+function createPopulatedEngine(ranking: Partial<RankingOptions> = {}): SearchEngine {
+  const engine = new SearchEngine(ranking);
   const docs: DocumentEntry[] = [
     createDoc({
       id: 'components/buttons/button',
@@ -242,3 +255,538 @@ describe('SearchEngine — index lifecycle', () => {
     expect(results.length).toBeGreaterThan(0);
   });
 });
+
+// ============================================================================
+// BM25 ranking
+// ============================================================================
+
+describe('SearchEngine — BM25 ranking', () => {
+  /**
+   * Build an engine over documents that differ only in their content.
+   *
+   * @param contents - Content of each document, keyed by document ID
+   * @param ranking - Ranking options for the engine
+   */
+  function createContentEngine(
+    contents: Record<string, string>,
+    ranking: Partial<RankingOptions> = { model: 'bm25' }
+  ): SearchEngine {
+    const engine = new SearchEngine(ranking);
+    engine.buildIndex(
+      Object.entries(contents).map(([id, content]) => createDoc({ id, title: id, content }))
+    );
+    return engine;
+  }
+
+  /**
+   * Get the raw score of each result, keyed by document ID.
+   *
+   * @param engine - The engine to search
+   * @param query - The search query
+   */
+  function rawScores(engine: SearchEngine, query: string): Record<string, number> {
+    return Object.fromEntries(
+      engine.search(query).map((result) => [
+        result.document.id,
+        result.matchedFields.reduce((sum, { score }) => sum + score, 0),
+      ])
+    );
+  }
+
+  /** Filler text that makes a document long without matching any query */
+  const FILLER = 'lorem ipsum dolor sit amet '.repeat(40);
+
+  it('should default to TF-IDF with the standard BM25 parameters', () => {
+    expect(new SearchEngine().rankingOptions).toEqual({ model: 'tfidf', k1: 1.2, b: 0.75 });
+  });
+
+  it('should fill in missing BM25 parameters', () => {
+    expect(new SearchEngine({ model: 'bm25', b: 0.5 }).rankingOptions).toEqual({
+      model: 'bm25',
+      k1: 1.2,
+      b: 0.5,
+    });
+  });
+
+  it('should rank title matches first', () => {
+    const engine = new SearchEngine({ model: 'bm25' });
+    engine.buildIndex([
+      createDoc({ id: 'a', title: 'Overview', content: 'Use a dialog to confirm.' }),
+      createDoc({ id: 'b', title: 'Dialog', content: 'A modal window.' }),
+    ]);
+    expect(engine.search('dialog')[0].document.id).toBe('b');
+  });
+
+  it('should rank a match in a short document above the same match in a long one', () => {
+    const engine = createContentEngine({ short: 'widget', long: `widget ${FILLER}` });
+    expect(engine.search('widget').map((r) => r.document.id)).toEqual(['short', 'long']);
+  });
+
+  it('should ignore document length when b is 0', () => {
+    const engine = createContentEngine(
+      { short: 'widget', long: `widget ${FILLER}` },
+      { model: 'bm25', b: 0 }
+    );
+    const scores = rawScores(engine, 'widget');
+    expect(scores.short).toBeCloseTo(scores.long);
+  });
+
+  it('should saturate repeated terms', () => {
+    const engine = createContentEngine({ once: 'widget gadget', often: 'widget '.repeat(10) + 'gadget' });
+    const scores = rawScores(engine, 'widget');
+    expect(scores.often).toBeGreaterThan(scores.once);
+    expect(scores.often).toBeLessThan(scores.once * 2);
+  });
+
+  it('should score any number of occurrences the same when k1 is 0', () => {
+    const engine = createContentEngine(
+      { once: 'widget gadget', often: 'widget '.repeat(10) + 'gadget' },
+      { model: 'bm25', k1: 0, b: 0 }
+    );
+    const scores = rawScores(engine, 'widget');
+    expect(scores.often).toBeCloseTo(scores.once);
+  });
+
+  it('should favor rarer terms', () => {
+    const engine = createContentEngine({
+      common: 'widget widget',
+      rare: 'gizmo gizmo',
+      other: 'widget',
+    });
+    expect(engine.search('widget gizmo')[0].document.id).toBe('rare');
+  });
+
+  it('should keep relevance between 0 and 100', () => {
+    const engine = createPopulatedEngine({ model: 'bm25' });
+    for (const result of engine.search('form input button dialog', 50)) {
+      expect(result.relevance).toBeGreaterThanOrEqual(0);
+      expect(result.relevance).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should attribute the score to the matched fields', () => {
+    const engine = createPopulatedEngine({ model: 'bm25' });
+    const fields = engine.search('button')[0].matchedFields.map((m) => m.field);
+    expect(fields).toEqual(['title', 'description', 'content']);
+  });
+});
+
+// ============================================================================
+// Typo tolerance
+// ============================================================================
+
+describe('SearchEngine — typo tolerance', () => {
+  let engine: SearchEngine;
+
+  beforeEach(() => {
+    engine = createPopulatedEngine();
+  });
+
+  it('should find documents for a misspelled query', () => {
+    expect(engine.search('dialgo')[0]?.document.title).toBe('Dialog');
+  });
+
+  it('should score a corrected term below the exact term', () => {
+    const exact = engine.search('dialog')[0];
+    const corrected = engine.search('dialgo')[0];
+    expect(corrected.document.id).toBe(exact.document.id);
+    expect(corrected.relevance).toBeLessThan(exact.relevance);
+  });
+
+  it('should correct terms with the BM25 ranking model too', () => {
+    const bm25 = createPopulatedEngine({ model: 'bm25' });
+    expect(bm25.search('validaton')[0]?.document.title).toBe('Form Validation');
+  });
+
+  it('should not correct a term that matches as a prefix', () => {
+    expect(engine.suggestQuery('valid')).toBeNull();
+  });
+
+  it('should suggest the document title when the correction names a document', () => {
+    expect(engine.suggestQuery('buton')).toBe('Button');
+  });
+
+  it('should suggest the corrected words otherwise', () => {
+    expect(engine.suggestQuery('modal overlya')).toBe('modal overlay');
+  });
+
+  it('should not suggest anything for a correct or unmatchable query', () => {
+    expect(engine.suggestQuery('button')).toBeNull();
+    expect(engine.suggestQuery('xyzzy')).toBeNull();
+  });
+
+  it('should forget corrections when the index is rebuilt', () => {
+    expect(engine.suggestQuery('rebuilt')).toBeNull();
+    engine.clear();
+    engine.buildIndex([createDoc({ id: 'test/rebuild', title: 'Rebuild', content: 'Rebuilds.' })]);
+    expect(engine.search('rebiuld')[0]?.document.title).toBe('Rebuild');
+  });
+});
+
+// ============================================================================
+// Query syntax
+// ============================================================================
+
+describe('SearchEngine — query syntax', () => {
+  let engine: SearchEngine;
+
+  beforeEach(() => {
+    engine = createPopulatedEngine();
+  });
+
+  /**
+   * Search and return the matching document IDs, sorted.
+   *
+   * @param query - The search query
+   */
+  function matchingIds(query: string): string[] {
+    return engine.search(query, 50).map((result) => result.document.id).sort();
+  }
+
+  it('should match a quoted phrase only in word order', () => {
+    expect(matchingIds('"form fields"')).toEqual(['components/forms/input']);
+    expect(matchingIds('"fields form"')).toEqual([]);
+  });
+
+  it('should match phrases across stop words', () => {
+    expect(matchingIds('"entry and form"')).toEqual(['components/forms/input']);
+  });
+
+  it('should not match a phrase across two fields', () => {
+    // "Theming" ends the title and "theme" starts the description
+    expect(matchingIds('"theming theme"')).toEqual([]);
+    expect(matchingIds('"theme customization"')).toEqual(['foundation/theming']);
+  });
+
+  it('should require +terms', () => {
+    expect(matchingIds('form +validation')).toEqual(['patterns/forms/validation']);
+  });
+
+  it('should exclude -terms and -phrases', () => {
+    expect(matchingIds('form -validating')).toEqual(['components/forms/input']);
+    expect(matchingIds('form -"validating form"')).toEqual(['components/forms/input']);
+  });
+
+  it('should match any OR alternative', () => {
+    expect(matchingIds('+modal OR +tokens')).toEqual(['components/feedback/dialog', 'foundation/theming']);
+  });
+
+  it('should rank a document by the best alternative it matches', () => {
+    const relevance = (query: string): number => engine.search(query)[0].relevance;
+    expect(relevance('button OR xyzzy')).toBe(relevance('button'));
+  });
+
+  it('should return nothing for a query of excluded terms only', () => {
+    expect(engine.search('-button')).toEqual([]);
+  });
+
+  it('should correct a misspelled required term', () => {
+    expect(matchingIds('+dialgo')).toEqual(['components/feedback/dialog']);
+  });
+
+  it('should not correct phrases or excluded terms', () => {
+    expect(matchingIds('"dialgo"')).toEqual([]);
+    expect(engine.suggestQuery('"dialgo" -buton')).toBeNull();
+  });
+
+  it('should keep the query syntax in suggestions', () => {
+    expect(engine.suggestQuery('+dialgo -button')).toBe('+dialog -button');
+  });
+});
+
+// ============================================================================
+// Inline filters
+// ============================================================================
+
+describe('SearchEngine — filters', () => {
+  let engine: SearchEngine;
+
+  beforeEach(() => {
+    engine = new SearchEngine();
+    engine.buildIndex([
+      createDoc({
+        id: 'components/forms/field',
+        title: 'Field',
+        content: '# Field\n\nField adds a label and validation message to form controls.',
+        category: 'forms',
+        metadata: createMeta({
+          packageName: '@fluentui/react-field',
+          hasPropsTable: true,
+          hasCodeExamples: true,
+        }),
+      }),
+      createDoc({
+        id: 'components/forms/input',
+        title: 'Input',
+        content: '# Input\n\nInput for text entry, with validation through Field.',
+        category: 'forms',
+        metadata: createMeta({ packageName: '@fluentui/react-input', hasCodeExamples: true }),
+      }),
+      createDoc({
+        id: 'components/navigation/menu',
+        title: 'Menu',
+        content: '# Menu\n\nMenu lists actions.',
+        category: 'navigation',
+        metadata: createMeta({ packageName: '@fluentui/react-menu', hasPropsTable: true }),
+      }),
+      createDoc({
+        id: 'patterns/navigation/menu-patterns',
+        title: 'Menu Patterns',
+        content: '# Menu Patterns\n\nPatterns for menus with validation of selections.',
+        module: 'patterns',
+      }),
+    ]);
+  });
+
+  /**
+   * Search and return the matching document IDs, sorted.
+   *
+   * @param query - The search query
+   */
+  function matchingIds(query: string): string[] {
+    return engine.search(query, 50).map((result) => result.document.id).sort();
+  }
+
+  it('should filter by category', () => {
+    expect(matchingIds('validation category:forms')).toEqual([
+      'components/forms/field',
+      'components/forms/input',
+    ]);
+  });
+
+  it('should filter by package', () => {
+    expect(matchingIds('validation package:@fluentui/react-field')).toEqual(['components/forms/field']);
+  });
+
+  it('should filter by has:props and has:examples', () => {
+    expect(matchingIds('validation has:props')).toEqual(['components/forms/field']);
+    expect(matchingIds('validation has:examples')).toEqual([
+      'components/forms/field',
+      'components/forms/input',
+    ]);
+  });
+
+  it('should filter by module', () => {
+    expect(matchingIds('validation module:patterns')).toEqual(['patterns/navigation/menu-patterns']);
+  });
+
+  it('should filter by words of the title', () => {
+    expect(matchingIds('title:menu')).toEqual([
+      'components/navigation/menu',
+      'patterns/navigation/menu-patterns',
+    ]);
+    expect(matchingIds('title:"menu patterns"')).toEqual(['patterns/navigation/menu-patterns']);
+  });
+
+  it('should ignore case in filter values', () => {
+    expect(matchingIds('category:FORMS has:Props')).toEqual(['components/forms/field']);
+  });
+
+  it('should combine filters with AND', () => {
+    expect(matchingIds('category:forms has:props validation')).toEqual(['components/forms/field']);
+  });
+
+  it('should negate a filter with -', () => {
+    expect(matchingIds('validation -has:props')).toEqual([
+      'components/forms/input',
+      'patterns/navigation/menu-patterns',
+    ]);
+  });
+
+  it('should list every match of a filter-only query at full relevance', () => {
+    const results = engine.search('has:props');
+    expect(results.map((result) => result.document.id).sort()).toEqual([
+      'components/forms/field',
+      'components/navigation/menu',
+    ]);
+    expect(results.every((result) => result.relevance === 100)).toBe(true);
+  });
+
+  it('should match nothing for an unknown has: value', () => {
+    expect(matchingIds('has:tests')).toEqual([]);
+  });
+
+  it('should apply filters per OR group', () => {
+    expect(matchingIds('category:navigation OR module:patterns')).toEqual([
+      'components/navigation/menu',
+      'patterns/navigation/menu-patterns',
+    ]);
+  });
+
+  it('should keep filters in suggestions', () => {
+    expect(engine.suggestQuery('validaton category:forms')).toBe('validation category:forms');
+  });
+});
+
+// ============================================================================
+// Code search
+// ============================================================================
+
+describe('SearchEngine — code search', () => {
+  let engine: SearchEngine;
+
+  beforeEach(() => {
+    engine = new SearchEngine();
+    engine.buildIndex([
+      createDoc({
+        id: 'components/overlays/popover',
+        title: 'Popover',
+        content: [
+          '# Popover',
+          '',
+          'Popover shows content when opened. Use `onOpenChange` to control it.',
+          '',
+          '```tsx',
+          '<Popover open={open} onOpenChange={(_, data) => setOpen(data.open)} />',
+          '```',
+        ].join('\n'),
+      }),
+      createDoc({
+        id: 'foundation/theming',
+        title: 'Theming',
+        content: [
+          '# Theming',
+          '',
+          'The brand background color changes with the theme.',
+          '',
+          '```ts',
+          'const styles = makeStyles({ root: { color: tokens.colorBrandBackground } });',
+          '```',
+        ].join('\n'),
+        module: 'foundation',
+      }),
+    ]);
+  });
+
+  /**
+   * Search and return the matching document IDs, sorted.
+   *
+   * @param query - The search query
+   * @param searchIn - The text to search
+   */
+  function matchingIds(query: string, searchIn?: SearchScope): string[] {
+    return engine.search(query, 50, undefined, searchIn).map((result) => result.document.id).sort();
+  }
+
+  it('should index code in its own field', () => {
+    const tokens = engine.getDocumentTokens('components/overlays/popover')!;
+    expect(tokens.contentTokens).not.toContain('onopenchange');
+    expect(tokens.codeTokens).toContain('onopenchange');
+  });
+
+  it('should split camelCase identifiers into words', () => {
+    const { codeTokens } = engine.getDocumentTokens('components/overlays/popover')!;
+    expect(codeTokens).toEqual(expect.arrayContaining(['onopenchange', 'on', 'open', 'change']));
+  });
+
+  it('should find identifiers used only in code', () => {
+    expect(matchingIds('makeStyles')).toEqual(['foundation/theming']);
+    expect(matchingIds('onOpenChange')).toEqual(['components/overlays/popover']);
+  });
+
+  it('should match a dot path as a phrase of its identifiers', () => {
+    expect(matchingIds('+tokens.colorBrandBackground')).toEqual(['foundation/theming']);
+    expect(matchingIds('"brand background"', 'code')).toEqual(['foundation/theming']);
+  });
+
+  it('should skip the info string of a code fence', () => {
+    expect(engine.getDocumentTokens('foundation/theming')!.codeTokens).not.toContain('ts');
+  });
+
+  it('should search only code with searchIn "code"', () => {
+    expect(matchingIds('background', 'code')).toEqual(['foundation/theming']);
+    expect(matchingIds('shows', 'code')).toEqual([]);
+  });
+
+  it('should search only prose with searchIn "prose"', () => {
+    expect(matchingIds('makeStyles', 'prose')).toEqual([]);
+    expect(matchingIds('shows', 'prose')).toEqual(['components/overlays/popover']);
+  });
+
+  it('should apply required and excluded terms to the searched text', () => {
+    expect(matchingIds('+setopen', 'code')).toEqual(['components/overlays/popover']);
+    expect(matchingIds('+setopen', 'prose')).toEqual([]);
+    expect(matchingIds('theme -makestyles', 'prose')).toEqual(['foundation/theming']);
+    expect(matchingIds('theme -makestyles', 'all')).toEqual([]);
+  });
+
+  it('should report code matches as the code field', () => {
+    const [result] = engine.search('makeStyles');
+    expect(result.matchedFields.map((field) => field.field)).toEqual(['code']);
+  });
+
+  it('should rank a prose match above the same match in code', () => {
+    const results = engine.search('open');
+    expect(results[0].document.id).toBe('components/overlays/popover');
+    expect(results[0].matchedFields.some((field) => field.field === 'content')).toBe(true);
+  });
+
+  it('should not correct words that only occur in code', () => {
+    expect(engine.suggestQuery('makestyles')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+describe('SearchEngine — sections', () => {
+  let engine: SearchEngine;
+
+  beforeEach(() => {
+    engine = new SearchEngine();
+    engine.buildIndex([
+      createDoc({
+        id: 'components/forms/input',
+        title: 'Input',
+        content: [
+          '# Input',
+          '',
+          'Input lets users enter text.',
+          '',
+          '## Appearance',
+          '',
+          'The input comes in outline and underline appearances.',
+          '',
+          '## Controlled vs Uncontrolled',
+          '',
+          'A controlled input gets its value from state.',
+          '',
+          '### Example',
+          '',
+          '```tsx',
+          '<Input value={value} onChange={(_, data) => setValue(data.value)} />',
+          '```',
+        ].join('\n'),
+      }),
+    ]);
+  });
+
+  it('should return the best matching section with its heading, anchor, and text', () => {
+    const [result] = engine.search('input controlled');
+    expect(result.section).toEqual({
+      heading: 'Controlled vs Uncontrolled',
+      level: 2,
+      anchor: 'controlled-vs-uncontrolled',
+      path: ['Input', 'Controlled vs Uncontrolled'],
+      content: 'A controlled input gets its value from state.',
+    });
+  });
+
+  it('should take the excerpt from the best section', () => {
+    expect(engine.search('underline')[0].excerpt).toBe('The input comes in outline and underline appearances.');
+  });
+
+  it('should count a term in the heading above the same term in the text', () => {
+    expect(engine.search('appearance')[0].section?.heading).toBe('Appearance');
+  });
+
+  it('should pick sections by the searched text', () => {
+    expect(engine.search('value', 10, undefined, 'code')[0].section?.heading).toBe('Example');
+    expect(engine.search('value', 10, undefined, 'prose')[0].section?.heading).toBe('Controlled vs Uncontrolled');
+  });
+
+  it('should return no section for a filter-only query', () => {
+    expect(engine.search('title:input')[0].section).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for the markdown section parser.
+ *
+ * Validates heading detection, section bodies, heading paths, anchor
+ * slugs, code fences, frontmatter, and path formatting.
+ *
+ * @module __tests__/indexer/section-parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSections,
+  slugify,
+  formatSectionPath,
+  findSection,
+  getSectionMarkdown,
+  buildOutline,
+  estimateTokens,
+  findHeadingOffsets,
+} from '../../indexer/section-parser.js';
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+describe('parseSections — sections', () => {
+  it('should split a document at its headings', () => {
+    expect(parseSections('# Input\n\nIntro text.\n\n## Usage\n\nUse it.\n')).toEqual([
+      { heading: 'Input', level: 1, anchor: 'input', path: ['Input'], content: 'Intro text.' },
+      { heading: 'Usage', level: 2, anchor: 'usage', path: ['Input', 'Usage'], content: 'Use it.' },
+    ]);
+  });
+
+  it('should end a section at the next heading of any level', () => {
+    const sections = parseSections('## Usage\n\nA\n\n### Controlled\n\nB\n\n## Props\n\nC');
+    expect(sections.map((section) => section.content)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should build heading paths from the enclosing headings', () => {
+    const sections = parseSections('# Input\n## Usage\n### Controlled\n## Props\n#### Size');
+    expect(sections.map((section) => section.path)).toEqual([
+      ['Input'],
+      ['Input', 'Usage'],
+      ['Input', 'Usage', 'Controlled'],
+      ['Input', 'Props'],
+      ['Input', 'Props', 'Size'],
+    ]);
+  });
+
+  it('should keep text before the first heading as its own section', () => {
+    expect(parseSections('Preamble.\n\n# Title')[0]).toEqual({
+      heading: '',
+      level: 0,
+      anchor: '',
+      path: [],
+      content: 'Preamble.',
+    });
+  });
+
+  it('should drop blank text before the first heading', () => {
+    expect(parseSections('\n\n# Title\n')).toHaveLength(1);
+  });
+
+  it('should keep empty sections', () => {
+    expect(parseSections('# Title\n## Empty\n## Next\ntext')[1].content).toBe('');
+  });
+
+  it('should ignore headings inside code fences', () => {
+    const sections = parseSections('# Title\n\n```bash\n# install\nnpm i\n```\n\n~~~\n## not a heading\n~~~\n');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].content).toContain('# install');
+  });
+
+  it('should strip closing #s but keep a # inside the heading', () => {
+    const sections = parseSections('## Usage ##\n## C#\n');
+    expect(sections.map((section) => section.heading)).toEqual(['Usage', 'C#']);
+  });
+
+  it('should require a space after the #s', () => {
+    expect(parseSections('#hashtag\n\ntext')[0].level).toBe(0);
+  });
+
+  it('should skip frontmatter', () => {
+    const sections = parseSections('---\ntitle: Input\n---\n# Input\n\nText');
+    expect(sections).toHaveLength(1);
+    expect(sections[0].heading).toBe('Input');
+  });
+});
+
+// ============================================================================
+// Anchors
+// ============================================================================
+
+describe('parseSections — anchors', () => {
+  it('should number repeated anchors', () => {
+    const sections = parseSections('## Example\n## Example\n## Example');
+    expect(sections.map((section) => section.anchor)).toEqual(['example', 'example-1', 'example-2']);
+  });
+});
+
+describe('slugify', () => {
+  it('should lowercase and hyphenate headings', () => {
+    expect(slugify('Controlled vs Uncontrolled')).toBe('controlled-vs-uncontrolled');
+  });
+
+  it('should drop punctuation like GitHub', () => {
+    expect(slugify('Date & Time')).toBe('date--time');
+    expect(slugify('`useId()` Hook')).toBe('useid-hook');
+    expect(slugify('DataGrid Components (Abstraction)')).toBe('datagrid-components-abstraction');
+  });
+
+  it('should keep hyphens, underscores, and non-ASCII letters', () => {
+    expect(slugify('aria-label_text Größe')).toBe('aria-label_text-größe');
+  });
+
+  it('should reduce links to their text', () => {
+    expect(slugify('See [Button](./button.md)')).toBe('see-button');
+  });
+});
+
+describe('formatSectionPath', () => {
+  it('should join headings with a chevron', () => {
+    expect(formatSectionPath(['Input', 'Usage', 'Controlled'])).toBe('Input › Usage › Controlled');
+  });
+});
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+describe('findSection', () => {
+  const sections = parseSections([
+    'Intro',
+    '# Input',
+    '## Usage',
+    '### Controlled',
+    '## Props',
+    '### Controlled',
+    '## Date & Time',
+  ].join('\n'));
+
+  it('should find a section by its anchor', () => {
+    expect(findSection(sections, 'usage')).toBe(2);
+    expect(findSection(sections, '#controlled-1')).toBe(5);
+  });
+
+  it('should find a section by its heading in any case', () => {
+    expect(findSection(sections, 'PROPS')).toBe(4);
+    expect(findSection(sections, 'date & time')).toBe(6);
+  });
+
+  it('should find the first section with a repeated heading', () => {
+    expect(findSection(sections, 'Controlled')).toBe(3);
+  });
+
+  it('should find a section by the end of its heading path', () => {
+    expect(findSection(sections, 'Props › Controlled')).toBe(5);
+    expect(findSection(sections, 'Props > Controlled')).toBe(5);
+    expect(findSection(sections, 'input/props/controlled')).toBe(5);
+  });
+
+  it('should return -1 for an unknown heading', () => {
+    expect(findSection(sections, 'Theming')).toBe(-1);
+    expect(findSection(sections, 'Usage › Props')).toBe(-1);
+  });
+
+  it('should not find the text before the first heading', () => {
+    expect(findSection(sections, '')).toBe(-1);
+    expect(findSection(sections, '#')).toBe(-1);
+  });
+});
+
+describe('getSectionMarkdown', () => {
+  const sections = parseSections('# Input\n\nIntro\n\n## Usage\n\nA\n\n### Controlled\n\nB\n\n## Props\n\nC');
+
+  it('should render a section with its sub-sections', () => {
+    expect(getSectionMarkdown(sections, 1)).toBe('## Usage\n\nA\n\n### Controlled\n\nB');
+  });
+
+  it('should render a section without sub-sections', () => {
+    expect(getSectionMarkdown(sections, 3)).toBe('## Props\n\nC');
+  });
+
+  it('should render the whole document for the top heading', () => {
+    expect(getSectionMarkdown(sections, 0)).toContain('## Props\n\nC');
+  });
+});
+
+// ============================================================================
+// Outline
+// ============================================================================
+
+describe('buildOutline', () => {
+  /**
+   * Build the outline of a markdown document.
+   *
+   * @param content - Markdown content
+   * @returns The document's outline
+   */
+  function outlineOf(content: string): ReturnType<typeof buildOutline> {
+    return buildOutline(parseSections(content));
+  }
+
+  it('should nest headings by level', () => {
+    const outline = outlineOf('# Input\n## Usage\n### Controlled\n## Props');
+    expect(outline).toHaveLength(1);
+    expect(outline[0].children.map((node) => node.heading)).toEqual(['Usage', 'Props']);
+    expect(outline[0].children[0].children[0].path).toEqual(['Input', 'Usage', 'Controlled']);
+  });
+
+  it('should keep headings that skip a level under the nearest enclosing heading', () => {
+    const outline = outlineOf('## Usage\n#### Detail\n## Props');
+    expect(outline.map((node) => node.heading)).toEqual(['Usage', 'Props']);
+    expect(outline[0].children[0].heading).toBe('Detail');
+  });
+
+  it('should leave out headings below H4 but count their text', () => {
+    const outline = outlineOf('#### Deep\n\nA\n\n##### Deeper\n\n```tsx\ncode\n```');
+    expect(outline[0].children).toEqual([]);
+    expect(outline[0].hasCode).toBe(true);
+    expect(outline[0].tokens).toBe(
+      estimateTokens('#### Deep\n\nA') + estimateTokens('##### Deeper\n\n```tsx\ncode\n```')
+    );
+  });
+
+  it('should count sub-sections toward the size of their parents', () => {
+    const [input] = outlineOf('# Input\n\nIntro text.\n\n## Usage\n\nUsage.\n\n## Props\n\nProps.');
+    const [usage, props] = input.children;
+    expect(input.tokens).toBe(estimateTokens('# Input\n\nIntro text.') + usage.tokens + props.tokens);
+  });
+
+  it('should flag sections with code and tables', () => {
+    const [doc] = outlineOf([
+      '# Doc',
+      '## Code',
+      '```tsx',
+      '<Button />',
+      '```',
+      '## Table',
+      '| Prop | Type |',
+      '| ---- | ---- |',
+      '| size | string |',
+      '## Text',
+      'Plain | text',
+    ].join('\n'));
+    expect(doc.children.map(({ heading, hasCode, hasTable }) => ({ heading, hasCode, hasTable }))).toEqual([
+      { heading: 'Code', hasCode: true, hasTable: false },
+      { heading: 'Table', hasCode: false, hasTable: true },
+      { heading: 'Text', hasCode: false, hasTable: false },
+    ]);
+    expect(doc.hasCode && doc.hasTable).toBe(true);
+  });
+
+  it('should leave out text before the first heading', () => {
+    expect(outlineOf('Intro\n\n# Title').map((node) => node.heading)).toEqual(['Title']);
+    expect(outlineOf('No headings at all.')).toEqual([]);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should count about one token per four characters', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('findHeadingOffsets', () => {
+  it('should return the offsets of heading lines', () => {
+    expect(findHeadingOffsets('# A\ntext\n## B')).toEqual([0, 9]);
+  });
+
+  it('should ignore headings inside code fences', () => {
+    expect(findHeadingOffsets('```\n# comment\n```\n## B')).toEqual([18]);
+  });
+});
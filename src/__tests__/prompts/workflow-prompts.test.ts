@@ -0,0 +1,199 @@
+/**
+ * Tests for the workflow prompts module.
+ *
+ * Validates prompt definitions, argument validation, and that each prompt
+ * is assembled from the expected reference documentation. Uses the real
+ * docs/v9/ index.
+ *
+ * @module __tests__/prompts/workflow-prompts
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { join } from 'path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { BuildQueue } from '../../indexer/build-queue.js';
+import type { VersionIndex } from '../../tools/dispatcher.js';
+import { getTestIndex } from '../tools/tools-setup.js';
+import { listWorkflowPrompts, getWorkflowPrompt } from '../../prompts/workflow-prompts.js';
+
+let index: VersionIndex;
+
+beforeAll(async () => {
+  const { store, searchEngine } = await getTestIndex();
+  index = {
+    version: 'v9',
+    store,
+    searchEngine,
+    docsPath: join(process.cwd(), 'docs', 'v9'),
+    buildQueue: new BuildQueue(),
+  };
+});
+
+/**
+ * Collect the text of every message in a prompt result.
+ *
+ * @param result - The filled-in prompt
+ * @returns Message texts in order
+ */
+function messageTexts(result: GetPromptResult): string[] {
+  return result.messages.map((message) => (message.content as { text: string }).text);
+}
+
+// ============================================================================
+// listWorkflowPrompts
+// ============================================================================
+
+describe('listWorkflowPrompts', () => {
+  it('should list the three workflow prompts', () => {
+    expect(listWorkflowPrompts().map((p) => p.name)).toEqual([
+      'build-form-with-validation',
+      'migrate-to-v9',
+      'audit-accessibility',
+    ]);
+  });
+
+  it('should give every prompt a title, description, and arguments', () => {
+    for (const prompt of listWorkflowPrompts()) {
+      expect(prompt.title).toBeTruthy();
+      expect(prompt.description).toBeTruthy();
+      expect(prompt.arguments?.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should accept an optional version for every prompt', () => {
+    for (const prompt of listWorkflowPrompts()) {
+      expect(prompt.arguments).toContainEqual(expect.objectContaining({ name: 'version', required: false }));
+    }
+  });
+
+  it('should mark targetComponent as optional for migrate-to-v9', () => {
+    const migrate = listWorkflowPrompts().find((p) => p.name === 'migrate-to-v9')!;
+    const target = migrate.arguments!.find((a) => a.name === 'targetComponent')!;
+    expect(target.required).toBe(false);
+  });
+});
+
+// ============================================================================
+// getWorkflowPrompt — validation
+// ============================================================================
+
+describe('getWorkflowPrompt — validation', () => {
+  it('should reject an unknown prompt with InvalidParams', () => {
+    expect(() => getWorkflowPrompt('no-such-prompt', {}, index)).toThrow(
+      expect.objectContaining({ code: ErrorCode.InvalidParams })
+    );
+  });
+
+  it('should reject a missing required argument', () => {
+    expect(() => getWorkflowPrompt('audit-accessibility', {}, index)).toThrow(/"code"/);
+  });
+
+  it('should reject undefined arguments for a prompt with required arguments', () => {
+    expect(() => getWorkflowPrompt('build-form-with-validation', undefined, index))
+      .toThrow(/formDescription/);
+  });
+
+  it('should reject a blank required argument', () => {
+    expect(() => getWorkflowPrompt('migrate-to-v9', { code: '   ' }, index)).toThrow(/"code"/);
+  });
+
+  it('should reject migrate-to-v9 for another version', () => {
+    const v8Index: VersionIndex = { ...index, version: 'v8' };
+    expect(() => getWorkflowPrompt('migrate-to-v9', { code: 'x' }, v8Index)).toThrow(
+      expect.objectContaining({ code: ErrorCode.InvalidParams, message: expect.stringContaining('"v9"') })
+    );
+  });
+});
+
+// ============================================================================
+// getWorkflowPrompt — build-form-with-validation
+// ============================================================================
+
+describe('getWorkflowPrompt — build-form-with-validation', () => {
+  it('should include the implementation guide and validation pattern', () => {
+    const texts = messageTexts(
+      getWorkflowPrompt('build-form-with-validation', { formDescription: 'signup form' }, index)
+    );
+    expect(texts[0]).toContain('# Reference: Implementation Guide');
+    expect(texts[1]).toContain('# Reference: Forms Pattern: Validation');
+    expect(texts[1]).not.toContain('**Error:**');
+  });
+
+  it('should end with the task instruction containing the description', () => {
+    const texts = messageTexts(
+      getWorkflowPrompt('build-form-with-validation', { formDescription: 'signup form' }, index)
+    );
+    expect(texts[texts.length - 1]).toContain('signup form');
+    expect(texts[texts.length - 1]).toContain('<Field>');
+  });
+
+  it('should name the version and its package in the task instruction', () => {
+    const v9Texts = messageTexts(
+      getWorkflowPrompt('build-form-with-validation', { formDescription: 'x' }, index)
+    );
+    expect(v9Texts[v9Texts.length - 1]).toContain('FluentUI v9');
+    expect(v9Texts[v9Texts.length - 1]).toContain('`@fluentui/react-components`');
+
+    const v8Texts = messageTexts(
+      getWorkflowPrompt('build-form-with-validation', { formDescription: 'x' }, { ...index, version: 'v8' })
+    );
+    expect(v8Texts[v8Texts.length - 1]).toContain('FluentUI v8');
+    expect(v8Texts[v8Texts.length - 1]).toContain('`@fluentui/react`');
+  });
+
+  it('should use user-role text messages', () => {
+    const result = getWorkflowPrompt('build-form-with-validation', { formDescription: 'x' }, index);
+    for (const message of result.messages) {
+      expect(message.role).toBe('user');
+      expect(message.content.type).toBe('text');
+    }
+  });
+});
+
+// ============================================================================
+// getWorkflowPrompt — migrate-to-v9
+// ============================================================================
+
+describe('getWorkflowPrompt — migrate-to-v9', () => {
+  const code = '<DefaultButton text="Save" />';
+
+  it('should include setup and styling references and embed the code', () => {
+    const texts = messageTexts(getWorkflowPrompt('migrate-to-v9', { code }, index));
+    expect(texts.some((t) => t.startsWith('# Reference: Setup & Imports'))).toBe(true);
+    expect(texts.some((t) => t.startsWith('# Reference: Foundation: Styling with Griffel'))).toBe(true);
+    expect(texts[texts.length - 1]).toContain(code);
+  });
+
+  it('should omit the props reference without a target component', () => {
+    const without = getWorkflowPrompt('migrate-to-v9', { code }, index);
+    const withTarget = getWorkflowPrompt('migrate-to-v9', { code, targetComponent: 'Button' }, index);
+    expect(withTarget.messages.length).toBe(without.messages.length + 1);
+  });
+
+  it('should include the target component props when given', () => {
+    const texts = messageTexts(
+      getWorkflowPrompt('migrate-to-v9', { code, targetComponent: 'Button' }, index)
+    );
+    expect(texts.some((t) => t.startsWith('# Reference: Button Props'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// getWorkflowPrompt — audit-accessibility
+// ============================================================================
+
+describe('getWorkflowPrompt — audit-accessibility', () => {
+  const code = '<Button icon={<DeleteRegular />} />';
+
+  it('should include the accessibility foundation and checklist', () => {
+    const texts = messageTexts(getWorkflowPrompt('audit-accessibility', { code }, index));
+    expect(texts[0]).toContain('# Reference: Foundation: Accessibility');
+    expect(texts.some((t) => t.startsWith('# Reference: Accessibility Checklist'))).toBe(true);
+  });
+
+  it('should embed the code in the final instruction', () => {
+    const texts = messageTexts(getWorkflowPrompt('audit-accessibility', { code }, index));
+    expect(texts[texts.length - 1]).toContain(code);
+  });
+});
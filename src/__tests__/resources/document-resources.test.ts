@@ -0,0 +1,158 @@
+/**
+ * Tests for the document resources module.
+ *
+ * Validates `fluentui://` URI building and parsing, resource listing,
+ * resource templates, and reading documents by canonical URI or by the
+ * component-name template. Uses the real docs/v9/ index.
+ *
+ * @module __tests__/resources/document-resources
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { DocumentStore } from '../../indexer/document-store.js';
+import { getTestIndex } from '../tools/tools-setup.js';
+import {
+  buildResourceUri,
+  parseResourceUri,
+  listDocumentResources,
+  listDocumentResourceTemplates,
+  resolveDocumentResource,
+  readDocumentResource,
+} from '../../resources/document-resources.js';
+
+let store: DocumentStore;
+
+beforeAll(async () => {
+  const index = await getTestIndex();
+  store = index.store;
+});
+
+// ============================================================================
+// URI helpers
+// ============================================================================
+
+describe('buildResourceUri / parseResourceUri', () => {
+  it('should build a fluentui:// URI from a version and document ID', () => {
+    expect(buildResourceUri('v9', 'components/buttons/button'))
+      .toBe('fluentui://v9/components/buttons/button');
+  });
+
+  it('should parse a URI back into version and path', () => {
+    expect(parseResourceUri('fluentui://v9/components/buttons/button'))
+      .toEqual({ version: 'v9', path: 'components/buttons/button' });
+  });
+
+  it('should return null for other URI schemes', () => {
+    expect(parseResourceUri('file:///docs/button.md')).toBeNull();
+  });
+
+  it('should return null for a URI with no path', () => {
+    expect(parseResourceUri('fluentui://v9/')).toBeNull();
+    expect(parseResourceUri('fluentui://v9')).toBeNull();
+  });
+});
+
+// ============================================================================
+// listDocumentResources
+// ============================================================================
+
+describe('listDocumentResources', () => {
+  it('should list one resource per indexed document', () => {
+    const resources = listDocumentResources(store, 'v9');
+    expect(resources.length).toBe(store.size);
+  });
+
+  it('should derive URIs from document IDs', () => {
+    const resources = listDocumentResources(store, 'v9');
+    const button = resources.find((r) => r.uri === 'fluentui://v9/components/buttons/button');
+    expect(button).toBeDefined();
+    expect(button!.title).toBe('Button');
+    expect(button!.mimeType).toBe('text/markdown');
+  });
+
+  it('should include the document description and size', () => {
+    const resources = listDocumentResources(store, 'v9');
+    const button = resources.find((r) => r.uri.endsWith('/components/buttons/button'))!;
+    expect(button.description).toBeTruthy();
+    expect(button.size).toBeGreaterThan(0);
+  });
+
+  it('should return resources sorted by URI', () => {
+    const uris = listDocumentResources(store, 'v9').map((r) => r.uri);
+    expect(uris).toEqual([...uris].sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+// ============================================================================
+// listDocumentResourceTemplates
+// ============================================================================
+
+describe('listDocumentResourceTemplates', () => {
+  it('should include the component-by-name template', () => {
+    const templates = listDocumentResourceTemplates();
+    expect(templates.map((t) => t.uriTemplate)).toContain('fluentui://{version}/component/{name}');
+  });
+
+  it('should give every template a name and description', () => {
+    for (const template of listDocumentResourceTemplates()) {
+      expect(template.name).toBeTruthy();
+      expect(template.description).toBeTruthy();
+    }
+  });
+});
+
+// ============================================================================
+// resolveDocumentResource / readDocumentResource
+// ============================================================================
+
+describe('resolveDocumentResource', () => {
+  it('should resolve a canonical document URI', () => {
+    const doc = resolveDocumentResource(store, 'v9', 'fluentui://v9/foundation/theming');
+    expect(doc?.id).toBe('foundation/theming');
+  });
+
+  it('should resolve the component-name template with fuzzy matching', () => {
+    const doc = resolveDocumentResource(store, 'v9', 'fluentui://v9/component/button');
+    expect(doc?.title).toBe('Button');
+  });
+
+  it('should decode percent-encoded component names', () => {
+    const doc = resolveDocumentResource(store, 'v9', 'fluentui://v9/component/toggle%2Dbutton');
+    expect(doc?.title).toBe('ToggleButton');
+  });
+
+  it('should not resolve a URI for a different version', () => {
+    expect(resolveDocumentResource(store, 'v9', 'fluentui://v8/foundation/theming')).toBeUndefined();
+  });
+
+  it('should not resolve an unknown document ID', () => {
+    expect(resolveDocumentResource(store, 'v9', 'fluentui://v9/components/nope')).toBeUndefined();
+  });
+
+  it('should not resolve a malformed percent-encoding', () => {
+    expect(resolveDocumentResource(store, 'v9', 'fluentui://v9/component/%E0')).toBeUndefined();
+  });
+
+  it('should not resolve an empty component name', () => {
+    expect(resolveDocumentResource(store, 'v9', 'fluentui://v9/component/')).toBeUndefined();
+  });
+});
+
+describe('readDocumentResource', () => {
+  it('should return the raw markdown content', () => {
+    const result = readDocumentResource(store, 'v9', 'fluentui://v9/components/buttons/button');
+    expect(result).not.toBeNull();
+    const content = result!.contents[0] as { text: string; mimeType: string };
+    expect(content.text).toContain('# Button');
+    expect(content.mimeType).toBe('text/markdown');
+  });
+
+  it('should report the canonical URI for template reads', () => {
+    const result = readDocumentResource(store, 'v9', 'fluentui://v9/component/dialog');
+    expect(result!.contents[0].uri).toBe('fluentui://v9/components/feedback/dialog');
+  });
+
+  it('should return null for an unresolvable URI', () => {
+    expect(readDocumentResource(store, 'v9', 'fluentui://v9/component/xxxxxxxx')).toBeNull();
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Tests for the MCP server factory.
+ *
+ * Connects a real MCP client to the server over an in-memory transport and
+ * exercises the protocol handlers end to end: tool listing, tool dispatch,
+ * and error reporting.
+ *
+ * @module __tests__/server/server
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../../server.js';
+import { TOOL_DEFINITIONS } from '../../tools/definitions.js';
+import { DocumentStore } from '../../indexer/document-store.js';
+import { SearchEngine } from '../../indexer/search-engine.js';
+import { BuildQueue } from '../../indexer/build-queue.js';
+import { getTestContext } from '../tools/tools-setup.js';
+
+let client: Client;
+
+beforeAll(async () => {
+  const context = await getTestContext();
+
+  // A second, smaller version that only documents Button
+  const v9 = context.indexes.get('v9')!;
+  const v8Store = new DocumentStore();
+  v8Store.addDocument(v9.store.findByName('Button')!);
+  const v8Engine = new SearchEngine();
+  v8Engine.buildIndex(v8Store.getAllDocuments());
+  context.indexes.set('v8', {
+    version: 'v8',
+    store: v8Store,
+    searchEngine: v8Engine,
+    docsPath: v9.docsPath,
+    buildQueue: new BuildQueue(),
+  });
+
+  const server = createMcpServer(
+    { serverName: 'fluentui-v9-docs', serverVersion: 'test' },
+    context
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+
+  client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+// ============================================================================
+// Server identity
+// ============================================================================
+
+describe('createMcpServer — initialization', () => {
+  it('should report the configured server name and version', () => {
+    const info = client.getServerVersion();
+    expect(info?.name).toBe('fluentui-v9-docs');
+    expect(info?.version).toBe('test');
+  });
+
+  it('should advertise the tools capability', () => {
+    expect(client.getServerCapabilities()?.tools).toBeDefined();
+  });
+});
+
+// ============================================================================
+// tools/list
+// ============================================================================
+
+describe('createMcpServer — tools/list', () => {
+  it('should list every tool definition', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toEqual(TOOL_DEFINITIONS.map((t) => t.name));
+  });
+
+  it('should include input schemas', async () => {
+    const { tools } = await client.listTools();
+    const search = tools.find((t) => t.name === 'search_docs');
+    expect(search?.inputSchema.required).toEqual(['query']);
+  });
+
+  it('should include an output schema for every tool', async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      expect(tool.outputSchema?.type).toBe('object');
+    }
+  });
+});
+
+// ============================================================================
+// tools/call
+// ============================================================================
+
+describe('createMcpServer — tools/call', () => {
+  it('should dispatch to the tool and return text content', async () => {
+    const result = await client.callTool({
+      name: 'query_component',
+      arguments: { componentName: 'Button' },
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(content[0].type).toBe('text');
+    expect(content[0].text).toContain('# Button');
+    expect(result.isError).toBeFalsy();
+  });
+
+  it('should return an error result for an unknown tool', async () => {
+    const result = await client.callTool({ name: 'no_such_tool', arguments: {} });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(result.isError).toBe(true);
+    expect(content[0].text).toContain('Unknown tool: no_such_tool');
+  });
+
+  it('should treat missing arguments as an empty object', async () => {
+    const result = await client.callTool({ name: 'list_all_docs' });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(content[0].text).toContain('Documentation Index');
+  });
+});
+
+// ============================================================================
+// Structured output
+// ============================================================================
+
+describe('createMcpServer — structured output', () => {
+  /** One representative call per tool */
+  const TOOL_CALLS: Array<{ name: string; arguments: Record<string, unknown> }> = [
+    { name: 'query_component', arguments: { componentName: 'Button' } },
+    { name: 'get_section', arguments: { docName: 'Button', heading: 'Accessibility' } },
+    { name: 'get_outline', arguments: { docName: 'Button' } },
+    { name: 'get_outline', arguments: { module: 'patterns/forms', maxLevel: 2 } },
+    { name: 'get_related_docs', arguments: { docName: 'Tag' } },
+    { name: 'get_enterprise', arguments: { topic: 'dashboard', maxTokens: 1000 } },
+    { name: 'search_docs', arguments: { query: 'form validation', limit: 3 } },
+    { name: 'list_by_category', arguments: { category: 'buttons' } },
+    { name: 'get_foundation', arguments: { topic: 'theming' } },
+    { name: 'get_pattern', arguments: { patternCategory: 'forms', patternName: 'validation' } },
+    { name: 'get_enterprise', arguments: { topic: 'dashboard' } },
+    { name: 'get_component_examples', arguments: { componentName: 'Button' } },
+    { name: 'get_props_reference', arguments: { componentName: 'Button' } },
+    { name: 'suggest_components', arguments: { uiDescription: 'a login form' } },
+    { name: 'get_implementation_guide', arguments: { goal: 'settings page with a form' } },
+    { name: 'validate_usage', arguments: { code: '<Button variant="primary">Save</Button>' } },
+    { name: 'compare_components', arguments: { components: ['Dialog', 'Drawer', 'Popover'] } },
+    { name: 'list_all_docs', arguments: {} },
+    { name: 'lint_docs', arguments: { rule: 'missing-package' } },
+    { name: 'reindex', arguments: {} },
+  ];
+
+  beforeAll(async () => {
+    // The client validates structuredContent once it has seen the output schemas
+    await client.listTools();
+  });
+
+  for (const call of TOOL_CALLS) {
+    it(`should return schema-valid structured content from ${call.name}`, async () => {
+      const result = await client.callTool(call);
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toBeDefined();
+    });
+  }
+
+  it('should carry the same data as the text content', async () => {
+    const result = await client.callTool({
+      name: 'query_component',
+      arguments: { componentName: 'Button' },
+    });
+    const structured = result.structuredContent as { component: { title: string } };
+    expect(structured.component.title).toBe('Button');
+  });
+
+  it('should flag invalid input as an error without structured content', async () => {
+    const result = await client.callTool({
+      name: 'list_by_category',
+      arguments: { category: 'not-a-category' },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+describe('createMcpServer — versions', () => {
+  it('should answer from the default version when version is omitted', async () => {
+    const result = await client.callTool({ name: 'list_all_docs', arguments: {} });
+    const structured = result.structuredContent as { version: string; totalDocuments: number };
+    expect(structured.version).toBe('v9');
+    expect(structured.totalDocuments).toBeGreaterThan(1);
+  });
+
+  it('should answer from the requested version', async () => {
+    const result = await client.callTool({
+      name: 'query_component',
+      arguments: { componentName: 'Dialog', version: 'v8' },
+    });
+    const structured = result.structuredContent as { component: unknown; availableComponents: string[] };
+    expect(structured.component).toBeNull();
+    expect(structured.availableComponents).toEqual(['Button']);
+  });
+
+  it('should report per-version counts in list_all_docs', async () => {
+    const result = await client.callTool({ name: 'list_all_docs', arguments: { version: 'v8' } });
+    const structured = result.structuredContent as {
+      version: string;
+      versions: Array<{ version: string; count: number; isDefault: boolean }>;
+    };
+    expect(structured.version).toBe('v8');
+    expect(structured.versions).toContainEqual({ version: 'v8', count: 1, isDefault: false });
+    expect(structured.versions.find((v) => v.version === 'v9')?.isDefault).toBe(true);
+
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(content[0].text).toContain('v8 (1 docs)');
+  });
+
+  it('should flag an unknown version as an error listing the served versions', async () => {
+    const result = await client.callTool({
+      name: 'query_component',
+      arguments: { componentName: 'Button', version: 'v7' },
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(result.isError).toBe(true);
+    expect(content[0].text).toContain('Unknown version "v7"');
+    expect(content[0].text).toContain('v8');
+  });
+
+  it('should flag a version that is not a string as an error listing the served versions', async () => {
+    const result = await client.callTool({
+      name: 'query_component',
+      arguments: { componentName: 'Button', version: 5 },
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(result.isError).toBe(true);
+    expect(content[0].text).toContain('Unknown version 5. Available versions: v9, v8');
+  });
+
+  it('should list and read resources of every version', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toContain('fluentui://v8/components/buttons/button');
+    expect(resources.map((r) => r.uri)).toContain('fluentui://v9/components/feedback/dialog');
+
+    const { contents } = await client.readResource({ uri: 'fluentui://v8/component/button' });
+    expect(contents[0].uri).toBe('fluentui://v8/components/buttons/button');
+  });
+
+  it('should not resolve a document in a version that lacks it', async () => {
+    await expect(
+      client.readResource({ uri: 'fluentui://v8/components/feedback/dialog' })
+    ).rejects.toThrow(/Resource not found/);
+  });
+
+  it('should complete the version argument of a tool', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'search_docs' },
+      argument: { name: 'version', value: 'v' },
+    });
+    expect(completion.values).toEqual(expect.arrayContaining(['v8', 'v9']));
+  });
+});
+
+// ============================================================================
+// resources/*
+// ============================================================================
+
+describe('createMcpServer — resources', () => {
+  it('should advertise the resources capability', () => {
+    expect(client.getServerCapabilities()?.resources).toBeDefined();
+  });
+
+  it('should list documents as fluentui:// resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.some((r) => r.uri === 'fluentui://v9/components/buttons/button')).toBe(true);
+  });
+
+  it('should list resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.length).toBeGreaterThan(0);
+  });
+
+  it('should read a resource by URI', async () => {
+    const { contents } = await client.readResource({ uri: 'fluentui://v9/foundation/theming' });
+    expect((contents[0] as { text: string }).text.length).toBeGreaterThan(0);
+  });
+
+  it('should reject an unknown resource URI with a resource-not-found error', async () => {
+    await expect(
+      client.readResource({ uri: 'fluentui://v9/components/does-not-exist' })
+    ).rejects.toMatchObject({ code: -32002 });
+  });
+
+  it('should not advertise resource list changes without watch mode', () => {
+    expect(client.getServerCapabilities()?.resources?.listChanged).toBeUndefined();
+  });
+});
+
+describe('createMcpServer — watch mode', () => {
+  it('should advertise and deliver resource list change notifications', async () => {
+    const server = createMcpServer(
+      { serverName: 'fluentui-v9-docs', serverVersion: 'test', watch: true },
+      await getTestContext()
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    const watchClient = new Client({ name: 'watch-client', version: '1.0.0' });
+    const notified = new Promise<void>((resolvePromise) => {
+      watchClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolvePromise());
+    });
+    await watchClient.connect(clientTransport);
+
+    expect(watchClient.getServerCapabilities()?.resources?.listChanged).toBe(true);
+    await server.sendResourceListChanged();
+    await notified;
+    await watchClient.close();
+  });
+});
+
+// ============================================================================
+// prompts/*
+// ============================================================================
+
+describe('createMcpServer — prompts', () => {
+  it('should advertise the prompts capability', () => {
+    expect(client.getServerCapabilities()?.prompts).toBeDefined();
+  });
+
+  it('should list the workflow prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toContain('audit-accessibility');
+  });
+
+  it('should fill in a prompt with its arguments', async () => {
+    const { messages } = await client.getPrompt({
+      name: 'audit-accessibility',
+      arguments: { code: '<img src="x" />' },
+    });
+    const last = messages[messages.length - 1].content as { text: string };
+    expect(last.text).toContain('<img src="x" />');
+  });
+
+  it('should reject a missing required argument with InvalidParams', async () => {
+    await expect(
+      client.getPrompt({ name: 'audit-accessibility', arguments: {} })
+    ).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('should reject an unknown prompt with InvalidParams', async () => {
+    await expect(client.getPrompt({ name: 'nope' })).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('should fill in a prompt from the requested version', async () => {
+    const promptTexts = async (version: string): Promise<string[]> => {
+      const { messages } = await client.getPrompt({
+        name: 'audit-accessibility',
+        arguments: { code: '<img />', version },
+      });
+      return messages.map((message) => (message.content as { text: string }).text);
+    };
+
+    const v9Texts = await promptTexts('v9');
+    const v8Texts = await promptTexts('v8');
+    expect(v9Texts[0]).not.toContain('no documentation was found');
+    expect(v8Texts[0]).toContain('no documentation was found');
+    expect(v9Texts[v9Texts.length - 1]).toContain('FluentUI v9 APIs');
+    expect(v8Texts[v8Texts.length - 1]).toContain('FluentUI v8 APIs');
+  });
+
+  it('should reject migrate-to-v9 for another version with InvalidParams', async () => {
+    await expect(
+      client.getPrompt({ name: 'migrate-to-v9', arguments: { code: 'const x = 1;', version: 'v8' } })
+    ).rejects.toMatchObject({ code: -32602 });
+  });
+
+  it('should reject an unknown version with InvalidParams listing the served versions', async () => {
+    await expect(
+      client.getPrompt({ name: 'audit-accessibility', arguments: { code: '<img />', version: 'v7' } })
+    ).rejects.toMatchObject({ code: -32602, message: expect.stringContaining('Available versions: v9, v8') });
+  });
+});
+
+// ============================================================================
+// completion/complete
+// ============================================================================
+
+describe('createMcpServer — completions', () => {
+  it('should advertise the completions capability', () => {
+    expect(client.getServerCapabilities()?.completions).toBeDefined();
+  });
+
+  it('should complete a prompt argument', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'migrate-to-v9' },
+      argument: { name: 'targetComponent', value: 'dia' },
+    });
+    expect(completion.values).toContain('Dialog');
+  });
+
+  it('should complete a resource template variable', async () => {
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'fluentui://{version}/component/{name}' },
+      argument: { name: 'name', value: 'butt' },
+    });
+    expect(completion.values[0]).toBe('Button');
+  });
+});
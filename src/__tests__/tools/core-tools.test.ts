@@ -1,6 +1,7 @@
 /**
- * Tests for core tools: query_component, search_docs, list_by_category,
- * get_foundation, get_pattern, get_enterprise.
+ * Tests for core tools: query_component, get_section, get_outline,
+ * get_related_docs, search_docs, list_by_category, get_foundation,
+ * get_pattern, get_enterprise.
  *
  * Uses the real docs/v9/ index for integration-level validation.
  *
@@ -10,9 +11,13 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import type { DocumentStore } from '../../indexer/document-store.js';
 import type { SearchEngine } from '../../indexer/search-engine.js';
+import type { SearchScope } from '../../types/index.js';
 import { getTestIndex } from './tools-setup.js';
 
 import { queryComponent } from '../../tools/query-component.js';
+import { getSection } from '../../tools/get-section.js';
+import { getOutline } from '../../tools/get-outline.js';
+import { getRelatedDocs } from '../../tools/get-related-docs.js';
 import { searchDocs } from '../../tools/search-docs.js';
 import { listByCategory } from '../../tools/list-by-category.js';
 import { getFoundation } from '../../tools/get-foundation.js';
@@ -55,6 +60,12 @@ describe('queryComponent', () => {
     expect(result).toContain('Error');
   });
 
+  it('should suggest the corrected name for a misspelled component', () => {
+    const result = queryComponent(store, { componentName: 'comobox' });
+    expect(result).toContain('Did you mean: Combobox?');
+    expect(result).toContain('# Combobox');
+  });
+
   it('should return not-found message with suggestions for unknown component', () => {
     const result = queryComponent(store, { componentName: 'xxxxxxxxx' });
     expect(result).toContain('not found');
@@ -62,6 +73,161 @@ describe('queryComponent', () => {
   });
 });
 
+// ============================================================================
+// getSection
+// ============================================================================
+
+describe('getSection', () => {
+  it('should return just the section with its sub-headings', () => {
+    const result = getSection(store, { docName: 'Input', heading: 'Accessibility' });
+    expect(result).toContain('**Section:** Input › Accessibility');
+    expect(result).toContain('`components/forms/input#accessibility`');
+    expect(result).toContain('## Accessibility');
+    expect(result).toContain('### Keyboard Support');
+    expect(result).not.toContain('## Styling Customization');
+    expect(result).not.toContain('## Basic Usage');
+  });
+
+  it('should find a section by its anchor', () => {
+    const result = getSection(store, { docName: 'input', heading: '#controlled-vs-uncontrolled' });
+    expect(result).toContain('## Controlled vs Uncontrolled');
+    expect(result).toContain('### Controlled Input');
+  });
+
+  it('should find a section by its heading path', () => {
+    const result = getSection(store, { docName: 'Input', heading: 'Accessibility > Keyboard Support' });
+    expect(result).toContain('**Section:** Input › Accessibility › Keyboard Support');
+    expect(result).not.toContain('### Requirements');
+  });
+
+  it('should find a section of a pattern document', () => {
+    const result = getSection(store, { docName: 'validation', heading: 'Async Validation' });
+    expect(result).toContain('patterns/forms/validation#async-validation');
+  });
+
+  it('should accept a document ID', () => {
+    const result = getSection(store, { docName: 'components/forms/input', heading: 'Size Variants' });
+    expect(result).toContain('## Size Variants');
+  });
+
+  it('should return the outline when the heading is not found', () => {
+    const result = getSection(store, { docName: 'Input', heading: 'Theming' });
+    expect(result).toContain('Heading "Theming" not found in Input');
+    expect(result).toContain('**Outline:**');
+    expect(result).toContain('- Accessibility (`accessibility`)');
+    expect(result).toContain('  - Keyboard Support (`keyboard-support`)');
+  });
+
+  it('should correct a misspelled document name', () => {
+    const result = getSection(store, { docName: 'comobox', heading: 'Accessibility' });
+    expect(result).toContain('Did you mean: Combobox?');
+    expect(result).toContain('**Section:** Combobox › Accessibility');
+  });
+
+  it('should report an unknown document', () => {
+    const result = getSection(store, { docName: 'zzzzzzzzzz', heading: 'Accessibility' });
+    expect(result).toContain('Document "zzzzzzzzzz" not found');
+  });
+
+  it('should return an error for a missing heading', () => {
+    expect(getSection(store, { docName: 'Input', heading: ' ' })).toContain('Error');
+  });
+});
+
+// ============================================================================
+// getOutline
+// ============================================================================
+
+describe('getOutline', () => {
+  it('should list the headings of a document with their sizes', () => {
+    const result = getOutline(store, { docName: 'Input' });
+    expect(result).toContain('# Outline: Input');
+    expect(result).toContain('**Document:** `components/forms/input`');
+    expect(result).toMatch(/^ {2}- Accessibility \(`accessibility`\) — ~\d+ tokens · code · table$/m);
+    expect(result).toMatch(/^ {4}- Keyboard Support \(`keyboard-support`\) — ~\d+ tokens · table$/m);
+    expect(result).toContain('get_section');
+  });
+
+  it('should stop at the requested heading level', () => {
+    const result = getOutline(store, { docName: 'Input', maxLevel: 2 });
+    expect(result).toContain('- Accessibility');
+    expect(result).not.toContain('Keyboard Support');
+  });
+
+  it('should outline every document of a folder', () => {
+    const result = getOutline(store, { module: '03-patterns/forms', maxLevel: 1 });
+    expect(result).toContain('# Outline: 03-patterns/forms');
+    expect(result).toContain('## Form Validation Patterns');
+    expect(result).toContain('`patterns/forms/validation`');
+    expect(result).not.toContain('components/');
+  });
+
+  it('should outline every document of a module', () => {
+    const result = getOutline(store, { module: 'foundation', maxLevel: 1 });
+    expect(result).toContain(`${store.getByModule('foundation').length} documents`);
+  });
+
+  it('should correct a misspelled document name', () => {
+    expect(getOutline(store, { docName: 'comobox' })).toContain('Did you mean: Combobox?');
+  });
+
+  it('should report an unknown document', () => {
+    expect(getOutline(store, { docName: 'zzzzzzzzzz' })).toContain('Document "zzzzzzzzzz" not found');
+  });
+
+  it('should return an error for an unknown module', () => {
+    const result = getOutline(store, { module: 'recipes' });
+    expect(result).toContain('No documents in "recipes"');
+    expect(result).toContain('patterns');
+  });
+
+  it('should return an error unless exactly one of docName and module is given', () => {
+    expect(getOutline(store, {})).toContain('Error');
+    expect(getOutline(store, { docName: 'Input', module: 'patterns' })).toContain('Error');
+  });
+});
+
+// ============================================================================
+// getRelatedDocs
+// ============================================================================
+
+describe('getRelatedDocs', () => {
+  it('should list the documents linking to a document', () => {
+    const result = getRelatedDocs(store, { docName: 'Field' });
+    expect(result).toContain('# Related Docs: Field');
+    expect(result).toMatch(/## Referenced By \(\d+ documents\)/);
+    expect(result).toContain('| Input (`components/forms/input`) | Input › See Also | Field |');
+  });
+
+  it('should list the documents a document links to', () => {
+    const result = getRelatedDocs(store, { docName: 'Field' });
+    expect(result).toMatch(/## Links To \(\d+\)/);
+    expect(result).toContain('| Input | Input (`components/forms/input`) | Field › See Also |');
+  });
+
+  it('should list broken links with the problem', () => {
+    const result = getRelatedDocs(store, { docName: 'Tag' });
+    expect(result).toContain('## Broken Links (1)');
+    expect(result).toContain('No indexed document at 02-components/data-display/tag-picker.md');
+  });
+
+  it('should omit the broken links section when every link resolves', () => {
+    expect(getRelatedDocs(store, { docName: 'Field' })).not.toContain('## Broken Links');
+  });
+
+  it('should correct a misspelled document name', () => {
+    expect(getRelatedDocs(store, { docName: 'feild' })).toContain('Did you mean: Field?');
+  });
+
+  it('should report an unknown document', () => {
+    expect(getRelatedDocs(store, { docName: 'zzzzzzzzzz' })).toContain('Document "zzzzzzzzzz" not found');
+  });
+
+  it('should return an error for an empty document name', () => {
+    expect(getRelatedDocs(store, { docName: '' })).toContain('Error');
+  });
+});
+
 // ============================================================================
 // searchDocs
 // ============================================================================
@@ -101,6 +267,79 @@ describe('searchDocs', () => {
     expect(result).toContain('list_all_docs');
   });
 
+  it('should return results and a suggestion for a misspelled query', () => {
+    const result = searchDocs(searchEngine, { query: 'datagird' });
+    expect(result).toContain('Did you mean: DataGrid?');
+    expect(result).toContain('### 1. DataGrid');
+  });
+
+  it('should not suggest anything for a correctly spelled query', () => {
+    expect(searchDocs(searchEngine, { query: 'data grid' })).not.toContain('Did you mean');
+  });
+
+  it('should match quoted phrases', () => {
+    const result = searchDocs(searchEngine, { query: '"controlled vs uncontrolled"' });
+    expect(result).toContain('### 1. Controlled & Uncontrolled Components');
+  });
+
+  it('should leave out documents with excluded terms', () => {
+    const all = searchDocs(searchEngine, { query: 'form', limit: 50 });
+    const filtered = searchDocs(searchEngine, { query: 'form -dialog', limit: 50 });
+    expect(all).toContain('Form Dialog Patterns');
+    expect(filtered).not.toContain('Form Dialog Patterns');
+  });
+
+  it('should combine required alternatives with OR', () => {
+    const result = searchDocs(searchEngine, { query: '+dialog OR +drawer', limit: 2 });
+    expect(result).toContain('. Dialog (');
+    expect(result).toContain('. Drawer (');
+  });
+
+  it('should apply inline filters', () => {
+    const result = searchDocs(searchEngine, { query: 'category:forms has:props validation', limit: 50 });
+    const tagLines = result.split('\n').filter((line) => line.startsWith('📁 '));
+    expect(tagLines.length).toBeGreaterThan(0);
+    for (const line of tagLines) {
+      expect(line).toContain('🏷️ forms');
+      expect(line).toContain('📋 has props');
+    }
+  });
+
+  it('should list every document matching a filter-only query', () => {
+    const result = searchDocs(searchEngine, { query: 'title:menu', limit: 50 });
+    expect(result).toContain('. Menu (100% relevant)');
+    expect(result).toContain('. MenuButton (100% relevant)');
+  });
+
+  it('should return an error for an unknown has: filter', () => {
+    const result = searchDocs(searchEngine, { query: 'button has:tests' });
+    expect(result).toContain('Unknown filter "has:tests"');
+    expect(result).toContain('has:examples, has:props');
+  });
+
+  it('should show the best matching section of each result', () => {
+    const result = searchDocs(searchEngine, { query: 'input controlled uncontrolled', limit: 1 });
+    expect(result).toContain('📍 Input › Controlled vs Uncontrolled (`#controlled-vs-uncontrolled`)');
+  });
+
+  it('should find examples that use an API', () => {
+    const result = searchDocs(searchEngine, { query: 'onOpenChange', searchIn: 'code' });
+    expect(result).toContain('(code only)');
+    expect(result).toContain('onOpenChange');
+    expect(result).toContain('. Drawer (');
+  });
+
+  it('should not find code-only identifiers in prose', () => {
+    const result = searchDocs(searchEngine, { query: '+onOpenChange', searchIn: 'prose' });
+    expect(result).toContain('No results');
+    expect(result).toContain('searchIn: "all"');
+  });
+
+  it('should return an error for an unknown searchIn', () => {
+    const result = searchDocs(searchEngine, { query: 'button', searchIn: 'comments' as SearchScope });
+    expect(result).toContain('Invalid searchIn "comments"');
+  });
+
   it('should return no-results message for unmatched query', () => {
     const result = searchDocs(searchEngine, { query: 'xyznonexistent123' });
     expect(result).toContain('No results');
@@ -0,0 +1,25 @@
+/**
+ * Shared test setup for tests that index a temporary docs tree.
+ *
+ * Indexer and command tests build small docs folders of their own rather
+ * than indexing the real docs (see `tools-setup` for those), so they can
+ * add, change, and delete files between builds.
+ *
+ * @module __tests__/tools/docs-setup
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+
+/**
+ * Write a markdown file into a temporary docs tree, creating its folders.
+ *
+ * @param docsPath - Absolute path to the docs folder
+ * @param relativePath - Path relative to the docs folder
+ * @param content - File content
+ */
+export function writeDoc(docsPath: string, relativePath: string, content: string): void {
+  const filePath = join(docsPath, relativePath);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+}
@@ -1,6 +1,6 @@
 /**
  * Tests for intelligence tools: suggest_components, get_implementation_guide,
- * get_component_examples, get_props_reference.
+ * get_component_examples, get_props_reference, compare_components.
  *
  * Uses the real docs/v9/ index for integration-level validation.
  *
@@ -16,6 +16,7 @@ import { suggestComponents } from '../../tools/suggest-components.js';
 import { getImplementationGuide } from '../../tools/get-implementation-guide.js';
 import { getComponentExamples } from '../../tools/get-component-examples.js';
 import { getPropsReference } from '../../tools/get-props-reference.js';
+import { compareComponents } from '../../tools/compare-components.js';
 
 let store: DocumentStore;
 let searchEngine: SearchEngine;
@@ -149,6 +150,12 @@ describe('getPropsReference', () => {
     expect(result).toContain('disabled');
   });
 
+  it('should suggest the corrected name for a misspelled component', () => {
+    const result = getPropsReference(store, { componentName: 'buton' });
+    expect(result).toContain('Did you mean: Button?');
+    expect(result).toContain('appearance');
+  });
+
   it('should return not-found for unknown component', () => {
     const result = getPropsReference(store, { componentName: 'xxxxxxxxx' });
     expect(result).toContain('not found');
@@ -158,4 +165,94 @@ describe('getPropsReference', () => {
     const result = getPropsReference(store, { componentName: '' });
     expect(result).toContain('Error');
   });
+
+  it('should look up a single prop by name', () => {
+    const result = getPropsReference(store, { componentName: 'Button', propName: 'Appearance' });
+    expect(result).toContain('**Filter:** name `Appearance`');
+    expect(result).toContain("`'secondary' \\| 'primary'");
+    expect(result).not.toContain('disabledFocusable');
+  });
+
+  it('should look up a slot by name', () => {
+    const result = getPropsReference(store, { componentName: 'Button', propName: 'root' });
+    expect(result).toContain('## Slots');
+    expect(result).not.toContain('## Props');
+  });
+
+  it('should filter props by type', () => {
+    const result = getPropsReference(store, { componentName: 'Button', type: 'boolean' });
+    expect(result).toContain('`disabled`');
+    expect(result).toContain('`disabledFocusable`');
+    expect(result).not.toContain('`appearance`');
+  });
+
+  it('should mark required props', () => {
+    const result = getPropsReference(store, { componentName: 'Tooltip', propName: 'content' });
+    expect(result).toContain('**required**');
+  });
+
+  it('should list the available props when nothing matches', () => {
+    const result = getPropsReference(store, { componentName: 'Button', propName: 'colour' });
+    expect(result).toContain('No props of Button match name `colour`.');
+    expect(result).toContain('**Props:** appearance, disabled');
+    expect(result).toContain('**Slots:** root, icon');
+  });
+});
+
+// ============================================================================
+// compareComponents
+// ============================================================================
+
+describe('compareComponents', () => {
+  it('should compare the package and import of each component', () => {
+    const result = compareComponents(store, { components: ['Dialog', 'Drawer', 'Popover'] });
+    expect(result).toContain('# Component Comparison: Dialog vs Drawer vs Popover');
+    expect(result).toContain('| | Dialog | Drawer | Popover |');
+    expect(result).toContain('| **Package** | `@fluentui/react-dialog` | `@fluentui/react-drawer` | `@fluentui/react-popover` |');
+  });
+
+  it('should list the shared props with their type per component', () => {
+    const result = compareComponents(store, { components: ['Dialog', 'Drawer', 'Popover'] });
+    expect(result).toContain('## Shared Props (2)');
+    expect(result).toContain('| `open` | `boolean` | `boolean` | `boolean` |');
+  });
+
+  it('should list the props only one component has', () => {
+    const result = compareComponents(store, { components: ['Dialog', 'Drawer', 'Popover'] });
+    expect(result).toMatch(/\| \*\*Unique props\*\* \| `modalType` \| `position`, `size` \| .*`trapFocus`/);
+  });
+
+  it('should take the do\'s and don\'ts from the Best Practices section', () => {
+    const result = compareComponents(store, { components: ['Select', 'Combobox'] });
+    expect(result).toContain('**Do:**\n- Use Field for proper labeling');
+    expect(result).toContain('- Don\'t use for very long lists (use Combobox)');
+  });
+
+  it('should take accessibility notes from the Accessibility section', () => {
+    const result = compareComponents(store, { components: ['Dialog', 'Drawer'] });
+    expect(result).toContain('- `Escape`: Close the dialog');
+    expect(result).toContain('- Focus trapped in overlay drawer');
+  });
+
+  it('should point to sections comparing the components', () => {
+    const result = compareComponents(store, { components: ['Select', 'Combobox'] });
+    expect(result).toContain('Compared in the doc: "Select › Select vs Combobox"');
+  });
+
+  it('should compare the found components when a name has no doc', () => {
+    const result = compareComponents(store, { components: ['Select', 'Combobox', 'zzzzzzzzzz'] });
+    expect(result).toContain('No documentation for "zzzzzzzzzz"');
+    expect(result).toContain('# Component Comparison: Select vs Combobox');
+  });
+
+  it('should return an error for fewer than two or more than five names', () => {
+    expect(compareComponents(store, { components: ['Select'] })).toContain('Error');
+    expect(compareComponents(store, {
+      components: ['Select', 'Combobox', 'Input', 'Textarea', 'Checkbox', 'Radio'],
+    })).toContain('Error');
+  });
+
+  it('should return an error when two names resolve to the same component', () => {
+    expect(compareComponents(store, { components: ['Select', 'select'] })).toContain('both resolve to Select');
+  });
 });
@@ -0,0 +1,243 @@
+/**
+ * Tests for token-budgeted responses with continuation cursors.
+ *
+ * Validates splitting at headings (and the fallbacks for oversized
+ * sections), the page footer and `page` info, cursor validation, and
+ * paging real tool responses through the dispatcher.
+ *
+ * @module __tests__/tools/pagination
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PageInfo, ToolResult } from '../../types/index.js';
+import type { ToolContext } from '../../tools/dispatcher.js';
+import { dispatchToolCall } from '../../tools/dispatcher.js';
+import { paginateResult } from '../../tools/pagination.js';
+import { getTestContext } from './tools-setup.js';
+
+/** Structured output with the page info added by pagination */
+type Paged = { name: string; page?: PageInfo };
+
+/** A result whose text has three sections of 40 characters each */
+const SECTIONED: ToolResult<{ name: string }> = {
+  text: [
+    '# One\n\n' + 'a'.repeat(32),
+    '## Two\n\n' + 'b'.repeat(31),
+    '## Three\n\n' + 'c'.repeat(29),
+  ].join('\n\n'),
+  structured: { name: 'sectioned' },
+};
+
+/**
+ * Collect every page of a result by following the cursors.
+ *
+ * @param result - The complete result
+ * @param maxChars - Character budget per page
+ * @returns The pages, in order
+ */
+function collectPages(result: ToolResult<{ name: string }>, maxChars: number): Array<ToolResult<Paged>> {
+  const pages: Array<ToolResult<Paged>> = [];
+  let cursor: string | undefined;
+  do {
+    const page = paginateResult(result, { maxChars, cursor });
+    pages.push(page);
+    cursor = page.structured?.page?.nextCursor ?? undefined;
+  } while (cursor && pages.length < 100);
+  return pages;
+}
+
+/**
+ * Strip the footer from a page's text.
+ *
+ * @param text - Page text
+ * @returns The page content without the footer
+ */
+function withoutFooter(text: string): string {
+  return text.slice(0, text.lastIndexOf('\n\n---\n'));
+}
+
+// ============================================================================
+// Splitting
+// ============================================================================
+
+describe('paginateResult — splitting', () => {
+  it('should return the result unchanged without a budget or cursor', () => {
+    expect(paginateResult(SECTIONED, {})).toBe(SECTIONED);
+  });
+
+  it('should return the result unchanged when it fits the budget', () => {
+    expect(paginateResult(SECTIONED, { maxChars: 1000 })).toBe(SECTIONED);
+  });
+
+  it('should end a page at the last heading within the budget', () => {
+    const page = paginateResult(SECTIONED, { maxChars: 90 });
+    expect(withoutFooter(page.text)).toBe(SECTIONED.text.slice(0, SECTIONED.text.indexOf('## Three')).trimEnd());
+    expect(page.structured?.page?.end).toBe(SECTIONED.text.indexOf('## Three'));
+  });
+
+  it('should convert maxTokens to characters', () => {
+    const byTokens = paginateResult(SECTIONED, { maxTokens: 22 });
+    const byChars = paginateResult(SECTIONED, { maxChars: 88 });
+    expect(byTokens.text).toBe(byChars.text);
+  });
+
+  it('should use the smaller of maxTokens and maxChars', () => {
+    const page = paginateResult(SECTIONED, { maxTokens: 1000, maxChars: 50 });
+    expect(page.structured?.page?.end).toBe(SECTIONED.text.indexOf('## Two'));
+  });
+
+  it('should ignore headings inside code blocks', () => {
+    const result = { text: '# Title\n\n```md\n## Not a heading\n```\n\n## Next\n\ntext', structured: { name: 'x' } };
+    const page = paginateResult(result, { maxChars: 40 });
+    expect(page.structured?.page?.end).toBe(result.text.indexOf('## Next'));
+  });
+
+  it('should split a section larger than the budget at a blank line, then a line break', () => {
+    const paragraphs = { text: `# Big\n\n${'x'.repeat(20)}\n\n${'y'.repeat(20)}`, structured: { name: 'x' } };
+    expect(paginateResult(paragraphs, { maxChars: 35 }).structured?.page?.end).toBe(29);
+
+    const lines = { text: `${'x'.repeat(20)}\n${'y'.repeat(20)}`, structured: { name: 'x' } };
+    expect(paginateResult(lines, { maxChars: 30 }).structured?.page?.end).toBe(21);
+
+    const word = { text: 'z'.repeat(50), structured: { name: 'x' } };
+    expect(paginateResult(word, { maxChars: 30 }).structured?.page?.end).toBe(30);
+  });
+
+  it('should cover the whole text when following the cursors', () => {
+    const pages = collectPages(SECTIONED, 45);
+    expect(pages).toHaveLength(3);
+    const infos = pages.map((page) => page.structured!.page!);
+    expect(infos.map(({ start }) => start)).toEqual([0, infos[0].end, infos[1].end]);
+    expect(infos[2].end).toBe(SECTIONED.text.length);
+    expect(pages.map((page) => withoutFooter(page.text)).join('\n\n')).toBe(SECTIONED.text);
+  });
+});
+
+// ============================================================================
+// Footer and page info
+// ============================================================================
+
+describe('paginateResult — footer and page info', () => {
+  it('should end a page with the cursor to continue with', () => {
+    const page = paginateResult(SECTIONED, { maxChars: 45 });
+    const { nextCursor, end, total } = page.structured!.page!;
+    expect(nextCursor).toMatch(/^[\w-]+$/);
+    expect(page.text).toContain(`Characters 1–${end} of ${total}.`);
+    expect(page.text).toContain(`Continue with cursor "${nextCursor}"`);
+  });
+
+  it('should mark the last page', () => {
+    const [, , last] = collectPages(SECTIONED, 45);
+    expect(last.structured?.page?.nextCursor).toBeNull();
+    expect(last.text).toContain('End of response.');
+  });
+
+  it('should keep the structured output on every page', () => {
+    const page = paginateResult(SECTIONED, { maxChars: 45 });
+    expect(page.structured?.name).toBe('sectioned');
+    expect(page.structured?.page?.contentOmitted).toBe(false);
+  });
+
+  it('should empty the content and code fields of the structured output on every page', () => {
+    const result: ToolResult<{ name: string; docs: Array<{ content: string }>; code: string }> = {
+      ...SECTIONED,
+      structured: { name: 'bulk', docs: [{ content: SECTIONED.text }], code: 'const x = 1;' },
+    };
+    const page = paginateResult(result, { maxChars: 45 });
+
+    expect(page.structured).toMatchObject({ name: 'bulk', docs: [{ content: '' }], code: '' });
+    expect(page.structured?.page?.contentOmitted).toBe(true);
+    expect(result.structured?.docs[0].content).toBe(SECTIONED.text);
+  });
+
+  it('should leave the structured output alone when the text fits', () => {
+    const result = { ...SECTIONED, structured: { name: 'fits', content: SECTIONED.text } };
+    expect(paginateResult(result, { maxChars: 1000 })).toBe(result);
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe('paginateResult — validation', () => {
+  it('should reject a budget that is not a positive number', () => {
+    expect(paginateResult(SECTIONED, { maxTokens: 0 }).text).toContain('maxTokens must be a positive number');
+    expect(paginateResult(SECTIONED, { maxChars: -5 }).isError).toBe(true);
+  });
+
+  it('should reject a malformed cursor', () => {
+    const page = paginateResult(SECTIONED, { maxChars: 45, cursor: 'not-a-cursor' });
+    expect(page.isError).toBe(true);
+    expect(page.text).toContain('Invalid or expired cursor');
+  });
+
+  it('should reject a cursor issued for a different text', () => {
+    const cursor = paginateResult(SECTIONED, { maxChars: 45 }).structured!.page!.nextCursor!;
+    const changed = { ...SECTIONED, text: `${SECTIONED.text}\n\nMore.` };
+    expect(paginateResult(changed, { maxChars: 45, cursor }).isError).toBe(true);
+  });
+
+  it('should continue with the rest of the text for a cursor without a budget', () => {
+    const first = paginateResult(SECTIONED, { maxChars: 45 });
+    const rest = paginateResult(SECTIONED, { cursor: first.structured!.page!.nextCursor! });
+    expect(rest.structured?.page?.end).toBe(SECTIONED.text.length);
+  });
+
+  it('should leave error results alone', () => {
+    const error: ToolResult = { text: '**Error:** boom', isError: true };
+    expect(paginateResult(error, { maxChars: 5 })).toBe(error);
+  });
+});
+
+// ============================================================================
+// Through the dispatcher
+// ============================================================================
+
+describe('dispatchToolCall — pagination', () => {
+  let context: ToolContext;
+
+  beforeAll(async () => {
+    context = await getTestContext();
+  });
+
+  it('should page a long document at its headings', async () => {
+    const full = await dispatchToolCall('query_component', { componentName: 'Input' }, context);
+    const page = await dispatchToolCall('query_component', { componentName: 'Input', maxTokens: 500 }, context);
+    const { end, nextCursor } = (page.structured as Paged).page!;
+
+    expect(end).toBeLessThanOrEqual(2000);
+    expect(full.text.slice(end)).toMatch(/^#{1,6} /);
+    expect(page.text).toContain(`Continue with cursor "${nextCursor}"`);
+  });
+
+  it('should keep the structured output within the budget', async () => {
+    const full = await dispatchToolCall('query_component', { componentName: 'Input' }, context);
+    const page = await dispatchToolCall('query_component', { componentName: 'Input', maxTokens: 500 }, context);
+
+    expect(JSON.stringify(full.structured).length).toBeGreaterThan(10000);
+    expect(JSON.stringify(page.structured).length).toBeLessThan(2000);
+    expect((page.structured as Paged).page?.contentOmitted).toBe(true);
+  });
+
+  it('should return every part of a long response across pages', async () => {
+    const args = { topic: 'dashboard', maxTokens: 2000 };
+    const full = await dispatchToolCall('get_enterprise', { topic: 'dashboard' }, context);
+    const parts: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await dispatchToolCall('get_enterprise', cursor ? { ...args, cursor } : args, context);
+      expect(page.isError).toBeFalsy();
+      parts.push(withoutFooter(page.text));
+      cursor = (page.structured as Paged).page!.nextCursor;
+    } while (cursor && parts.length < 100);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.join('').replace(/\s+/g, '')).toBe(full.text.replace(/\s+/g, ''));
+  });
+
+  it('should page every tool', async () => {
+    const page = await dispatchToolCall('list_all_docs', { maxChars: 500 }, context);
+    expect((page.structured as Paged).page?.nextCursor).not.toBeNull();
+  });
+});
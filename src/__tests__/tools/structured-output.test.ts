@@ -0,0 +1,475 @@
+/**
+ * Tests for the structured output of every tool (the `*Result` functions).
+ *
+ * Checks that each tool's structured result carries the same data as its
+ * markdown rendering, and that invalid input is flagged as an error.
+ *
+ * Uses the real docs/v9/ index for integration-level validation.
+ *
+ * @module __tests__/tools/structured-output
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { join } from 'path';
+import type { DocumentStore } from '../../indexer/document-store.js';
+import type { SearchEngine } from '../../indexer/search-engine.js';
+import { getTestIndex } from './tools-setup.js';
+
+import { queryComponentResult } from '../../tools/query-component.js';
+import { getSectionResult } from '../../tools/get-section.js';
+import { getOutlineResult } from '../../tools/get-outline.js';
+import { getRelatedDocsResult } from '../../tools/get-related-docs.js';
+import { searchDocsResult } from '../../tools/search-docs.js';
+import { listByCategoryResult } from '../../tools/list-by-category.js';
+import { getFoundationResult } from '../../tools/get-foundation.js';
+import { getPatternResult } from '../../tools/get-pattern.js';
+import { getEnterpriseResult } from '../../tools/get-enterprise.js';
+import { getComponentExamplesResult } from '../../tools/get-component-examples.js';
+import { getPropsReferenceResult } from '../../tools/get-props-reference.js';
+import { suggestComponentsResult } from '../../tools/suggest-components.js';
+import { getImplementationGuideResult } from '../../tools/get-implementation-guide.js';
+import { compareComponentsResult } from '../../tools/compare-components.js';
+import { listAllDocsResult } from '../../tools/list-all-docs.js';
+import { lintDocsResult } from '../../tools/lint-docs.js';
+import { reindexResult } from '../../tools/reindex.js';
+import { toDocumentSummary, toolError } from '../../tools/tool-result.js';
+
+/** Absolute path to the bundled v9 docs directory */
+const DOCS_V9_PATH = join(process.cwd(), 'docs', 'v9');
+
+let store: DocumentStore;
+let searchEngine: SearchEngine;
+
+beforeAll(async () => {
+  const index = await getTestIndex();
+  store = index.store;
+  searchEngine = index.searchEngine;
+});
+
+// ============================================================================
+// tool-result helpers
+// ============================================================================
+
+describe('tool-result helpers', () => {
+  it('should summarize a document without its content', () => {
+    const doc = store.findByName('Button')!;
+    const summary = toDocumentSummary(doc);
+    expect(summary.id).toBe(doc.id);
+    expect(summary.packageName).toBe('@fluentui/react-button');
+    expect(summary).not.toHaveProperty('content');
+  });
+
+  it('should build an error result without structured output', () => {
+    const result = toolError('**Error:** boom');
+    expect(result.isError).toBe(true);
+    expect(result.structured).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Core tools
+// ============================================================================
+
+describe('queryComponentResult', () => {
+  it('should return the component with its content', () => {
+    const { structured } = queryComponentResult(store, { componentName: 'button' });
+    expect(structured?.component?.title).toBe('Button');
+    expect(structured?.component?.content).toContain('# Button');
+  });
+
+  it('should list available components when not found', () => {
+    const { structured, isError } = queryComponentResult(store, { componentName: 'xxxxxxxxx' });
+    expect(isError).toBeFalsy();
+    expect(structured?.component).toBeNull();
+    expect(structured?.availableComponents).toContain('Button');
+  });
+
+  it('should flag an empty name as an error', () => {
+    expect(queryComponentResult(store, { componentName: '' }).isError).toBe(true);
+  });
+
+  it('should report the corrected name of a misspelled component', () => {
+    const { structured } = queryComponentResult(store, { componentName: 'comobox' });
+    expect(structured?.component?.title).toBe('Combobox');
+    expect(structured?.didYouMean).toBe('Combobox');
+  });
+
+  it('should not report a correction for a matching name', () => {
+    expect(queryComponentResult(store, { componentName: 'button' }).structured?.didYouMean).toBeNull();
+  });
+});
+
+describe('getSectionResult', () => {
+  it('should return the section heading and its markdown', () => {
+    const { structured } = getSectionResult(store, { docName: 'input', heading: 'accessibility' });
+    expect(structured?.document?.id).toBe('components/forms/input');
+    expect(structured?.section).toEqual({
+      heading: 'Accessibility',
+      level: 2,
+      anchor: 'accessibility',
+      path: ['Input', 'Accessibility'],
+    });
+    expect(structured?.content).toMatch(/^## Accessibility\n/);
+    expect(structured?.outline).toEqual([]);
+  });
+
+  it('should return the outline when the heading is not found', () => {
+    const { structured, isError } = getSectionResult(store, { docName: 'input', heading: 'nope' });
+    expect(isError).toBeFalsy();
+    expect(structured?.section).toBeNull();
+    expect(structured?.content).toBeNull();
+    expect(structured?.outline[0]).toEqual({ heading: 'Input', level: 1, anchor: 'input', path: ['Input'] });
+  });
+
+  it('should return no document for an unknown name', () => {
+    const { structured } = getSectionResult(store, { docName: 'zzzzzzzzzz', heading: 'Usage' });
+    expect(structured?.document).toBeNull();
+    expect(structured?.outline).toEqual([]);
+  });
+
+  it('should flag an empty document name as an error', () => {
+    expect(getSectionResult(store, { docName: '', heading: 'Usage' }).isError).toBe(true);
+  });
+});
+
+describe('getOutlineResult', () => {
+  it('should return the document with its heading tree', () => {
+    const { structured } = getOutlineResult(store, { docName: 'input' });
+    const [input] = structured!.documents;
+    expect(input.document.id).toBe('components/forms/input');
+    expect(input.tokens).toBeGreaterThan(0);
+    const [title] = input.outline;
+    expect(title.heading).toBe('Input');
+    const accessibility = title.children.find((node) => node.anchor === 'accessibility');
+    expect(accessibility).toMatchObject({
+      level: 2,
+      path: ['Input', 'Accessibility'],
+      hasCode: true,
+      hasTable: true,
+    });
+    expect(accessibility!.children.map((node) => node.heading)).toContain('Keyboard Support');
+  });
+
+  it('should cut the tree at maxLevel but keep the section sizes', () => {
+    const full = getOutlineResult(store, { docName: 'input' }).structured!.documents[0].outline[0];
+    const cut = getOutlineResult(store, { docName: 'input', maxLevel: 1 }).structured!;
+    expect(cut.maxLevel).toBe(1);
+    expect(cut.documents[0].outline[0].children).toEqual([]);
+    expect(cut.documents[0].outline[0].tokens).toBe(full.tokens);
+  });
+
+  it('should clamp maxLevel to the outline depth', () => {
+    expect(getOutlineResult(store, { docName: 'input', maxLevel: 9 }).structured?.maxLevel).toBe(4);
+  });
+
+  it('should return every document of a folder in file order', () => {
+    const { structured } = getOutlineResult(store, { module: 'patterns/forms' });
+    const ids = structured!.documents.map(({ document }) => document.id);
+    expect(ids[0]).toBe('patterns/forms/forms-index');
+    expect(ids).toContain('patterns/forms/validation');
+    expect(structured?.docName).toBeNull();
+    expect(structured?.module).toBe('patterns/forms');
+  });
+
+  it('should flag an unknown module as an error', () => {
+    expect(getOutlineResult(store, { module: 'nope' }).isError).toBe(true);
+  });
+});
+
+describe('getRelatedDocsResult', () => {
+  it('should return the backlinks and links of a document', () => {
+    const { structured } = getRelatedDocsResult(store, { docName: 'field' });
+    expect(structured?.document?.id).toBe('components/forms/field');
+    expect(structured?.backlinks.map((backlink) => backlink.docId)).toContain('components/forms/input');
+    expect(structured?.links).toContainEqual(expect.objectContaining({
+      target: 'input.md',
+      path: '02-components/forms/input.md',
+      docId: 'components/forms/input',
+      status: 'ok',
+    }));
+    expect(structured?.brokenLinks).toEqual([]);
+  });
+
+  it('should separate broken links from resolved ones', () => {
+    const { structured } = getRelatedDocsResult(store, { docName: 'tag' });
+    expect(structured?.brokenLinks).toEqual([expect.objectContaining({
+      target: 'tag-picker.md',
+      docId: null,
+      status: 'missing-file',
+    })]);
+    expect(structured?.links.every((link) => link.status === 'ok')).toBe(true);
+  });
+
+  it('should return a null document for an unknown name', () => {
+    const { structured, isError } = getRelatedDocsResult(store, { docName: 'zzzzzzzzzz' });
+    expect(isError).toBeUndefined();
+    expect(structured?.document).toBeNull();
+  });
+});
+
+describe('searchDocsResult', () => {
+  it('should return ranked hits with document summaries', () => {
+    const { structured } = searchDocsResult(searchEngine, { query: 'dialog', limit: 5 });
+    expect(structured?.results.length).toBeGreaterThan(0);
+    expect(structured?.results.length).toBeLessThanOrEqual(5);
+    expect(structured?.results[0].document.id).toBeTruthy();
+    expect(structured?.results[0].relevance).toBeGreaterThan(0);
+  });
+
+  it('should return the best matching section of each hit', () => {
+    const { structured } = searchDocsResult(searchEngine, { query: 'dialog accessibility', limit: 1 });
+    const section = structured?.results[0].section;
+    expect(section?.heading).toBe('Accessibility');
+    expect(section?.anchor).toBe('accessibility');
+    expect(section?.path).toEqual(['Dialog', 'Accessibility']);
+  });
+
+  it('should echo the module filter', () => {
+    const { structured } = searchDocsResult(searchEngine, { query: 'button', module: 'components' });
+    expect(structured?.module).toBe('components');
+    expect(structured?.results.every((r) => r.document.module === 'components')).toBe(true);
+  });
+
+  it('should echo the search scope', () => {
+    expect(searchDocsResult(searchEngine, { query: 'button' }).structured?.searchIn).toBe('all');
+    const { structured } = searchDocsResult(searchEngine, { query: 'useId', searchIn: 'code' });
+    expect(structured?.searchIn).toBe('code');
+    expect(structured?.results[0].matchedFields.map((field) => field.field)).toEqual(['code']);
+  });
+
+  it('should flag an empty query as an error', () => {
+    expect(searchDocsResult(searchEngine, { query: '' }).isError).toBe(true);
+  });
+
+  it('should report the corrected query of a misspelled search', () => {
+    const { structured } = searchDocsResult(searchEngine, { query: 'datagird' });
+    expect(structured?.didYouMean).toBe('DataGrid');
+    expect(structured?.results[0].document.title).toBe('DataGrid');
+  });
+});
+
+describe('listByCategoryResult', () => {
+  it('should return the components of a category sorted by title', () => {
+    const { structured } = listByCategoryResult(store, { category: 'buttons' });
+    const titles = structured!.components.map((c) => c.title);
+    expect(titles).toContain('Button');
+    expect(titles).toEqual([...titles].sort((a, b) => a.localeCompare(b)));
+  });
+
+  it('should return only the category list when no category is given', () => {
+    const { structured } = listByCategoryResult(store, { category: '' });
+    expect(structured?.category).toBeNull();
+    expect(structured?.components).toEqual([]);
+    expect(structured?.categories.some((c) => c.category === 'buttons')).toBe(true);
+  });
+
+  it('should flag an invalid category as an error', () => {
+    const result = listByCategoryResult(store, { category: 'not-a-category' });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Invalid category');
+  });
+});
+
+describe('getFoundationResult', () => {
+  it('should resolve aliases to the canonical topic', () => {
+    const { structured } = getFoundationResult(store, { topic: 'theme' });
+    expect(structured?.topic).toBe('theming');
+    expect(structured?.document?.content.length).toBeGreaterThan(0);
+  });
+
+  it('should list topics for the overview', () => {
+    const { structured } = getFoundationResult(store, {});
+    expect(structured?.document).toBeNull();
+    expect(structured?.topics.map((t) => t.topic)).toContain('accessibility');
+  });
+});
+
+describe('getPatternResult', () => {
+  it('should return a specific pattern', () => {
+    const { structured } = getPatternResult(store, {
+      patternCategory: 'forms',
+      patternName: 'validation',
+    });
+    expect(structured?.pattern?.id).toBe('patterns/forms/validation');
+  });
+
+  it('should list the patterns in a category', () => {
+    const { structured } = getPatternResult(store, { patternCategory: 'forms' });
+    expect(structured?.pattern).toBeNull();
+    expect(structured?.patterns.every((p) => p.patternCategory === 'forms')).toBe(true);
+    expect(structured?.patterns.map((p) => p.patternName)).toContain('validation');
+  });
+
+  it('should flag an invalid pattern category as an error', () => {
+    expect(getPatternResult(store, { patternCategory: 'nope' }).isError).toBe(true);
+  });
+});
+
+describe('getEnterpriseResult', () => {
+  it('should return the documents of a topic', () => {
+    const { structured } = getEnterpriseResult(store, { topic: 'dashboard' });
+    expect(structured?.topic).toBe('dashboard');
+    expect(structured?.documents.length).toBeGreaterThan(0);
+    expect(structured?.documents.every((d) => d.module === 'enterprise')).toBe(true);
+  });
+
+  it('should describe every topic', () => {
+    const { structured } = getEnterpriseResult(store, { topic: 'dashboard' });
+    const dashboard = structured?.topics.find((t) => t.topic === 'dashboard');
+    expect(dashboard?.aliases).toContain('kpi');
+  });
+});
+
+// ============================================================================
+// Intelligence tools
+// ============================================================================
+
+describe('getComponentExamplesResult', () => {
+  it('should return labeled code examples', () => {
+    const { structured } = getComponentExamplesResult(store, { componentName: 'Button' });
+    expect(structured?.component?.title).toBe('Button');
+    expect(structured?.examples.length).toBeGreaterThan(0);
+    expect(structured?.examples[0].sectionHeading).toBeTruthy();
+    expect(['typescript', 'tsx', 'jsx', 'ts']).toContain(structured?.examples[0].language);
+  });
+
+  it('should list components with examples when not found', () => {
+    const { structured } = getComponentExamplesResult(store, { componentName: 'xxxxxxxxx' });
+    expect(structured?.component).toBeNull();
+    expect(structured?.availableComponents.length).toBeGreaterThan(0);
+  });
+});
+
+describe('getPropsReferenceResult', () => {
+  it('should parse props tables into rows keyed by column', () => {
+    const { structured } = getPropsReferenceResult(store, { componentName: 'Button' });
+    expect(structured?.source).not.toBeNull();
+    const rows = structured!.tables.flatMap((t) => t.rows);
+    const firstColumn = structured!.tables[0].columns[0];
+    expect(rows.some((row) => row[firstColumn]?.includes('appearance'))).toBe(true);
+  });
+
+  it('should unescape pipes in union types', () => {
+    const { structured } = getPropsReferenceResult(store, { componentName: 'Button' });
+    const typeColumn = structured!.tables[0].columns[1];
+    expect(structured!.tables[0].rows[0][typeColumn]).toContain("'secondary' | 'primary'");
+  });
+
+  it('should return typed prop and slot definitions', () => {
+    const { structured } = getPropsReferenceResult(store, { componentName: 'Button' });
+    expect(structured?.props.find((prop) => prop.name === 'size')).toEqual({
+      name: 'size',
+      type: "'small' | 'medium' | 'large'",
+      default: "'medium'",
+      description: 'Size of the button',
+      required: false,
+      deprecated: false,
+      component: null,
+    });
+    expect(structured?.slots.map((slot) => slot.name)).toEqual(['root', 'icon']);
+  });
+
+  it('should narrow the definitions and drop the tables when filtering', () => {
+    const { structured } = getPropsReferenceResult(store, { componentName: 'Button', type: 'boolean' });
+    expect(structured?.props.map((prop) => prop.name)).toEqual(['disabled', 'disabledFocusable']);
+    expect(structured?.slots).toEqual([]);
+    expect(structured?.tables).toEqual([]);
+  });
+
+  it('should use the same columns for every row of a table', () => {
+    const { structured } = getPropsReferenceResult(store, { componentName: 'Button' });
+    for (const table of structured!.tables) {
+      for (const row of table.rows) {
+        expect(Object.keys(row)).toEqual(table.columns);
+      }
+    }
+  });
+});
+
+describe('suggestComponentsResult', () => {
+  it('should return ranked suggestions with reasons', () => {
+    const { structured } = suggestComponentsResult(store, searchEngine, {
+      uiDescription: 'a login form with email and password',
+    });
+    expect(structured?.suggestions.length).toBeGreaterThan(0);
+    expect(structured?.suggestions[0].reason).toBeTruthy();
+  });
+});
+
+describe('getImplementationGuideResult', () => {
+  it('should return components, imports, and an accessibility checklist', () => {
+    const { structured } = getImplementationGuideResult(store, searchEngine, {
+      goal: 'build a settings form with validation',
+    });
+    expect(structured?.goal).toBe('build a settings form with validation');
+    expect(structured?.components.length).toBeGreaterThan(0);
+    expect(structured?.imports.every((i) => i.startsWith('import'))).toBe(true);
+    expect(structured?.accessibilityChecklist.length).toBeGreaterThan(0);
+  });
+});
+
+// ============================================================================
+// Utility tools
+// ============================================================================
+
+describe('compareComponentsResult', () => {
+  it('should return each component with its props, slots, and guidance', () => {
+    const { structured } = compareComponentsResult(store, { components: ['select', 'combobox'] });
+    const [select, combobox] = structured!.components;
+    expect(select.name).toBe('select');
+    expect(select.document.id).toBe('components/forms/select');
+    expect(select.slots.map((slot) => slot.name)).toContain('icon');
+    expect(select.comparisonSections).toEqual(['Select › Select vs Combobox']);
+    expect(combobox.props.every((prop) => prop.component === null || prop.component === 'Combobox')).toBe(true);
+    expect(combobox.donts.length).toBeGreaterThan(0);
+  });
+
+  it('should split the props into shared and unique ones', () => {
+    const { structured } = compareComponentsResult(store, { components: ['Select', 'Combobox'] });
+    const [select, combobox] = structured!.components;
+    expect(structured?.sharedProps).toContain('appearance');
+    expect(combobox.uniqueProps).toContain('multiselect');
+    expect(select.uniqueProps).not.toContain('appearance');
+  });
+
+  it('should report names without a document', () => {
+    const { structured } = compareComponentsResult(store, { components: ['Select', 'Combobox', 'zzzzzzzzzz'] });
+    expect(structured?.components).toHaveLength(2);
+    expect(structured?.notFound).toEqual(['zzzzzzzzzz']);
+  });
+
+  it('should flag fewer than two components as an error', () => {
+    expect(compareComponentsResult(store, { components: ['Select'] }).isError).toBe(true);
+  });
+});
+
+describe('listAllDocsResult', () => {
+  it('should count every document', () => {
+    const { structured } = listAllDocsResult(store);
+    expect(structured?.totalDocuments).toBe(store.size);
+    expect(structured?.documents).toHaveLength(store.size);
+    const moduleTotal = structured!.modules.reduce((sum, m) => sum + m.count, 0);
+    expect(moduleTotal).toBe(store.size);
+  });
+});
+
+describe('lintDocsResult', () => {
+  it('should count the violations per rule', () => {
+    const { structured } = lintDocsResult(store);
+    const total = Object.values(structured!.counts).reduce((sum, count) => sum + count, 0);
+    expect(structured?.documents).toBe(store.size);
+    expect(total).toBe(structured?.violations.length);
+  });
+});
+
+describe('reindexResult', () => {
+  it('should report index statistics', async () => {
+    const { structured } = await reindexResult(store, searchEngine, DOCS_V9_PATH);
+    expect(structured?.indexedFiles).toBe(store.size);
+    expect(structured?.failedFiles).toBe(0);
+    expect(structured?.forced).toBe(false);
+    expect(structured?.added).toEqual([]);
+    expect(structured?.deleted).toEqual([]);
+    expect(structured?.byModule.components).toBeGreaterThan(0);
+  });
+});
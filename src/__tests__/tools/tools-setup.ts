@@ -10,8 +10,10 @@
 
 import { join } from 'path';
 import { buildIndex } from '../../indexer/index-builder.js';
+import { BuildQueue } from '../../indexer/build-queue.js';
 import type { DocumentStore } from '../../indexer/document-store.js';
 import type { SearchEngine } from '../../indexer/search-engine.js';
+import type { ToolContext, VersionIndex } from '../../tools/dispatcher.js';
 
 /** Absolute path to the bundled v9 docs directory */
 const DOCS_V9_PATH = join(process.cwd(), 'docs', 'v9');
@@ -39,3 +41,20 @@ export async function getTestIndex(): Promise<{
   }
   return { store: cachedStore, searchEngine: cachedEngine };
 }
+
+/**
+ * Get a tool context serving the real v9 index as the only (default) version.
+ *
+ * @returns Context with a single "v9" index
+ */
+export async function getTestContext(): Promise<ToolContext> {
+  const { store, searchEngine } = await getTestIndex();
+  const index: VersionIndex = {
+    version: 'v9',
+    store,
+    searchEngine,
+    docsPath: DOCS_V9_PATH,
+    buildQueue: new BuildQueue(),
+  };
+  return { indexes: new Map([['v9', index]]), defaultVersion: 'v9' };
+}
@@ -1,5 +1,5 @@
 /**
- * Tests for utility tools: list_all_docs, reindex.
+ * Tests for utility tools: list_all_docs, lint_docs, reindex.
  *
  * Uses the real docs/v9/ index for integration-level validation.
  *
@@ -13,7 +13,8 @@ import type { SearchEngine } from '../../indexer/search-engine.js';
 import { getTestIndex } from './tools-setup.js';
 
 import { listAllDocs } from '../../tools/list-all-docs.js';
-import { reindex } from '../../tools/reindex.js';
+import { lintDocs, lintDocsResult } from '../../tools/lint-docs.js';
+import { reindex, reindexResult } from '../../tools/reindex.js';
 
 /** Absolute path to the bundled v9 docs directory */
 const DOCS_V9_PATH = join(process.cwd(), 'docs', 'v9');
@@ -57,6 +58,49 @@ describe('listAllDocs', () => {
   });
 });
 
+// ============================================================================
+// lintDocs
+// ============================================================================
+
+describe('lintDocs', () => {
+  it('should list the violations per file', () => {
+    const result = lintDocs(store, { rule: 'missing-package' });
+    expect(result).toMatch(/❌ \*\*\d+ violations\*\* in \d+ of \d+ documents:/);
+    expect(result).toContain('## 02-components/forms/date-time-pickers.md');
+    expect(result).toContain('| `missing-package` | — |');
+  });
+
+  it('should filter by rule', () => {
+    const { structured } = lintDocsResult(store, { rule: 'unresolved-see-also' });
+    expect(structured?.violations.length).toBeGreaterThan(0);
+    expect(structured?.violations.every((violation) => violation.rule === 'unresolved-see-also')).toBe(true);
+    expect(structured?.counts['missing-package']).toBe(0);
+  });
+
+  it('should filter by path or document ID prefix', () => {
+    const byPath = lintDocsResult(store, { path: '02-components/data-display/table' }).structured!;
+    const byId = lintDocsResult(store, { path: 'components/data-display/table' }).structured!;
+    expect(byPath.documents).toBeLessThan(store.size);
+    expect(byId).toEqual(byPath);
+    expect(byPath.violations.every((violation) => violation.relativePath.startsWith('02-components/data-display/table'))).toBe(true);
+  });
+
+  it('should confirm documents without violations', () => {
+    const result = lintDocs(store, { path: '02-components/buttons' });
+    expect(result).toMatch(/✅ \*\*No violations\*\* in \d+ documents\./);
+  });
+
+  it('should return an error for an unknown rule', () => {
+    const result = lintDocsResult(store, { rule: 'no-such-rule' as never });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Available rules: missing-package');
+  });
+
+  it('should return an error for a path without documents', () => {
+    expect(lintDocsResult(store, { path: 'no/such/folder' }).isError).toBe(true);
+  });
+});
+
 // ============================================================================
 // reindex
 // ============================================================================
@@ -84,4 +128,18 @@ describe('reindex', () => {
     // Result should not contain any failure warnings
     expect(result).not.toContain('Failed');
   });
+
+  it('should report no changed documents when the docs are unchanged', async () => {
+    const result = await reindex(store, searchEngine, DOCS_V9_PATH);
+    expect(result).toContain('No documents added, changed, or deleted');
+    expect(result).toContain(`**Unchanged (reused):** ${store.size}`);
+  });
+
+  it('should re-parse every file with force', async () => {
+    const { text, structured } = await reindexResult(store, searchEngine, DOCS_V9_PATH, { force: true });
+    expect(text).toContain('forced');
+    expect(structured?.forced).toBe(true);
+    expect(structured?.cachedFiles).toBe(0);
+    expect(structured?.changed).toEqual([]);
+  });
 });
@@ -0,0 +1,169 @@
+/**
+ * Tests for validate_usage.
+ *
+ * Validates how FluentUI elements are found (named, aliased, namespace,
+ * and bare JSX), each rule against the real v9 props tables, inherited
+ * props, and the report.
+ *
+ * @module __tests__/tools/validate-usage
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { DocumentStore } from '../../indexer/document-store.js';
+import type { UsageIssue } from '../../types/index.js';
+import { validateUsage, validateUsageResult } from '../../tools/validate-usage.js';
+import { getTestIndex } from './tools-setup.js';
+
+let store: DocumentStore;
+
+beforeAll(async () => {
+  const index = await getTestIndex();
+  store = index.store;
+});
+
+/** Import line for the FluentUI components used in the snippets */
+const IMPORTS = "import { Button, Input, Tooltip, Dialog, DialogTrigger, ToggleButton } from '@fluentui/react-components';\n";
+
+/**
+ * Validate a snippet and return its issues.
+ *
+ * @param code - The snippet
+ * @returns The issues found
+ */
+function issuesOf(code: string): UsageIssue[] {
+  return validateUsageResult(store, { code }).structured!.issues;
+}
+
+// ============================================================================
+// Finding elements
+// ============================================================================
+
+describe('validateUsage — finding elements', () => {
+  it('should check elements imported from @fluentui/react-components', () => {
+    const { structured } = validateUsageResult(store, { code: `${IMPORTS}<Button appearance="primary">Save</Button>` });
+    expect(structured?.checkedElements).toBe(1);
+    expect(structured?.valid).toBe(true);
+  });
+
+  it('should resolve aliased imports to the component', () => {
+    const code = "import { Button as Btn } from '@fluentui/react-components';\n<Btn variant=\"primary\" />";
+    expect(issuesOf(code).map((issue) => issue.component)).toEqual(['Button']);
+  });
+
+  it('should resolve namespace imports', () => {
+    const code = "import * as F from '@fluentui/react-components';\n<F.Button variant=\"primary\" />";
+    expect(issuesOf(code).map((issue) => issue.component)).toEqual(['Button']);
+  });
+
+  it('should ignore components imported from other packages', () => {
+    const code = "import { Button } from './my-button';\n<Button variant=\"primary\" />";
+    const { structured } = validateUsageResult(store, { code });
+    expect(structured?.checkedElements).toBe(0);
+    expect(structured?.issues).toEqual([]);
+  });
+
+  it('should check documented components by tag name in bare JSX', () => {
+    expect(issuesOf('<Button variant="primary">Save</Button>')).toHaveLength(1);
+  });
+
+  it('should ignore HTML elements', () => {
+    expect(issuesOf('<div foo="bar"><span /></div>')).toEqual([]);
+  });
+
+  it('should list FluentUI components without documented props as unchecked', () => {
+    const code = `${IMPORTS}<Dialog><DialogTrigger disableButtonEnhancement><Button /></DialogTrigger></Dialog>`;
+    expect(validateUsageResult(store, { code }).structured?.uncheckedComponents).toContain('DialogTrigger');
+  });
+});
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+describe('validateUsage — rules', () => {
+  it('should report unknown props with a suggestion', () => {
+    const [issue] = issuesOf(`${IMPORTS}<Button variant="primary">Save</Button>`);
+    expect(issue).toMatchObject({ rule: 'unknown-prop', component: 'Button', prop: 'variant', line: 2, column: 9 });
+    expect(issue.message).toContain('Did you mean `appearance`?');
+  });
+
+  it('should suggest the closest documented prop for a typo', () => {
+    const [issue] = issuesOf(`${IMPORTS}<Button apperance="primary" />`);
+    expect(issue.message).toContain('Did you mean `appearance`?');
+  });
+
+  it('should allow common HTML, ARIA, data, and event attributes', () => {
+    const code = `${IMPORTS}<Button className="x" aria-label="Save" data-testid="save" onClick={save} type="submit" />`;
+    expect(issuesOf(code)).toEqual([]);
+  });
+
+  it('should allow slots as props', () => {
+    expect(issuesOf(`${IMPORTS}<Button icon={<span />} />`)).toEqual([]);
+  });
+
+  it('should report string literals outside a union type', () => {
+    const [issue] = issuesOf(`${IMPORTS}<Button size="huge" />`);
+    expect(issue).toMatchObject({ rule: 'invalid-value', prop: 'size' });
+    expect(issue.message).toContain('"small", "medium", "large"');
+  });
+
+  it('should check string literals in expression containers', () => {
+    expect(issuesOf(`${IMPORTS}<Button iconPosition={'left'} />`)[0]?.rule).toBe('invalid-value');
+  });
+
+  it('should not check values that are not string literals', () => {
+    expect(issuesOf(`${IMPORTS}<Button size={size} appearance={\`primary\${x}\`} />`)).toEqual([]);
+  });
+
+  it('should report missing required props', () => {
+    const issues = issuesOf(`${IMPORTS}<Tooltip content="Save"><Button /></Tooltip>`);
+    expect(issues).toEqual([expect.objectContaining({
+      rule: 'missing-required-prop',
+      component: 'Tooltip',
+      prop: 'relationship',
+      line: 2,
+      column: 1,
+    })]);
+  });
+
+  it('should not report required props when props are spread', () => {
+    expect(issuesOf(`${IMPORTS}<Tooltip {...tooltipProps}><Button /></Tooltip>`)).toEqual([]);
+  });
+
+  it('should accept props inherited from another component', () => {
+    expect(issuesOf(`${IMPORTS}<ToggleButton appearance="primary" checked />`)).toEqual([]);
+  });
+
+  it('should report syntax errors', () => {
+    const [issue] = issuesOf(`${IMPORTS}<Button appearance="primary">Save</Button`);
+    expect(issue.rule).toBe('syntax-error');
+    expect(issue.component).toBeNull();
+  });
+});
+
+// ============================================================================
+// Report
+// ============================================================================
+
+describe('validateUsage — report', () => {
+  it('should list issues in a table with line and column', () => {
+    const result = validateUsage(store, { code: `${IMPORTS}<Input size="huge" />` });
+    expect(result).toContain('❌ **1 issue** in 1 checked FluentUI element:');
+    expect(result).toContain('| 2:8 | `Input` | `invalid-value` |');
+  });
+
+  it('should confirm a valid snippet', () => {
+    const result = validateUsage(store, { code: `${IMPORTS}<Input size="small" />` });
+    expect(result).toContain('✅ **No issues** in 1 checked FluentUI element.');
+  });
+
+  it('should explain when no FluentUI elements were found', () => {
+    expect(validateUsage(store, { code: 'const x = 1;' })).toContain('No @fluentui/react-components elements found.');
+  });
+
+  it('should return an error for empty code', () => {
+    const result = validateUsageResult(store, { code: '  ' });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('Code is required');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for the Streamable HTTP transport host.
+ *
+ * Starts a real HTTP server on a free local port and drives it with the
+ * MCP SDK's Streamable HTTP client (and raw `fetch` for protocol edge cases).
+ * Verifies that multiple sessions share one index, that sessions can be
+ * terminated or time out when idle, and that malformed, oversized,
+ * session-less, or foreign-host requests, and sessions beyond the limit,
+ * are rejected.
+ *
+ * @module __tests__/transports/http-transport
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { request } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createMcpServer } from '../../server.js';
+import { startHttpTransport, MAX_BODY_BYTES } from '../../transports/http.js';
+import type { HttpTransportHandle } from '../../transports/http.js';
+import { getTestContext } from '../tools/tools-setup.js';
+
+/** Headers a Streamable HTTP client must send with POST requests */
+const POST_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+let handle: HttpTransportHandle;
+
+/**
+ * Connect a new MCP client session to the running test server.
+ *
+ * @returns The connected client and its transport
+ */
+async function connectClient(): Promise<{
+  client: Client;
+  transport: StreamableHTTPClientTransport;
+}> {
+  const transport = new StreamableHTTPClientTransport(new URL(handle.url));
+  const client = new Client({ name: 'http-test-client', version: '1.0.0' });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+/** An `initialize` request body */
+const INITIALIZE_BODY = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'http-test-client', version: '1.0.0' },
+  },
+});
+
+/**
+ * POST a body to the test server with a chosen `Host` header.
+ * `fetch` cannot override `Host`, so this uses `http.request`.
+ *
+ * @param host - Value of the `Host` header
+ * @param body - Request body
+ * @returns The response status code
+ */
+function postWithHost(host: string, body: string): Promise<number> {
+  return new Promise((resolvePromise, rejectPromise) => {
+    const options = { method: 'POST', headers: { ...POST_HEADERS, Host: host } };
+    const req = request(handle.url, options, (res) => {
+      res.resume();
+      resolvePromise(res.statusCode ?? 0);
+    });
+    req.on('error', rejectPromise);
+    req.end(body);
+  });
+}
+
+beforeAll(async () => {
+  const context = await getTestContext();
+  handle = await startHttpTransport(
+    () => createMcpServer(
+      { serverName: 'fluentui-v9-docs', serverVersion: 'test' },
+      context
+    ),
+    { port: 0, host: '127.0.0.1' }
+  );
+});
+
+afterAll(async () => {
+  await handle.close();
+});
+
+// ============================================================================
+// Startup
+// ============================================================================
+
+describe('startHttpTransport — startup', () => {
+  it('should listen on the /mcp endpoint of a local port', () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('should reject when the port is already in use', async () => {
+    const port = Number(new URL(handle.url).port);
+    await expect(
+      startHttpTransport(() => {
+        throw new Error('should not be called');
+      }, { port, host: '127.0.0.1' })
+    ).rejects.toThrow();
+  });
+});
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+describe('startHttpTransport — sessions', () => {
+  it('should serve tools/list over HTTP', async () => {
+    const { client } = await connectClient();
+    const { tools } = await client.listTools();
+    expect(tools.some((t) => t.name === 'search_docs')).toBe(true);
+    await client.close();
+  });
+
+  it('should dispatch tool calls over HTTP', async () => {
+    const { client } = await connectClient();
+    const result = await client.callTool({
+      name: 'search_docs',
+      arguments: { query: 'dialog' },
+    });
+    const content = result.content as Array<{ type: string; text: string }>;
+    expect(content[0].text).toContain('Search Results');
+    await client.close();
+  });
+
+  it('should issue a distinct session ID per client', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should serve concurrent sessions from the same index', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    const [a, b] = await Promise.all([
+      first.client.callTool({ name: 'query_component', arguments: { componentName: 'Button' } }),
+      second.client.callTool({ name: 'query_component', arguments: { componentName: 'Button' } }),
+    ]);
+
+    const textA = (a.content as Array<{ text: string }>)[0].text;
+    const textB = (b.content as Array<{ text: string }>)[0].text;
+    expect(textA).toBe(textB);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should remove a session when the client terminates it', async () => {
+    const { client, transport } = await connectClient();
+    const before = handle.sessionCount;
+
+    await transport.terminateSession();
+    expect(handle.sessionCount).toBe(before - 1);
+
+    await client.close();
+  });
+});
+
+// ============================================================================
+// Protocol errors
+// ============================================================================
+
+describe('startHttpTransport — request validation', () => {
+  it('should return 404 for paths other than the endpoint', async () => {
+    const response = await fetch(handle.url.replace('/mcp', '/other'));
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 405 for unsupported HTTP methods', async () => {
+    const response = await fetch(handle.url, { method: 'PUT' });
+    expect(response.status).toBe(405);
+  });
+
+  it('should reject a non-initialize request without a session ID', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: POST_HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.message).toContain('No valid session ID');
+  });
+
+  it('should return 404 for an unknown session ID', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { ...POST_HEADERS, 'Mcp-Session-Id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should return a JSON-RPC parse error for invalid JSON', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: POST_HEADERS,
+      body: '{not json',
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('should return 413 for a body larger than the limit', async () => {
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: POST_HEADERS,
+      body: `"${'a'.repeat(MAX_BODY_BYTES)}"`,
+    });
+    expect(response.status).toBe(413);
+    const body = await response.json();
+    expect(body.error.message).toContain('Payload Too Large');
+  });
+
+  it('should return 413 for a streamed body that grows past the limit', async () => {
+    const chunk = new TextEncoder().encode('a'.repeat(1024 * 1024));
+    let sent = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ > MAX_BODY_BYTES / chunk.length) {
+          controller.close();
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    });
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: POST_HEADERS,
+      body: stream,
+      duplex: 'half',
+    } as RequestInit);
+    expect(response.status).toBe(413);
+  });
+
+  it('should accept a local Host header', async () => {
+    expect(await postWithHost(new URL(handle.url).host, INITIALIZE_BODY)).toBe(200);
+    expect(await postWithHost(`localhost:${new URL(handle.url).port}`, INITIALIZE_BODY)).toBe(200);
+  });
+
+  it('should reject a foreign Host header on a loopback address', async () => {
+    expect(await postWithHost('attacker.example', INITIALIZE_BODY)).toBe(403);
+  });
+
+  it('should require a session ID for GET requests', async () => {
+    const response = await fetch(handle.url, {
+      headers: { Accept: 'text/event-stream' },
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+// ============================================================================
+// Session limits
+// ============================================================================
+
+describe('startHttpTransport — session limits', () => {
+  let limited: HttpTransportHandle;
+
+  /**
+   * Open a session on the limited server with a raw `initialize` request.
+   *
+   * @returns The response status code
+   */
+  async function initializeLimited(): Promise<number> {
+    const response = await fetch(limited.url, {
+      method: 'POST',
+      headers: POST_HEADERS,
+      body: INITIALIZE_BODY,
+    });
+    await response.text();
+    return response.status;
+  }
+
+  beforeAll(async () => {
+    const context = await getTestContext();
+    limited = await startHttpTransport(
+      () => createMcpServer(
+        { serverName: 'fluentui-v9-docs', serverVersion: 'test' },
+        context
+      ),
+      { port: 0, host: '127.0.0.1', idleTimeoutMs: 200, maxSessions: 1 }
+    );
+  });
+
+  afterAll(async () => {
+    await limited.close();
+  });
+
+  it('should return 503 when the session limit is reached', async () => {
+    expect(await initializeLimited()).toBe(200);
+    expect(limited.sessionCount).toBe(1);
+    expect(await initializeLimited()).toBe(503);
+  });
+
+  it('should close a session that sees no requests for the idle timeout', async () => {
+    await vi.waitFor(() => expect(limited.sessionCount).toBe(0), { timeout: 2000, interval: 50 });
+    expect(await initializeLimited()).toBe(200);
+  });
+});
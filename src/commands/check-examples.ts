@@ -0,0 +1,409 @@
+/**
+ * Command: check-examples — Compile-check every documented code example.
+ *
+ * Agents copy the docs' examples nearly verbatim, so an example that does
+ * not parse, uses a name it never declares, or imports `Button` from the
+ * wrong package spreads into generated code. This command extracts every
+ * TypeScript/TSX example from the docs of one version and checks them all
+ * in a single virtual TypeScript program:
+ *
+ *     fluentui-mcp check-examples v9 > examples-report.json
+ *
+ * Each example becomes its own module (a `.tsx` file, so JSX is allowed).
+ * An example that is only JSX — often several sibling elements, after a
+ * comment such as `// ✅ Do` — is wrapped in a fragment first, so it
+ * parses as one expression.
+ * React and the FluentUI packages are declared as stub modules whose
+ * exports are all `any`, so only the examples themselves are checked —
+ * not their use of the real component types. Imports from other packages
+ * and relative files are allowed and typed as `any` too.
+ *
+ * Reported issues (see `EXAMPLE_RULES`):
+ * - syntax errors (an example with syntax errors is not checked further)
+ * - unresolved identifiers — names neither declared nor imported, such as
+ *   a component used without its import. Snippets without any import are
+ *   usually excerpts of a larger file that leave the imports out; their
+ *   unresolved names are reported under a rule of their own
+ * - inconsistent imports — a name imported from another module than the
+ *   one most examples import it from
+ *
+ * The report is JSON on stdout, so the docs team can track it over time;
+ * a one-line summary goes to stderr. The exit code is 1 when any issue was
+ * found.
+ *
+ * @module commands/check-examples
+ */
+
+import ts from 'typescript';
+import type { DocumentStore } from '../indexer/document-store.js';
+import { extractCodeBlocks } from '../indexer/metadata-extractor.js';
+import { parseSections, formatSectionPath } from '../indexer/section-parser.js';
+import type { ExampleCheckReport, ExampleIssue, ExampleRule } from '../types/index.js';
+import { EXAMPLE_RULES } from '../types/index.js';
+import { indexDocs } from './index-docs.js';
+
+/** Virtual folder holding the example modules */
+const EXAMPLES_ROOT = '/__examples__';
+
+/** Virtual file declaring the stub modules */
+const STUBS_FILE_NAME = `${EXAMPLES_ROOT}/stubs.d.ts`;
+
+/** Stub declarations: React and every FluentUI package, with all exports typed `any` */
+const STUB_DECLARATIONS = [
+  "declare module 'react';",
+  "declare module 'react/*';",
+  "declare module 'react-dom';",
+  "declare module 'react-dom/*';",
+  "declare module '@fluentui/*';",
+].join('\n');
+
+/** Compiler options of the virtual program */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  jsx: ts.JsxEmit.Preserve,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: [],
+  strict: false,
+  noImplicitAny: false,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noResolve: true,
+  noEmit: true,
+};
+
+/** Wrapper turning JSX-only examples into a single fragment expression */
+const FRAGMENT_WRAPPER = { open: '<>', close: '\n</>' };
+
+/** Comments and whitespace at the start of an example */
+const LEADING_COMMENTS_PATTERN = /^(?:\s*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/))*\s*/;
+
+/** Diagnostic codes of names that cannot be found ("Cannot find name 'x'", and its variants) */
+const UNRESOLVED_NAME_CODES = new Set([2304, 2503, 2552, 2580, 2581, 2582, 2583, 2584, 2591, 2592, 2593]);
+
+/**
+ * A documented code example and where it comes from.
+ */
+interface ExampleSource {
+  /** Virtual file name of the example module */
+  fileName: string;
+
+  /** The example's code, as compiled (wrapped in a fragment if it is only JSX) */
+  code: string;
+
+  /** Offset of the fragment wrapped around a JSX-only example, or null if not wrapped */
+  fragmentStart: number | null;
+
+  /** Where the example is documented */
+  location: Pick<ExampleIssue, 'docId' | 'relativePath' | 'section' | 'anchor' | 'example'>;
+}
+
+/**
+ * A named import of an example.
+ */
+interface NamedImport {
+  /** The imported name (not its local alias) */
+  name: string;
+
+  /** The module it is imported from */
+  module: string;
+
+  /** The module specifier, for positioning the issue */
+  node: ts.StringLiteral;
+}
+
+/**
+ * Run the `check-examples` command.
+ *
+ * Indexes the docs of the version (or docs folder) given in `argv`, the
+ * default version otherwise, checks its examples, and prints the report
+ * as JSON.
+ *
+ * @param argv - Arguments after the command name (e.g., ["v9"] or ["./docs/v10"])
+ * @returns The exit code: 1 when any issue was found, 0 otherwise
+ */
+export async function runCheckExamples(argv: string[]): Promise<number> {
+  const { version, store } = await indexDocs(argv);
+
+  const report = checkExamples(store, version);
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  console.error(
+    `[fluentui-mcp] Checked ${report.examples} ${version} examples in ${report.documents} docs: ` +
+    `${report.issues.length} issues in ${report.failedExamples} examples`
+  );
+
+  return report.issues.length > 0 ? 1 : 0;
+}
+
+/**
+ * Compile-check every TypeScript/TSX example of the indexed docs.
+ *
+ * @param store - Document store of one version
+ * @param version - The version's name, recorded in the report
+ * @returns The report, with issues ordered by document, example, and position
+ *
+ * @example
+ * ```typescript
+ * const report = checkExamples(store, 'v9');
+ * // report.issues[0] → { rule: 'unresolved-identifier', docId: 'components/buttons/button',
+ * //   section: 'Button › Usage', anchor: 'usage', example: 2, line: 3, column: 4,
+ * //   message: "Cannot find name 'Button'." }
+ * ```
+ */
+export function checkExamples(store: DocumentStore, version: string): ExampleCheckReport {
+  const documents = store.getAllDocuments().sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const examples = documents.flatMap((doc) => collectExamples(doc.id, doc.relativePath, doc.content));
+  const program = createExamplesProgram(examples);
+
+  const imports = new Map<ExampleSource, NamedImport[]>();
+  for (const example of examples) {
+    imports.set(example, collectNamedImports(program.getSourceFile(example.fileName)!));
+  }
+  const usualModules = findUsualModules([...imports.values()].flat());
+
+  const issues: ExampleIssue[] = [];
+  let failedExamples = 0;
+
+  for (const example of examples) {
+    const sourceFile = program.getSourceFile(example.fileName)!;
+    const toIssue = (rule: ExampleRule, start: number, message: string): ExampleIssue => {
+      const { line, character } = toDocumentedPosition(sourceFile, start, example.fragmentStart);
+      return { rule, ...example.location, line: line + 1, column: character + 1, message };
+    };
+
+    const exampleIssues = [
+      ...checkDiagnostics(program, sourceFile, isSnippet(sourceFile))
+        .map(({ rule, start, message }) => toIssue(rule, start, message)),
+      ...imports.get(example)!
+        .filter((namedImport) => isInconsistent(namedImport, usualModules))
+        .map((namedImport) => toIssue(
+          'inconsistent-import',
+          namedImport.node.getStart(sourceFile),
+          formatInconsistentImport(namedImport, usualModules.get(namedImport.name)!)
+        )),
+    ].sort((a, b) => a.line - b.line || a.column - b.column);
+
+    if (exampleIssues.length > 0) {
+      failedExamples++;
+      issues.push(...exampleIssues);
+    }
+  }
+
+  const counts = Object.fromEntries(EXAMPLE_RULES.map((rule) => [rule, 0])) as Record<ExampleRule, number>;
+  for (const issue of issues) {
+    counts[issue.rule]++;
+  }
+
+  return { version, documents: documents.length, examples: examples.length, failedExamples, counts, issues };
+}
+
+/**
+ * Extract a document's TypeScript/TSX examples, section by section.
+ *
+ * @param docId - ID of the document
+ * @param relativePath - Path of the document relative to the docs root
+ * @param content - Raw markdown content of the document
+ * @returns The examples, numbered in document order
+ */
+function collectExamples(docId: string, relativePath: string, content: string): ExampleSource[] {
+  const examples: ExampleSource[] = [];
+
+  for (const section of parseSections(content)) {
+    for (const code of extractCodeBlocks(section.content)) {
+      const example = examples.length + 1;
+      const jsxStart = LEADING_COMMENTS_PATTERN.exec(code)![0].length;
+      const isJsx = code.startsWith('<', jsxStart);
+      examples.push({
+        fileName: `${EXAMPLES_ROOT}/${docId}/example-${example}.tsx`,
+        code: isJsx
+          ? `${code.slice(0, jsxStart)}${FRAGMENT_WRAPPER.open}${code.slice(jsxStart)}${FRAGMENT_WRAPPER.close}`
+          : code,
+        fragmentStart: isJsx ? jsxStart : null,
+        location: {
+          docId,
+          relativePath,
+          section: formatSectionPath(section.path),
+          anchor: section.anchor,
+          example,
+        },
+      });
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Locate a position of a compiled example in the documented example.
+ *
+ * The fragment opening is inserted within a line and the closing on a
+ * line of its own, so only columns after the opening need adjusting.
+ *
+ * @param sourceFile - The example's source file, as compiled
+ * @param position - Offset in the compiled example
+ * @param fragmentStart - Offset of the wrapped fragment, or null if not wrapped
+ * @returns The 0-based line and character in the documented example
+ */
+function toDocumentedPosition(
+  sourceFile: ts.SourceFile,
+  position: number,
+  fragmentStart: number | null
+): ts.LineAndCharacter {
+  const location = sourceFile.getLineAndCharacterOfPosition(position);
+  if (fragmentStart === null || position < fragmentStart) {
+    return location;
+  }
+  const fragment = sourceFile.getLineAndCharacterOfPosition(fragmentStart);
+  if (location.line !== fragment.line) {
+    return location;
+  }
+  const character = Math.max(location.character - FRAGMENT_WRAPPER.open.length, fragment.character);
+  return { line: location.line, character };
+}
+
+/**
+ * Create one program holding every example and the stub declarations.
+ *
+ * Examples and stubs live in memory; only the TypeScript lib files are
+ * read from disk.
+ *
+ * @param examples - The examples to check
+ * @returns The program
+ */
+function createExamplesProgram(examples: ExampleSource[]): ts.Program {
+  const files = new Map<string, string>(examples.map((example) => [example.fileName, example.code]));
+  files.set(STUBS_FILE_NAME, STUB_DECLARATIONS);
+
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const { getSourceFile, fileExists, readFile } = host;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const code = files.get(fileName);
+    return code !== undefined
+      ? ts.createSourceFile(fileName, code, languageVersion, true, ts.ScriptKind.TSX)
+      : getSourceFile(fileName, languageVersion, ...rest);
+  };
+  host.fileExists = (fileName) => files.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => files.get(fileName) ?? readFile(fileName);
+
+  return ts.createProgram([...files.keys()], COMPILER_OPTIONS, host);
+}
+
+/**
+ * Check whether an example is a snippet rather than a complete module.
+ *
+ * @param sourceFile - The example's source file
+ * @returns True when the example imports nothing
+ */
+function isSnippet(sourceFile: ts.SourceFile): boolean {
+  return !sourceFile.statements.some((statement) =>
+    ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)
+  );
+}
+
+/**
+ * Find the syntax errors and unresolved names of an example.
+ *
+ * An example with syntax errors is not checked further, since its
+ * remaining diagnostics would mostly follow from them.
+ *
+ * @param program - The examples program
+ * @param sourceFile - The example's source file
+ * @param snippet - Whether the example is a snippet (see `isSnippet`)
+ * @returns The problems found, with their offsets in the example
+ */
+function checkDiagnostics(
+  program: ts.Program,
+  sourceFile: ts.SourceFile,
+  snippet: boolean
+): Array<{ rule: ExampleRule; start: number; message: string }> {
+  const toProblem = (rule: ExampleRule) => (diagnostic: ts.Diagnostic) => ({
+    rule,
+    start: diagnostic.start ?? 0,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+  });
+
+  const syntaxErrors = program.getSyntacticDiagnostics(sourceFile);
+  if (syntaxErrors.length > 0) {
+    return syntaxErrors.map(toProblem('syntax-error'));
+  }
+
+  return program.getSemanticDiagnostics(sourceFile)
+    .filter((diagnostic) => UNRESOLVED_NAME_CODES.has(diagnostic.code))
+    .map(toProblem(snippet ? 'unresolved-in-snippet' : 'unresolved-identifier'));
+}
+
+/**
+ * Collect the named imports of an example from packages.
+ *
+ * Relative imports are skipped: they name the reader's own files, which
+ * differ from example to example.
+ *
+ * @param sourceFile - The example's source file
+ * @returns The named imports, e.g. `Button` from "@fluentui/react-components"
+ */
+function collectNamedImports(sourceFile: ts.SourceFile): NamedImport[] {
+  const imports: NamedImport[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue;
+    }
+    const node = statement.moduleSpecifier;
+    const bindings = statement.importClause?.namedBindings;
+    if (node.text.startsWith('.') || !bindings || !ts.isNamedImports(bindings)) {
+      continue;
+    }
+    for (const specifier of bindings.elements) {
+      imports.push({ name: (specifier.propertyName ?? specifier.name).text, module: node.text, node });
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Count, for every imported name, how often each module provides it.
+ *
+ * @param imports - The named imports of all examples
+ * @returns Module counts by imported name
+ */
+function findUsualModules(imports: NamedImport[]): Map<string, Map<string, number>> {
+  const modules = new Map<string, Map<string, number>>();
+  for (const { name, module } of imports) {
+    const counts = modules.get(name) ?? new Map<string, number>();
+    counts.set(module, (counts.get(module) ?? 0) + 1);
+    modules.set(name, counts);
+  }
+  return modules;
+}
+
+/**
+ * Check whether a name is imported from another module than usual.
+ *
+ * @param namedImport - The import to check
+ * @param usualModules - Module counts by imported name
+ * @returns True when another module provides the name more often
+ */
+function isInconsistent(namedImport: NamedImport, usualModules: Map<string, Map<string, number>>): boolean {
+  const counts = usualModules.get(namedImport.name)!;
+  const own = counts.get(namedImport.module)!;
+  return [...counts.values()].some((count) => count > own);
+}
+
+/**
+ * Describe an inconsistent import.
+ *
+ * @param namedImport - The inconsistent import
+ * @param counts - How often each module provides the name
+ * @returns Message naming the module most examples use
+ */
+function formatInconsistentImport(namedImport: NamedImport, counts: Map<string, number>): string {
+  const [usual, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  return (
+    `'${namedImport.name}' is imported from '${namedImport.module}' here, ` +
+    `but from '${usual}' in ${count} other example${count === 1 ? '' : 's'}.`
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Shared setup of the CLI commands: index the docs a command runs over.
+ *
+ * Commands take the same arguments as the server (`v9`, `--cache-dir`,
+ * `--no-cache`, `FLUENTUI_DOCS_PATH`, ...) to pick the version to index.
+ * Instead of a version, the first argument may be a docs folder, which is
+ * indexed as-is without the cache — handy for checking docs that are not
+ * installed anywhere yet:
+ *
+ *     fluentui-mcp lint-docs ./docs/v10
+ *
+ * @module commands/index-docs
+ */
+
+import { existsSync, statSync } from 'fs';
+import { basename, resolve } from 'path';
+import { resolveConfig } from '../config.js';
+import type { DocumentStore } from '../indexer/document-store.js';
+import { buildIndex } from '../indexer/index-builder.js';
+import { getCacheFilePath } from '../indexer/index-cache.js';
+
+/**
+ * The indexed docs of one version.
+ */
+export interface IndexedDocs {
+  /** Version name (the folder name when a docs folder was given) */
+  version: string;
+
+  /** Absolute path to the docs folder */
+  docsPath: string;
+
+  /** The populated document store */
+  store: DocumentStore;
+}
+
+/**
+ * Index the docs a command was pointed at.
+ *
+ * @param argv - Arguments after the command name (e.g., ["v9", "--no-cache"] or ["./docs/v10"])
+ * @returns The indexed docs
+ * @throws Error if the version's docs folder does not exist (see `resolveConfig`)
+ */
+export async function indexDocs(argv: string[]): Promise<IndexedDocs> {
+  const [first] = argv;
+  if (first && !first.startsWith('-') && existsSync(first) && statSync(first).isDirectory()) {
+    const docsPath = resolve(first);
+    const { store } = await buildIndex(docsPath);
+    return { version: basename(docsPath), docsPath, store };
+  }
+
+  const { version, docsPath, cacheDir } = resolveConfig(argv);
+  const cacheFile = cacheDir ? getCacheFilePath(cacheDir, docsPath) : null;
+  const { store } = await buildIndex(docsPath, undefined, undefined, { cacheFile });
+  return { version, docsPath, store };
+}
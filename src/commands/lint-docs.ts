@@ -0,0 +1,51 @@
+/**
+ * Command: lint-docs — Check a docs folder against the required doc shape.
+ *
+ * Runs the scanner and metadata extractor over the docs (by indexing
+ * them), then the docs linter (see `indexer/docs-linter`):
+ *
+ *     fluentui-mcp lint-docs v9
+ *     fluentui-mcp lint-docs ./docs/v10
+ *
+ * Prints one line per violation — path, rule ID, section, and message —
+ * so the output can be grepped or diffed; a summary goes to stderr. The
+ * exit code is 1 when any violation was found. The `lint_docs` tool runs
+ * the same check on a served version.
+ *
+ * @module commands/lint-docs
+ */
+
+import { lintDocuments } from '../indexer/docs-linter.js';
+import type { LintViolation } from '../types/index.js';
+import { indexDocs } from './index-docs.js';
+
+/**
+ * Run the `lint-docs` command.
+ *
+ * @param argv - Arguments after the command name (e.g., ["v9"] or ["./docs/v10"])
+ * @returns The exit code: 1 when any violation was found, 0 otherwise
+ */
+export async function runLintDocs(argv: string[]): Promise<number> {
+  const { version, docsPath, store } = await indexDocs(argv);
+  const violations = lintDocuments(store);
+
+  process.stdout.write(violations.map((violation) => `${formatViolation(violation)}\n`).join(''));
+  const files = new Set(violations.map((violation) => violation.relativePath)).size;
+  console.error(
+    `[fluentui-mcp] Linted ${store.size} ${version} docs in ${docsPath}: ` +
+    `${violations.length} violations in ${files} files`
+  );
+
+  return violations.length > 0 ? 1 : 0;
+}
+
+/**
+ * Format a violation as one output line.
+ *
+ * @param violation - The violation
+ * @returns Line such as "02-components/forms/field.md: [empty-section] Field › Usage: "Usage" has no content."
+ */
+function formatViolation(violation: LintViolation): string {
+  const section = violation.section ? `${violation.section}: ` : '';
+  return `${violation.relativePath}: [${violation.rule}] ${section}${violation.message}`;
+}
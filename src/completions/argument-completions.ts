@@ -0,0 +1,334 @@
+/**
+ * MCP argument completion — live suggestions for `completion/complete`.
+ *
+ * Many arguments have a finite domain known to the index: component and
+ * document names (name index), component categories (category index),
+ * modules (module index), pattern names, section headings, and the
+ * foundation/enterprise topic lists.
+ * This module maps each completable argument to a completer that filters
+ * that domain by what the user has typed so far.
+ *
+ * Completers are looked up by reference:
+ * - `ref/prompt` — a workflow prompt name, or a tool name. MCP only defines
+ *   completion for prompts and resource templates; tool names are accepted
+ *   in prompt references so clients can complete tool arguments too.
+ * - `ref/resource` — a resource template URI (e.g. the component-by-name template)
+ *
+ * All matching uses `DocumentStore.normalizeName`, so suggestions agree with
+ * how the tools resolve the value afterwards. Suggestions come from the
+ * index of the version already filled in (the `version` argument or
+ * template variable), falling back to the default version.
+ *
+ * @module completions/argument-completions
+ */
+
+import type { CompleteRequestParams, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { DocumentStore } from '../indexer/document-store.js';
+import { getVersionIndex } from '../tools/dispatcher.js';
+import type { ToolContext } from '../tools/dispatcher.js';
+import { PATTERN_CATEGORIES, LINT_RULES } from '../types/index.js';
+import { listFoundationTopics } from '../tools/get-foundation.js';
+import { listEnterpriseTopics } from '../tools/get-enterprise.js';
+import { findDocument } from '../tools/get-section.js';
+import { parseSections } from '../indexer/section-parser.js';
+import {
+  COMPONENT_TEMPLATE_URI,
+  DOCUMENT_TEMPLATE_URI,
+} from '../resources/document-resources.js';
+
+/** Maximum number of values in a completion response (MCP limit) */
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Everything a completer may need to compute suggestions.
+ */
+export interface CompletionContext {
+  /** The populated document store of the selected version */
+  store: DocumentStore;
+
+  /** Every served FluentUI version */
+  versions: string[];
+
+  /** Arguments the client has already filled in (e.g., patternCategory) */
+  arguments: Record<string, string>;
+}
+
+/**
+ * Computes the suggestions for one argument.
+ *
+ * @param value - The partial value typed so far
+ * @param context - Store, versions, and already-filled arguments
+ * @returns All matching values, best matches first
+ */
+type ArgumentCompleter = (value: string, context: CompletionContext) => string[];
+
+/**
+ * A completion candidate from a static list, with alternate names that
+ * should also suggest it (e.g., "a11y" suggests "accessibility").
+ */
+interface CompletionCandidate {
+  /** The value to suggest */
+  value: string;
+
+  /** Alternate names that also match this candidate */
+  aliases: string[];
+}
+
+// ============================================================================
+// Completers
+// ============================================================================
+
+/** Component names (document titles) from the name index */
+const completeComponentName: ArgumentCompleter = (value, { store }) =>
+  unique(store.completeName(value, 'components').map((doc) => doc.title));
+
+/** Document names (titles of any module) from the name index */
+const completeDocumentName: ArgumentCompleter = (value, { store }) =>
+  unique(store.completeName(value).map((doc) => doc.title));
+
+/**
+ * Section headings of the already-chosen docName, in document order,
+ * also matched by their anchors.
+ */
+const completeSectionHeading: ArgumentCompleter = (value, { store, arguments: args }) => {
+  const match = args.docName ? findDocument(store, args.docName.trim()) : undefined;
+  if (!match) {
+    return [];
+  }
+  const candidates = parseSections(match.document.content)
+    .filter((section) => section.level > 0)
+    .map((section) => ({ value: section.heading, aliases: [section.anchor] }));
+  return unique(matchCandidates(store, value, candidates));
+};
+
+/**
+ * Prop and slot names of the already-chosen componentName, in document
+ * order.
+ */
+const completePropName: ArgumentCompleter = (value, { store, arguments: args }) => {
+  const match = args.componentName ? store.matchName(args.componentName.trim()) : undefined;
+  if (!match) {
+    return [];
+  }
+  const { props, slots } = match.document;
+  const candidates = [...props, ...slots].map((definition) => ({ value: definition.name, aliases: [] }));
+  return unique(matchCandidates(store, value, candidates));
+};
+
+/** Document IDs, matched by prefix then substring */
+const completeDocumentId: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(
+    store,
+    value,
+    store.getAllDocuments()
+      .map((doc) => ({ value: doc.id, aliases: [] }))
+      .sort((a, b) => a.value.localeCompare(b.value))
+  );
+
+/** Component categories from the category index */
+const completeComponentCategory: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, store.getCategories().map(({ category }) => ({
+    value: category,
+    aliases: [],
+  })));
+
+/** Document modules from the module index */
+const completeModule: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, store.getModules().map(({ module }) => ({
+    value: module,
+    aliases: [],
+  })));
+
+/** Pattern categories */
+const completePatternCategory: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, PATTERN_CATEGORIES.map((category) => ({
+    value: category,
+    aliases: [],
+  })));
+
+/**
+ * Pattern names, scoped to the already-chosen patternCategory if any.
+ * Pattern names are the document file names without numeric prefix
+ * (e.g., "validation" for "03-patterns/forms/02-validation.md").
+ */
+const completePatternName: ArgumentCompleter = (value, { store, arguments: args }) => {
+  const category = args.patternCategory ? store.normalizeName(args.patternCategory) : '';
+  const candidates = store.getByModule('patterns')
+    .filter((doc) => !category || doc.relativePath.split('/')[1] === category)
+    .map((doc) => ({ value: doc.id.split('/').pop() || doc.id, aliases: [doc.title] }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+  return unique(matchCandidates(store, value, candidates));
+};
+
+/** Foundation topics (and their aliases) */
+const completeFoundationTopic: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, listFoundationTopics().map(({ topic, aliases }) => ({
+    value: topic,
+    aliases,
+  })));
+
+/** Enterprise topics (and their aliases) */
+const completeEnterpriseTopic: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, listEnterpriseTopics().map(({ topic, aliases }) => ({
+    value: topic,
+    aliases,
+  })));
+
+/** The rules checked by lint_docs */
+const completeLintRule: ArgumentCompleter = (value, { store }) =>
+  matchCandidates(store, value, LINT_RULES.map((rule) => ({ value: rule, aliases: [] })));
+
+/** The FluentUI versions served */
+const completeVersion: ArgumentCompleter = (value, { store, versions }) =>
+  matchCandidates(store, value, versions.map((version) => ({ value: version, aliases: [] })));
+
+// ============================================================================
+// Completer registries
+// ============================================================================
+
+/**
+ * Completers for prompt and tool arguments: prompt/tool name → argument name → completer.
+ */
+const NAMED_REF_COMPLETERS: Record<string, Record<string, ArgumentCompleter>> = {
+  // Prompts (every prompt accepts a version)
+  'build-form-with-validation': { version: completeVersion },
+  'migrate-to-v9': { targetComponent: completeComponentName, version: completeVersion },
+  'audit-accessibility': { version: completeVersion },
+
+  // Tools (every tool accepts a version)
+  query_component: { componentName: completeComponentName, version: completeVersion },
+  get_section: { docName: completeDocumentName, heading: completeSectionHeading, version: completeVersion },
+  get_outline: { docName: completeDocumentName, version: completeVersion },
+  get_related_docs: { docName: completeDocumentName, version: completeVersion },
+  get_component_examples: { componentName: completeComponentName, version: completeVersion },
+  get_props_reference: {
+    componentName: completeComponentName,
+    propName: completePropName,
+    version: completeVersion,
+  },
+  validate_usage: { version: completeVersion },
+  compare_components: { version: completeVersion },
+  list_by_category: { category: completeComponentCategory, version: completeVersion },
+  search_docs: { module: completeModule, version: completeVersion },
+  get_foundation: { topic: completeFoundationTopic, version: completeVersion },
+  get_pattern: {
+    patternCategory: completePatternCategory,
+    patternName: completePatternName,
+    version: completeVersion,
+  },
+  get_enterprise: { topic: completeEnterpriseTopic, version: completeVersion },
+  suggest_components: { version: completeVersion },
+  get_implementation_guide: { version: completeVersion },
+  list_all_docs: { version: completeVersion },
+  lint_docs: { rule: completeLintRule, version: completeVersion },
+  reindex: { version: completeVersion },
+};
+
+/**
+ * Completers for resource template variables: template URI → variable name → completer.
+ */
+const RESOURCE_TEMPLATE_COMPLETERS: Record<string, Record<string, ArgumentCompleter>> = {
+  [COMPONENT_TEMPLATE_URI]: { version: completeVersion, name: completeComponentName },
+  [DOCUMENT_TEMPLATE_URI]: { version: completeVersion, documentId: completeDocumentId },
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Compute completion suggestions for a `completion/complete` request.
+ *
+ * Unknown references or arguments yield an empty completion rather than
+ * an error — there is simply nothing to suggest.
+ *
+ * @param params - The request params (ref, argument, optional context)
+ * @param context - The shared indexes
+ * @returns The completion values (at most MAX_COMPLETION_VALUES), total, and hasMore flag
+ *
+ * @example
+ * ```typescript
+ * completeArgument(
+ *   { ref: { type: 'ref/prompt', name: 'query_component' }, argument: { name: 'componentName', value: 'but' } },
+ *   context
+ * );
+ * // → { values: ['Button', ...], total: 1, hasMore: false }
+ * ```
+ */
+export function completeArgument(
+  params: CompleteRequestParams,
+  context: ToolContext
+): CompleteResult['completion'] {
+  const { ref, argument } = params;
+  const completers = ref.type === 'ref/prompt'
+    ? NAMED_REF_COMPLETERS[ref.name]
+    : RESOURCE_TEMPLATE_COMPLETERS[ref.uri];
+  const completer = completers?.[argument.name];
+
+  if (!completer) {
+    return { values: [], total: 0, hasMore: false };
+  }
+
+  const filledArguments = params.context?.arguments ?? {};
+  const index = getVersionIndex(context, filledArguments.version)
+    ?? getVersionIndex(context)!;
+
+  const values = completer(argument.value, {
+    store: index.store,
+    versions: Array.from(context.indexes.keys()),
+    arguments: filledArguments,
+  });
+
+  return {
+    values: values.slice(0, MAX_COMPLETION_VALUES),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Filter static candidates by a partial value.
+ *
+ * A candidate matches when its value or any alias starts with (ranked first)
+ * or contains (ranked second) the normalized partial value. Candidate order
+ * is preserved within each rank.
+ *
+ * @param store - Document store providing the name normalization
+ * @param partial - The partial value typed so far (empty matches everything)
+ * @param candidates - Candidates in their preferred display order
+ * @returns Matching candidate values, prefix matches first
+ */
+function matchCandidates(
+  store: DocumentStore,
+  partial: string,
+  candidates: CompletionCandidate[]
+): string[] {
+  const normalized = store.normalizeName(partial);
+  const prefixMatches: string[] = [];
+  const substringMatches: string[] = [];
+
+  for (const candidate of candidates) {
+    const names = [candidate.value, ...candidate.aliases].map((name) => store.normalizeName(name));
+    if (names.some((name) => name.startsWith(normalized))) {
+      prefixMatches.push(candidate.value);
+    } else if (names.some((name) => name.includes(normalized))) {
+      substringMatches.push(candidate.value);
+    }
+  }
+
+  return [...prefixMatches, ...substringMatches];
+}
+
+/**
+ * Remove duplicate values, keeping the first occurrence.
+ *
+ * @param values - Values in ranked order
+ * @returns Values without duplicates
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -4,21 +4,43 @@
  * Resolves the server configuration from three sources (in priority order):
  * 1. CLI arguments (e.g., `fluentui-mcp v9`)
  * 2. Environment variables (e.g., `FLUENTUI_DOCS_PATH=/custom/path`)
- * 3. Defaults (bundled v9 docs)
+ * 3. Defaults (bundled docs, v9 as the default version)
+ *
+ * Every folder under the docs root (e.g., `docs/v8/`, `docs/v9/`) is served
+ * as its own version; the version argument picks the default one.
  *
  * This allows the server to be used in multiple ways:
- * - Global install with version arg: `fluentui-mcp v9`
+ * - Global install with default version arg: `fluentui-mcp v9`
  * - Custom docs path via env var: `FLUENTUI_DOCS_PATH=/my/docs fluentui-mcp`
- * - Default (no args): serves bundled v9 documentation
+ * - Custom folder of versions: `FLUENTUI_DOCS_ROOT=/my/docs fluentui-mcp v8`
+ * - Shared HTTP server: `fluentui-mcp v9 --transport http --port 3333`
+ * - Default (no args): serves bundled v9 documentation over stdio
  *
  * @module config
  */
 
-import { existsSync } from 'fs';
+import { existsSync, readdirSync } from 'fs';
 import { join, dirname, resolve } from 'path';
+import { homedir } from 'os';
 import { fileURLToPath } from 'url';
-import { DEFAULT_VERSION } from './types/index.js';
-import type { ServerConfig } from './types/index.js';
+import {
+  DEFAULT_VERSION,
+  DEFAULT_TRANSPORT,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_HTTP_HOST,
+  TRANSPORT_MODES,
+  RANKING_MODELS,
+  DEFAULT_RANKING_MODEL,
+  DEFAULT_BM25_K1,
+  DEFAULT_BM25_B,
+} from './types/index.js';
+import type {
+  ServerConfig,
+  TransportMode,
+  VersionSource,
+  RankingOptions,
+  RankingModel,
+} from './types/index.js';
 
 /**
  * Resolve __dirname equivalent for ES modules.
@@ -33,91 +55,366 @@ const PACKAGE_ROOT = join(__dirname, '..');
 /** Environment variable name for custom docs path override */
 const DOCS_PATH_ENV_VAR = 'FLUENTUI_DOCS_PATH';
 
+/** Environment variable name for the docs root override (a folder of version folders) */
+const DOCS_ROOT_ENV_VAR = 'FLUENTUI_DOCS_ROOT';
+
 /** Environment variable name for version override */
 const VERSION_ENV_VAR = 'FLUENTUI_VERSION';
 
+/** Environment variable name for transport override ("stdio" or "http") */
+const TRANSPORT_ENV_VAR = 'FLUENTUI_TRANSPORT';
+
+/** Environment variable name for HTTP port override */
+const PORT_ENV_VAR = 'FLUENTUI_PORT';
+
+/** Environment variable name for HTTP host override */
+const HOST_ENV_VAR = 'FLUENTUI_HOST';
+
+/** Environment variable name for the index cache directory override */
+const CACHE_DIR_ENV_VAR = 'FLUENTUI_CACHE_DIR';
+
+/** Environment variable that enables watch mode when set to "1" or "true" */
+const WATCH_ENV_VAR = 'FLUENTUI_WATCH';
+
+/** Environment variable name for the search ranking model ("tfidf" or "bm25") */
+const RANKING_ENV_VAR = 'FLUENTUI_RANKING';
+
+/** Environment variable name for the BM25 term frequency saturation parameter */
+const BM25_K1_ENV_VAR = 'FLUENTUI_BM25_K1';
+
+/** Environment variable name for the BM25 length normalization parameter */
+const BM25_B_ENV_VAR = 'FLUENTUI_BM25_B';
+
+/**
+ * CLI flags that take a value (`--flag value` or `--flag=value`).
+ * Any other `--flag` is treated as a boolean switch and ignored here.
+ */
+const VALUE_FLAGS = ['transport', 'port', 'host', 'cache-dir', 'ranking', 'bm25-k1', 'bm25-b'] as const;
+
+/** Type for the names of value-taking CLI flags */
+type ValueFlag = typeof VALUE_FLAGS[number];
+
+/** CLI switches (`--switch`) that take no value */
+const SWITCH_FLAGS = ['no-cache', 'watch'] as const;
+
+/** Type for the names of CLI switches */
+type SwitchFlag = typeof SWITCH_FLAGS[number];
+
+/**
+ * Raw values parsed from the command line, before defaults are applied.
+ */
+interface CliArgs {
+  /** First positional argument (e.g., "v9"), or null */
+  version: string | null;
+
+  /** Values of the recognized `--flag value` options */
+  flags: Partial<Record<ValueFlag, string>>;
+
+  /** The recognized switches that were given */
+  switches: Set<SwitchFlag>;
+}
+
 /** Package version — read from a constant to avoid dynamic import of package.json */
 const PACKAGE_VERSION = '1.0.0';
 
 /**
  * Resolves the complete server configuration.
  *
- * Resolution order:
- * 1. If `FLUENTUI_DOCS_PATH` env var is set → use that path directly
- * 2. If CLI arg provided (e.g., "v9") → look for `docs/{version}/` in package
- * 3. If `FLUENTUI_VERSION` env var is set → look for `docs/{version}/` in package
- * 4. Default → `docs/v9/` in the installed package
+ * The default version is the CLI arg (e.g., "v9"), else the
+ * `FLUENTUI_VERSION` env var, else "v9".
+ *
+ * The served versions are:
+ * 1. If `FLUENTUI_DOCS_PATH` env var is set → only the default version, from that path
+ * 2. Otherwise → every folder under the docs root: `FLUENTUI_DOCS_ROOT` if set,
+ *    else `docs/` in the installed package
  *
+ * Transport options follow the same CLI → env → default order:
+ * `--transport` / `FLUENTUI_TRANSPORT`, `--port` / `FLUENTUI_PORT`,
+ * `--host` / `FLUENTUI_HOST`. So does the index cache directory,
+ * `--cache-dir` / `FLUENTUI_CACHE_DIR` (default: `$XDG_CACHE_HOME/fluentui-mcp`
+ * or `~/.cache/fluentui-mcp`); `--no-cache` disables the cache.
+ * Watch mode is enabled by `--watch` or `FLUENTUI_WATCH=1`. Search ranking is
+ * set by `--ranking` / `FLUENTUI_RANKING` (default: "tfidf"), with the BM25
+ * parameters `--bm25-k1` / `FLUENTUI_BM25_K1` and `--bm25-b` / `FLUENTUI_BM25_B`.
+ *
+ * @param argv - Command-line arguments after the script name (default: `process.argv.slice(2)`)
  * @returns Fully resolved server configuration
- * @throws Error if the resolved docs path does not exist
+ * @throws Error if the resolved docs path does not exist, or a transport or ranking option is invalid
  */
-export function resolveConfig(): ServerConfig {
-  // Step 1: Determine the version from CLI args or env var
-  const cliVersion = parseCliVersion();
+export function resolveConfig(argv: string[] = process.argv.slice(2)): ServerConfig {
+  const cliArgs = parseCliArgs(argv);
+
+  // Step 1: Determine the default version from CLI args or env var
   const envVersion = process.env[VERSION_ENV_VAR];
-  const version = cliVersion || envVersion || DEFAULT_VERSION;
+  const version = cliArgs.version || envVersion || DEFAULT_VERSION;
 
-  // Step 2: Resolve the docs path
-  const docsPath = resolveDocsPath(version);
+  // Step 2: Discover every version to serve
+  const versions = resolveVersionSources(version);
 
-  // Step 3: Validate the docs path exists
-  if (!existsSync(docsPath)) {
+  // Step 3: Validate the default version's docs exist
+  const defaultSource = versions.find((source) => source.version === version);
+  if (!defaultSource) {
+    const available = versions.map((source) => source.version);
     throw new Error(
-      `Documentation path not found: ${docsPath}\n` +
+      `Documentation path not found: ${resolveDocsPath(version)}\n` +
       `Looked for version "${version}" docs.\n` +
+      (available.length > 0 ? `Available versions: ${available.join(', ')}\n` : '') +
       `Available options:\n` +
       `  - Pass a version arg: fluentui-mcp v9\n` +
       `  - Set env var: ${DOCS_PATH_ENV_VAR}=/path/to/docs\n` +
-      `  - Ensure bundled docs exist at: ${getBundledDocsPath(version)}`
+      `  - Set env var: ${DOCS_ROOT_ENV_VAR}=/path/to/folder/of/versions\n` +
+      `  - Ensure bundled docs exist at: ${join(getDocsRoot(), version)}`
     );
   }
 
   // Step 4: Build the server name incorporating the version
   const serverName = `fluentui-${version}-docs`;
 
+  // Step 5: Resolve how the server is exposed to clients
+  const transport = parseTransport(cliArgs.flags.transport || process.env[TRANSPORT_ENV_VAR]);
+  const httpPort = parsePort(cliArgs.flags.port || process.env[PORT_ENV_VAR]);
+  const httpHost = cliArgs.flags.host || process.env[HOST_ENV_VAR] || DEFAULT_HTTP_HOST;
+
+  // Step 6: Resolve where the index cache lives
+  const cacheDir = cliArgs.switches.has('no-cache')
+    ? null
+    : resolve(cliArgs.flags['cache-dir'] || process.env[CACHE_DIR_ENV_VAR] || getDefaultCacheDir());
+
+  // Step 7: Decide whether to watch the docs for changes
+  const watch = cliArgs.switches.has('watch') || isEnabled(process.env[WATCH_ENV_VAR]);
+
+  // Step 8: Resolve how search results are ranked
+  const ranking: RankingOptions = {
+    model: parseRankingModel(cliArgs.flags.ranking || process.env[RANKING_ENV_VAR]),
+    k1: parseBm25K1(cliArgs.flags['bm25-k1'] || process.env[BM25_K1_ENV_VAR]),
+    b: parseBm25B(cliArgs.flags['bm25-b'] || process.env[BM25_B_ENV_VAR]),
+  };
+
   return {
     version,
-    docsPath,
+    docsPath: defaultSource.docsPath,
+    versions,
     serverName,
     serverVersion: PACKAGE_VERSION,
+    transport,
+    httpPort,
+    httpHost,
+    cacheDir,
+    watch,
+    ranking,
   };
 }
 
 /**
- * Parse the version from CLI arguments.
+ * Parse CLI arguments into the version positional and known flag values.
  *
- * Expects the version as the first positional argument:
+ * The version is the first positional (non-flag) argument:
  * `fluentui-mcp v9` → "v9"
- * `fluentui-mcp v10-react-20` → "v10-react-20"
+ * `fluentui-mcp --transport http v10-react-20` → "v10-react-20"
  * `fluentui-mcp` → null (use default)
  *
- * @returns The version string, or null if not provided
+ * Value flags accept both `--port 3333` and `--port=3333`.
+ * Switches (e.g., `--no-cache`) take no value.
+ * Unknown flags (e.g., `--help`) are skipped.
+ *
+ * @param args - Command-line arguments after the script name
+ * @returns The parsed version and flag values
  */
-function parseCliVersion(): string | null {
-  // process.argv: [node, script, ...args]
-  const args = process.argv.slice(2);
+function parseCliArgs(args: string[]): CliArgs {
+  const result: CliArgs = { version: null, flags: {}, switches: new Set() };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
 
-  if (args.length === 0) {
-    return null;
+    if (!arg.startsWith('-')) {
+      // First positional arg is the version; later positionals are ignored
+      if (result.version === null) {
+        result.version = arg;
+      }
+      continue;
+    }
+
+    // Split "--name=value" into its parts; "--name" has no inline value
+    const [rawName, inlineValue] = arg.replace(/^-+/, '').split(/=(.*)/s, 2);
+    if (isSwitchFlag(rawName)) {
+      result.switches.add(rawName);
+      continue;
+    }
+    if (!isValueFlag(rawName)) {
+      continue;
+    }
+
+    if (inlineValue !== undefined) {
+      result.flags[rawName] = inlineValue;
+    } else if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+      // Consume the next argument as the flag's value
+      result.flags[rawName] = args[++i];
+    } else {
+      throw new Error(`Missing value for --${rawName}`);
+    }
   }
 
-  // First positional arg is the version
-  const versionArg = args[0];
+  return result;
+}
+
+/**
+ * Check whether a flag name is one of the value-taking flags.
+ *
+ * @param name - Flag name without leading dashes
+ * @returns True if the flag expects a value
+ */
+function isValueFlag(name: string): name is ValueFlag {
+  return (VALUE_FLAGS as readonly string[]).includes(name);
+}
+
+/**
+ * Check whether a flag name is one of the switches.
+ *
+ * @param name - Flag name without leading dashes
+ * @returns True if the flag is a switch
+ */
+function isSwitchFlag(name: string): name is SwitchFlag {
+  return (SWITCH_FLAGS as readonly string[]).includes(name);
+}
+
+/**
+ * Validate a transport mode string.
+ *
+ * @param value - Raw transport value from CLI/env, or undefined
+ * @returns The transport mode (default: "stdio")
+ * @throws Error if the value is not a known transport mode
+ */
+function parseTransport(value: string | undefined): TransportMode {
+  if (!value) {
+    return DEFAULT_TRANSPORT;
+  }
 
-  // Skip if it looks like a flag (e.g., --help)
-  if (versionArg.startsWith('-')) {
-    return null;
+  const normalized = value.trim().toLowerCase();
+  if (!(TRANSPORT_MODES as readonly string[]).includes(normalized)) {
+    throw new Error(
+      `Invalid transport "${value}". Valid transports: ${TRANSPORT_MODES.join(', ')}`
+    );
   }
 
-  return versionArg;
+  return normalized as TransportMode;
 }
 
 /**
- * Resolve the absolute path to the documentation folder.
+ * Validate an HTTP port string.
+ *
+ * @param value - Raw port value from CLI/env, or undefined
+ * @returns The port number (default: 3333)
+ * @throws Error if the value is not an integer between 0 and 65535
+ */
+function parsePort(value: string | undefined): number {
+  if (!value) {
+    return DEFAULT_HTTP_PORT;
+  }
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${value}". Expected an integer between 0 and 65535.`);
+  }
+
+  return port;
+}
+
+/**
+ * Validate a ranking model string.
+ *
+ * @param value - Raw ranking value from CLI/env, or undefined
+ * @returns The ranking model (default: "tfidf")
+ * @throws Error if the value is not a known ranking model
+ */
+function parseRankingModel(value: string | undefined): RankingModel {
+  if (!value) {
+    return DEFAULT_RANKING_MODEL;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!(RANKING_MODELS as readonly string[]).includes(normalized)) {
+    throw new Error(
+      `Invalid ranking "${value}". Valid ranking models: ${RANKING_MODELS.join(', ')}`
+    );
+  }
+
+  return normalized as RankingModel;
+}
+
+/**
+ * Validate the BM25 k1 (term frequency saturation) parameter.
+ *
+ * @param value - Raw k1 value from CLI/env, or undefined
+ * @returns The k1 value (default: 1.2)
+ * @throws Error if the value is not a non-negative number
+ */
+function parseBm25K1(value: string | undefined): number {
+  if (!value) {
+    return DEFAULT_BM25_K1;
+  }
+
+  const k1 = Number(value);
+  if (!Number.isFinite(k1) || k1 < 0) {
+    throw new Error(`Invalid BM25 k1 "${value}". Expected a number of at least 0.`);
+  }
+
+  return k1;
+}
+
+/**
+ * Validate the BM25 b (length normalization) parameter.
+ *
+ * @param value - Raw b value from CLI/env, or undefined
+ * @returns The b value (default: 0.75)
+ * @throws Error if the value is not a number between 0 and 1
+ */
+function parseBm25B(value: string | undefined): number {
+  if (!value) {
+    return DEFAULT_BM25_B;
+  }
+
+  const b = Number(value);
+  if (!Number.isFinite(b) || b < 0 || b > 1) {
+    throw new Error(`Invalid BM25 b "${value}". Expected a number between 0 and 1.`);
+  }
+
+  return b;
+}
+
+/**
+ * Discover the versions to serve and their documentation folders.
+ *
+ * `FLUENTUI_DOCS_PATH` pins a single folder to the default version.
+ * Otherwise every subfolder of the docs root is a version.
+ * Folders that do not exist are left out.
+ *
+ * @param defaultVersion - The default FluentUI version identifier
+ * @returns The existing version sources, sorted by version
+ */
+function resolveVersionSources(defaultVersion: string): VersionSource[] {
+  // A custom docs path serves exactly one version
+  if (process.env[DOCS_PATH_ENV_VAR]) {
+    const docsPath = resolveDocsPath(defaultVersion);
+    return existsSync(docsPath) ? [{ version: defaultVersion, docsPath }] : [];
+  }
+
+  const docsRoot = getDocsRoot();
+  if (!existsSync(docsRoot)) {
+    return [];
+  }
+
+  return readdirSync(docsRoot, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => ({ version: entry.name, docsPath: join(docsRoot, entry.name) }))
+    .sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }));
+}
+
+/**
+ * Resolve the absolute path to the documentation folder of a version.
  *
  * Priority:
  * 1. FLUENTUI_DOCS_PATH environment variable (absolute or relative path)
- * 2. Bundled docs at `{package_root}/docs/{version}/`
+ * 2. `{docs_root}/{version}/`
  *
  * @param version - The FluentUI version identifier
  * @returns Absolute path to the docs folder
@@ -130,16 +427,36 @@ function resolveDocsPath(version: string): string {
     return resolve(envDocsPath);
   }
 
-  // Use bundled docs
-  return getBundledDocsPath(version);
+  return join(getDocsRoot(), version);
 }
 
 /**
- * Get the path to bundled docs for a specific version.
+ * Get the folder whose subfolders are the version docs.
  *
- * @param version - The FluentUI version identifier
- * @returns Absolute path to `{package_root}/docs/{version}/`
+ * @returns `FLUENTUI_DOCS_ROOT` (resolved against CWD) if set,
+ *          else the bundled `{package_root}/docs/`
+ */
+function getDocsRoot(): string {
+  const envDocsRoot = process.env[DOCS_ROOT_ENV_VAR];
+  return envDocsRoot ? resolve(envDocsRoot) : join(PACKAGE_ROOT, 'docs');
+}
+
+/**
+ * Get the default index cache directory.
+ *
+ * @returns `$XDG_CACHE_HOME/fluentui-mcp` if XDG_CACHE_HOME is set,
+ *          else `~/.cache/fluentui-mcp`
+ */
+function getDefaultCacheDir(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'fluentui-mcp');
+}
+
+/**
+ * Interpret a boolean environment variable.
+ *
+ * @param value - Raw env var value
+ * @returns True for "1" or "true" (case-insensitive)
  */
-function getBundledDocsPath(version: string): string {
-  return join(PACKAGE_ROOT, 'docs', version);
+function isEnabled(value: string | undefined): boolean {
+  return value === '1' || value?.toLowerCase() === 'true';
 }
@@ -0,0 +1,41 @@
+/**
+ * Build queue — runs the index builds of one docs version one at a time.
+ *
+ * A version's store and search engine are rebuilt in place by both the
+ * docs watcher (`--watch` mode) and the `reindex` tool. Two builds running
+ * at once would clear and repopulate the same store concurrently, so every
+ * build of a version goes through that version's queue: a build waits for
+ * the ones queued before it, whether they succeed or fail.
+ *
+ * @module indexer/build-queue
+ */
+
+/**
+ * Serializes the builds of one docs version.
+ *
+ * @example
+ * ```typescript
+ * const queue = new BuildQueue();
+ * // Runs after any build already queued
+ * const result = await queue.run(() => buildIndex(docsPath, store, searchEngine));
+ * ```
+ */
+export class BuildQueue {
+  /** Settles once every build queued so far has finished */
+  protected tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Run a build after every build queued before it.
+   *
+   * @param build - Starts the build
+   * @returns The build's result (or its rejection)
+   */
+  public run<T>(build: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(build);
+    this.tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+}
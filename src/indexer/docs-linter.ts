@@ -0,0 +1,186 @@
+/**
+ * Docs linter — checks indexed documents against the required doc shape.
+ *
+ * `maintenance/DOCS-MAINTENANCE.md` describes what the metadata extractor
+ * expects: an H1 title, `> **Package**` / `> **Import**` blockquotes,
+ * `## Overview`, `## Props Reference`, and `## See Also`. The extractor
+ * falls back silently (a null package, no props) when a document doesn't
+ * follow it; the linter reports those documents instead.
+ *
+ * Rules (see `LINT_RULES`):
+ * - `missing-package` — a component doc without a `> **Package**` line
+ * - `unparseable-props-table` — a Props Reference section without a
+ *   table the props parser can read
+ * - `unresolved-see-also` — a See Also link to a file that is not indexed
+ * - `broken-link` — any other link to a file that is not indexed, or to a
+ *   heading that does not exist (see `indexer/link-graph`)
+ * - `duplicate-title` — a title that resolves to another document in the
+ *   name index, so `query_component` cannot find the document by it
+ * - `empty-section` — a heading with neither text nor sub-sections
+ *
+ * Used by the `lint-docs` command and the `lint_docs` tool.
+ *
+ * @module indexer/docs-linter
+ */
+
+import type { DocumentEntry, LintRule, LintViolation, ResolvedLink } from '../types/index.js';
+import type { DocumentStore } from './document-store.js';
+import { parseFrontmatter } from './frontmatter.js';
+import { extractPropsSection } from './metadata-extractor.js';
+import { getTableKind, parseMarkdownTables } from './props-parser.js';
+import { parseSections, formatSectionPath } from './section-parser.js';
+
+/** Heading of the section listing related documents */
+const SEE_ALSO_PATTERN = /^See Also$/i;
+
+/** A category or module index page (e.g., "00-motion-index.md"), which documents no single package */
+const INDEX_FILE_PATTERN = /(?:^|\/)[^/]*index\.md$/;
+
+/** Section content that is only thematic breaks and whitespace */
+const BLANK_CONTENT_PATTERN = /^(?:\s|-{3,}|\*{3,}|_{3,})*$/;
+
+/**
+ * Lint every document of a store.
+ *
+ * @param store - The populated document store
+ * @returns The violations, by document path and then in document order
+ *
+ * @example
+ * ```typescript
+ * lintDocuments(store);
+ * // → [{ rule: 'missing-package', docId: 'components/forms/date-time-pickers',
+ * //      relativePath: '02-components/forms/date-time-pickers.md',
+ * //      section: null, message: 'No `> **Package**:` line; ...' }]
+ * ```
+ */
+export function lintDocuments(store: DocumentStore): LintViolation[] {
+  const documents = store.getAllDocuments().sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const graph = store.getLinkGraph();
+
+  return documents.flatMap((doc) => {
+    const violation = (rule: LintRule, section: string | null, message: string): LintViolation => ({
+      rule,
+      docId: doc.id,
+      relativePath: doc.relativePath,
+      section,
+      message,
+    });
+
+    return [
+      ...lintPackage(doc).map((message) => violation('missing-package', null, message)),
+      ...lintTitle(doc, store).map((message) => violation('duplicate-title', null, message)),
+      ...lintPropsTables(doc).map((message) => violation('unparseable-props-table', 'Props Reference', message)),
+      ...lintLinks(doc, graph.getLinks(doc.id)).map(({ rule, section, message }) => violation(rule, section, message)),
+      ...lintSections(doc).map(({ section, message }) => violation('empty-section', section, message)),
+    ];
+  });
+}
+
+/**
+ * Check that a component doc names its package.
+ *
+ * Index pages of a category are not component docs and are skipped.
+ *
+ * @param doc - The document
+ * @returns Messages of the violations found
+ */
+function lintPackage(doc: DocumentEntry): string[] {
+  const isComponentDoc = doc.module === 'components' && doc.category !== null &&
+    !INDEX_FILE_PATTERN.test(doc.relativePath);
+  return isComponentDoc && !doc.metadata.packageName
+    ? ['No `> **Package**:` line; the component\'s package is unknown.']
+    : [];
+}
+
+/**
+ * Check that a document's title finds the document in the name index.
+ *
+ * @param doc - The document
+ * @param store - The store holding the name index
+ * @returns Messages of the violations found
+ */
+function lintTitle(doc: DocumentEntry, store: DocumentStore): string[] {
+  const match = store.findByName(doc.title);
+  return match && match.id !== doc.id
+    ? [`Title "${doc.title}" resolves to ${match.relativePath} in the name index; looking it up by name cannot find this document.`]
+    : [];
+}
+
+/**
+ * Check that a Props Reference section holds tables the props parser reads.
+ *
+ * @param doc - The document
+ * @returns Messages of the violations found
+ */
+function lintPropsTables(doc: DocumentEntry): string[] {
+  const section = extractPropsSection(parseFrontmatter(doc.content).body);
+  if (section === null) {
+    return [];
+  }
+
+  const tables = parseMarkdownTables(section);
+  if (tables.length === 0) {
+    return ['The section has no markdown table.'];
+  }
+
+  return tables
+    .filter((table) => getTableKind(table) === null)
+    .map((table) => (
+      `Table${table.heading ? ` under "${table.heading}"` : ''} has columns ${table.columns.join(' | ')}; ` +
+      'expected Prop | Type | Default | Description, or Slot | Element | Description.'
+    ));
+}
+
+/**
+ * Check that every link of a document points to an indexed document and heading.
+ *
+ * Links of the See Also section to a missing file are `unresolved-see-also`;
+ * every other broken link is `broken-link`.
+ *
+ * @param doc - The document
+ * @param links - The document's links, resolved by the link graph
+ * @returns The violations found, with their rule and section path
+ */
+function lintLinks(
+  doc: DocumentEntry,
+  links: ResolvedLink[]
+): Array<{ rule: LintRule; section: string; message: string }> {
+  const seeAlso = new Set(
+    parseSections(doc.content)
+      .filter((section) => SEE_ALSO_PATTERN.test(section.heading))
+      .map((section) => formatSectionPath(section.path))
+  );
+
+  return links
+    .filter((link) => link.status !== 'ok')
+    .map((link) => ({
+      rule: link.status === 'missing-file' && seeAlso.has(link.section) ? 'unresolved-see-also' : 'broken-link',
+      section: link.section,
+      message: link.status === 'missing-file'
+        ? `Link "${link.text}" points to ${link.target} (${link.path}), which is not an indexed document.`
+        : `Link "${link.text}" points to ${link.target}, but ${link.path} has no heading with anchor "${link.anchor}".`,
+    }));
+}
+
+/**
+ * Find headings with neither text nor sub-sections.
+ *
+ * Content that is only a thematic break (`---`) counts as empty.
+ *
+ * @param doc - The document
+ * @returns The violations found, with their section path
+ */
+function lintSections(doc: DocumentEntry): Array<{ section: string; message: string }> {
+  const sections = parseSections(doc.content);
+
+  return sections
+    .filter((section, i) => (
+      section.level > 0 &&
+      BLANK_CONTENT_PATTERN.test(section.content) &&
+      !(sections[i + 1]?.level > section.level)
+    ))
+    .map((section) => ({
+      section: formatSectionPath(section.path),
+      message: `"${section.heading}" has no content.`,
+    }));
+}
@@ -0,0 +1,177 @@
+/**
+ * Docs watcher — keeps an index in sync with its docs folder.
+ *
+ * Used by `--watch` mode. Watches a docs version folder recursively and,
+ * once file events stop arriving for a short debounce period, runs an
+ * incremental `buildIndex` into the existing store and search engine:
+ * only added and modified files are re-parsed.
+ *
+ * Rebuilds never overlap. Events that arrive during a rebuild schedule
+ * one more rebuild after it finishes, and rebuilds run through the
+ * version's build queue, so they also wait for a running `reindex` call.
+ *
+ * @module indexer/docs-watcher
+ */
+
+import { watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { extname } from 'path';
+import { buildIndex } from './index-builder.js';
+import type { IndexResult } from './index-builder.js';
+import { BuildQueue } from './build-queue.js';
+import type { DocumentStore } from './document-store.js';
+import type { SearchEngine } from './search-engine.js';
+
+/** Default quiet period (ms) after the last file event before reindexing */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Options for watching a docs folder.
+ */
+export interface DocsWatcherOptions {
+  /** Absolute path to the docs version folder to watch */
+  docsPath: string;
+
+  /** The store to update in place */
+  store: DocumentStore;
+
+  /** The search engine to update in place */
+  searchEngine: SearchEngine;
+
+  /** Path of the version's index cache file (null or omitted: no cache) */
+  cacheFile?: string | null;
+
+  /** Queue shared with the version's other builds (default: a queue of its own) */
+  buildQueue?: BuildQueue;
+
+  /** Quiet period after the last file event before reindexing (default: 300ms) */
+  debounceMs?: number;
+
+  /** Called after every rebuild that added, changed, or deleted documents */
+  onReindex: (result: IndexResult) => void;
+
+  /** Called when a rebuild fails (default: log to stderr) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A running docs watcher.
+ * Returned by `watchDocs` so the caller can stop watching.
+ */
+export interface DocsWatcherHandle {
+  /** Stop watching; a pending rebuild is cancelled */
+  close(): void;
+}
+
+/**
+ * Watch a docs folder and reindex incrementally when its markdown changes.
+ *
+ * @param options - Folder, index to update, debounce period, and callbacks
+ * @returns A handle to stop watching
+ * @throws Error if the folder cannot be watched (e.g., recursive watching is
+ *   unsupported on this platform; on Linux it needs Node.js 20, the minimum
+ *   version in `engines`)
+ *
+ * @example
+ * ```typescript
+ * const watcher = watchDocs({
+ *   docsPath, store, searchEngine,
+ *   onReindex: ({ changes }) => console.error(`Changed: ${changes.changed.join(', ')}`),
+ * });
+ * // later
+ * watcher.close();
+ * ```
+ */
+export function watchDocs(options: DocsWatcherOptions): DocsWatcherHandle {
+  const { docsPath, store, searchEngine, cacheFile, onReindex } = options;
+  const debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+  const onError = options.onError ?? logWatchError;
+  const buildQueue = options.buildQueue ?? new BuildQueue();
+
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let pending = false;
+  let closed = false;
+
+  /** Run one rebuild, then another if events arrived meanwhile */
+  const rebuild = async (): Promise<void> => {
+    timer = null;
+    if (running) {
+      pending = true;
+      return;
+    }
+
+    running = true;
+    try {
+      const result = await buildQueue.run(() =>
+        buildIndex(docsPath, store, searchEngine, { cacheFile })
+      );
+      const { added, changed, deleted } = result.changes;
+      if (!closed && added.length + changed.length + deleted.length > 0) {
+        onReindex(result);
+      }
+    } catch (error) {
+      onError(error);
+    } finally {
+      running = false;
+      if (pending && !closed) {
+        pending = false;
+        schedule();
+      }
+    }
+  };
+
+  /** (Re)start the debounce timer */
+  const schedule = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => void rebuild(), debounceMs);
+  };
+
+  const watcher: FSWatcher = watch(docsPath, { recursive: true }, (_event, fileName) => {
+    if (!closed && isRelevantChange(fileName)) {
+      schedule();
+    }
+  });
+  watcher.on('error', onError);
+
+  return {
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      watcher.close();
+    },
+  };
+}
+
+/**
+ * Decide whether a file event can affect the index.
+ *
+ * Markdown files count, and so do names without an extension — these are
+ * usually folders, whose renames or removals add or drop whole subtrees.
+ * An unknown name (some platforms omit it) always counts.
+ *
+ * @param fileName - Name of the changed entry relative to the watched folder
+ * @returns True if the event should trigger a reindex
+ */
+function isRelevantChange(fileName: string | null): boolean {
+  if (!fileName) {
+    return true;
+  }
+  const extension = extname(fileName);
+  return extension === '' || extension === '.md';
+}
+
+/**
+ * Default rebuild error handler.
+ *
+ * @param error - The error that occurred
+ */
+function logWatchError(error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[fluentui-mcp] Watch reindex failed: ${message}`);
+}
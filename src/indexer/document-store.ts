@@ -2,8 +2,9 @@
  * In-memory document store for indexed documentation.
  *
  * Provides O(1) lookups by document ID, category browsing, module filtering,
- * and fuzzy name matching. All data is stored in memory for instant access
- * after the initial indexing phase.
+ * fuzzy (typo-tolerant) name matching, and the link graph between documents.
+ * All data is stored in memory for instant access after the initial
+ * indexing phase.
  *
  * This is the central data structure that all tools query against.
  * It is populated once at server startup by the IndexBuilder and can
@@ -17,6 +18,20 @@ import type {
   DocumentModule,
   ComponentCategory,
 } from '../types/index.js';
+import { findClosestMatches } from './fuzzy-match.js';
+import { LinkGraph } from './link-graph.js';
+
+/**
+ * The result of a name lookup.
+ * Returned by `matchName` so callers can tell a typo correction from a match.
+ */
+export interface NameMatch {
+  /** The matching document */
+  document: DocumentEntry;
+
+  /** True if the name only matched after correcting a typo */
+  corrected: boolean;
+}
 
 /**
  * In-memory store for all indexed documentation entries.
@@ -44,6 +59,9 @@ export class DocumentStore {
    */
   protected nameIndex: Map<string, string> = new Map();
 
+  /** Links between the documents, built on first use and dropped when documents change */
+  protected linkGraph: LinkGraph | null = null;
+
   /**
    * Add a document to the store.
    *
@@ -65,6 +83,9 @@ export class DocumentStore {
 
     // Update name index with multiple variations for fuzzy matching
     this.indexDocumentName(entry);
+
+    // Links may now resolve differently
+    this.linkGraph = null;
   }
 
   /**
@@ -80,39 +101,95 @@ export class DocumentStore {
   /**
    * Find a document by component name using fuzzy matching.
    *
+   * Tries the strategies of `matchName` in order, including typo
+   * correction (e.g., "datagird" finds DataGrid).
+   *
+   * @param name - Component name to search for (case-insensitive)
+   * @returns The best matching document entry, or undefined
+   */
+  public findByName(name: string): DocumentEntry | undefined {
+    return this.matchName(name)?.document;
+  }
+
+  /**
+   * Match a component name, reporting whether a typo had to be corrected.
+   *
    * Tries multiple matching strategies in order:
    * 1. Exact normalized name match
    * 2. Prefix match (e.g., "button" matches "button")
    * 3. Substring match (e.g., "toggle" matches "toggle-button")
-   * 4. Contains match across all names
+   * 4. Typo correction: the indexed name with the smallest bounded edit
+   *    distance (e.g., "comobox" matches "combobox")
    *
    * @param name - Component name to search for (case-insensitive)
-   * @returns The best matching document entry, or undefined
+   * @returns The best match, or undefined if nothing is close enough
    */
-  public findByName(name: string): DocumentEntry | undefined {
+  public matchName(name: string): NameMatch | undefined {
     const normalized = this.normalizeName(name);
 
     // Strategy 1: Exact match in name index
     const exactId = this.nameIndex.get(normalized);
     if (exactId) {
-      return this.documents.get(exactId);
+      return this.toNameMatch(exactId, false);
     }
 
     // Strategy 2: Find names that start with the query
     for (const [indexedName, docId] of this.nameIndex) {
       if (indexedName.startsWith(normalized)) {
-        return this.documents.get(docId);
+        return this.toNameMatch(docId, false);
       }
     }
 
     // Strategy 3: Find names that contain the query
     for (const [indexedName, docId] of this.nameIndex) {
       if (indexedName.includes(normalized)) {
-        return this.documents.get(docId);
+        return this.toNameMatch(docId, false);
+      }
+    }
+
+    // Strategy 4: Correct a typo
+    const [closest] = findClosestMatches(normalized, this.nameIndex.keys());
+    return closest ? this.toNameMatch(this.nameIndex.get(closest.candidate)!, true) : undefined;
+  }
+
+  /**
+   * Find documents whose indexed names match a partial name.
+   *
+   * Used for argument auto-completion. Uses the same normalization and name
+   * variations as `findByName`, but returns every match instead of the best:
+   * 1. Documents with a name starting with the partial name
+   * 2. Documents with a name containing the partial name
+   *
+   * Each document appears at most once; ties are ordered by title.
+   *
+   * @param partial - Partial name typed so far (empty matches everything)
+   * @param module - Optional: restrict matches to one module
+   * @returns Matching document entries, best matches first
+   */
+  public completeName(partial: string, module?: DocumentModule): DocumentEntry[] {
+    const normalized = this.normalizeName(partial);
+    const prefixIds = new Set<string>();
+    const substringIds = new Set<string>();
+
+    for (const [indexedName, docId] of this.nameIndex) {
+      if (indexedName.startsWith(normalized)) {
+        prefixIds.add(docId);
+      } else if (indexedName.includes(normalized)) {
+        substringIds.add(docId);
       }
     }
 
-    return undefined;
+    const toEntries = (ids: Set<string>): DocumentEntry[] =>
+      Array.from(ids)
+        .map((id) => this.documents.get(id))
+        .filter((doc): doc is DocumentEntry =>
+          doc !== undefined && (!module || doc.module === module)
+        )
+        .sort((a, b) => a.title.localeCompare(b.title));
+
+    const prefixMatches = toEntries(prefixIds);
+    const substringMatches = toEntries(substringIds).filter((doc) => !prefixIds.has(doc.id));
+    return [...prefixMatches, ...substringMatches];
   }
 
   /**
@@ -172,6 +249,21 @@ export class DocumentStore {
       .sort((a, b) => a.module.localeCompare(b.module));
   }
 
+  /**
+   * Get the links between the documents, in both directions.
+   *
+   * Built from every document's links on first use after the documents
+   * changed, so adding documents one by one stays cheap.
+   *
+   * @returns The link graph
+   */
+  public getLinkGraph(): LinkGraph {
+    if (!this.linkGraph) {
+      this.linkGraph = new LinkGraph(this.getAllDocuments());
+    }
+    return this.linkGraph;
+  }
+
   /**
    * Get the total number of indexed documents.
    *
@@ -190,6 +282,19 @@ export class DocumentStore {
     this.categoryIndex.clear();
     this.moduleIndex.clear();
     this.nameIndex.clear();
+    this.linkGraph = null;
+  }
+
+  /**
+   * Build a name match for a document ID.
+   *
+   * @param docId - ID of the matching document
+   * @param corrected - Whether a typo was corrected
+   * @returns The match, or undefined if the document is missing
+   */
+  protected toNameMatch(docId: string, corrected: boolean): NameMatch | undefined {
+    const document = this.documents.get(docId);
+    return document ? { document, corrected } : undefined;
   }
 
   /**
@@ -256,16 +361,29 @@ export class DocumentStore {
     if (noSpaces !== titleNorm) {
       this.nameIndex.set(noSpaces, docId);
     }
+
+    // Index frontmatter aliases, without taking over another document's name
+    for (const alias of entry.metadata.aliases) {
+      const aliasNorm = this.normalizeName(alias);
+      for (const name of new Set([aliasNorm, aliasNorm.replace(/\s+/g, '')])) {
+        if (!this.nameIndex.has(name)) {
+          this.nameIndex.set(name, docId);
+        }
+      }
+    }
   }
 
   /**
    * Normalize a name for fuzzy matching.
    * Converts to lowercase and trims whitespace.
    *
+   * Public so that other name lookups (e.g., argument auto-completion over
+   * topic and pattern names) match exactly like the name index does.
+   *
    * @param name - Raw name string
    * @returns Normalized name
    */
-  protected normalizeName(name: string): string {
+  public normalizeName(name: string): string {
     return name.toLowerCase().trim();
   }
 }
@@ -0,0 +1,248 @@
+/**
+ * YAML frontmatter parsing for markdown documents.
+ *
+ * Frontmatter is an optional block of `key: value` lines between two `---`
+ * lines at the very top of a document:
+ *
+ * ```markdown
+ * ---
+ * title: Button
+ * aliases: [PrimaryButton, "Action button"]
+ * tags:
+ *   - actions
+ *   - forms
+ * deprecated: Use CompoundButton instead
+ * ---
+ * # Button
+ * ```
+ *
+ * Only the subset of YAML that documentation metadata needs is supported:
+ * scalar values (plain, single- or double-quoted), inline `[a, b]` lists,
+ * block `- item` lists, `|` / `>` block scalars, and `#` comments. Nested
+ * mappings are skipped. Every value is kept as a string (or list of strings),
+ * so versions like `since: 9.10` are not mangled into numbers.
+ *
+ * @module indexer/frontmatter
+ */
+
+/**
+ * Parsed frontmatter values, keyed by the (lowercased) frontmatter key.
+ */
+export type FrontmatterData = Record<string, string | string[]>;
+
+/**
+ * A document split into its frontmatter and the markdown that follows.
+ */
+export interface ParsedFrontmatter {
+  /** Parsed frontmatter values (empty if the document has none) */
+  data: FrontmatterData;
+
+  /** The markdown after the frontmatter block (the whole document if none) */
+  body: string;
+}
+
+/** Opening/closing delimiter line of a frontmatter block */
+const FRONTMATTER_DELIMITER = /^---\s*$/;
+
+/** Alternative closing delimiter allowed by YAML */
+const FRONTMATTER_END = /^(---|\.\.\.)\s*$/;
+
+/** A top-level `key: value` line */
+const KEY_VALUE_LINE = /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*)|\s*)$/;
+
+/** A block list item line (`  - value`) */
+const LIST_ITEM_LINE = /^\s*-\s+(.*)$/;
+
+/**
+ * Split a markdown document into its frontmatter values and body.
+ *
+ * A document without a frontmatter block — or with one that is never
+ * closed — is returned unchanged with empty data.
+ *
+ * @param content - Raw markdown content
+ * @returns The parsed frontmatter and the remaining markdown
+ *
+ * @example
+ * ```typescript
+ * const { data, body } = parseFrontmatter('---\ntitle: Button\n---\n# Button\n');
+ * // data → { title: 'Button' }, body → '# Button\n'
+ * ```
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const lines = content.replace(/^\uFEFF/, '').split('\n');
+
+  if (lines.length === 0 || !FRONTMATTER_DELIMITER.test(lines[0])) {
+    return { data: {}, body: content };
+  }
+
+  const endIndex = lines.findIndex((line, index) => index > 0 && FRONTMATTER_END.test(line));
+  if (endIndex === -1) {
+    return { data: {}, body: content };
+  }
+
+  return {
+    data: parseFrontmatterLines(lines.slice(1, endIndex).map((line) => line.replace(/\r$/, ''))),
+    body: lines.slice(endIndex + 1).join('\n'),
+  };
+}
+
+/**
+ * Get a frontmatter value as a single string.
+ *
+ * @param data - Parsed frontmatter
+ * @param key - Frontmatter key
+ * @returns The trimmed value (a list is joined with ", "), or null if missing or empty
+ */
+export function getFrontmatterString(data: FrontmatterData, key: string): string | null {
+  const value = data[key];
+  const text = Array.isArray(value) ? value.join(', ') : value?.trim();
+  return text ? text : null;
+}
+
+/**
+ * Get a frontmatter value as a list of strings.
+ *
+ * A scalar is treated as a comma-separated list, so both
+ * `tags: [a, b]` and `tags: a, b` yield `['a', 'b']`.
+ *
+ * @param data - Parsed frontmatter
+ * @param key - Frontmatter key
+ * @returns The non-empty list items (empty if the key is missing)
+ */
+export function getFrontmatterList(data: FrontmatterData, key: string): string[] {
+  const value = data[key];
+  if (value === undefined) {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : value.split(',');
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Parse the lines between the frontmatter delimiters.
+ *
+ * @param lines - Frontmatter lines, without the delimiters
+ * @returns Parsed values keyed by lowercased key
+ */
+function parseFrontmatterLines(lines: string[]): FrontmatterData {
+  const data: FrontmatterData = {};
+
+  let i = 0;
+  while (i < lines.length) {
+    const match = lines[i].match(KEY_VALUE_LINE);
+    i++;
+    if (!match) {
+      // Comments, blank lines, and stray indented lines (nested mappings)
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const rawValue = stripComment(match[2] ?? '').trim();
+
+    // Collect the indented lines that belong to this key
+    const nested: string[] = [];
+    while (i < lines.length && (lines[i].trim() === '' || /^\s/.test(lines[i]) || LIST_ITEM_LINE.test(lines[i]))) {
+      nested.push(lines[i]);
+      i++;
+    }
+
+    if (rawValue === '|' || rawValue === '>') {
+      data[key] = parseBlockScalar(nested, rawValue);
+    } else if (rawValue === '') {
+      const items = nested
+        .map((line) => line.match(LIST_ITEM_LINE))
+        .filter((itemMatch): itemMatch is RegExpMatchArray => itemMatch !== null)
+        .map((itemMatch) => parseScalar(stripComment(itemMatch[1])));
+      data[key] = items.length > 0 ? items : '';
+    } else if (rawValue.startsWith('[') && rawValue.endsWith(']')) {
+      data[key] = splitInlineList(rawValue.slice(1, -1)).map(parseScalar);
+    } else {
+      data[key] = parseScalar(rawValue);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Join the lines of a `|` (literal) or `>` (folded) block scalar.
+ *
+ * @param lines - The indented lines following the key
+ * @param style - `|` keeps line breaks, `>` folds them into spaces
+ * @returns The block's text
+ */
+function parseBlockScalar(lines: string[], style: '|' | '>'): string {
+  const text = lines.map((line) => line.trim());
+  while (text.length > 0 && text[text.length - 1] === '') {
+    text.pop();
+  }
+  return style === '|' ? text.join('\n') : text.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Unquote a scalar value.
+ *
+ * @param value - Raw scalar text
+ * @returns The value without surrounding quotes (escaped quotes unescaped)
+ */
+function parseScalar(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/\\"/g, '"');
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+/**
+ * Split the inside of an inline `[a, "b, c"]` list on commas outside quotes.
+ *
+ * @param inner - The text between the brackets
+ * @returns The raw (still quoted) items, without empty ones
+ */
+function splitInlineList(inner: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of inner) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current);
+
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * Remove a trailing `# comment` that is not inside quotes.
+ *
+ * @param value - Raw value text
+ * @returns The value without its comment
+ */
+function stripComment(value: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i);
+    }
+  }
+
+  return value;
+}
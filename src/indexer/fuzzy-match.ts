@@ -0,0 +1,132 @@
+/**
+ * Typo-tolerant matching for search terms and document names.
+ *
+ * Uses a bounded edit distance (optimal string alignment: insertions,
+ * deletions, substitutions, and swaps of adjacent characters) so that
+ * "datagird" finds "datagrid" and "comobox" finds "combobox". The allowed
+ * distance grows with the term's length, so short terms — where a single
+ * edit turns one real word into another — are never corrected.
+ *
+ * @module indexer/fuzzy-match
+ */
+
+/** Terms shorter than this are never corrected */
+const MIN_CORRECTABLE_LENGTH = 4;
+
+/** Terms at least this long may be two edits away from their correction */
+const TWO_EDITS_MIN_LENGTH = 8;
+
+/**
+ * A candidate that is within the allowed edit distance of a term.
+ */
+export interface FuzzyMatch {
+  /** The matching candidate */
+  candidate: string;
+
+  /** Number of edits between the term and the candidate (at least 1) */
+  distance: number;
+}
+
+/**
+ * Get the maximum number of edits allowed when correcting a term.
+ *
+ * @param term - The (normalized) term to correct
+ * @returns 0 for terms under 4 characters, 1 up to 7 characters, 2 beyond
+ */
+export function getMaxEditDistance(term: string): number {
+  if (term.length < MIN_CORRECTABLE_LENGTH) {
+    return 0;
+  }
+  return term.length < TWO_EDITS_MIN_LENGTH ? 1 : 2;
+}
+
+/**
+ * Calculate the edit distance between two strings, giving up early once it
+ * is certain to exceed a bound.
+ *
+ * Adjacent transpositions ("gird" → "grid") count as a single edit.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - The largest distance of interest
+ * @returns The edit distance, or `maxDistance + 1` if it exceeds the bound
+ *
+ * @example
+ * ```typescript
+ * boundedEditDistance('datagird', 'datagrid', 2); // 1
+ * boundedEditDistance('button', 'dialog', 2);     // 3 (over the bound)
+ * ```
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  const overBound = maxDistance + 1;
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return overBound;
+  }
+
+  // Three rolling rows of the dynamic programming table
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    // Every later row is at least this row's minimum
+    if (rowMinimum > maxDistance) {
+      return overBound;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], overBound);
+}
+
+/**
+ * Find the candidates closest to a term within its allowed edit distance.
+ *
+ * Exact matches are not reported — callers look those up directly.
+ *
+ * @param term - The (normalized) term to correct
+ * @param candidates - The known terms to compare against
+ * @returns Every candidate at the smallest distance found (empty if none is close enough)
+ */
+export function findClosestMatches(term: string, candidates: Iterable<string>): FuzzyMatch[] {
+  let bound = getMaxEditDistance(term);
+  let closest: FuzzyMatch[] = [];
+  if (bound === 0) {
+    return closest;
+  }
+
+  for (const candidate of candidates) {
+    if (candidate === term) {
+      continue;
+    }
+    const distance = boundedEditDistance(term, candidate, bound);
+    if (distance > bound) {
+      continue;
+    }
+    if (closest.length > 0 && distance < closest[0].distance) {
+      closest = [];
+    }
+    // Only candidates at least this close are of interest from now on
+    bound = distance;
+    closest.push({ candidate, distance });
+  }
+
+  return closest;
+}
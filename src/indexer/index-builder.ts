@@ -11,16 +11,27 @@
  * 4. DocumentEntry objects are created and added to the store
  * 5. Search engine builds its inverted index from the store
  *
+ * Steps 2–3 and the tokenization in step 5 are skipped for files that did
+ * not change since the previous build into the same store (a `reindex`),
+ * or since the index cache was written (see `indexer/index-cache`). Each
+ * build reports which documents were added, changed, or deleted.
+ *
  * @module indexer/index-builder
  */
 
-import { readFile } from 'fs/promises';
+import { readFile, stat } from 'fs/promises';
 import { scanDocsDirectory } from './scanner.js';
-import { extractMetadata, extractTitle } from './metadata-extractor.js';
+import { extractMetadata, extractTitle, extractCategory } from './metadata-extractor.js';
+import { parseSections, buildOutline } from './section-parser.js';
+import { extractPropDefinitions } from './props-parser.js';
+import { extractLinks } from './link-graph.js';
 import { DocumentStore } from './document-store.js';
 import { SearchEngine } from './search-engine.js';
+import { hashContent, loadIndexCache, saveIndexCache } from './index-cache.js';
 import type { DocumentEntry } from '../types/index.js';
 import type { ScannedFile } from './scanner.js';
+import type { DocumentTokens } from './search-engine.js';
+import type { CachedFile } from './index-cache.js';
 
 /**
  * Result of a complete indexing operation.
@@ -33,6 +44,9 @@ export interface IndexResult {
   /** The search engine with its inverted index built */
   searchEngine: SearchEngine;
 
+  /** Documents added, changed, and deleted relative to the previous build */
+  changes: IndexChanges;
+
   /** Statistics about the indexing operation */
   stats: IndexStats;
 }
@@ -51,6 +65,9 @@ export interface IndexStats {
   /** Number of files that failed to read/parse */
   failedFiles: number;
 
+  /** Number of indexed files reused unchanged from the previous build or the index cache */
+  cachedFiles: number;
+
   /** Time taken for the indexing operation in milliseconds */
   durationMs: number;
 
@@ -61,30 +78,81 @@ export interface IndexStats {
   byCategory: Record<string, number>;
 }
 
+/**
+ * Options for building an index.
+ */
+export interface BuildIndexOptions {
+  /**
+   * Path of the index cache file to read from and write back to.
+   * Null or omitted disables the cache.
+   */
+  cacheFile?: string | null;
+
+  /**
+   * Re-read and re-parse every file, even unchanged ones.
+   * Changes are still reported relative to the previous build.
+   */
+  force?: boolean;
+}
+
+/**
+ * Document IDs that differ between two builds of the same store, sorted.
+ */
+export interface IndexChanges {
+  /** Documents that are new in this build */
+  added: string[];
+
+  /** Documents whose markdown content changed */
+  changed: string[];
+
+  /** Documents that are no longer present */
+  deleted: string[];
+}
+
+/**
+ * A file's document entry, with what the cache needs to know about it.
+ */
+interface LoadedFile {
+  /** The file's cache record; its tokens are empty until the search index is built */
+  record: CachedFile;
+
+  /** Whether the entry and tokens were reused from the cache */
+  fromCache: boolean;
+}
+
 /**
  * Build the complete document index from a docs directory.
  *
  * This is the main entry point for indexing. It:
  * 1. Scans the directory for all markdown files
- * 2. Reads and parses each file
+ * 2. Reads and parses each new or changed file
  * 3. Populates the document store
  * 4. Builds the search engine index
  *
+ * When an existing store is passed, its documents are the previous build:
+ * unchanged files reuse their entries and tokens (unless `force` is set),
+ * and the returned `changes` list what differs from it.
+ *
  * @param docsPath - Absolute path to the docs version directory
  * @param existingStore - Optional: reuse an existing store (will be cleared)
  * @param existingSearchEngine - Optional: reuse an existing search engine (will be cleared)
- * @returns The IndexResult with populated store, search engine, and stats
+ * @param options - Optional: index cache location and force flag
+ * @returns The IndexResult with populated store, search engine, changes, and stats
  *
  * @example
  * ```typescript
  * const { store, searchEngine, stats } = await buildIndex('/path/to/docs/v9');
  * console.log(`Indexed ${stats.indexedFiles} files in ${stats.durationMs}ms`);
+ *
+ * // With a cache: unchanged files are not re-read or re-tokenized
+ * await buildIndex(docsPath, undefined, undefined, { cacheFile });
  * ```
  */
 export async function buildIndex(
   docsPath: string,
   existingStore?: DocumentStore,
-  existingSearchEngine?: SearchEngine
+  existingSearchEngine?: SearchEngine,
+  options: BuildIndexOptions = {}
 ): Promise<IndexResult> {
   const startTime = Date.now();
 
@@ -92,27 +160,39 @@ export async function buildIndex(
   const store = existingStore || new DocumentStore();
   const searchEngine = existingSearchEngine || new SearchEngine();
 
-  // Clear any existing data (important for reindex)
-  store.clear();
-  searchEngine.clear();
+  // Remember the previous build (important for reindex)
+  const previous = snapshotIndex(store, searchEngine);
 
-  // Step 1: Scan for all markdown files
+  // Step 1: Scan for all markdown files (and load what is known about them)
+  const { cacheFile, force = false } = options;
   const scannedFiles = await scanDocsDirectory(docsPath);
+  const cache = cacheFile ? await loadIndexCache(cacheFile, docsPath) : new Map<string, CachedFile>();
+  const known = force ? new Map<string, CachedFile>() : mergeKnownFiles(cache, previous);
 
-  // Step 2: Read and index each file
+  // Step 2: Read each file (the previous build keeps serving meanwhile)
   const stats: IndexStats = {
     totalFiles: scannedFiles.length,
     indexedFiles: 0,
     failedFiles: 0,
+    cachedFiles: 0,
     durationMs: 0,
     byModule: {},
     byCategory: {},
   };
 
+  const records: CachedFile[] = [];
+  const pretokenized = new Map<string, DocumentTokens>();
+
   for (const scannedFile of scannedFiles) {
     try {
-      const entry = await processFile(scannedFile);
-      store.addDocument(entry);
+      const { record, fromCache } = await loadFile(scannedFile, known.get(scannedFile.relativePath));
+      const { entry } = record;
+      records.push(record);
+
+      if (fromCache) {
+        pretokenized.set(entry.id, record.tokens);
+        stats.cachedFiles++;
+      }
 
       // Update stats
       stats.indexedFiles++;
@@ -127,29 +207,197 @@ export async function buildIndex(
     }
   }
 
-  // Step 3: Build the search engine index from all documents
-  searchEngine.buildIndex(store.getAllDocuments());
+  // Step 3: Swap in the new documents and build the search engine index.
+  // This step is synchronous, so no request ever sees a half-built index.
+  store.clear();
+  searchEngine.clear();
+  for (const { entry } of records) {
+    store.addDocument(entry);
+  }
+  searchEngine.buildIndex(store.getAllDocuments(), pretokenized);
+
+  // Step 4: Write the cache back with the fresh tokens
+  if (cacheFile) {
+    await writeCache(cacheFile, docsPath, records, searchEngine);
+  }
 
   // Record duration
   stats.durationMs = Date.now() - startTime;
 
-  return { store, searchEngine, stats };
+  return { store, searchEngine, changes: diffBuilds(previous, records), stats };
 }
 
 /**
- * Process a single scanned file into a DocumentEntry.
+ * Capture the documents of a previous build as cache records.
  *
- * Reads the file content, extracts metadata, and creates
- * a complete DocumentEntry ready for the store.
+ * The store does not know file times, so the records carry none and an
+ * unchanged file is recognized by its content hash.
+ *
+ * @param store - The store holding the previous build
+ * @param searchEngine - The search engine holding the previous build's tokens
+ * @returns Records of the previous build, keyed by relative path
+ */
+function snapshotIndex(store: DocumentStore, searchEngine: SearchEngine): Map<string, CachedFile> {
+  const snapshot = new Map<string, CachedFile>();
+
+  for (const entry of store.getAllDocuments()) {
+    const tokens = searchEngine.getDocumentTokens(entry.id);
+    if (!tokens) {
+      continue;
+    }
+
+    snapshot.set(entry.relativePath, {
+      relativePath: entry.relativePath,
+      mtimeMs: -1,
+      size: -1,
+      contentHash: hashContent(entry.content),
+      entry,
+      tokens,
+    });
+  }
+
+  return snapshot;
+}
+
+/**
+ * Combine the cache file with the previous build.
+ *
+ * The previous build wins, since it is never older than the cache. A cache
+ * record with the same content is kept instead, because its file times let
+ * unchanged files skip the read.
+ *
+ * @param cache - Records loaded from the cache file
+ * @param previous - Records of the previous build
+ * @returns Known records keyed by relative path
+ */
+function mergeKnownFiles(
+  cache: Map<string, CachedFile>,
+  previous: Map<string, CachedFile>
+): Map<string, CachedFile> {
+  const known = new Map(cache);
+
+  for (const [relativePath, record] of previous) {
+    if (known.get(relativePath)?.contentHash !== record.contentHash) {
+      known.set(relativePath, record);
+    }
+  }
+
+  return known;
+}
+
+/**
+ * Compare the documents of two builds.
+ *
+ * @param previous - Records of the previous build, keyed by relative path
+ * @param records - Records of the new build
+ * @returns Added, changed, and deleted document IDs
+ */
+function diffBuilds(previous: Map<string, CachedFile>, records: CachedFile[]): IndexChanges {
+  const previousHashes = new Map<string, string>();
+  for (const { entry, contentHash } of previous.values()) {
+    previousHashes.set(entry.id, contentHash);
+  }
+
+  const changes: IndexChanges = { added: [], changed: [], deleted: [] };
+  const currentIds = new Set<string>();
+
+  for (const { entry, contentHash } of records) {
+    currentIds.add(entry.id);
+    const previousHash = previousHashes.get(entry.id);
+    if (previousHash === undefined) {
+      changes.added.push(entry.id);
+    } else if (previousHash !== contentHash) {
+      changes.changed.push(entry.id);
+    }
+  }
+
+  for (const id of previousHashes.keys()) {
+    if (!currentIds.has(id)) {
+      changes.deleted.push(id);
+    }
+  }
+
+  changes.added.sort();
+  changes.changed.sort();
+  changes.deleted.sort();
+  return changes;
+}
+
+/**
+ * Load a scanned file, reusing its cache record when the file is unchanged.
+ *
+ * An unchanged mtime and size reuse the record without reading the file.
+ * Otherwise the file is read, and the record is still reused if the content
+ * hash matches (the file was only touched).
  *
  * @param scannedFile - The scanned file descriptor from the scanner
- * @returns A complete DocumentEntry
+ * @param cached - The file's cache record, if any
+ * @returns The file's (possibly reused) cache record
  * @throws Error if the file cannot be read
  */
-async function processFile(scannedFile: ScannedFile): Promise<DocumentEntry> {
-  // Read the file content
+async function loadFile(scannedFile: ScannedFile, cached?: CachedFile): Promise<LoadedFile> {
+  const { mtimeMs, size } = await stat(scannedFile.filePath);
+
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+    return { record: cached, fromCache: true };
+  }
+
   const content = await readFile(scannedFile.filePath, 'utf-8');
+  const contentHash = hashContent(content);
+
+  if (cached && cached.contentHash === contentHash) {
+    return { record: { ...cached, mtimeMs, size }, fromCache: true };
+  }
+
+  const entry = processFile(scannedFile, content);
+  const tokens: DocumentTokens = { titleTokens: [], descriptionTokens: [], contentTokens: [], codeTokens: [] };
+  return {
+    record: { relativePath: scannedFile.relativePath, mtimeMs, size, contentHash, entry, tokens },
+    fromCache: false,
+  };
+}
 
+/**
+ * Write the index cache, taking each document's tokens from the search engine.
+ *
+ * Failures are logged and otherwise ignored — a missing cache only costs
+ * time on the next start.
+ *
+ * @param cacheFile - Path of the cache file
+ * @param docsPath - Absolute path to the docs folder that was indexed
+ * @param records - Cache records of every indexed file
+ * @param searchEngine - The search engine holding the fresh tokens
+ */
+async function writeCache(
+  cacheFile: string,
+  docsPath: string,
+  records: CachedFile[],
+  searchEngine: SearchEngine
+): Promise<void> {
+  const withTokens = records.map((record) => ({
+    ...record,
+    tokens: searchEngine.getDocumentTokens(record.entry.id) ?? record.tokens,
+  }));
+
+  try {
+    await saveIndexCache(cacheFile, docsPath, withTokens);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to write index cache ${cacheFile}: ${message}`);
+  }
+}
+
+/**
+ * Process a single scanned file into a DocumentEntry.
+ *
+ * Extracts metadata, the heading outline, the props and slots, and the
+ * internal links from the file content and creates a complete DocumentEntry ready for the store.
+ *
+ * @param scannedFile - The scanned file descriptor from the scanner
+ * @param content - The file's markdown content
+ * @returns A complete DocumentEntry
+ */
+function processFile(scannedFile: ScannedFile, content: string): DocumentEntry {
   // Extract metadata from the content
   const metadata = extractMetadata(content);
   const title = extractTitle(content);
@@ -165,8 +413,12 @@ async function processFile(scannedFile: ScannedFile): Promise<DocumentEntry> {
     filePath: scannedFile.filePath,
     relativePath: scannedFile.relativePath,
     module: scannedFile.module,
-    category: scannedFile.category,
+    // Frontmatter may recategorize a component doc, never turn another doc into one
+    category: scannedFile.category && extractCategory(content, scannedFile.category),
     metadata,
+    outline: buildOutline(parseSections(content)),
+    ...extractPropDefinitions(content),
+    links: extractLinks(content, scannedFile.relativePath),
   };
 }
 
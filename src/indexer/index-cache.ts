@@ -0,0 +1,179 @@
+/**
+ * Persistent on-disk index cache.
+ *
+ * Indexing a large docs folder is dominated by reading, parsing, and
+ * tokenizing every markdown file. The cache stores the result of that work
+ * per file — the `DocumentEntry` and its search tokens — so the next start
+ * (or `reindex`) only reprocesses files that changed.
+ *
+ * A cached file is reused when:
+ * 1. Its mtime and size are unchanged → reused without reading the file, or
+ * 2. Its content hash is unchanged (e.g., the file was only touched)
+ *
+ * The whole cache is discarded when its `cacheVersion` differs from the
+ * current one. The version covers the cache layout (`INDEX_CACHE_FORMAT`)
+ * and the search index fingerprint (tokenizer version, stop words, field
+ * weights), so upgrading either rebuilds cleanly.
+ *
+ * One cache file is kept per docs folder, named after a hash of its path.
+ *
+ * @module indexer/index-cache
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { readFile, writeFile, rename, mkdir, unlink } from 'fs/promises';
+import { join, dirname } from 'path';
+import { SEARCH_INDEX_FINGERPRINT } from './search-engine.js';
+import type { DocumentTokens } from './search-engine.js';
+import type { DocumentEntry } from '../types/index.js';
+
+/**
+ * Version of the cache file layout and of the cached `DocumentEntry` shape.
+ * Bump whenever either changes, or metadata extraction produces different
+ * entries for the same markdown.
+ */
+const INDEX_CACHE_FORMAT = 6;
+
+/**
+ * Version stamp written into every cache file.
+ * A cache with any other stamp is ignored.
+ */
+export const INDEX_CACHE_VERSION = hashContent(`${INDEX_CACHE_FORMAT}:${SEARCH_INDEX_FINGERPRINT}`);
+
+/**
+ * Everything cached for a single markdown file.
+ */
+export interface CachedFile {
+  /** Path relative to the docs folder (the cache key) */
+  relativePath: string;
+
+  /** File modification time in milliseconds when it was indexed */
+  mtimeMs: number;
+
+  /** File size in bytes when it was indexed */
+  size: number;
+
+  /** SHA-256 hash of the file content */
+  contentHash: string;
+
+  /** The document entry built from the file */
+  entry: DocumentEntry;
+
+  /** The search tokens of the document */
+  tokens: DocumentTokens;
+}
+
+/**
+ * Serialized form of a cache file.
+ */
+interface IndexCacheFile {
+  /** Must equal INDEX_CACHE_VERSION for the cache to be used */
+  cacheVersion: string;
+
+  /** Absolute path of the docs folder the cache was built from */
+  docsPath: string;
+
+  /** Cached files, sorted by relative path */
+  files: CachedFile[];
+}
+
+/**
+ * Hash file content for change detection.
+ *
+ * @param content - File content
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Get the cache file path for a docs folder.
+ *
+ * @param cacheDir - Directory holding all cache files
+ * @param docsPath - Absolute path to the docs version folder
+ * @returns Path of the docs folder's cache file
+ *
+ * @example
+ * ```typescript
+ * getCacheFilePath('/home/me/.cache/fluentui-mcp', '/repo/docs/v9');
+ * // → '/home/me/.cache/fluentui-mcp/index-3f9a…c1.json'
+ * ```
+ */
+export function getCacheFilePath(cacheDir: string, docsPath: string): string {
+  return join(cacheDir, `index-${hashContent(docsPath).slice(0, 16)}.json`);
+}
+
+/**
+ * Load the cached files of a docs folder.
+ *
+ * A missing, unreadable, corrupt, or outdated cache — or one built from a
+ * different docs folder — yields an empty map, which simply means a full
+ * rebuild. The cache is an optimization and never a source of errors.
+ *
+ * @param cacheFile - Path of the cache file
+ * @param docsPath - Absolute path to the docs folder being indexed
+ * @returns Cached files keyed by relative path
+ */
+export async function loadIndexCache(
+  cacheFile: string,
+  docsPath: string
+): Promise<Map<string, CachedFile>> {
+  const cached = new Map<string, CachedFile>();
+
+  let data: IndexCacheFile;
+  try {
+    data = JSON.parse(await readFile(cacheFile, 'utf-8')) as IndexCacheFile;
+  } catch (_error) {
+    return cached;
+  }
+
+  if (
+    data?.cacheVersion !== INDEX_CACHE_VERSION ||
+    data.docsPath !== docsPath ||
+    !Array.isArray(data.files)
+  ) {
+    return cached;
+  }
+
+  for (const file of data.files) {
+    cached.set(file.relativePath, file);
+  }
+
+  return cached;
+}
+
+/**
+ * Write the cached files of a docs folder.
+ *
+ * The file is written to a temporary path and renamed into place, so a
+ * crash mid-write never leaves a truncated cache behind. Within one server
+ * the builds of a version run one at a time, but several servers indexing
+ * the same docs folder share its cache file, so the temporary path is
+ * unique per process and call. A failed write removes its temporary file.
+ *
+ * @param cacheFile - Path of the cache file
+ * @param docsPath - Absolute path to the docs folder that was indexed
+ * @param files - Every file of the current index
+ */
+export async function saveIndexCache(
+  cacheFile: string,
+  docsPath: string,
+  files: CachedFile[]
+): Promise<void> {
+  const data: IndexCacheFile = {
+    cacheVersion: INDEX_CACHE_VERSION,
+    docsPath,
+    files: [...files].sort((a, b) => a.relativePath.localeCompare(b.relativePath)),
+  };
+
+  const tempFile = `${cacheFile}.${process.pid}.${randomUUID()}.tmp`;
+  await mkdir(dirname(cacheFile), { recursive: true });
+  try {
+    await writeFile(tempFile, JSON.stringify(data), 'utf-8');
+    await rename(tempFile, cacheFile);
+  } catch (error) {
+    await unlink(tempFile).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Links between documents, and the graph they form.
+ *
+ * Docs link to each other with relative markdown links
+ * (`[Field](../forms/field.md#validation)`). At index time every internal
+ * link of a document is extracted with the section it appears in, and its
+ * target resolved against the document's path (`extractLinks`); external
+ * links (`https:`, `mailto:`, ...), images, and links inside code are
+ * skipped.
+ *
+ * Once all documents are known, `LinkGraph` resolves each target path to a
+ * document ID and checks its anchor against the target's headings. The
+ * graph answers both directions: the links of a document, and the
+ * documents linking to it (backlinks). Links to a file that is not indexed
+ * or a heading that does not exist are kept, marked as broken.
+ *
+ * @module indexer/link-graph
+ */
+
+import { posix } from 'path';
+import type { Backlink, DocumentEntry, DocumentLink, ResolvedLink } from '../types/index.js';
+import { parseSections, formatSectionPath } from './section-parser.js';
+
+/** A markdown link, not an image: [text](target "optional title") */
+const LINK_PATTERN = /(?<!!)\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+/** A link target with a URL scheme (https:, mailto:, ...) */
+const EXTERNAL_LINK_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+/** A fenced code block */
+const FENCED_CODE_PATTERN = /^[ \t]*(```|~~~)[^\n]*\n[\s\S]*?^[ \t]*\1[^\n]*$/gm;
+
+/** An inline code span */
+const INLINE_CODE_PATTERN = /`[^`\n]*`/g;
+
+/**
+ * Extract the internal links of a document.
+ *
+ * @param content - Raw markdown content of the document
+ * @param relativePath - Path of the document relative to the docs root
+ * @returns The links in document order, with their targets resolved to
+ *          paths relative to the docs root
+ *
+ * @example
+ * ```typescript
+ * extractLinks('# Input\n\n## See Also\n\n- [Field](field.md#usage)', '02-components/forms/input.md');
+ * // → [{ text: 'Field', target: 'field.md#usage', section: 'Input › See Also',
+ * //      path: '02-components/forms/field.md', anchor: 'usage' }]
+ * ```
+ */
+export function extractLinks(content: string, relativePath: string): DocumentLink[] {
+  const links: DocumentLink[] = [];
+
+  for (const section of parseSections(content)) {
+    const prose = section.content.replace(FENCED_CODE_PATTERN, '').replace(INLINE_CODE_PATTERN, '');
+    for (const [, text, target] of prose.matchAll(LINK_PATTERN)) {
+      if (EXTERNAL_LINK_PATTERN.test(target)) {
+        continue;
+      }
+      const [file, ...fragment] = target.split('#');
+      links.push({
+        text,
+        target,
+        section: formatSectionPath(section.path),
+        path: resolveLinkPath(relativePath, file),
+        anchor: fragment.length > 0 && fragment.join('#') !== '' ? fragment.join('#') : null,
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Resolve a link's file part against the linking document.
+ *
+ * @param relativePath - Path of the linking document
+ * @param file - The link target without its anchor ("" for same-document links)
+ * @returns The target path relative to the docs root
+ */
+function resolveLinkPath(relativePath: string, file: string): string {
+  if (file === '') {
+    return relativePath;
+  }
+  return file.startsWith('/')
+    ? posix.normalize(file.slice(1))
+    : posix.normalize(posix.join(posix.dirname(relativePath), file));
+}
+
+/**
+ * The links between a set of documents, in both directions.
+ *
+ * Built from the documents' extracted links; see `DocumentStore.getLinkGraph`.
+ */
+export class LinkGraph {
+  /** Links of each document: document ID → resolved links, in document order */
+  protected outgoing: Map<string, ResolvedLink[]> = new Map();
+
+  /** Links to each document from other documents: document ID → backlinks */
+  protected incoming: Map<string, Backlink[]> = new Map();
+
+  /** Anchors of each document's headings, computed when first needed: document ID → anchors */
+  protected anchors: Map<string, Set<string>> = new Map();
+
+  /**
+   * Resolve the links of every document.
+   *
+   * @param documents - Every indexed document
+   */
+  constructor(documents: DocumentEntry[]) {
+    const byPath = new Map(documents.map((doc) => [doc.relativePath, doc]));
+    const folders = new Set(documents.flatMap((doc) => listFolders(doc.relativePath)));
+
+    for (const doc of documents) {
+      const links = doc.links.map((link) => this.resolve(link, byPath, folders));
+      this.outgoing.set(doc.id, links);
+
+      for (const link of links) {
+        if (link.docId === null || link.docId === doc.id || link.status !== 'ok') {
+          continue;
+        }
+        const backlinks = this.incoming.get(link.docId) ?? [];
+        backlinks.push({ docId: doc.id, title: doc.title, text: link.text, section: link.section, anchor: link.anchor });
+        this.incoming.set(link.docId, backlinks);
+      }
+    }
+  }
+
+  /**
+   * Get the links of a document.
+   *
+   * @param docId - ID of the linking document
+   * @returns Its internal links, resolved, in document order
+   */
+  public getLinks(docId: string): ResolvedLink[] {
+    return this.outgoing.get(docId) ?? [];
+  }
+
+  /**
+   * Get the links to a document from other documents.
+   *
+   * @param docId - ID of the linked document
+   * @returns The backlinks, ordered by linking document ID
+   */
+  public getBacklinks(docId: string): Backlink[] {
+    return [...(this.incoming.get(docId) ?? [])].sort((a, b) => a.docId.localeCompare(b.docId));
+  }
+
+  /**
+   * Resolve one link against the indexed documents.
+   *
+   * @param link - The extracted link
+   * @param byPath - Every document by relative path
+   * @param folders - Every folder holding documents, with a trailing slash
+   * @returns The link with its target document and status
+   */
+  protected resolve(
+    link: DocumentLink,
+    byPath: Map<string, DocumentEntry>,
+    folders: Set<string>
+  ): ResolvedLink {
+    const target = byPath.get(link.path);
+    if (!target) {
+      const isFolder = folders.has(link.path.endsWith('/') ? link.path : `${link.path}/`);
+      return { ...link, docId: null, status: isFolder ? 'ok' : 'missing-file' };
+    }
+
+    const hasAnchor = link.anchor === null || this.getAnchors(target).has(link.anchor.toLowerCase());
+    return { ...link, docId: target.id, status: hasAnchor ? 'ok' : 'missing-anchor' };
+  }
+
+  /**
+   * Get the anchors of a document's headings.
+   *
+   * @param doc - The document
+   * @returns Its heading anchors
+   */
+  protected getAnchors(doc: DocumentEntry): Set<string> {
+    let anchors = this.anchors.get(doc.id);
+    if (!anchors) {
+      anchors = new Set(parseSections(doc.content).map((section) => section.anchor));
+      this.anchors.set(doc.id, anchors);
+    }
+    return anchors;
+  }
+}
+
+/**
+ * List the folders a document lies in.
+ *
+ * @param relativePath - Path of the document (e.g., "02-components/forms/input.md")
+ * @returns Its folders with a trailing slash (e.g., ["02-components/", "02-components/forms/"])
+ */
+function listFolders(relativePath: string): string[] {
+  const parts = relativePath.split('/').slice(0, -1);
+  return parts.map((_, i) => `${parts.slice(0, i + 1).join('/')}/`);
+}
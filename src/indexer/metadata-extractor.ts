@@ -7,23 +7,33 @@
  *
  * This extractor is designed to work with the FluentUI documentation format,
  * which uses a consistent structure with markdown headers and blockquotes
- * for metadata.
+ * for metadata. Documents may also start with YAML frontmatter
+ * (see `indexer/frontmatter`); its values take precedence over the
+ * heuristics, which only look at the markdown after the frontmatter.
  *
  * @module indexer/metadata-extractor
  */
 
-import type { DocumentMetadata } from '../types/index.js';
+import type { ComponentCategory, DocumentMetadata } from '../types/index.js';
+import { parseFrontmatter, getFrontmatterString, getFrontmatterList } from './frontmatter.js';
+import type { FrontmatterData } from './frontmatter.js';
+
+/** Frontmatter `deprecated` values that mean "not deprecated" */
+const FALSE_VALUES = new Set(['false', 'no', 'off']);
+
+/** Frontmatter `deprecated` values that mean "deprecated", without a notice */
+const TRUE_VALUES = new Set(['true', 'yes', 'on']);
 
 /**
  * Extract metadata from a markdown document's content.
  *
  * Parses the markdown to find:
- * - Title from the first `# Heading`
- * - Package name from `> **Package**: ...` blockquote
- * - Import statement from `> **Import**: ...` blockquote
+ * - Package name from frontmatter `package`, else a `> **Package**: ...` blockquote
+ * - Import statement from frontmatter `import`, else a `> **Import**: ...` blockquote
  * - Description from the Overview section or first paragraph
  * - See Also references
  * - Presence of props tables and code examples
+ * - Aliases, tags, status, since, and deprecation from frontmatter
  *
  * @param content - Raw markdown content of the document
  * @returns Extracted metadata
@@ -35,31 +45,47 @@ import type { DocumentMetadata } from '../types/index.js';
  * ```
  */
 export function extractMetadata(content: string): DocumentMetadata {
+  const { data, body } = parseFrontmatter(content);
+  const status = getFrontmatterString(data, 'status');
+
   return {
-    packageName: extractPackageName(content),
-    importStatement: extractImportStatement(content),
-    description: extractDescription(content),
-    seeAlso: extractSeeAlso(content),
-    hasPropsTable: detectPropsTable(content),
-    hasCodeExamples: detectCodeExamples(content),
+    packageName: getFrontmatterString(data, 'package') ?? extractPackageName(body),
+    importStatement: getFrontmatterString(data, 'import') ?? extractImportStatement(body),
+    description: extractDescription(body),
+    seeAlso: extractSeeAlso(body),
+    hasPropsTable: detectPropsTable(body),
+    hasCodeExamples: detectCodeExamples(body),
+    aliases: getFrontmatterList(data, 'aliases'),
+    tags: getFrontmatterList(data, 'tags'),
+    status,
+    since: getFrontmatterString(data, 'since'),
+    ...extractDeprecation(data, status),
   };
 }
 
 /**
- * Extract the document title from the first `# Heading`.
+ * Extract the document title.
+ *
+ * Uses the frontmatter `title` if present, else the first `# Heading`.
  *
  * @param content - Raw markdown content
  * @returns The title text, or "Untitled" if no heading found
  */
 export function extractTitle(content: string): string {
+  const { data, body } = parseFrontmatter(content);
+  const frontmatterTitle = getFrontmatterString(data, 'title');
+  if (frontmatterTitle) {
+    return frontmatterTitle;
+  }
+
   // Match the first H1 heading: "# Title"
-  const match = content.match(/^#\s+(.+)$/m);
+  const match = body.match(/^#\s+(.+)$/m);
   if (match) {
     return match[1].trim();
   }
 
   // Fallback: try any heading
-  const anyHeading = content.match(/^#{1,3}\s+(.+)$/m);
+  const anyHeading = body.match(/^#{1,3}\s+(.+)$/m);
   if (anyHeading) {
     return anyHeading[1].trim();
   }
@@ -67,6 +93,52 @@ export function extractTitle(content: string): string {
   return 'Untitled';
 }
 
+/**
+ * Extract the component category from the frontmatter `category`.
+ *
+ * Categories are folder-style names, so the value is lowercased and
+ * spaces become hyphens (e.g., "Data Display" → "data-display").
+ *
+ * @param content - Raw markdown content
+ * @param fallback - Category to use without a frontmatter category
+ *   (e.g., the one derived from the folder)
+ * @returns The frontmatter category, else the fallback
+ */
+export function extractCategory(
+  content: string,
+  fallback: ComponentCategory | null
+): ComponentCategory | null {
+  const category = getFrontmatterString(parseFrontmatter(content).data, 'category');
+  return category ? category.toLowerCase().replace(/\s+/g, '-') : fallback;
+}
+
+/**
+ * Interpret the frontmatter `deprecated` value.
+ *
+ * `deprecated: true` marks the document deprecated; any other text
+ * (except false/no/off) marks it deprecated and is kept as the notice.
+ * `status: deprecated` also marks it deprecated.
+ *
+ * @param data - Parsed frontmatter
+ * @param status - The document's status, if any
+ * @returns The deprecated flag and notice
+ */
+function extractDeprecation(
+  data: FrontmatterData,
+  status: string | null
+): Pick<DocumentMetadata, 'deprecated' | 'deprecationNote'> {
+  const value = getFrontmatterString(data, 'deprecated');
+  const statusDeprecated = status?.toLowerCase() === 'deprecated';
+
+  if (value === null || FALSE_VALUES.has(value.toLowerCase())) {
+    return { deprecated: statusDeprecated, deprecationNote: null };
+  }
+  if (TRUE_VALUES.has(value.toLowerCase())) {
+    return { deprecated: true, deprecationNote: null };
+  }
+  return { deprecated: true, deprecationNote: value };
+}
+
 /**
  * Extract the NPM package name from a blockquote metadata line.
  *
@@ -0,0 +1,345 @@
+/**
+ * Props and slots table parsing.
+ *
+ * Component docs list their API in markdown tables — usually under a
+ * "## Props Reference" heading, sometimes as loose tables elsewhere:
+ *
+ *     | Prop | Type | Default | Description |
+ *     |------|------|---------|-------------|
+ *     | `size` | `'small' \| 'medium'` | `'medium'` | Size of the button |
+ *
+ *     | Slot | Element | Description |
+ *     |------|---------|-------------|
+ *     | `icon` | `<span>` | Icon container |
+ *
+ * This module parses those tables into rows, and the rows into typed
+ * `PropDefinition`s and `SlotDefinition`s. Union types escape their pipes
+ * (`\|`) so they don't split the cell; the escapes are honored when
+ * splitting and removed from the values. A line like "Inherits all
+ * [Button props](button.md) plus:" records the components whose props are
+ * accepted as well.
+ *
+ * @module indexer/props-parser
+ */
+
+import type { DocumentEntry, PropDefinition, PropsTable, SlotDefinition } from '../types/index.js';
+import { parseFrontmatter } from './frontmatter.js';
+import { extractPropsSection } from './metadata-extractor.js';
+
+/** First-column headers of props tables (a `Type` column is also required) */
+const PROP_NAME_COLUMNS = new Set(['prop', 'property', 'name']);
+
+/** First-column header of slots tables */
+const SLOT_NAME_COLUMN = 'slot';
+
+/** Cell values that mean "no default" */
+const NO_DEFAULT_VALUES = new Set(['', '-', '—', '–', 'n/a', 'none']);
+
+/** A table heading naming the component it documents (e.g., "DialogSurface Props", "Radio Props Reference") */
+const COMPONENT_HEADING_PATTERN = /^`?([A-Z][A-Za-z0-9]*)`?\s+(?:Props|Slots)\b/;
+
+/** A line naming components whose props are inherited; captures the text up to "props" */
+const INHERITS_PATTERN = /^Inherits\b(.*?)\bprops\b/im;
+
+/** A component name (PascalCase word) */
+const COMPONENT_NAME_PATTERN = /\b[A-Z][A-Za-z0-9]*\b/g;
+
+/** Cell separator: a pipe not escaped with a backslash */
+const CELL_SEPARATOR_PATTERN = /(?<!\\)\|/;
+
+/** An escaped pipe inside a cell */
+const ESCAPED_PIPE_PATTERN = /\\\|/g;
+
+/** A description that marks its prop as required (e.g., "(required)", "**Required**") */
+const REQUIRED_DESCRIPTION_PATTERN = /\(required\)|\*\*required\*\*/i;
+
+/** A description that marks its prop as deprecated */
+const DEPRECATED_PATTERN = /\bdeprecated\b/i;
+
+/**
+ * Parse a document's props and slots tables into definitions.
+ *
+ * Tables are read from the "Props Reference" section when the document has
+ * one, otherwise from the whole document. Only tables whose first column is
+ * "Prop"/"Property"/"Name" (with a "Type" column) or "Slot" are read.
+ *
+ * @param content - Raw markdown content of the document
+ * @returns The document's props and slots, in document order, and the
+ *          components it inherits props from
+ *
+ * @example
+ * ```typescript
+ * const { props, slots } = extractPropDefinitions(buttonMarkdown);
+ * // props[0] → { name: 'appearance', type: "'secondary' | 'primary' | ...", default: "'secondary'", ... }
+ * // slots[0] → { name: 'root', element: '`<button>` or `<a>`', description: 'Root element of the button' }
+ * ```
+ */
+export function extractPropDefinitions(
+  content: string
+): Pick<DocumentEntry, 'props' | 'slots' | 'inheritsPropsFrom'> {
+  const { body } = parseFrontmatter(content);
+  const markdown = extractPropsSection(body) ?? body;
+
+  const props: PropDefinition[] = [];
+  const slots: SlotDefinition[] = [];
+
+  for (const table of parseMarkdownTables(markdown)) {
+    const kind = getTableKind(table);
+    const component = table.heading?.match(COMPONENT_HEADING_PATTERN)?.[1] ?? null;
+
+    if (kind === 'slots') {
+      slots.push(...table.rows.map((row) => toSlotDefinition(table.columns, row, component)).filter(hasName));
+    } else if (kind === 'props') {
+      props.push(...table.rows.map((row) => toPropDefinition(table.columns, row, component)).filter(hasName));
+    }
+  }
+
+  return { props, slots, inheritsPropsFrom: extractInheritedComponents(markdown) };
+}
+
+/**
+ * Parse every markdown table in a block of markdown.
+ *
+ * Each table is labeled with the nearest heading above it. The first row
+ * is taken as the column headers and the separator row is skipped.
+ *
+ * @param markdown - Markdown containing tables
+ * @returns Parsed tables, in document order
+ */
+export function parseMarkdownTables(markdown: string): PropsTable[] {
+  const tables: PropsTable[] = [];
+  let heading: string | null = null;
+  let tableLines: string[] = [];
+
+  const flushTable = (): void => {
+    // At least header + separator + one data row
+    if (tableLines.length >= 3) {
+      const columns = splitTableRow(tableLines[0]);
+      const rows = tableLines.slice(2).map((line) => {
+        const cells = splitTableRow(line);
+        const row: Record<string, string> = {};
+        columns.forEach((column, i) => {
+          row[column] = cells[i] ?? '';
+        });
+        return row;
+      });
+      tables.push({ heading, columns, rows });
+    }
+    tableLines = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('|')) {
+      tableLines.push(trimmed);
+      continue;
+    }
+
+    flushTable();
+
+    const headingMatch = trimmed.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+    }
+  }
+
+  flushTable();
+  return tables;
+}
+
+/**
+ * Tell what a table lists, judging by its columns.
+ *
+ * @param table - A parsed table
+ * @returns 'props' for a "Prop"/"Property"/"Name" first column plus a
+ *          "Type" column, 'slots' for a "Slot" first column, null otherwise
+ */
+export function getTableKind(table: PropsTable): 'props' | 'slots' | null {
+  const columns = table.columns.map((column) => column.toLowerCase());
+  if (columns[0] === SLOT_NAME_COLUMN) {
+    return 'slots';
+  }
+  return PROP_NAME_COLUMNS.has(columns[0]) && columns.includes('type') ? 'props' : null;
+}
+
+/**
+ * Extract markdown tables that appear to contain prop definitions.
+ *
+ * This is a fallback strategy for docs that don't have a formal
+ * "## Props Reference" section but do contain tables with prop information.
+ * Looks for tables whose headers contain "Prop", "Type", or "Description".
+ *
+ * @param content - Raw markdown content
+ * @returns Array of table strings that look like prop tables
+ */
+export function extractPropTables(content: string): string[] {
+  const tables: string[] = [];
+  const lines = content.split('\n');
+
+  let inTable = false;
+  let currentTable: string[] = [];
+  let isPropTable = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    // Detect table start (line starting with |)
+    if (trimmed.startsWith('|') && !inTable) {
+      inTable = true;
+      currentTable = [trimmed];
+
+      // Check if this is a prop-like table by inspecting the header row
+      const headerLower = trimmed.toLowerCase();
+      isPropTable = headerLower.includes('prop') ||
+                    headerLower.includes('type') ||
+                    headerLower.includes('slot') ||
+                    (headerLower.includes('name') && headerLower.includes('description'));
+      continue;
+    }
+
+    // Continue collecting table rows
+    if (inTable && trimmed.startsWith('|')) {
+      currentTable.push(trimmed);
+      continue;
+    }
+
+    // End of table — save it if it looked like a prop table
+    if (inTable && !trimmed.startsWith('|')) {
+      inTable = false;
+      if (isPropTable && currentTable.length >= 3) {
+        // At least header + separator + one data row
+        tables.push(currentTable.join('\n'));
+      }
+      currentTable = [];
+      isPropTable = false;
+    }
+  }
+
+  // Handle table at end of document
+  if (inTable && isPropTable && currentTable.length >= 3) {
+    tables.push(currentTable.join('\n'));
+  }
+
+  return tables;
+}
+
+/**
+ * Find the components a props section says its props are inherited from.
+ *
+ * @param markdown - The props section (or the whole document)
+ * @returns Component names, e.g. ["Button", "MenuButton"] for
+ *          "Inherits Button and MenuButton props, plus:"
+ */
+function extractInheritedComponents(markdown: string): string[] {
+  const match = markdown.match(INHERITS_PATTERN);
+  if (!match) {
+    return [];
+  }
+  // Drop link targets so "[Button props](button.md)" only names Button
+  const text = match[1].replace(/\]\([^)]*\)/g, ']');
+  return [...new Set(text.match(COMPONENT_NAME_PATTERN) ?? [])];
+}
+
+/**
+ * Split a markdown table row into trimmed cell values.
+ *
+ * Escaped pipes (`\|`) don't split cells and are unescaped in the values.
+ *
+ * @param row - Table row (e.g., "| size | `'small' \| 'medium'` |")
+ * @returns Cell values without the outer pipes
+ */
+function splitTableRow(row: string): string[] {
+  return row
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(CELL_SEPARATOR_PATTERN)
+    .map((cell) => cell.replace(ESCAPED_PIPE_PATTERN, '|').trim());
+}
+
+/**
+ * Convert a props table row into a prop definition.
+ *
+ * A default of "required" marks the prop as required rather than being
+ * its default value.
+ *
+ * @param columns - The table's column headers (the first holds the name)
+ * @param row - The row, keyed by column header
+ * @param component - Component named by the table's heading, if any
+ * @returns The prop definition
+ */
+function toPropDefinition(
+  columns: string[],
+  row: Record<string, string>,
+  component: string | null
+): PropDefinition {
+  const rawName = row[columns[0]];
+  const description = getCell(columns, row, 'description');
+  const defaultValue = unwrapCode(getCell(columns, row, 'default').replace(/\*/g, ''));
+  const requiredDefault = defaultValue.toLowerCase() === 'required';
+
+  return {
+    name: unwrapCode(rawName.replace(/~~/g, '')),
+    type: unwrapCode(getCell(columns, row, 'type')),
+    default: requiredDefault || NO_DEFAULT_VALUES.has(defaultValue.toLowerCase()) ? null : defaultValue,
+    description,
+    required: requiredDefault || REQUIRED_DESCRIPTION_PATTERN.test(description),
+    deprecated: rawName.includes('~~') || DEPRECATED_PATTERN.test(description),
+    component,
+  };
+}
+
+/**
+ * Convert a slots table row into a slot definition.
+ *
+ * @param columns - The table's column headers (the first holds the name)
+ * @param row - The row, keyed by column header
+ * @param component - Component named by the table's heading, if any
+ * @returns The slot definition
+ */
+function toSlotDefinition(
+  columns: string[],
+  row: Record<string, string>,
+  component: string | null
+): SlotDefinition {
+  return {
+    name: unwrapCode(row[columns[0]]),
+    element: getCell(columns, row, 'element'),
+    description: getCell(columns, row, 'description'),
+    component,
+  };
+}
+
+/**
+ * Read a cell by column header, case-insensitively.
+ *
+ * @param columns - The table's column headers
+ * @param row - The row, keyed by column header
+ * @param column - Lowercase column header to read
+ * @returns The cell value, or '' if the table has no such column
+ */
+function getCell(columns: string[], row: Record<string, string>, column: string): string {
+  const header = columns.find((candidate) => candidate.toLowerCase() === column);
+  return header ? row[header] : '';
+}
+
+/**
+ * Remove the backticks around a cell that is a single code span.
+ *
+ * @param cell - Cell value (e.g., "`boolean`")
+ * @returns The code without backticks, or the cell unchanged
+ */
+function unwrapCode(cell: string): string {
+  const match = cell.trim().match(/^`([^`]+)`$/);
+  return match ? match[1].trim() : cell.trim();
+}
+
+/**
+ * Check that a definition parsed from a row has a name.
+ *
+ * @param definition - A prop or slot definition
+ * @returns True when the row had a name
+ */
+function hasName(definition: { name: string }): boolean {
+  return definition.name.length > 0;
+}
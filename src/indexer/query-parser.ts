@@ -0,0 +1,231 @@
+/**
+ * Search query syntax.
+ *
+ * Parses a `search_docs` query into OR-separated groups of elements:
+ *
+ * | Syntax            | Meaning                                                    |
+ * | ----------------- | ---------------------------------------------------------- |
+ * | `dialog modal`    | Optional terms — ranked by how well documents match them   |
+ * | `"aria-label"`    | Phrase — the words must appear in this order (required)    |
+ * | `+dialog`         | Required term — documents without it are left out          |
+ * | `-drawer`         | Excluded term or phrase — documents with it are left out   |
+ * | `dialog OR drawer`| Alternatives — a document matches if any group matches     |
+ * | `category:forms`  | Filter — only documents whose field matches (see below)    |
+ * | `-has:props`      | Negated filter — only documents whose field does not match |
+ *
+ * Filters are `category:`, `package:`, `module:` (exact, case-insensitive),
+ * `title:` (title contains the value), and `has:examples` / `has:props`.
+ * Values with spaces can be quoted: `title:"date picker"`. A group of
+ * filters only (e.g., `has:props category:forms`) lists every match.
+ *
+ * `OR` must be written in capitals; in lowercase it is an ordinary word.
+ * A `+` or `-` inside a word (e.g., `aria-label`) is part of the word, and
+ * so is a `:` after anything but a filter name (e.g., `aria:label`).
+ *
+ * The parser only recognizes syntax; turning words into index tokens is
+ * left to the search engine, so queries match exactly like documents do.
+ *
+ * @module indexer/query-parser
+ */
+
+/** The OR operator between groups */
+const OR_OPERATOR = 'OR';
+
+/** Document fields that can be filtered on with `field:value` */
+export const QUERY_FILTER_FIELDS = ['category', 'package', 'has', 'module', 'title'] as const;
+
+/** Type for the names of filterable fields */
+export type QueryFilterField = typeof QUERY_FILTER_FIELDS[number];
+
+/** Values of the `has:` filter */
+export const HAS_FILTER_VALUES = ['examples', 'props'] as const;
+
+/**
+ * An optional +/- followed by a `field:value` filter, a quoted phrase, or
+ * a bare word. Filter names are case-insensitive.
+ */
+const QUERY_ELEMENT_PATTERN = new RegExp(
+  `([+-]?)(?:(${QUERY_FILTER_FIELDS.join('|')}):(?:"([^"]*)"?|(\\S+))|"([^"]*)"?|(\\S+))`,
+  'gi'
+);
+
+/**
+ * How an element affects which documents match.
+ * - `optional`: contributes to the score only
+ * - `required`: must match (and contributes to the score)
+ * - `excluded`: must not match
+ */
+export type QueryModifier = 'optional' | 'required' | 'excluded';
+
+/**
+ * A word or quoted phrase of a query.
+ */
+export interface QueryElement {
+  /** The word, or the text between the quotes */
+  text: string;
+
+  /** True for a quoted phrase */
+  phrase: boolean;
+
+  /** How the element affects matching */
+  modifier: QueryModifier;
+}
+
+/**
+ * A `field:value` filter of a query.
+ */
+export interface QueryFilter {
+  /** The filtered field */
+  field: QueryFilterField;
+
+  /** The value to match (as typed, without quotes) */
+  value: string;
+
+  /** True for `-field:value`: only documents that do not match */
+  negated: boolean;
+}
+
+/**
+ * A run of elements between OR operators.
+ * A document matches the group if it passes every filter, and has every
+ * required element and no excluded element.
+ */
+export interface QueryGroup {
+  /** The group's words and phrases, in query order */
+  elements: QueryElement[];
+
+  /** The group's filters, in query order */
+  filters: QueryFilter[];
+}
+
+/**
+ * A parsed search query.
+ */
+export interface ParsedQuery {
+  /** Alternative groups — a document matches the query if it matches any group */
+  groups: QueryGroup[];
+}
+
+/**
+ * Parse a search query.
+ *
+ * Empty groups (e.g., from a leading or doubled `OR`) are dropped. An
+ * unterminated quote runs to the end of the query.
+ *
+ * @param query - The raw search query
+ * @returns The query's groups of elements and filters
+ *
+ * @example
+ * ```typescript
+ * parseQuery('"controlled components" -class OR +hooks has:examples');
+ * // → groups: [
+ * //   { elements: [{ text: 'controlled components', phrase: true, modifier: 'required' },
+ * //                { text: 'class', phrase: false, modifier: 'excluded' }],
+ * //     filters: [] },
+ * //   { elements: [{ text: 'hooks', phrase: false, modifier: 'required' }],
+ * //     filters: [{ field: 'has', value: 'examples', negated: false }] },
+ * // ]
+ * ```
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const groups: QueryGroup[] = [];
+  let elements: QueryElement[] = [];
+  let filters: QueryFilter[] = [];
+
+  for (const match of query.matchAll(QUERY_ELEMENT_PATTERN)) {
+    const [, sign, field, quotedValue, value, quoted, word] = match;
+
+    if (field !== undefined) {
+      const filterValue = (quotedValue ?? value).trim();
+      if (filterValue.length > 0) {
+        filters.push({
+          field: field.toLowerCase() as QueryFilterField,
+          value: filterValue,
+          negated: sign === '-',
+        });
+      }
+      continue;
+    }
+
+    if (quoted === undefined && sign === '' && word === OR_OPERATOR) {
+      if (elements.length > 0 || filters.length > 0) {
+        groups.push({ elements, filters });
+      }
+      elements = [];
+      filters = [];
+      continue;
+    }
+
+    const phrase = quoted !== undefined;
+    const text = (phrase ? quoted : word).trim();
+    if (text.length === 0) {
+      continue;
+    }
+
+    const modifier: QueryModifier =
+      sign === '-' ? 'excluded' : sign === '+' || phrase ? 'required' : 'optional';
+    elements.push({ text, phrase, modifier });
+  }
+
+  if (elements.length > 0 || filters.length > 0) {
+    groups.push({ elements, filters });
+  }
+
+  return { groups };
+}
+
+/**
+ * Write a parsed query back as query text.
+ *
+ * @param query - A parsed (possibly modified) query
+ * @returns Query text that parses to the same groups
+ *
+ * @example
+ * ```typescript
+ * formatQuery(parseQuery('+dialog  -drawer OR "aria-label"')); // '+dialog -drawer OR "aria-label"'
+ * ```
+ */
+export function formatQuery(query: ParsedQuery): string {
+  return query.groups
+    .map((group) => [...group.elements.map(formatElement), ...group.filters.map(formatFilter)].join(' '))
+    .join(` ${OR_OPERATOR} `);
+}
+
+/**
+ * Check whether a filter's value is one the field accepts.
+ *
+ * Only `has:` has a fixed set of values; other fields accept anything
+ * (an unknown category simply matches no document).
+ *
+ * @param filter - A parsed filter
+ * @returns True if the value is valid for the field
+ */
+export function isValidFilter(filter: QueryFilter): boolean {
+  return filter.field !== 'has' ||
+    (HAS_FILTER_VALUES as readonly string[]).includes(filter.value.toLowerCase());
+}
+
+/**
+ * Write a single filter back as query text.
+ *
+ * @param filter - A query filter
+ * @returns The filter with its negation, quoting the value if it has spaces
+ */
+function formatFilter(filter: QueryFilter): string {
+  const value = /\s/.test(filter.value) ? `"${filter.value}"` : filter.value;
+  return `${filter.negated ? '-' : ''}${filter.field}:${value}`;
+}
+
+/**
+ * Write a single element back as query text.
+ *
+ * @param element - A query element
+ * @returns The element's text with its quotes and modifier
+ */
+function formatElement(element: QueryElement): string {
+  if (element.phrase) {
+    return `${element.modifier === 'excluded' ? '-' : ''}"${element.text}"`;
+  }
+  const sign = element.modifier === 'required' ? '+' : element.modifier === 'excluded' ? '-' : '';
+  return `${sign}${element.text}`;
+}
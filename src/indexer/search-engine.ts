@@ -1,8 +1,9 @@
 /**
- * TF-IDF search engine for documentation.
+ * TF-IDF / BM25 search engine for documentation.
  *
  * Provides full-text search across all indexed documents using
- * a term frequency–inverse document frequency (TF-IDF) scoring model.
+ * a term frequency–inverse document frequency (TF-IDF) scoring model,
+ * or optionally BM25 (see `RankingOptions`).
  *
  * The search engine tokenizes document content at index-build time,
  * then scores queries against the pre-built inverted index for
@@ -10,8 +11,14 @@
  *
  * Features:
  * - Tokenization with stop word removal
- * - TF-IDF relevance scoring
+ * - Code indexed in its own field, with identifiers split into words
+ * - TF-IDF or BM25 relevance scoring
+ * - Query syntax: quoted phrases, +required / -excluded terms, OR
+ * - Inline filters on category, package, module, title, and content (`has:`)
+ * - Typo-tolerant matching of words that match nothing as typed
  * - Field-weighted scoring (title matches rank higher than content)
+ * - Searching prose, code, or both (see `SearchScope`)
+ * - The best matching section of each hit, with its heading and anchor
  * - Context excerpt extraction around matching terms
  *
  * @module indexer/search-engine
@@ -19,12 +26,26 @@
 
 import type {
   DocumentEntry,
+  DocumentSection,
   SearchResult,
   SearchIndexEntry,
   MatchedField,
   DocumentModule,
+  RankingOptions,
+  SearchScope,
 } from '../types/index.js';
-import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '../types/index.js';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  DEFAULT_SEARCH_SCOPE,
+  DEFAULT_RANKING_MODEL,
+  DEFAULT_BM25_K1,
+  DEFAULT_BM25_B,
+} from '../types/index.js';
+import { findClosestMatches } from './fuzzy-match.js';
+import { parseQuery, formatQuery } from './query-parser.js';
+import { parseSections } from './section-parser.js';
+import type { ParsedQuery, QueryElement, QueryFilter, QueryGroup } from './query-parser.js';
 
 /**
  * Common English stop words that are excluded from the search index.
@@ -42,131 +63,338 @@ const STOP_WORDS = new Set([
 
 /**
  * Weight multipliers for different document fields.
- * Title matches are weighted much higher than content matches.
+ * Title matches are weighted much higher than content matches, and code
+ * lower still, so an API's own page outranks the examples that use it.
  */
 const FIELD_WEIGHTS = {
   title: 10.0,
   description: 5.0,
   packageName: 3.0,
   content: 1.0,
+  code: 0.5,
 } as const;
 
+/** The tokenized document fields that are scored, in scoring order */
+const SCORED_FIELDS = ['title', 'description', 'content', 'code'] as const;
+
+/** Type for the names of scored fields */
+type ScoredField = typeof SCORED_FIELDS[number];
+
+/** The inverted indexes: one for the prose fields, one for code */
+type IndexName = 'prose' | 'code';
+
+/** The index each scored field is looked up in */
+const FIELD_INDEX: Record<ScoredField, IndexName> = {
+  title: 'prose',
+  description: 'prose',
+  content: 'prose',
+  code: 'code',
+};
+
+/** The fields each search scope looks at */
+const SCOPE_FIELDS: Record<SearchScope, readonly ScoredField[]> = {
+  prose: ['title', 'description', 'content'],
+  code: ['code'],
+  all: SCORED_FIELDS,
+};
+
+/** The indexes each search scope looks at */
+const SCOPE_INDEXES: Record<SearchScope, readonly IndexName[]> = {
+  prose: ['prose'],
+  code: ['code'],
+  all: ['prose', 'code'],
+};
+
 /**
- * Internal representation of a document in the search index.
- * Stores pre-tokenized fields for fast scoring.
+ * Code in markdown: a fenced block (body in group 1, without the info
+ * string) or an inline code span (group 2).
  */
-interface IndexedDocument {
-  /** Reference to the original document entry */
-  entry: DocumentEntry;
+const CODE_PATTERN = /```[^\n]*\n?([\s\S]*?)```|`([^`\n]+)`/g;
+
+/** A word of code: letters and digits, possibly joined by hyphens (e.g., `aria-label`) */
+const CODE_WORD_PATTERN = /[A-Za-z0-9]+(?:-[A-Za-z0-9]+)*/g;
+
+/** The parts of a camelCase or PascalCase identifier (e.g., `XMLHttpRequest` → XML, Http, Request) */
+const IDENTIFIER_PART_PATTERN = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g;
+
+/**
+ * Score multiplier for a query term that only matched after typo correction,
+ * so exact matches of the same word always rank higher.
+ */
+const CORRECTED_TERM_WEIGHT = 0.5;
+
+/** How much more a query term counts in a section's heading than in its text */
+const SECTION_HEADING_WEIGHT = 3;
+
+/** Score of a document matching a group of filters only (every match is fully relevant) */
+const FILTER_ONLY_SCORE = 1;
+
+/** Gap left between the token positions of consecutive fields, so phrases never span fields */
+const FIELD_POSITION_GAP = 1;
+
+/**
+ * Version of the tokenizer. Bump whenever `tokenize()` or `tokenizeDocument()`
+ * changes its output, so that persisted token lists (see `indexer/index-cache`)
+ * are rebuilt.
+ */
+const TOKENIZER_VERSION = 3;
 
+/**
+ * Fingerprint of everything that shapes the search index: the tokenizer
+ * version, the stop words, and the field weights. A persisted index built
+ * under a different fingerprint must be discarded.
+ */
+export const SEARCH_INDEX_FINGERPRINT = JSON.stringify({
+  tokenizer: TOKENIZER_VERSION,
+  stopWords: Array.from(STOP_WORDS),
+  fieldWeights: FIELD_WEIGHTS,
+});
+
+/**
+ * The tokenized fields of a document — the expensive part of indexing.
+ * Exposed so they can be persisted and handed back to `buildIndex()`.
+ */
+export interface DocumentTokens {
   /** Tokenized title words */
   titleTokens: string[];
 
   /** Tokenized description words */
   descriptionTokens: string[];
 
-  /** Tokenized full content words */
+  /** Tokenized content words, outside code */
   contentTokens: string[];
 
+  /** Tokenized code (fenced blocks and inline code), identifiers split into words */
+  codeTokens: string[];
+}
+
+/**
+ * Internal representation of a document in the search index.
+ * Stores pre-tokenized fields for fast scoring.
+ */
+interface IndexedDocument extends DocumentTokens {
+  /** Reference to the original document entry */
+  entry: DocumentEntry;
+
   /** Total token count (for TF normalization) */
   totalTokenCount: number;
 }
 
 /**
- * TF-IDF search engine for FluentUI documentation.
+ * A query term as it is scored: a query token, or the vocabulary token
+ * it was corrected to.
+ */
+interface QueryTerm {
+  /** The token matched against the index */
+  token: string;
+
+  /** Score multiplier (1, or `CORRECTED_TERM_WEIGHT` for corrections) */
+  weight: number;
+}
+
+/**
+ * A document section with its tokenized heading and text, for picking the
+ * best matching section of a search hit.
+ */
+interface SectionTokens {
+  /** The section */
+  section: DocumentSection;
+
+  /** Tokenized heading words */
+  headingTokens: string[];
+
+  /** Tokenized text outside code */
+  proseTokens: string[];
+
+  /** Tokenized code */
+  codeTokens: string[];
+}
+
+/**
+ * A query group ready for matching: the terms it is scored on and the
+ * documents its required and excluded elements select.
+ */
+interface PreparedGroup {
+  /** Terms of the optional and required elements */
+  terms: QueryTerm[];
+
+  /** For each required element, the IDs of the documents that contain it */
+  required: Array<Set<string>>;
+
+  /** For each excluded element, the IDs of the documents that contain it */
+  excluded: Array<Set<string>>;
+
+  /** Field filters every matching document must pass */
+  filters: QueryFilter[];
+
+  /** The best score a document could reach on the group's terms */
+  maxScore: number;
+}
+
+/**
+ * TF-IDF / BM25 search engine for FluentUI documentation.
  *
  * Usage:
- * 1. Call `buildIndex()` with all documents at startup
- * 2. Call `search()` for each query
- * 3. Call `clear()` + `buildIndex()` for reindexing
+ * 1. Create the engine, optionally choosing the ranking model
+ * 2. Call `buildIndex()` with all documents at startup
+ * 3. Call `search()` for each query
+ * 4. Call `clear()` + `buildIndex()` for reindexing
+ *
+ * @example
+ * ```typescript
+ * const engine = new SearchEngine({ model: 'bm25', k1: 1.2, b: 0.75 });
+ * engine.buildIndex(store.getAllDocuments());
+ * engine.search('date picker');
+ * ```
  */
 export class SearchEngine {
   /**
-   * Inverted index: token → list of documents containing that token.
-   * This is the core data structure enabling fast search.
+   * Inverted index of the prose fields: token → list of documents
+   * containing that token. This is the core data structure enabling
+   * fast search.
    */
   protected invertedIndex: Map<string, SearchIndexEntry[]> = new Map();
 
+  /**
+   * Inverted index of the code field. Kept apart so that identifiers in
+   * code do not change how rare a word is in prose.
+   */
+  protected codeIndex: Map<string, SearchIndexEntry[]> = new Map();
+
   /** All indexed documents, keyed by document ID */
   protected indexedDocs: Map<string, IndexedDocument> = new Map();
 
   /** Total number of documents in the index (for IDF calculation) */
   protected totalDocuments: number = 0;
 
+  /** Average token count of each field across all documents (for BM25) */
+  protected averageFieldLengths: Record<ScoredField, number> = { title: 0, description: 0, content: 0, code: 0 };
+
+  /** Memoized IDs of the documents matching each query token (exactly or by prefix), keyed by index and token */
+  protected documentMatches: Map<string, Set<string>> = new Map();
+
+  /** Memoized typo corrections of query tokens (null: no correction needed or found) */
+  protected corrections: Map<string, string | null> = new Map();
+
+  /** Memoized sections of the documents that were search hits, keyed by document ID */
+  protected sectionTokens: Map<string, SectionTokens[]> = new Map();
+
+  /** The ranking model and its parameters */
+  protected ranking: RankingOptions;
+
+  /**
+   * Create a search engine.
+   *
+   * @param ranking - Optional: ranking model and BM25 parameters
+   *   (default: TF-IDF; BM25 with k1 = 1.2, b = 0.75)
+   */
+  constructor(ranking: Partial<RankingOptions> = {}) {
+    this.ranking = {
+      model: ranking.model ?? DEFAULT_RANKING_MODEL,
+      k1: ranking.k1 ?? DEFAULT_BM25_K1,
+      b: ranking.b ?? DEFAULT_BM25_B,
+    };
+  }
+
+  /**
+   * The ranking model and its parameters.
+   */
+  public get rankingOptions(): RankingOptions {
+    return { ...this.ranking };
+  }
+
   /**
    * Build the search index from a set of documents.
    *
    * Tokenizes each document and builds the inverted index.
    * Should be called once at startup after documents are loaded.
    *
+   * Documents with entries in `pretokenized` skip tokenization; the caller
+   * guarantees the tokens were produced from the same document content
+   * under the current `SEARCH_INDEX_FINGERPRINT`.
+   *
    * @param documents - Array of document entries to index
+   * @param pretokenized - Optional: previously computed tokens, keyed by document ID
    */
-  public buildIndex(documents: DocumentEntry[]): void {
+  public buildIndex(
+    documents: DocumentEntry[],
+    pretokenized: Map<string, DocumentTokens> = new Map()
+  ): void {
     this.totalDocuments = documents.length;
 
     for (const entry of documents) {
-      // Tokenize each field
-      const titleTokens = this.tokenize(entry.title);
-      const descriptionTokens = this.tokenize(entry.metadata.description || '');
-      const contentTokens = this.tokenize(entry.content);
+      // Tokenize each field (unless the tokens are already known)
+      const { titleTokens, descriptionTokens, contentTokens, codeTokens } =
+        pretokenized.get(entry.id) ?? this.tokenizeDocument(entry);
 
       const indexedDoc: IndexedDocument = {
         entry,
         titleTokens,
         descriptionTokens,
         contentTokens,
-        totalTokenCount: titleTokens.length + descriptionTokens.length + contentTokens.length,
+        codeTokens,
+        totalTokenCount: titleTokens.length + descriptionTokens.length + contentTokens.length + codeTokens.length,
       };
 
       this.indexedDocs.set(entry.id, indexedDoc);
 
-      // Build inverted index from all tokens
-      const allTokens = [...titleTokens, ...descriptionTokens, ...contentTokens];
-      const tokenCounts = this.countTokens(allTokens);
-
-      for (const [token, count] of tokenCounts) {
-        const existing = this.invertedIndex.get(token);
-        const indexEntry: SearchIndexEntry = {
-          documentId: entry.id,
-          termFrequency: count,
-        };
-
-        if (existing) {
-          existing.push(indexEntry);
-        } else {
-          this.invertedIndex.set(token, [indexEntry]);
-        }
-      }
+      // Build the inverted indexes from all tokens, with their positions
+      this.addToIndex(this.invertedIndex, entry.id, [titleTokens, descriptionTokens, contentTokens]);
+      this.addToIndex(this.codeIndex, entry.id, [codeTokens]);
     }
+
+    this.documentMatches.clear();
+    this.corrections.clear();
+    this.sectionTokens.clear();
+    this.averageFieldLengths = this.calculateAverageFieldLengths();
   }
 
   /**
    * Search for documents matching a query string.
    *
-   * Tokenizes the query, scores each document using TF-IDF with
-   * field weighting, and returns ranked results.
+   * Parses the query syntax (see `indexer/query-parser`): quoted phrases,
+   * `+required` and `-excluded` terms, `field:value` filters, and `OR`
+   * between alternatives. Each document is scored with the configured
+   * ranking model and field weighting against the best alternative it
+   * matches, and results are ranked. An alternative of filters only matches
+   * every document passing them at full relevance.
+   *
+   * The search scope decides which fields terms are matched and scored in:
+   * prose (title, description, content), code, or all of them.
+   *
+   * Each hit carries its best matching section (see `indexer/section-parser`),
+   * and its excerpt is taken from that section where possible.
+   *
+   * Query tokens that match nothing in the index are replaced by their
+   * closest vocabulary token within a bounded edit distance ("datagird"
+   * → "datagrid"), scored at a penalty. Phrases and excluded terms are never
+   * corrected. See `suggestQuery()` to tell the user about the correction.
    *
    * @param query - The search query string
    * @param limit - Maximum number of results (default: 10, max: 50)
    * @param moduleFilter - Optional: restrict results to a specific module
+   * @param searchIn - Which text to search: prose, code, or all (default)
    * @returns Array of search results sorted by relevance (highest first)
    */
   public search(
     query: string,
     limit: number = DEFAULT_SEARCH_LIMIT,
-    moduleFilter?: DocumentModule
+    moduleFilter?: DocumentModule,
+    searchIn: SearchScope = DEFAULT_SEARCH_SCOPE
   ): SearchResult[] {
-    const queryTokens = this.tokenize(query);
+    const groups = parseQuery(query).groups
+      .map((group) => this.prepareGroup(group, searchIn))
+      .filter((group) => group.terms.length > 0 || group.filters.length > 0);
 
-    if (queryTokens.length === 0) {
+    if (groups.length === 0) {
       return [];
     }
 
     // Clamp limit to valid range
     const effectiveLimit = Math.min(Math.max(1, limit), MAX_SEARCH_LIMIT);
 
-    // Score each document
-    const scores: Map<string, { score: number; matchedFields: MatchedField[] }> = new Map();
+    // Score each document against the best group it matches
+    const scores: Map<string, { score: number; matchedFields: MatchedField[]; group: PreparedGroup }> = new Map();
 
     for (const [docId, indexedDoc] of this.indexedDocs) {
       // Apply module filter if specified
@@ -174,10 +402,17 @@ export class SearchEngine {
         continue;
       }
 
-      const { score, matchedFields } = this.scoreDocument(indexedDoc, queryTokens);
+      for (const group of groups) {
+        if (!this.matchesGroup(indexedDoc.entry, group)) {
+          continue;
+        }
 
-      if (score > 0) {
-        scores.set(docId, { score, matchedFields });
+        const { score, matchedFields } = group.terms.length > 0
+          ? this.scoreDocument(indexedDoc, group.terms, SCOPE_FIELDS[searchIn])
+          : { score: FILTER_ONLY_SCORE, matchedFields: [] };
+        if (score > 0 && score > (scores.get(docId)?.score ?? 0)) {
+          scores.set(docId, { score, matchedFields, group });
+        }
       }
     }
 
@@ -187,27 +422,101 @@ export class SearchEngine {
       .slice(0, effectiveLimit);
 
     // Build SearchResult objects
-    return sortedResults.map(([docId, { score, matchedFields }]) => {
+    return sortedResults.map(([docId, { score, matchedFields, group }]) => {
       const indexedDoc = this.indexedDocs.get(docId)!;
-      const maxPossibleScore = this.getMaxPossibleScore(queryTokens.length);
+      const queryTokens = group.terms.map((term) => term.token);
+      const section = this.findBestSection(indexedDoc.entry, group.terms, searchIn);
 
       return {
         document: indexedDoc.entry,
-        relevance: Math.min(Math.round((score / maxPossibleScore) * 100), 100),
-        excerpt: this.extractExcerpt(indexedDoc.entry.content, queryTokens),
+        relevance: Math.min(Math.round((score / group.maxScore) * 100), 100),
+        excerpt: (section && this.findExcerptLine(section.content, queryTokens)) ??
+          this.extractExcerpt(indexedDoc.entry.content, queryTokens),
         matchedFields,
+        section,
       };
     });
   }
 
+  /**
+   * Suggest a corrected query when some of its words match nothing.
+   *
+   * Each such word is replaced by its closest vocabulary token; phrases and
+   * excluded terms are left alone. When the corrected query is a plain list
+   * of words naming a document (ignoring case and spaces), the document's
+   * title is suggested instead, so "datagird" suggests "DataGrid" rather
+   * than "datagrid".
+   *
+   * @param query - The search query string
+   * @returns The corrected query, or null if no word needed (or had) a correction
+   *
+   * @example
+   * ```typescript
+   * engine.suggestQuery('comobox filtering'); // "combobox filtering"
+   * engine.suggestQuery('+comobox -select');  // "+combobox -select"
+   * engine.suggestQuery('button');            // null
+   * ```
+   */
+  public suggestQuery(query: string): string | null {
+    let changed = false;
+    const corrected: ParsedQuery = {
+      groups: parseQuery(query).groups.map((group) => ({
+        elements: group.elements.map((element) => {
+          const text = this.correctElement(element);
+          changed = changed || text !== element.text;
+          return { ...element, text };
+        }),
+        filters: group.filters,
+      })),
+    };
+    if (!changed) {
+      return null;
+    }
+
+    const suggestion = formatQuery(corrected);
+    const [group, ...alternatives] = corrected.groups;
+    const isPlainWords = alternatives.length === 0 && group.filters.length === 0 &&
+      group.elements.every((element) => element.modifier === 'optional');
+    if (isPlainWords) {
+      const compact = suggestion.toLowerCase().replace(/[\s-]+/g, '');
+      for (const { entry } of this.indexedDocs.values()) {
+        if (entry.title.toLowerCase().replace(/[\s-]+/g, '') === compact) {
+          return entry.title;
+        }
+      }
+    }
+    return suggestion;
+  }
+
   /**
    * Clear the entire search index.
    * Used before reindexing.
    */
   public clear(): void {
     this.invertedIndex.clear();
+    this.codeIndex.clear();
     this.indexedDocs.clear();
+    this.documentMatches.clear();
+    this.corrections.clear();
+    this.sectionTokens.clear();
     this.totalDocuments = 0;
+    this.averageFieldLengths = { title: 0, description: 0, content: 0, code: 0 };
+  }
+
+  /**
+   * Get the tokenized fields of an indexed document.
+   *
+   * @param docId - Document ID
+   * @returns The document's tokens, or undefined if it is not indexed
+   */
+  public getDocumentTokens(docId: string): DocumentTokens | undefined {
+    const indexedDoc = this.indexedDocs.get(docId);
+    if (!indexedDoc) {
+      return undefined;
+    }
+
+    const { titleTokens, descriptionTokens, contentTokens, codeTokens } = indexedDoc;
+    return { titleTokens, descriptionTokens, contentTokens, codeTokens };
   }
 
   /**
@@ -215,58 +524,110 @@ export class SearchEngine {
    * Useful for debugging and stats.
    */
   public get vocabularySize(): number {
-    return this.invertedIndex.size;
+    return new Set([...this.invertedIndex.keys(), ...this.codeIndex.keys()]).size;
   }
 
   /**
-   * Score a single document against the query tokens.
+   * Score a single document against the query tokens
+   * using the configured ranking model.
+   *
+   * @param indexedDoc - The pre-indexed document
+   * @param queryTerms - Query terms with their score multipliers
+   * @param fields - The fields to score
+   * @returns Combined score and list of matched fields
+   */
+  protected scoreDocument(
+    indexedDoc: IndexedDocument,
+    queryTerms: QueryTerm[],
+    fields: readonly ScoredField[]
+  ): { score: number; matchedFields: MatchedField[] } {
+    return this.ranking.model === 'bm25'
+      ? this.scoreDocumentBm25(indexedDoc, queryTerms, fields)
+      : this.scoreDocumentTfIdf(indexedDoc, queryTerms, fields);
+  }
+
+  /**
+   * Score a single document against the query tokens with TF-IDF.
    *
    * Uses TF-IDF scoring with field-specific weights:
    * - Title matches get the highest weight (10x)
    * - Description matches get medium weight (5x)
    * - Content matches get base weight (1x)
+   * - Code matches get the lowest weight (0.5x)
    *
    * @param indexedDoc - The pre-indexed document
-   * @param queryTokens - Tokenized query terms
+   * @param queryTerms - Query terms with their score multipliers
+   * @param fields - The fields to score
    * @returns Combined score and list of matched fields
    */
-  protected scoreDocument(
+  protected scoreDocumentTfIdf(
     indexedDoc: IndexedDocument,
-    queryTokens: string[]
+    queryTerms: QueryTerm[],
+    fields: readonly ScoredField[]
   ): { score: number; matchedFields: MatchedField[] } {
     let totalScore = 0;
     const matchedFields: MatchedField[] = [];
 
-    for (const queryToken of queryTokens) {
-      // Score title matches
-      const titleScore = this.scoreField(
-        queryToken,
-        indexedDoc.titleTokens,
-        FIELD_WEIGHTS.title
-      );
-      if (titleScore > 0) {
-        totalScore += titleScore;
-        matchedFields.push({ field: 'title', score: titleScore });
+    for (const { token: queryToken, weight } of queryTerms) {
+      for (const field of fields) {
+        const fieldScore = this.scoreField(
+          queryToken,
+          this.getFieldTokens(indexedDoc, field),
+          FIELD_WEIGHTS[field] * weight,
+          FIELD_INDEX[field]
+        );
+        if (fieldScore > 0) {
+          totalScore += fieldScore;
+          matchedFields.push({ field, score: fieldScore });
+        }
       }
+    }
 
-      // Score description matches
-      const descScore = this.scoreField(
-        queryToken,
-        indexedDoc.descriptionTokens,
-        FIELD_WEIGHTS.description
-      );
-      if (descScore > 0) {
-        totalScore += descScore;
-        matchedFields.push({ field: 'description', score: descScore });
-      }
+    return { score: totalScore, matchedFields };
+  }
+
+  /**
+   * Score a single document against the query tokens with BM25.
+   *
+   * Each field is scored with BM25 on its own — its term frequency is
+   * length normalized against the field's average length and saturated:
+   *
+   *   score_f = idf · count_f / (count_f + k1 · (1 − b + b · length_f / avgLength_f))
+   *
+   * and the field scores are combined with the field weights. Repeating a
+   * term in a long document therefore adds less and less, and a match in
+   * a short field counts for more than the same match in a long one.
+   *
+   * @param indexedDoc - The pre-indexed document
+   * @param queryTerms - Query terms with their score multipliers
+   * @param fields - The fields to score
+   * @returns Combined score and list of matched fields
+   */
+  protected scoreDocumentBm25(
+    indexedDoc: IndexedDocument,
+    queryTerms: QueryTerm[],
+    fields: readonly ScoredField[]
+  ): { score: number; matchedFields: MatchedField[] } {
+    const { k1, b } = this.ranking;
+    let totalScore = 0;
+    const matchedFields: MatchedField[] = [];
+
+    for (const { token: queryToken, weight } of queryTerms) {
+      for (const field of fields) {
+        const idf = this.calculateBm25Idf(queryToken, FIELD_INDEX[field]);
+        if (idf === 0) continue;
 
-      // Score content matches (with IDF weighting)
-      const idf = this.calculateIdf(queryToken);
-      const contentTf = this.calculateTf(queryToken, indexedDoc.contentTokens);
-      const contentScore = contentTf * idf * FIELD_WEIGHTS.content;
-      if (contentScore > 0) {
-        totalScore += contentScore;
-        matchedFields.push({ field: 'content', score: contentScore });
+        const fieldTokens = this.getFieldTokens(indexedDoc, field);
+        const count = this.countMatches(queryToken, fieldTokens);
+        if (count === 0) continue;
+
+        const averageLength = this.averageFieldLengths[field];
+        const lengthNorm = averageLength > 0
+          ? 1 - b + b * (fieldTokens.length / averageLength)
+          : 1;
+        const fieldScore = weight * FIELD_WEIGHTS[field] * idf * (count / (count + k1 * lengthNorm));
+        totalScore += fieldScore;
+        matchedFields.push({ field, score: fieldScore });
       }
     }
 
@@ -279,17 +640,19 @@ export class SearchEngine {
    * @param queryToken - Single query token
    * @param fieldTokens - Tokens from the document field
    * @param weight - Weight multiplier for this field
+   * @param index - The index the field is looked up in
    * @returns Weighted score
    */
   protected scoreField(
     queryToken: string,
     fieldTokens: string[],
-    weight: number
+    weight: number,
+    index: IndexName
   ): number {
     const tf = this.calculateTf(queryToken, fieldTokens);
     if (tf === 0) return 0;
 
-    const idf = this.calculateIdf(queryToken);
+    const idf = this.calculateIdf(queryToken, index);
     return tf * idf * weight;
   }
 
@@ -306,15 +669,25 @@ export class SearchEngine {
   protected calculateTf(token: string, fieldTokens: string[]): number {
     if (fieldTokens.length === 0) return 0;
 
+    return this.countMatches(token, fieldTokens) / fieldTokens.length;
+  }
+
+  /**
+   * Count the tokens of a field that match a query token.
+   *
+   * @param token - The query token
+   * @param fieldTokens - Array of tokens from the field
+   * @returns Number of exact or prefix matches
+   */
+  protected countMatches(token: string, fieldTokens: string[]): number {
     let count = 0;
     for (const fieldToken of fieldTokens) {
       // Support both exact and prefix matching
-      if (fieldToken === token || fieldToken.startsWith(token)) {
+      if (fieldToken.startsWith(token)) {
         count++;
       }
     }
-
-    return count / fieldTokens.length;
+    return count;
   }
 
   /**
@@ -324,14 +697,16 @@ export class SearchEngine {
    * Tokens that appear in fewer documents get higher IDF scores.
    *
    * @param token - The token to calculate IDF for
+   * @param index - The index to count documents in
    * @returns IDF score (higher means more discriminative)
    */
-  protected calculateIdf(token: string): number {
-    const docsWithToken = this.invertedIndex.get(token);
+  protected calculateIdf(token: string, index: IndexName): number {
+    const invertedIndex = this.getIndex(index);
+    const docsWithToken = invertedIndex.get(token);
     if (!docsWithToken || docsWithToken.length === 0) {
       // Try prefix matching for partial token matches
       let matchCount = 0;
-      for (const [indexToken, entries] of this.invertedIndex) {
+      for (const [indexToken, entries] of invertedIndex) {
         if (indexToken.startsWith(token)) {
           matchCount += entries.length;
         }
@@ -343,17 +718,364 @@ export class SearchEngine {
     return Math.log(this.totalDocuments / docsWithToken.length) + 1;
   }
 
+  /**
+   * Prepare a query group for matching.
+   *
+   * Optional and required elements become scored terms (plain words with
+   * typo correction, phrases as typed). Required and excluded elements are
+   * resolved to the set of documents containing them in the searched
+   * fields. Filters are kept as they are, to be checked against each
+   * document's entry.
+   *
+   * @param group - A parsed query group
+   * @param searchIn - The searched text
+   * @returns The group's terms, document constraints, and best possible score
+   */
+  protected prepareGroup(group: QueryGroup, searchIn: SearchScope): PreparedGroup {
+    const terms: QueryTerm[] = [];
+    const required: Array<Set<string>> = [];
+    const excluded: Array<Set<string>> = [];
+
+    for (const element of group.elements) {
+      const tokens = this.tokenize(element.text);
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      if (element.modifier === 'excluded') {
+        excluded.push(this.findElementDocuments(tokens, element.phrase, searchIn));
+        continue;
+      }
+
+      const elementTerms = element.phrase
+        ? tokens.map((token) => ({ token, weight: 1 }))
+        : tokens.map((token) => this.toQueryTerm(token));
+      terms.push(...elementTerms);
+
+      if (element.modifier === 'required') {
+        required.push(this.findElementDocuments(elementTerms.map((term) => term.token), element.phrase, searchIn));
+      }
+    }
+
+    return {
+      terms,
+      required,
+      excluded,
+      filters: group.filters,
+      maxScore: terms.length > 0
+        ? this.getMaxPossibleScore(terms.map((term) => term.token), searchIn)
+        : FILTER_ONLY_SCORE,
+    };
+  }
+
+  /**
+   * Check a document against a group's filters and its required and
+   * excluded elements.
+   *
+   * @param entry - The document entry
+   * @param group - A prepared query group
+   * @returns True if the document passes every filter, and has every required and no excluded element
+   */
+  protected matchesGroup(entry: DocumentEntry, group: PreparedGroup): boolean {
+    return group.filters.every((filter) => this.matchesFilter(entry, filter)) &&
+      group.required.every((docIds) => docIds.has(entry.id)) &&
+      !group.excluded.some((docIds) => docIds.has(entry.id));
+  }
+
+  /**
+   * Check a document against a `field:value` filter.
+   *
+   * Category, package, and module must equal the value and the title must
+   * contain it, ignoring case. `has:examples` and `has:props` check for code
+   * examples and a props table; any other `has:` value matches nothing.
+   *
+   * @param entry - The document entry
+   * @param filter - A query filter
+   * @returns True if the document passes the filter (taking negation into account)
+   */
+  protected matchesFilter(entry: DocumentEntry, filter: QueryFilter): boolean {
+    const value = filter.value.toLowerCase();
+    let matches: boolean;
+
+    switch (filter.field) {
+      case 'category':
+        matches = entry.category?.toLowerCase() === value;
+        break;
+      case 'package':
+        matches = entry.metadata.packageName?.toLowerCase() === value;
+        break;
+      case 'module':
+        matches = entry.module.toLowerCase() === value;
+        break;
+      case 'title':
+        matches = entry.title.toLowerCase().includes(value);
+        break;
+      case 'has':
+        matches = (value === 'examples' && entry.metadata.hasCodeExamples) ||
+          (value === 'props' && entry.metadata.hasPropsTable);
+        break;
+    }
+
+    return matches !== filter.negated;
+  }
+
+  /**
+   * Find the documents that contain a query element.
+   *
+   * A single word matches exactly or by prefix, like when scoring. A phrase —
+   * or a word that splits into several tokens, like "foo.bar" — must appear
+   * as consecutive tokens of one field.
+   *
+   * @param tokens - The element's tokens
+   * @param phrase - Whether the element is a quoted phrase
+   * @param searchIn - The searched text
+   * @returns IDs of the documents containing the element in the searched text
+   */
+  protected findElementDocuments(tokens: string[], phrase: boolean, searchIn: SearchScope): Set<string> {
+    const documentIds = new Set<string>();
+    for (const index of SCOPE_INDEXES[searchIn]) {
+      const indexMatches = phrase || tokens.length > 1
+        ? this.findPhraseDocuments(tokens, index)
+        : this.getMatchingDocumentIds(tokens[0], index);
+      indexMatches.forEach((docId) => documentIds.add(docId));
+    }
+    return documentIds;
+  }
+
+  /**
+   * Find the documents that contain a sequence of tokens, in order and
+   * without other tokens in between.
+   *
+   * @param tokens - The phrase's tokens
+   * @param index - The index to look the phrase up in
+   * @returns IDs of the documents containing the phrase
+   */
+  protected findPhraseDocuments(tokens: string[], index: IndexName): Set<string> {
+    const invertedIndex = this.getIndex(index);
+    const [first, ...rest] = tokens.map((token) =>
+      new Map((invertedIndex.get(token) ?? []).map((entry) => [entry.documentId, entry.positions]))
+    );
+    const documentIds = new Set<string>();
+
+    for (const [docId, starts] of first) {
+      const following = rest.map((postings) => new Set(postings.get(docId)));
+      const hasPhrase = starts.some((start) =>
+        following.every((positions, offset) => positions.has(start + offset + 1))
+      );
+      if (hasPhrase) {
+        documentIds.add(docId);
+      }
+    }
+
+    return documentIds;
+  }
+
+  /**
+   * Turn a query token into a scored term, correcting it if it matches nothing.
+   *
+   * @param token - A query token
+   * @returns The token, or its correction at a reduced weight
+   */
+  protected toQueryTerm(token: string): QueryTerm {
+    const correction = this.correctToken(token);
+    return correction
+      ? { token: correction, weight: CORRECTED_TERM_WEIGHT }
+      : { token, weight: 1 };
+  }
+
+  /**
+   * Correct the misspelled words of a query element.
+   *
+   * @param element - A parsed query element
+   * @returns The element text with corrected words (unchanged for phrases and excluded terms)
+   */
+  protected correctElement(element: QueryElement): string {
+    if (element.phrase || element.modifier === 'excluded') {
+      return element.text;
+    }
+
+    // Tokens are plain [a-z0-9-] words, so they can be used as patterns as is
+    return this.tokenize(element.text).reduce((text, token) => {
+      const correction = this.correctToken(token);
+      return correction ? text.replace(new RegExp(token, 'i'), correction) : text;
+    }, element.text);
+  }
+
+  /**
+   * Find the typo correction of a query token.
+   *
+   * Only a token that neither appears in the index nor is a prefix of an
+   * indexed token is corrected, to its closest vocabulary token within the
+   * bounded edit distance. Ties go to the token found in the most documents.
+   *
+   * @param token - A query token
+   * @returns The corrected token, or null if it matches as is or nothing is close enough
+   */
+  protected correctToken(token: string): string | null {
+    const memoized = this.corrections.get(token);
+    if (memoized !== undefined) {
+      return memoized;
+    }
+
+    let correction: string | null = null;
+    const vocabulary = new Set([...this.invertedIndex.keys(), ...this.codeIndex.keys()]);
+    const documentCount = (candidate: string): number =>
+      (this.invertedIndex.get(candidate)?.length ?? 0) + (this.codeIndex.get(candidate)?.length ?? 0);
+    if (!Array.from(vocabulary).some((indexToken) => indexToken.startsWith(token))) {
+      const closest = findClosestMatches(token, vocabulary);
+      closest.sort((a, b) =>
+        documentCount(b.candidate) - documentCount(a.candidate) ||
+        a.candidate.localeCompare(b.candidate)
+      );
+      correction = closest[0]?.candidate ?? null;
+    }
+
+    this.corrections.set(token, correction);
+    return correction;
+  }
+
+  /**
+   * Calculate the BM25 inverse document frequency for a token.
+   *
+   * IDF = ln(1 + (N − n + 0.5) / (n + 0.5)), where n is the number of
+   * documents containing the token or a token it is a prefix of. Always
+   * positive, so even a term found in every document adds a little.
+   *
+   * @param token - The token to calculate IDF for
+   * @param index - The index to count documents in
+   * @returns IDF score, or 0 if no document contains the token
+   */
+  protected calculateBm25Idf(token: string, index: IndexName): number {
+    const documentCount = this.getMatchingDocumentIds(token, index).size;
+    if (documentCount === 0) return 0;
+    return Math.log(1 + (this.totalDocuments - documentCount + 0.5) / (documentCount + 0.5));
+  }
+
+  /**
+   * Get the documents containing a token, or a token it is a prefix of.
+   *
+   * @param token - A query token
+   * @param index - The index to look the token up in
+   * @returns IDs of the matching documents (memoized until the index changes)
+   */
+  protected getMatchingDocumentIds(token: string, index: IndexName): Set<string> {
+    const key = `${index}:${token}`;
+    let documentIds = this.documentMatches.get(key);
+    if (!documentIds) {
+      documentIds = new Set<string>();
+      for (const [indexToken, entries] of this.getIndex(index)) {
+        if (indexToken.startsWith(token)) {
+          for (const { documentId } of entries) {
+            documentIds.add(documentId);
+          }
+        }
+      }
+      this.documentMatches.set(key, documentIds);
+    }
+    return documentIds;
+  }
+
+  /**
+   * Get one of the inverted indexes.
+   *
+   * @param index - The index name
+   * @returns The prose or the code index
+   */
+  protected getIndex(index: IndexName): Map<string, SearchIndexEntry[]> {
+    return index === 'code' ? this.codeIndex : this.invertedIndex;
+  }
+
+  /**
+   * Add a document's tokens, with their positions, to an inverted index.
+   *
+   * @param invertedIndex - The index to add to
+   * @param documentId - Document ID
+   * @param fields - Token arrays of the document's fields, in order
+   */
+  protected addToIndex(
+    invertedIndex: Map<string, SearchIndexEntry[]>,
+    documentId: string,
+    fields: string[][]
+  ): void {
+    for (const [token, positions] of this.collectTokenPositions(fields)) {
+      const existing = invertedIndex.get(token);
+      const indexEntry: SearchIndexEntry = {
+        documentId,
+        termFrequency: positions.length,
+        positions,
+      };
+
+      if (existing) {
+        existing.push(indexEntry);
+      } else {
+        invertedIndex.set(token, [indexEntry]);
+      }
+    }
+  }
+
+  /**
+   * Calculate the average token count of each scored field.
+   *
+   * @returns Average title, description, content, and code lengths (0 if empty)
+   */
+  protected calculateAverageFieldLengths(): Record<ScoredField, number> {
+    const averages: Record<ScoredField, number> = { title: 0, description: 0, content: 0, code: 0 };
+    if (this.indexedDocs.size === 0) {
+      return averages;
+    }
+
+    for (const indexedDoc of this.indexedDocs.values()) {
+      for (const field of SCORED_FIELDS) {
+        averages[field] += this.getFieldTokens(indexedDoc, field).length;
+      }
+    }
+    for (const field of SCORED_FIELDS) {
+      averages[field] /= this.indexedDocs.size;
+    }
+    return averages;
+  }
+
+  /**
+   * Get the tokens of one scored field of an indexed document.
+   *
+   * @param indexedDoc - The pre-indexed document
+   * @param field - The field name
+   * @returns The field's tokens
+   */
+  protected getFieldTokens(indexedDoc: IndexedDocument, field: ScoredField): string[] {
+    switch (field) {
+      case 'title':
+        return indexedDoc.titleTokens;
+      case 'description':
+        return indexedDoc.descriptionTokens;
+      case 'content':
+        return indexedDoc.contentTokens;
+      case 'code':
+        return indexedDoc.codeTokens;
+    }
+  }
+
   /**
    * Get the theoretical maximum score for normalization.
    * Used to convert raw scores to 0-100 relevance percentages.
    *
-   * @param queryTokenCount - Number of tokens in the query
+   * @param queryTokens - Tokenized query terms
+   * @param searchIn - The searched text
    * @returns Maximum possible score
    */
-  protected getMaxPossibleScore(queryTokenCount: number): number {
-    // Approximate max: each token could match perfectly in title
+  protected getMaxPossibleScore(queryTokens: string[], searchIn: SearchScope): number {
+    const fields = SCOPE_FIELDS[searchIn];
+    if (this.ranking.model === 'bm25') {
+      // A BM25 field score approaches (but never reaches) the weighted IDF
+      return queryTokens.reduce((sum, token) =>
+        sum + fields.reduce((fieldSum, field) =>
+          fieldSum + FIELD_WEIGHTS[field] * this.calculateBm25Idf(token, FIELD_INDEX[field]), 0), 0);
+    }
+
+    // Approximate max: each token could match perfectly in the highest-weighted field
     const maxIdf = Math.log(this.totalDocuments) + 1;
-    return queryTokenCount * FIELD_WEIGHTS.title * maxIdf;
+    const topWeight = Math.max(...fields.map((field) => FIELD_WEIGHTS[field]));
+    return queryTokens.length * topWeight * maxIdf;
   }
 
   /**
@@ -372,10 +1094,44 @@ export class SearchEngine {
     queryTokens: string[],
     maxLength: number = 200
   ): string {
+    const matchingLine = this.findExcerptLine(content, queryTokens, maxLength);
+    if (matchingLine !== null) {
+      return matchingLine;
+    }
+
+    // Fallback: return the overview/description section
     const lines = content.split('\n');
+    const overviewIndex = lines.findIndex((line) => /^##\s+Overview/i.test(line));
+    if (overviewIndex !== -1) {
+      for (let i = overviewIndex + 1; i < lines.length && i < overviewIndex + 5; i++) {
+        const trimmed = lines[i].trim();
+        if (trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('>')) {
+          return trimmed.length > maxLength
+            ? trimmed.substring(0, maxLength) + '...'
+            : trimmed;
+        }
+      }
+    }
+
+    return 'FluentUI documentation';
+  }
 
-    // Find the first line containing a query token
-    for (const line of lines) {
+  /**
+   * Find the first line of text containing a query token.
+   *
+   * Headings, table rows, code fences, rules, and blockquotes are skipped.
+   *
+   * @param content - Markdown text
+   * @param queryTokens - Tokenized query terms
+   * @param maxLength - Maximum excerpt length (default: 200)
+   * @returns The trimmed (and possibly shortened) line, or null if no line matches
+   */
+  protected findExcerptLine(
+    content: string,
+    queryTokens: string[],
+    maxLength: number = 200
+  ): string | null {
+    for (const line of content.split('\n')) {
       const lineLower = line.toLowerCase();
       const hasMatch = queryTokens.some((token) => lineLower.includes(token));
 
@@ -394,21 +1150,100 @@ export class SearchEngine {
         }
       }
     }
+    return null;
+  }
 
-    // Fallback: return the overview/description section
-    const overviewIndex = lines.findIndex((line) => /^##\s+Overview/i.test(line));
-    if (overviewIndex !== -1) {
-      for (let i = overviewIndex + 1; i < lines.length && i < overviewIndex + 5; i++) {
-        const trimmed = lines[i].trim();
-        if (trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('>')) {
-          return trimmed.length > maxLength
-            ? trimmed.substring(0, maxLength) + '...'
-            : trimmed;
-        }
+  /**
+   * Find the section of a document that best matches the query terms.
+   *
+   * The document's sections are ranked among themselves with BM25-style
+   * scoring: a term adds its IDF across the sections — so the document's
+   * own topic, mentioned everywhere, counts for little — weighted by how
+   * often it occurs, saturating so a section mentioning every term beats
+   * one repeating a single term, and counting extra in the heading.
+   *
+   * @param entry - The document entry
+   * @param queryTerms - Query terms with their score multipliers
+   * @param searchIn - The searched text (prose covers the headings)
+   * @returns The best section (the earliest on a tie), or null if no section contains a term
+   */
+  protected findBestSection(
+    entry: DocumentEntry,
+    queryTerms: QueryTerm[],
+    searchIn: SearchScope
+  ): DocumentSection | null {
+    const sections = this.getSectionTokens(entry);
+    const searchesProse = searchIn !== 'code';
+    const searchesCode = searchIn !== 'prose';
+    const saturate = (count: number): number => count / (count + 1);
+
+    // How often each term occurs in each section's heading and text
+    const counts = queryTerms.map(({ token }) => sections.map(({ headingTokens, proseTokens, codeTokens }) => ({
+      heading: searchesProse ? this.countMatches(token, headingTokens) : 0,
+      text: (searchesProse ? this.countMatches(token, proseTokens) : 0) +
+        (searchesCode ? this.countMatches(token, codeTokens) : 0),
+    })));
+
+    let bestSection: DocumentSection | null = null;
+    let bestScore = 0;
+
+    sections.forEach(({ section }, sectionIndex) => {
+      let score = 0;
+      queryTerms.forEach(({ weight }, termIndex) => {
+        const { heading, text } = counts[termIndex][sectionIndex];
+        if (heading + text === 0) return;
+
+        const sectionsWithTerm = counts[termIndex].filter((count) => count.heading + count.text > 0).length;
+        const idf = Math.log(1 + (sections.length - sectionsWithTerm + 0.5) / (sectionsWithTerm + 0.5));
+        score += weight * idf * (SECTION_HEADING_WEIGHT * saturate(heading) + saturate(text));
+      });
+
+      if (score > bestScore) {
+        bestSection = section;
+        bestScore = score;
       }
+    });
+
+    return bestSection;
+  }
+
+  /**
+   * Get the tokenized sections of a document, splitting it on first use.
+   *
+   * @param entry - The document entry
+   * @returns The document's sections with their tokens
+   */
+  protected getSectionTokens(entry: DocumentEntry): SectionTokens[] {
+    let sections = this.sectionTokens.get(entry.id);
+    if (!sections) {
+      sections = parseSections(entry.content).map((section) => ({
+        section,
+        headingTokens: this.tokenize(section.heading),
+        proseTokens: this.tokenize(section.content),
+        codeTokens: this.tokenizeCode(section.content),
+      }));
+      this.sectionTokens.set(entry.id, sections);
     }
+    return sections;
+  }
 
-    return 'FluentUI documentation';
+  /**
+   * Tokenize the searchable fields of a document.
+   *
+   * Aliases count as part of the title, so a document is ranked as highly
+   * for an alternative name as for its title. The content's code goes into
+   * a field of its own.
+   *
+   * @param entry - The document entry
+   * @returns Title, description, content, and code tokens
+   */
+  protected tokenizeDocument(entry: DocumentEntry): DocumentTokens {
+    return {
+      titleTokens: this.tokenize([entry.title, ...entry.metadata.aliases].join(' ')),
+      descriptionTokens: this.tokenize(entry.metadata.description || ''),
+      contentTokens: this.tokenize(entry.content),
+      codeTokens: this.tokenizeCode(entry.content),
+    };
   }
 
   /**
@@ -445,16 +1280,59 @@ export class SearchEngine {
   }
 
   /**
-   * Count occurrences of each token in an array.
+   * Tokenize the code of a markdown text: its fenced code blocks and
+   * inline code spans.
    *
-   * @param tokens - Array of tokens
-   * @returns Map of token → count
+   * Each word is indexed whole (lowercased) and, if it is a compound, by
+   * its parts: `onOpenChange` → onopenchange, on, open, change, and
+   * `aria-label` → aria-label, aria, label. A dot path such as
+   * `tokens.colorBrandBackground` yields its identifiers in order, so it
+   * matches the query `tokens.colorBrandBackground` as a phrase. Stop words
+   * are kept — in code they are identifiers like any other.
+   *
+   * @param text - Raw markdown text
+   * @returns Array of code tokens
    */
-  protected countTokens(tokens: string[]): Map<string, number> {
-    const counts = new Map<string, number>();
-    for (const token of tokens) {
-      counts.set(token, (counts.get(token) || 0) + 1);
+  protected tokenizeCode(text: string): string[] {
+    const tokens: string[] = [];
+
+    for (const [, block, inline] of text.matchAll(CODE_PATTERN)) {
+      for (const [word] of (block ?? inline).matchAll(CODE_WORD_PATTERN)) {
+        tokens.push(word.toLowerCase());
+
+        const parts = word.split('-').flatMap((part) => part.match(IDENTIFIER_PART_PATTERN) ?? []);
+        if (parts.length > 1) {
+          tokens.push(...parts.map((part) => part.toLowerCase()));
+        }
+      }
+    }
+
+    return tokens.filter((token) => token.length >= 2);
+  }
+
+  /**
+   * Collect the positions of each token in a document's fields.
+   *
+   * Fields are numbered consecutively, with a gap between them so that a
+   * phrase cannot match across the end of one field and the start of the next.
+   *
+   * @param fields - Token arrays of the document's fields, in order
+   * @returns Map of token → ascending positions
+   */
+  protected collectTokenPositions(fields: string[][]): Map<string, number[]> {
+    const positions = new Map<string, number[]>();
+    let offset = 0;
+    for (const fieldTokens of fields) {
+      fieldTokens.forEach((token, index) => {
+        const tokenPositions = positions.get(token);
+        if (tokenPositions) {
+          tokenPositions.push(offset + index);
+        } else {
+          positions.set(token, [offset + index]);
+        }
+      });
+      offset += fieldTokens.length + FIELD_POSITION_GAP;
     }
-    return counts;
+    return positions;
   }
 }
@@ -0,0 +1,352 @@
+/**
+ * Splitting markdown documents into heading-delimited sections.
+ *
+ * Every ATX heading (`#` to `######`) starts a section that runs to the
+ * next heading of any level; text before the first heading forms a section
+ * of its own. Headings inside fenced code blocks are ignored, and a leading
+ * frontmatter block is skipped (see `indexer/frontmatter`).
+ *
+ * Each section gets a GitHub-style anchor (`## Controlled vs Uncontrolled`
+ * → `controlled-vs-uncontrolled`, with `-1`, `-2`, … for repeats) and its
+ * heading path, so tools can point at "Input › Usage › Controlled vs
+ * Uncontrolled" and fetch just that part of a document.
+ *
+ * The sections also make up a document's outline: the H1–H4 heading tree
+ * with each section's approximate token size and whether it has code or
+ * tables, built once at index time.
+ *
+ * @module indexer/section-parser
+ */
+
+import type { DocumentSection, OutlineNode } from '../types/index.js';
+import { OUTLINE_MAX_LEVEL, CHARS_PER_TOKEN } from '../types/index.js';
+import { parseFrontmatter } from './frontmatter.js';
+
+/** An ATX heading: 1–6 #s, its text, and an optional closing sequence of #s */
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+
+/** The opening or closing line of a fenced code block */
+const FENCE_PATTERN = /^[ \t]*(```|~~~)/;
+
+/** A fenced code block anywhere in a section */
+const CODE_BLOCK_PATTERN = /^[ \t]*(?:```|~~~)/m;
+
+/** The delimiter row below a markdown table header (e.g., `| --- | :---: |`) */
+const TABLE_DELIMITER_PATTERN = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*\|/m;
+
+/** Separator between the headings of a section path */
+const PATH_SEPARATOR = ' › ';
+
+/** Separators accepted between the headings of a section path in a lookup: ›, >, or / */
+const PATH_SEPARATOR_PATTERN = /\s*[›>/]\s*/;
+
+/**
+ * Split a markdown document into its sections.
+ *
+ * @param content - Raw markdown content (frontmatter is skipped)
+ * @returns The sections in document order; text before the first heading
+ *          is included only if it is not blank
+ *
+ * @example
+ * ```typescript
+ * parseSections('# Input\n\nIntro\n\n## Usage\n\nText');
+ * // → [
+ * //   { heading: 'Input', level: 1, anchor: 'input', path: ['Input'], content: 'Intro' },
+ * //   { heading: 'Usage', level: 2, anchor: 'usage', path: ['Input', 'Usage'], content: 'Text' },
+ * // ]
+ * ```
+ */
+export function parseSections(content: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const anchors = new Map<string, number>();
+  const enclosing: Array<{ level: number; heading: string }> = [];
+
+  let current: DocumentSection = { heading: '', level: 0, anchor: '', path: [], content: '' };
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  /** Close the current section, keeping it unless it is blank text before the first heading */
+  const closeSection = (): void => {
+    current.content = lines.join('\n').replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+    if (current.level > 0 || current.content.length > 0) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of parseFrontmatter(content).body.split('\n')) {
+    fence = updateFence(line, fence);
+    const headingMatch = fence === null ? line.match(HEADING_PATTERN) : null;
+    if (!headingMatch) {
+      lines.push(line);
+      continue;
+    }
+
+    closeSection();
+
+    const level = headingMatch[1].length;
+    const heading = headingMatch[2].trim();
+    while (enclosing.length > 0 && enclosing[enclosing.length - 1].level >= level) {
+      enclosing.pop();
+    }
+    enclosing.push({ level, heading });
+
+    current = {
+      heading,
+      level,
+      anchor: uniqueAnchor(slugify(heading), anchors),
+      path: enclosing.map((section) => section.heading),
+      content: '',
+    };
+    lines = [];
+  }
+
+  closeSection();
+  return sections;
+}
+
+/**
+ * Find where the headings of a markdown text start.
+ *
+ * Headings inside fenced code blocks are ignored, like in `parseSections`.
+ * Used to split long text at heading boundaries.
+ *
+ * @param text - Markdown text
+ * @returns Character offsets of the heading lines, in ascending order
+ *
+ * @example
+ * ```typescript
+ * findHeadingOffsets('# A\ntext\n## B'); // [0, 9]
+ * ```
+ */
+export function findHeadingOffsets(text: string): number[] {
+  const offsets: number[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    fence = updateFence(line, fence);
+    if (fence === null && HEADING_PATTERN.test(line)) {
+      offsets.push(offset);
+    }
+    offset += line.length + 1;
+  }
+
+  return offsets;
+}
+
+/**
+ * Turn heading text into a URL fragment the way GitHub does: lowercase,
+ * punctuation removed, and spaces replaced by hyphens.
+ *
+ * @param heading - Heading text (markdown links are reduced to their text)
+ * @returns The anchor slug, without a leading `#`
+ *
+ * @example
+ * ```typescript
+ * slugify('Controlled vs Uncontrolled'); // 'controlled-vs-uncontrolled'
+ * slugify('Date & Time');                // 'date--time'
+ * ```
+ */
+export function slugify(heading: string): string {
+  return heading
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Format a section's heading path for display.
+ *
+ * @param path - Headings from the outermost section down
+ * @returns The headings joined with " › " (e.g., "Input › Usage")
+ */
+export function formatSectionPath(path: string[]): string {
+  return path.join(PATH_SEPARATOR);
+}
+
+/**
+ * Find a section by its anchor, heading, or heading path.
+ *
+ * The lookup is tried, in order, as:
+ * 1. An anchor (`controlled-vs-uncontrolled`, `#example-1`)
+ * 2. A heading (`Controlled vs Uncontrolled`, case-insensitive — the first
+ *    section with that heading)
+ * 3. A heading path (`Input › Usage`, `Usage > Controlled`, `Usage/Controlled`)
+ *    — the first section whose path ends with the given headings
+ *
+ * Headings are compared by their slugs, so punctuation and case don't matter.
+ * Text before the first heading cannot be looked up.
+ *
+ * @param sections - The document's sections (from `parseSections`)
+ * @param lookup - Anchor, heading, or heading path
+ * @returns Index of the matching section, or -1 if none matches
+ */
+export function findSection(sections: DocumentSection[], lookup: string): number {
+  const query = lookup.trim().replace(/^#+\s*/, '');
+  if (query.length === 0) {
+    return -1;
+  }
+
+  const headings = sections.map((section) => (section.level > 0 ? section : null));
+  const byAnchor = headings.findIndex((section) => section?.anchor === query.toLowerCase());
+  if (byAnchor >= 0) {
+    return byAnchor;
+  }
+
+  const slug = slugify(query);
+  const byHeading = headings.findIndex((section) => section !== null && slugify(section.heading) === slug);
+  if (byHeading >= 0) {
+    return byHeading;
+  }
+
+  const wanted = query.split(PATH_SEPARATOR_PATTERN).map(slugify).filter((part) => part.length > 0);
+  return headings.findIndex((section) => {
+    if (section === null || wanted.length < 2 || section.path.length < wanted.length) {
+      return false;
+    }
+    const tail = section.path.slice(-wanted.length).map(slugify);
+    return tail.every((part, i) => part === wanted[i]);
+  });
+}
+
+/**
+ * Render a section and all of its sub-sections back to markdown.
+ *
+ * Sub-sections are the sections that follow it with a deeper heading level,
+ * up to the next heading of the same or a higher level.
+ *
+ * @param sections - The document's sections (from `parseSections`)
+ * @param index - Index of the section to render
+ * @returns The section's heading, text, and sub-sections as markdown
+ *
+ * @example
+ * ```typescript
+ * const sections = parseSections('## Usage\n\nA\n\n### Controlled\n\nB\n\n## Props\n\nC');
+ * getSectionMarkdown(sections, 0); // '## Usage\n\nA\n\n### Controlled\n\nB'
+ * ```
+ */
+export function getSectionMarkdown(sections: DocumentSection[], index: number): string {
+  const { level } = sections[index];
+  let end = index + 1;
+  while (end < sections.length && sections[end].level > level) {
+    end++;
+  }
+
+  return sections
+    .slice(index, end)
+    .map(formatSectionMarkdown)
+    .filter((part) => part.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Build a document's outline: the tree of its H1–H4 headings.
+ *
+ * Each node's size and code/table flags cover its whole section, including
+ * sub-sections and headings deeper than H4 (which are not in the tree).
+ * Text before the first heading is left out.
+ *
+ * @param sections - The document's sections (from `parseSections`)
+ * @returns The top-level headings, with their sub-headings as children
+ *
+ * @example
+ * ```typescript
+ * buildOutline(parseSections('# Input\n\n## Usage\n\n```tsx\n<Input />\n```'));
+ * // → [{ heading: 'Input', level: 1, tokens: 10, hasCode: true, hasTable: false,
+ * //      children: [{ heading: 'Usage', level: 2, tokens: 8, hasCode: true, ... }], ... }]
+ * ```
+ */
+export function buildOutline(sections: DocumentSection[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const enclosing: OutlineNode[] = [];
+
+  for (const section of sections) {
+    if (section.level === 0) {
+      continue;
+    }
+
+    if (section.level <= OUTLINE_MAX_LEVEL) {
+      while (enclosing.length > 0 && enclosing[enclosing.length - 1].level >= section.level) {
+        enclosing.pop();
+      }
+      const { heading, level, anchor, path } = section;
+      const node: OutlineNode = {
+        heading,
+        level,
+        anchor,
+        path,
+        tokens: 0,
+        hasCode: false,
+        hasTable: false,
+        children: [],
+      };
+      (enclosing.length > 0 ? enclosing[enclosing.length - 1].children : roots).push(node);
+      enclosing.push(node);
+    }
+
+    // Count the section toward its own node (if any) and every enclosing one
+    const tokens = estimateTokens(formatSectionMarkdown(section));
+    const hasCode = CODE_BLOCK_PATTERN.test(section.content);
+    const hasTable = TABLE_DELIMITER_PATTERN.test(section.content);
+    for (const node of enclosing) {
+      node.tokens += tokens;
+      node.hasCode ||= hasCode;
+      node.hasTable ||= hasTable;
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Estimate the number of tokens a text takes up in a model's context.
+ *
+ * @param text - Any text
+ * @returns Approximate token count (one token per CHARS_PER_TOKEN characters)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Render a single section (without its sub-sections) back to markdown.
+ *
+ * @param section - A document section
+ * @returns The section's heading line and text
+ */
+function formatSectionMarkdown(section: DocumentSection): string {
+  const heading = section.level > 0 ? `${'#'.repeat(section.level)} ${section.heading}` : '';
+  return [heading, section.content].filter((part) => part.length > 0).join('\n\n');
+}
+
+/**
+ * Track whether a line opens or closes a fenced code block.
+ *
+ * A fence is closed only by the marker that opened it (``` or ~~~).
+ *
+ * @param line - The next line of the document
+ * @param fence - The marker of the open fence before the line, or null
+ * @returns The marker of the open fence after the line, or null
+ */
+function updateFence(line: string, fence: string | null): string | null {
+  const marker = line.match(FENCE_PATTERN)?.[1];
+  if (marker === undefined) {
+    return fence;
+  }
+  return fence === null ? marker : fence === marker ? null : fence;
+}
+
+/**
+ * Make an anchor unique within a document by numbering repeats.
+ *
+ * @param anchor - The anchor slug
+ * @param seen - How often each slug was used so far (updated)
+ * @returns The slug, or the slug with `-1`, `-2`, … appended for repeats
+ */
+function uniqueAnchor(anchor: string, seen: Map<string, number>): string {
+  const count = seen.get(anchor) ?? 0;
+  seen.set(anchor, count + 1);
+  return count === 0 ? anchor : `${anchor}-${count}`;
+}
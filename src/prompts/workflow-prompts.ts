@@ -0,0 +1,355 @@
+/**
+ * MCP prompts — reusable, doc-grounded prompt templates for common workflows.
+ *
+ * Each prompt bundles a task instruction with the FluentUI documentation
+ * the task depends on, so every user starts from the same, complete context
+ * instead of hand-writing instructions:
+ *
+ * - `build-form-with-validation` — implementation guide + validation pattern
+ * - `migrate-to-v9` — setup/imports + styling foundation (+ target component props)
+ * - `audit-accessibility` — accessibility foundation + WCAG checklist
+ *
+ * Reference content is assembled by the same functions that back the tools
+ * (`getImplementationGuide`, `getPattern`, `getFoundation`, ...), so prompts
+ * and tools always present the docs identically. Like the tools, every
+ * prompt takes an optional `version` naming the docs to draw from, and its
+ * instructions name that version. `migrate-to-v9` only accepts v9.
+ *
+ * @module prompts/workflow-prompts
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Prompt,
+  PromptArgument,
+  PromptMessage,
+  GetPromptResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { VersionIndex } from '../tools/dispatcher.js';
+import { getImplementationGuide } from '../tools/get-implementation-guide.js';
+import { getPattern } from '../tools/get-pattern.js';
+import { getFoundation } from '../tools/get-foundation.js';
+import { getPropsReference } from '../tools/get-props-reference.js';
+
+/**
+ * Document ID of the quick-reference accessibility checklist.
+ * Included in the audit prompt when present in the index.
+ */
+const ACCESSIBILITY_CHECKLIST_ID = 'quick-reference/accessibility-checklist';
+
+/**
+ * Document ID of the quick-reference setup & imports sheet.
+ * Included in the migration prompt when present in the index.
+ */
+const SETUP_IMPORTS_ID = 'quick-reference/setup-imports';
+
+/**
+ * npm package that each FluentUI version is imported from.
+ * Versions not listed here are referred to by the docs they ship with.
+ */
+const VERSION_PACKAGES: Record<string, string> = {
+  v8: '@fluentui/react',
+  v9: '@fluentui/react-components',
+};
+
+/**
+ * The optional `version` argument accepted by every prompt.
+ * Resolved by the server, which passes the version's index to `getWorkflowPrompt`.
+ */
+const VERSION_ARGUMENT: PromptArgument = {
+  name: 'version',
+  description:
+    'Optional: FluentUI version whose docs to use (e.g., "v8", "v9"). ' +
+    'Defaults to the server\'s default version.',
+  required: false,
+};
+
+/**
+ * The `version` argument of `migrate-to-v9`, which only draws from the v9 docs.
+ */
+const MIGRATION_VERSION_ARGUMENT: PromptArgument = {
+  name: 'version',
+  description: 'Optional: must be "v9" if given. Defaults to the server\'s default version.',
+  required: false,
+};
+
+/**
+ * A prompt template: its MCP definition plus the function that fills it in.
+ */
+interface WorkflowPrompt {
+  /** Definition returned by `prompts/list` */
+  definition: Prompt;
+
+  /** The only docs version the prompt can be filled in from, if it is tied to one */
+  version?: string;
+
+  /**
+   * Build the prompt messages.
+   * Required arguments are validated before this is called.
+   */
+  buildMessages: (args: Record<string, string>, index: VersionIndex) => PromptMessage[];
+}
+
+/**
+ * All workflow prompts, in the order they are listed to clients.
+ */
+const WORKFLOW_PROMPTS: WorkflowPrompt[] = [
+  {
+    definition: {
+      name: 'build-form-with-validation',
+      title: 'Build a form with validation',
+      description:
+        'Build a FluentUI form with field-level validation, grounded in the ' +
+        'implementation guide and the forms validation pattern.',
+      arguments: [
+        {
+          name: 'formDescription',
+          description: 'What the form collects (e.g., "user registration with email, password, and terms checkbox")',
+          required: true,
+        },
+        VERSION_ARGUMENT,
+      ],
+    },
+    buildMessages: (args, index) => [
+      referenceMessage(
+        'Implementation Guide',
+        getImplementationGuide(index.store, index.searchEngine, {
+          goal: `form with validation: ${args.formDescription}`,
+        })
+      ),
+      referenceMessage(
+        'Forms Pattern: Validation',
+        getPattern(index.store, { patternCategory: 'forms', patternName: 'validation' })
+      ),
+      taskMessage([
+        `Build a React form using FluentUI ${index.version} for: **${args.formDescription}**`,
+        '',
+        'Requirements:',
+        '- Wrap every input in `<Field>` with a visible `label`',
+        '- Show errors via `validationState` and `validationMessage`, following the validation pattern above',
+        '- Mark required fields with `required`',
+        '- Disable or guard the submit button while submitting',
+        importRequirement(index.version),
+        '',
+        'Return a single, complete TypeScript component.',
+      ]),
+    ],
+  },
+  {
+    definition: {
+      name: 'migrate-to-v9',
+      title: 'Migrate a component to FluentUI v9',
+      description:
+        'Migrate existing React code (FluentUI v8 / Office UI Fabric or plain React) to ' +
+        'FluentUI v9, grounded in the setup, styling, and (optionally) target component docs.',
+      arguments: [
+        {
+          name: 'code',
+          description: 'The component source code to migrate',
+          required: true,
+        },
+        {
+          name: 'targetComponent',
+          description: 'Optional: the v9 component to migrate to (e.g., "Dropdown"); its props reference is included',
+          required: false,
+        },
+        MIGRATION_VERSION_ARGUMENT,
+      ],
+    },
+    version: 'v9',
+    buildMessages: (args, index) => {
+      const messages: PromptMessage[] = [];
+
+      const setupDoc = index.store.getById(SETUP_IMPORTS_ID);
+      if (setupDoc) {
+        messages.push(referenceMessage('Setup & Imports', setupDoc.content));
+      }
+
+      messages.push(
+        referenceMessage(
+          'Foundation: Styling with Griffel',
+          getFoundation(index.store, { topic: 'styling-griffel' })
+        )
+      );
+
+      if (args.targetComponent) {
+        messages.push(
+          referenceMessage(
+            `${args.targetComponent} Props`,
+            getPropsReference(index.store, { componentName: args.targetComponent })
+          )
+        );
+      }
+
+      messages.push(
+        taskMessage([
+          `Migrate the following component to FluentUI ${index.version} (\`${VERSION_PACKAGES[index.version]}\`).`,
+          '',
+          'Requirements:',
+          '- Replace v8 components with their v9 equivalents and update props accordingly',
+          '- Replace `mergeStyles`/`styles` props with `makeStyles` + `tokens`, as in the styling reference above',
+          '- Ensure the tree is wrapped in `<FluentProvider>` (mention it if the provider lives elsewhere)',
+          '- Preserve the existing behavior and public props of the component',
+          '- List any behavior that cannot be migrated one-to-one',
+          '',
+          '```tsx',
+          args.code,
+          '```',
+        ])
+      );
+
+      return messages;
+    },
+  },
+  {
+    definition: {
+      name: 'audit-accessibility',
+      title: 'Audit JSX for accessibility',
+      description:
+        'Audit FluentUI JSX for accessibility issues, grounded in the accessibility ' +
+        'foundation doc and the WCAG quick checklist.',
+      arguments: [
+        {
+          name: 'code',
+          description: 'The JSX/TSX code to audit',
+          required: true,
+        },
+        VERSION_ARGUMENT,
+      ],
+    },
+    buildMessages: (args, index) => {
+      const messages: PromptMessage[] = [
+        referenceMessage(
+          'Foundation: Accessibility',
+          getFoundation(index.store, { topic: 'accessibility' })
+        ),
+      ];
+
+      const checklistDoc = index.store.getById(ACCESSIBILITY_CHECKLIST_ID);
+      if (checklistDoc) {
+        messages.push(referenceMessage('Accessibility Checklist', checklistDoc.content));
+      }
+
+      messages.push(
+        taskMessage([
+          'Audit the following JSX for accessibility issues using the references above.',
+          '',
+          'For each issue, report:',
+          '- The offending element (quote the line)',
+          '- The WCAG criterion or FluentUI guideline it violates',
+          `- A concrete fix using FluentUI ${index.version} APIs`,
+          '',
+          'Finish with a corrected version of the code.',
+          '',
+          '```tsx',
+          args.code,
+          '```',
+        ])
+      );
+
+      return messages;
+    },
+  },
+];
+
+/**
+ * List the definitions of all workflow prompts.
+ *
+ * @returns Prompt definitions for `prompts/list`
+ */
+export function listWorkflowPrompts(): Prompt[] {
+  return WORKFLOW_PROMPTS.map((prompt) => prompt.definition);
+}
+
+/**
+ * Fill in a workflow prompt.
+ *
+ * @param name - Prompt name (e.g., "audit-accessibility")
+ * @param args - Prompt arguments supplied by the client
+ * @param index - The version index used to assemble reference docs
+ * @returns The prompt description and messages
+ * @throws McpError (InvalidParams) if the prompt is unknown, a required argument is missing,
+ *   or the prompt is tied to another version than the index's
+ */
+export function getWorkflowPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  index: VersionIndex
+): GetPromptResult {
+  const prompt = WORKFLOW_PROMPTS.find((p) => p.definition.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const providedArgs = args ?? {};
+
+  // Reject blank values as well as missing ones — an empty form description
+  // or empty code snippet would produce a meaningless prompt
+  for (const argument of prompt.definition.arguments ?? []) {
+    const value = providedArgs[argument.name];
+    if (argument.required && (!value || value.trim().length === 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument "${argument.name}" for prompt "${name}"`
+      );
+    }
+  }
+
+  if (prompt.version && index.version !== prompt.version) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt "${name}" only supports version "${prompt.version}", not "${index.version}"`
+    );
+  }
+
+  return {
+    description: prompt.definition.description,
+    messages: prompt.buildMessages(providedArgs, index),
+  };
+}
+
+/**
+ * Build the requirement line naming the package to import from.
+ *
+ * @param version - Docs version the prompt is filled in from
+ * @returns A requirement list item
+ */
+function importRequirement(version: string): string {
+  const packageName = VERSION_PACKAGES[version];
+  return packageName
+    ? `- Import everything from \`${packageName}\``
+    : '- Import from the FluentUI packages used in the references above';
+}
+
+/**
+ * Wrap reference documentation in a user message.
+ *
+ * @param label - Short label naming the reference (shown as a heading)
+ * @param markdown - The reference documentation
+ * @returns A user-role prompt message
+ */
+function referenceMessage(label: string, markdown: string): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'text',
+      text: `# Reference: ${label}\n\n${markdown}`,
+    },
+  };
+}
+
+/**
+ * Build the final task instruction message.
+ *
+ * @param lines - Instruction lines (joined with newlines)
+ * @returns A user-role prompt message
+ */
+function taskMessage(lines: string[]): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'text',
+      text: lines.join('\n'),
+    },
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * MCP resources — exposes every indexed document as a readable resource.
+ *
+ * Tools are the right fit when the LLM needs a processed answer (search
+ * results, extracted props). Resources let a client attach a document to
+ * the conversation context directly, without a tool round-trip.
+ *
+ * URI scheme: `fluentui://{version}/{documentId}`
+ * - `fluentui://v9/components/buttons/button`
+ * - `fluentui://v9/foundation/theming`
+ *
+ * Resource templates additionally allow lookups by name:
+ * - `fluentui://{version}/component/{name}` → fuzzy component name match
+ *
+ * @module resources/document-resources
+ */
+
+import type {
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DocumentStore } from '../indexer/document-store.js';
+import type { DocumentEntry } from '../types/index.js';
+
+/** URI scheme used for all documentation resources */
+export const RESOURCE_URI_SCHEME = 'fluentui';
+
+/** MIME type reported for all documentation resources (raw markdown) */
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+/**
+ * Path prefix of the name-lookup template.
+ * Document IDs never start with "component/" (component docs live under
+ * "components/"), so this prefix cannot collide with a real document ID.
+ */
+const COMPONENT_LOOKUP_PREFIX = 'component/';
+
+/** URI template for looking up a component document by name */
+export const COMPONENT_TEMPLATE_URI = `${RESOURCE_URI_SCHEME}://{version}/${COMPONENT_LOOKUP_PREFIX}{name}`;
+
+/** URI template for addressing any document by its ID */
+export const DOCUMENT_TEMPLATE_URI = `${RESOURCE_URI_SCHEME}://{version}/{+documentId}`;
+
+/**
+ * Regex to split a resource URI into its version and path parts.
+ * e.g., "fluentui://v9/components/buttons/button" → ["v9", "components/buttons/button"]
+ */
+const RESOURCE_URI_RE = new RegExp(`^${RESOURCE_URI_SCHEME}://([^/]+)/(.+)$`);
+
+/**
+ * Parsed form of a `fluentui://` resource URI.
+ */
+export interface ParsedResourceUri {
+  /** FluentUI version segment (e.g., "v9") */
+  version: string;
+
+  /** Everything after the version (a document ID or a template path) */
+  path: string;
+}
+
+/**
+ * Build the canonical resource URI for a document.
+ *
+ * @param version - FluentUI version the document belongs to
+ * @param docId - Document ID (e.g., "components/buttons/button")
+ * @returns Resource URI (e.g., "fluentui://v9/components/buttons/button")
+ */
+export function buildResourceUri(version: string, docId: string): string {
+  return `${RESOURCE_URI_SCHEME}://${version}/${docId}`;
+}
+
+/**
+ * Parse a `fluentui://` resource URI.
+ *
+ * @param uri - Resource URI to parse
+ * @returns The version and path, or null if the URI is not a fluentui:// URI
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  const match = uri.match(RESOURCE_URI_RE);
+  if (!match) {
+    return null;
+  }
+  return { version: match[1], path: match[2] };
+}
+
+/**
+ * List every document in the store as an MCP resource.
+ *
+ * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @returns One resource descriptor per document, sorted by URI
+ */
+export function listDocumentResources(
+  store: DocumentStore,
+  version: string
+): Resource[] {
+  return store
+    .getAllDocuments()
+    .map((doc) => toResource(doc, version))
+    .sort((a, b) => a.uri.localeCompare(b.uri));
+}
+
+/**
+ * List the resource templates clients can fill in to address documents.
+ *
+ * @returns Resource template descriptors
+ */
+export function listDocumentResourceTemplates(): ResourceTemplate[] {
+  return [
+    {
+      uriTemplate: COMPONENT_TEMPLATE_URI,
+      name: 'component-by-name',
+      title: 'FluentUI component by name',
+      description:
+        'Component documentation looked up by name (case-insensitive, partial names allowed), ' +
+        'e.g. fluentui://v9/component/button',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+    {
+      uriTemplate: DOCUMENT_TEMPLATE_URI,
+      name: 'document-by-id',
+      title: 'FluentUI document by ID',
+      description:
+        'Any indexed document by its ID, e.g. fluentui://v9/components/buttons/button ' +
+        'or fluentui://v9/foundation/theming',
+      mimeType: MARKDOWN_MIME_TYPE,
+    },
+  ];
+}
+
+/**
+ * Resolve a resource URI to the document it addresses.
+ *
+ * Supports both canonical document URIs and the `component/{name}` template.
+ *
+ * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @param uri - Resource URI requested by the client
+ * @returns The matching document, or undefined if the URI does not resolve
+ */
+export function resolveDocumentResource(
+  store: DocumentStore,
+  version: string,
+  uri: string
+): DocumentEntry | undefined {
+  const parsed = parseResourceUri(uri);
+  if (!parsed || parsed.version !== version) {
+    return undefined;
+  }
+
+  // Template lookup: fluentui://v9/component/{name}
+  if (parsed.path.startsWith(COMPONENT_LOOKUP_PREFIX)) {
+    const name = safeDecode(parsed.path.slice(COMPONENT_LOOKUP_PREFIX.length));
+    return name ? store.findByName(name) : undefined;
+  }
+
+  // Canonical lookup: fluentui://v9/{documentId}
+  const docId = safeDecode(parsed.path);
+  return docId ? store.getById(docId) : undefined;
+}
+
+/**
+ * Read a document resource.
+ *
+ * The returned content carries the document's canonical URI, which may
+ * differ from the requested one when a template URI was used.
+ *
+ * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @param uri - Resource URI requested by the client
+ * @returns The resource contents, or null if the URI does not resolve
+ */
+export function readDocumentResource(
+  store: DocumentStore,
+  version: string,
+  uri: string
+): ReadResourceResult | null {
+  const doc = resolveDocumentResource(store, version, uri);
+  if (!doc) {
+    return null;
+  }
+
+  return {
+    contents: [
+      {
+        uri: buildResourceUri(version, doc.id),
+        mimeType: MARKDOWN_MIME_TYPE,
+        text: doc.content,
+      },
+    ],
+  };
+}
+
+/**
+ * Decode a percent-encoded URI segment without throwing.
+ * Malformed escapes (e.g., "%E0") are treated as an unresolvable URI.
+ *
+ * @param segment - Percent-encoded URI segment
+ * @returns The decoded string, or null if the encoding is malformed
+ */
+function safeDecode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Convert a document entry into an MCP resource descriptor.
+ *
+ * @param doc - The document entry
+ * @param version - FluentUI version the document belongs to
+ * @returns Resource descriptor for `resources/list`
+ */
+function toResource(doc: DocumentEntry, version: string): Resource {
+  const resource: Resource = {
+    uri: buildResourceUri(version, doc.id),
+    name: doc.id,
+    title: doc.title,
+    mimeType: MARKDOWN_MIME_TYPE,
+    size: Buffer.byteLength(doc.content, 'utf-8'),
+  };
+
+  if (doc.metadata.description) {
+    resource.description = doc.metadata.description;
+  }
+
+  return resource;
+}
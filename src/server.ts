@@ -0,0 +1,174 @@
+/**
+ * MCP server factory.
+ *
+ * Creates a fully configured MCP `Server` instance with all request handlers
+ * registered, but does not connect it to any transport. The entry point
+ * decides how the server is exposed (stdio or Streamable HTTP).
+ *
+ * A `Server` instance can only be connected to one transport at a time.
+ * The HTTP transport therefore calls this factory once per client session,
+ * while every instance shares the same `ToolContext` — one set of
+ * per-version indexes serves all sessions.
+ *
+ * @module server
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { TOOL_DEFINITIONS } from './tools/definitions.js';
+import { dispatchToolCall, getVersionIndex, formatUnknownVersion } from './tools/dispatcher.js';
+import type { ToolContext } from './tools/dispatcher.js';
+import {
+  listDocumentResources,
+  listDocumentResourceTemplates,
+  readDocumentResource,
+  parseResourceUri,
+} from './resources/document-resources.js';
+import { listWorkflowPrompts, getWorkflowPrompt } from './prompts/workflow-prompts.js';
+import { completeArgument } from './completions/argument-completions.js';
+import type { ServerConfig } from './types/index.js';
+
+/**
+ * JSON-RPC error code for a resource URI that does not resolve.
+ * Defined by the MCP specification (not part of the SDK's ErrorCode enum).
+ */
+const RESOURCE_NOT_FOUND_ERROR = -32002;
+
+/**
+ * Create a new MCP server with all tool, resource, and prompt handlers registered.
+ *
+ * Registers:
+ * - `tools/list` → returns all tool definitions
+ * - `tools/call` → dispatches to the tool implementations
+ * - `resources/list` → every indexed document of every version as a `fluentui://` resource
+ * - `resources/templates/list` → URI templates for name/ID lookups
+ * - `resources/read` → raw markdown of the addressed document (version taken from the URI)
+ * - `prompts/list` → the doc-grounded workflow prompts
+ * - `prompts/get` → a workflow prompt filled in with reference docs
+ * - `completion/complete` → suggestions for prompt, tool, and template arguments
+ *
+ * Tool errors are caught and returned as `isError` results rather than
+ * protocol errors, so the LLM can see and react to the error message.
+ *
+ * In watch mode the server also advertises `resources.listChanged`, and the
+ * entry point sends `notifications/resources/list_changed` after each
+ * automatic reindex.
+ *
+ * @param config - Server identity reported to clients, and whether watch mode is on
+ * @param context - The shared per-version indexes the tools operate on
+ * @returns An unconnected MCP server instance
+ *
+ * @example
+ * ```typescript
+ * const server = createMcpServer(config, { indexes, defaultVersion: 'v9' });
+ * await server.connect(new StdioServerTransport());
+ * ```
+ */
+export function createMcpServer(
+  config: Pick<ServerConfig, 'serverName' | 'serverVersion'> & Partial<Pick<ServerConfig, 'watch'>>,
+  context: ToolContext
+): Server {
+  const server = new Server(
+    {
+      name: config.serverName,
+      version: config.serverVersion,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: config.watch ? { listChanged: true } : {},
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  // Returns all tool definitions
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOL_DEFINITIONS };
+  });
+
+  // Dispatches to tool implementations
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: toolArgs } = request.params;
+
+    try {
+      const result = await dispatchToolCall(name, toolArgs ?? {}, context);
+
+      return {
+        content: [{ type: 'text' as const, text: result.text }],
+        ...(result.structured && { structuredContent: { ...result.structured } }),
+        ...(result.isError && { isError: true }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[fluentui-mcp] Tool error (${name}): ${message}`);
+
+      return {
+        content: [{ type: 'text' as const, text: `**Error:** ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // Lists every indexed document of every version as a resource
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const indexes = Array.from(context.indexes.values());
+    return {
+      resources: indexes.flatMap(({ store, version }) => listDocumentResources(store, version)),
+    };
+  });
+
+  // Lists the URI templates for addressing documents
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listDocumentResourceTemplates() };
+  });
+
+  // Reads a single document by URI
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const index = context.indexes.get(parseResourceUri(uri)?.version ?? '');
+    const result = index ? readDocumentResource(index.store, index.version, uri) : null;
+
+    if (!result) {
+      throw new McpError(RESOURCE_NOT_FOUND_ERROR, `Resource not found: ${uri}`, { uri });
+    }
+
+    return result;
+  });
+
+  // Lists the workflow prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listWorkflowPrompts() };
+  });
+
+  // Fills in a workflow prompt from the requested version's docs
+  // (throws InvalidParams for a bad name, arguments, or version)
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs } = request.params;
+    const index = getVersionIndex(context, promptArgs?.version);
+    if (!index) {
+      throw new McpError(ErrorCode.InvalidParams, formatUnknownVersion(context, promptArgs?.version));
+    }
+    return getWorkflowPrompt(name, promptArgs, index);
+  });
+
+  // Suggests values for arguments with a known domain (names, topics, ...)
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    return { completion: completeArgument(request.params, context) };
+  });
+
+  return server;
+}
@@ -0,0 +1,351 @@
+/**
+ * Tool: compare_components — Compare 2–5 FluentUI components side by side.
+ *
+ * Answers "Select vs Combobox" or "Dialog vs Drawer vs Popover" from the
+ * docs: package and import, the props every component shares and
+ * the ones only one of them has (from the parsed props tables), slots,
+ * when to use each (its Overview and Best Practices sections), and
+ * accessibility notes (its Accessibility section).
+ *
+ * Guidance is taken from the docs as written: list items, table rows, and
+ * the `// ✅` / `// ❌` comments the docs put in their Do's and Don'ts code
+ * blocks. Sections that already compare two of the components
+ * (e.g., "Select vs Combobox") are pointed to for `get_section`.
+ *
+ * Names without a doc (there is no "Dropdown" doc) are reported, and the
+ * remaining components compared, as long as two of them are left.
+ *
+ * @module tools/compare-components
+ */
+
+import type { DocumentStore } from '../indexer/document-store.js';
+import { parseSections, formatSectionPath, getSectionMarkdown } from '../indexer/section-parser.js';
+import type {
+  CompareComponentsArgs,
+  CompareComponentsOutput,
+  ComponentComparison,
+  DocumentEntry,
+  DocumentSection,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentSummary, toolError, formatError, escapeTableCell } from './tool-result.js';
+
+/** Fewest components a comparison takes */
+const MIN_COMPONENTS = 2;
+
+/** Most components a comparison takes */
+const MAX_COMPONENTS = 5;
+
+/** Heading of the section with usage guidance */
+const BEST_PRACTICES_PATTERN = /^Best Practices$/i;
+
+/** Heading of the accessibility section */
+const ACCESSIBILITY_PATTERN = /^Accessibility\b/i;
+
+/** Heading of a section comparing components (e.g., "Select vs Combobox") */
+const VERSUS_PATTERN = /\bvs\.?(?=\s)/i;
+
+/** A heading or a note marking guidance as something to avoid */
+const AVOID_PATTERN = /^(?:❌|don'?t\b|do not\b|avoid\b|never\b)/i;
+
+/** Leading markers of a note: check marks, crosses, and task boxes */
+const NOTE_MARKER_PATTERN = /^(?:(?:✅|❌|⚠️?)\s*|\[[ x]\]\s*)+/i;
+
+/**
+ * Execute the compare_components tool.
+ *
+ * @param store - The populated document store
+ * @param args - Tool arguments with the component names
+ * @returns Formatted markdown comparison, or an error message
+ *
+ * @example
+ * ```typescript
+ * const comparison = compareComponents(store, { components: ['Select', 'Combobox'] });
+ * // Returns a side-by-side table, shared props, when to use each, and accessibility notes
+ * ```
+ */
+export function compareComponents(store: DocumentStore, args: CompareComponentsArgs): string {
+  return compareComponentsResult(store, args).text;
+}
+
+/**
+ * Execute the compare_components tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store
+ * @param args - Tool arguments with the component names
+ * @returns The markdown rendering and the structured result
+ */
+export function compareComponentsResult(
+  store: DocumentStore,
+  args: CompareComponentsArgs
+): ToolResult<CompareComponentsOutput> {
+  const names = Array.isArray(args.components)
+    ? args.components.filter((name) => typeof name === 'string' && name.trim().length > 0).map((name) => name.trim())
+    : [];
+
+  if (names.length < MIN_COMPONENTS || names.length > MAX_COMPONENTS) {
+    return toolError(formatError(
+      `Between ${MIN_COMPONENTS} and ${MAX_COMPONENTS} component names are required. ` +
+      'Example: { components: ["Select", "Combobox"] }'
+    ));
+  }
+
+  const found: Array<{ name: string; doc: DocumentEntry }> = [];
+  const notFound: string[] = [];
+  for (const name of names) {
+    const doc = store.findByName(name);
+    const duplicate = doc && found.find((other) => other.doc.id === doc.id);
+    if (duplicate) {
+      return toolError(formatError(
+        `"${duplicate.name}" and "${name}" both resolve to ${doc.title}. Compare different components.`
+      ));
+    }
+    if (doc) {
+      found.push({ name, doc });
+    } else {
+      notFound.push(name);
+    }
+  }
+
+  if (found.length < MIN_COMPONENTS) {
+    return toolError(formatError(
+      `${notFound.map((name) => `"${name}"`).join(', ')} not found, leaving nothing to compare. ` +
+      'Use list_by_category or search_docs to find the component names.'
+    ));
+  }
+
+  const resolved = found.map(({ doc }) => doc);
+  const components = found.map(({ name, doc }) => toComponentComparison(name, doc, resolved));
+  const propNames = components.map((component) => new Set(component.props.map((prop) => prop.name)));
+  const sharedProps = [...propNames[0]].filter((name) => propNames.every((props) => props.has(name)));
+  for (const [i, component] of components.entries()) {
+    component.uniqueProps = [...propNames[i]].filter((name) => (
+      propNames.every((props, j) => j === i || !props.has(name))
+    ));
+  }
+
+  const structured: CompareComponentsOutput = { components, sharedProps, notFound };
+  return { text: formatComparison(structured), structured };
+}
+
+/**
+ * Collect what one component's doc says, for the comparison.
+ *
+ * @param name - The requested name
+ * @param doc - The component's document
+ * @param compared - Documents of every compared component
+ * @returns The component's comparison entry (unique props are filled in by the caller)
+ */
+function toComponentComparison(name: string, doc: DocumentEntry, compared: DocumentEntry[]): ComponentComparison {
+  const isOwn = (component: string | null): boolean =>
+    component === null || component.toLowerCase() === doc.title.toLowerCase();
+  const sections = parseSections(doc.content);
+  const bestPractices = findTopSection(sections, BEST_PRACTICES_PATTERN);
+  const accessibility = findTopSection(sections, ACCESSIBILITY_PATTERN);
+  const practices = bestPractices < 0 ? [] : extractNotes(getSectionMarkdown(sections, bestPractices));
+  const others = compared.filter((other) => other.id !== doc.id).map((other) => other.title.toLowerCase());
+
+  return {
+    name,
+    document: toDocumentSummary(doc),
+    props: doc.props.filter((prop) => isOwn(prop.component)),
+    uniqueProps: [],
+    slots: doc.slots.filter((slot) => isOwn(slot.component)),
+    whenToUse: doc.metadata.description,
+    dos: practices.filter((note) => !note.avoid).map((note) => note.text),
+    donts: practices.filter((note) => note.avoid).map((note) => note.text),
+    accessibility: accessibility < 0
+      ? []
+      : extractNotes(getSectionMarkdown(sections, accessibility)).map((note) => note.text),
+    comparisonSections: sections
+      .filter((section) => (
+        VERSUS_PATTERN.test(section.heading) &&
+        others.some((title) => section.heading.toLowerCase().includes(title))
+      ))
+      .map((section) => formatSectionPath(section.path)),
+  };
+}
+
+/**
+ * Find the first H2 section whose heading matches.
+ *
+ * @param sections - The document's sections
+ * @param pattern - Heading pattern
+ * @returns Index of the section, or -1 if none matches
+ */
+function findTopSection(sections: DocumentSection[], pattern: RegExp): number {
+  return sections.findIndex((section) => section.level === 2 && pattern.test(section.heading));
+}
+
+/**
+ * Extract the notes of a guidance section.
+ *
+ * A note is a list item, a paragraph line, a table row (as
+ * "first cell: other cells"), or a whole-line `//` comment in a code block —
+ * the docs write their Do's and Don'ts as commented examples. A note is
+ * something to avoid when it, or the heading above it, starts with ❌,
+ * "Don't", "Avoid", or "Never".
+ *
+ * @param markdown - The section, with its sub-sections
+ * @returns The notes in document order, without duplicates
+ */
+function extractNotes(markdown: string): Array<{ text: string; avoid: boolean }> {
+  const notes: Array<{ text: string; avoid: boolean }> = [];
+  let fence: string | null = null;
+  let avoidSection = false;
+  let tableRow = 0;
+
+  const addNote = (raw: string): void => {
+    const text = raw.trim().replace(NOTE_MARKER_PATTERN, '').trim();
+    if (text.length > 0 && !notes.some((note) => note.text === text)) {
+      notes.push({ text, avoid: avoidSection || AVOID_PATTERN.test(raw.trim()) });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : (fenceMatch[1] === fence ? null : fence);
+      continue;
+    }
+    if (fence !== null) {
+      const comment = line.match(/^\s*\/\/\s*(.+)$/);
+      if (comment) {
+        addNote(comment[1]);
+      }
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('|')) {
+      tableRow++;
+      const cells = trimmed.replace(/^\||\|$/g, '').split(/(?<!\\)\|/).map((cell) => cell.trim());
+      const isSeparator = cells.every((cell) => /^:?-+:?$/.test(cell));
+      if (tableRow > 1 && !isSeparator) {
+        addNote(cells.length > 1 ? `${cells[0]}: ${cells.slice(1).join(' — ')}` : cells[0]);
+      }
+      continue;
+    }
+    tableRow = 0;
+
+    const heading = trimmed.match(/^#{1,6}\s+(.+)$/);
+    if (heading) {
+      avoidSection = AVOID_PATTERN.test(heading[1].trim());
+      continue;
+    }
+    if (trimmed.length === 0 || /^(?:-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      continue;
+    }
+    addNote(trimmed.replace(/^(?:[-*+]|\d+\.)\s+/, ''));
+  }
+
+  return notes;
+}
+
+/**
+ * Format the comparison: an overview table, then props, guidance, and accessibility.
+ *
+ * @param result - The structured result
+ * @returns Markdown comparison
+ */
+function formatComparison(result: CompareComponentsOutput): string {
+  const { components, sharedProps, notFound } = result;
+  const titles = components.map((component) => component.document.title);
+  const row = (label: string, cells: string[]): string =>
+    `| **${label}** | ${cells.map((cell) => escapeTableCell(cell)).join(' | ')} |`;
+  const codeList = (values: string[]): string =>
+    values.length > 0 ? values.map((value) => `\`${value}\``).join(', ') : '—';
+
+  const lines: string[] = [
+    `# Component Comparison: ${titles.join(' vs ')}`,
+    '',
+  ];
+
+  const renamed = components.filter((component) => (
+    component.name.toLowerCase() !== component.document.title.toLowerCase() &&
+    component.name.toLowerCase() !== component.document.id.toLowerCase()
+  ));
+  if (renamed.length > 0) {
+    lines.push(
+      `> ${renamed.map((component) => `"${component.name}" matched **${component.document.title}**`).join('; ')}.`,
+      ''
+    );
+  }
+  if (notFound.length > 0) {
+    lines.push(
+      `> ⚠️ No documentation for ${notFound.map((name) => `"${name}"`).join(', ')}; ` +
+      'comparing the components that were found.',
+      ''
+    );
+  }
+
+  lines.push(
+    `| | ${titles.map((title) => escapeTableCell(title)).join(' | ')} |`,
+    `|---|${titles.map(() => '---').join('|')}|`,
+    row('Package', components.map((component) => (
+      component.document.packageName ? `\`${component.document.packageName}\`` : '—'
+    ))),
+    row('Import', components.map((component) => (
+      component.document.importStatement ? `\`${component.document.importStatement}\`` : '—'
+    ))),
+    row('When to use', components.map((component) => component.whenToUse ?? '—')),
+    row('Props', components.map((component) => `${component.props.length} documented`)),
+    row('Unique props', components.map((component) => codeList(component.uniqueProps))),
+    row('Slots', components.map((component) => codeList(component.slots.map((slot) => slot.name)))),
+    ''
+  );
+
+  lines.push(`## Shared Props (${sharedProps.length})`, '');
+  if (sharedProps.length === 0) {
+    lines.push('The components document no props in common.', '');
+  } else {
+    lines.push(`| Prop | ${titles.map((title) => escapeTableCell(title)).join(' | ')} |`);
+    lines.push(`|------|${titles.map(() => '---').join('|')}|`);
+    for (const name of sharedProps) {
+      const types = components.map((component) => {
+        const prop = component.props.find((candidate) => candidate.name === name)!;
+        return `\`${escapeTableCell(prop.type)}\``;
+      });
+      lines.push(`| \`${name}\` | ${types.join(' | ')} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## When to Use', '');
+  for (const component of components) {
+    lines.push(`### ${component.document.title}`, '');
+    if (component.whenToUse) {
+      lines.push(component.whenToUse, '');
+    }
+    if (component.dos.length > 0) {
+      lines.push('**Do:**', ...component.dos.map((note) => `- ${note}`), '');
+    }
+    if (component.donts.length > 0) {
+      lines.push('**Avoid:**', ...component.donts.map((note) => `- ${note}`), '');
+    }
+    if (!component.whenToUse && component.dos.length === 0 && component.donts.length === 0) {
+      lines.push('The doc gives no usage guidance.', '');
+    }
+    if (component.comparisonSections.length > 0) {
+      lines.push(`Compared in the doc: ${component.comparisonSections.map((path) => `"${path}"`).join(', ')}`, '');
+    }
+  }
+
+  lines.push('## Accessibility', '');
+  for (const component of components) {
+    lines.push(`### ${component.document.title}`, '');
+    lines.push(
+      ...(component.accessibility.length > 0
+        ? component.accessibility.map((note) => `- ${note}`)
+        : ['The doc has no Accessibility section.']),
+      ''
+    );
+  }
+
+  lines.push(
+    '---',
+    '*Use get_props_reference for the full props of a component, or get_section to read a "vs" section.*'
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,505 @@
+/**
+ * MCP tool definitions.
+ *
+ * Declares the name, LLM-facing description, and JSON Schema input and output
+ * contracts of every tool the server exposes. These definitions are returned
+ * verbatim by the `tools/list` request handler regardless of which transport
+ * the server is connected through.
+ *
+ * @module tools/definitions
+ */
+
+import {
+  QUERY_COMPONENT_OUTPUT_SCHEMA,
+  GET_SECTION_OUTPUT_SCHEMA,
+  GET_OUTLINE_OUTPUT_SCHEMA,
+  GET_RELATED_DOCS_OUTPUT_SCHEMA,
+  SEARCH_DOCS_OUTPUT_SCHEMA,
+  LIST_BY_CATEGORY_OUTPUT_SCHEMA,
+  GET_FOUNDATION_OUTPUT_SCHEMA,
+  GET_PATTERN_OUTPUT_SCHEMA,
+  GET_ENTERPRISE_OUTPUT_SCHEMA,
+  GET_COMPONENT_EXAMPLES_OUTPUT_SCHEMA,
+  GET_PROPS_REFERENCE_OUTPUT_SCHEMA,
+  SUGGEST_COMPONENTS_OUTPUT_SCHEMA,
+  GET_IMPLEMENTATION_GUIDE_OUTPUT_SCHEMA,
+  VALIDATE_USAGE_OUTPUT_SCHEMA,
+  COMPARE_COMPONENTS_OUTPUT_SCHEMA,
+  LIST_ALL_DOCS_OUTPUT_SCHEMA,
+  LINT_DOCS_OUTPUT_SCHEMA,
+  REINDEX_OUTPUT_SCHEMA,
+} from './output-schemas.js';
+import { SEARCH_SCOPES, LINT_RULES } from '../types/index.js';
+
+/**
+ * The optional `version` argument accepted by every tool.
+ * Resolved by the dispatcher, so individual tools never see it.
+ */
+const VERSION_PROPERTY = {
+  version: {
+    type: 'string',
+    description:
+      'Optional: FluentUI version to answer from (e.g., "v8", "v9"). ' +
+      'Defaults to the server\'s default version.',
+  },
+};
+
+/**
+ * The optional pagination arguments accepted by every tool.
+ * Applied by the dispatcher to the tool's text (see `tools/pagination`).
+ */
+const PAGINATION_PROPERTIES = {
+  maxTokens: {
+    type: 'number',
+    minimum: 1,
+    description:
+      'Optional: approximate token budget for the response. Longer responses are split ' +
+      'at headings and end with a cursor to continue with.',
+  },
+  maxChars: {
+    type: 'number',
+    minimum: 1,
+    description: 'Optional: character budget for the response (like maxTokens, in characters)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'Optional: cursor from the footer of the previous page, with the same other arguments',
+  },
+};
+
+/**
+ * All 18 MCP tool definitions.
+ *
+ * Each tool has a name, description (shown to the LLM), an input schema
+ * describing its parameters, and an output schema describing the
+ * `structuredContent` it returns — both in JSON Schema format.
+ */
+export const TOOL_DEFINITIONS = [
+  // --- Core Tools (9) ---
+  {
+    name: 'query_component',
+    description:
+      'Get complete documentation for a specific FluentUI v9 component. ' +
+      'Supports partial name matching (e.g., "button" will find "Button") and corrects typos ' +
+      '("comobox" finds "Combobox", with a "Did you mean" notice). ' +
+      'Returns full component documentation including props, examples, and usage patterns.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        componentName: {
+          type: 'string',
+          description: 'Name of the component (e.g., "Button", "Input", "Dialog")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['componentName'],
+    },
+    outputSchema: QUERY_COMPONENT_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_section',
+    description:
+      'Get a single section of a FluentUI v9 document (e.g., "Accessibility" of Dialog), ' +
+      'including its sub-headings, instead of the whole document. ' +
+      'The document is found by name (component, pattern, or topic; typos are corrected) or ID. ' +
+      'If the heading is not found, returns the document\'s outline to choose from.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        docName: {
+          type: 'string',
+          description: 'Document name or ID (e.g., "Dialog", "validation", "components/forms/input")',
+        },
+        heading: {
+          type: 'string',
+          description:
+            'Heading text, anchor, or heading path (e.g., "Accessibility", ' +
+            '"controlled-vs-uncontrolled", "Usage › Controlled")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['docName', 'heading'],
+    },
+    outputSchema: GET_SECTION_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_outline',
+    description:
+      'Get the table of contents of a FluentUI v9 document: its H1–H4 headings with each ' +
+      'section\'s approximate token size and whether it contains code or tables. ' +
+      'Cheap first step before reading — then fetch only the sections you need with get_section. ' +
+      'Pass a module or folder instead (e.g., "patterns/forms") to outline every document in it.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        docName: {
+          type: 'string',
+          description: 'Document name or ID (e.g., "Input", "validation", "foundation/theming")',
+        },
+        module: {
+          type: 'string',
+          description:
+            'Instead of docName: a module or folder to outline every document of ' +
+            '(e.g., "patterns", "patterns/forms", "03-patterns/forms")',
+        },
+        maxLevel: {
+          type: 'number',
+          minimum: 1,
+          maximum: 4,
+          description: 'Optional: deepest heading level to include (default: 4)',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+    },
+    outputSchema: GET_OUTLINE_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_related_docs',
+    description:
+      'Find how a FluentUI v9 document is linked with the rest of the docs: the documents ' +
+      'that link to it (e.g., which docs reference Field), the documents it links to, and ' +
+      'its broken links (to missing files or headings). ' +
+      'The document is found by name (component, pattern, or topic; typos are corrected) or ID.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        docName: {
+          type: 'string',
+          description: 'Document name or ID (e.g., "Field", "validation", "components/forms/input")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['docName'],
+    },
+    outputSchema: GET_RELATED_DOCS_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'search_docs',
+    description:
+      'Search across all FluentUI v9 documentation using full-text search. ' +
+      'Returns ranked results with relevance scores and excerpts. ' +
+      'Misspelled words are corrected, with a "Did you mean" suggestion. ' +
+      'Code examples are searched too, with identifiers split into words ' +
+      '(onOpenChange also matches "open change"), so this finds which examples use an API. ' +
+      'Optionally filter by module (foundation, components, patterns, enterprise).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            'Search query (e.g., "form validation", "responsive layout"). ' +
+            'Supports "exact phrases" (words in this order), +required and -excluded terms ' +
+            '(e.g., form -dialog), and OR between alternatives (e.g., +dialog OR +drawer). ' +
+            'Filters narrow the results: category:forms, package:@fluentui/react-table, ' +
+            'module:patterns, title:menu, has:examples, has:props (prefix with - to negate). ' +
+            'A query of filters only lists every match (e.g., "category:forms has:props validation").',
+        },
+        module: {
+          type: 'string',
+          enum: ['foundation', 'components', 'patterns', 'enterprise'],
+          description: 'Optional: limit search to a specific documentation module',
+        },
+        searchIn: {
+          type: 'string',
+          enum: [...SEARCH_SCOPES],
+          description:
+            'Optional: search "prose" (text outside code), "code" (code blocks and inline code), ' +
+            'or "all" (default)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of results to return (default: 10, max: 50)',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['query'],
+    },
+    outputSchema: SEARCH_DOCS_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'list_by_category',
+    description:
+      'List all FluentUI v9 components in a specific category. ' +
+      'Valid categories: buttons, forms, navigation, data-display, feedback, overlays, layout, utilities.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        category: {
+          type: 'string',
+          enum: ['buttons', 'forms', 'navigation', 'data-display', 'feedback', 'overlays', 'layout', 'utilities'],
+          description: 'Component category (e.g., "buttons", "forms", "navigation")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['category'],
+    },
+    outputSchema: LIST_BY_CATEGORY_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_foundation',
+    description:
+      'Get FluentUI v9 foundation documentation on core topics. ' +
+      'Topics include: getting-started, fluent-provider, theming, styling-griffel, ' +
+      'component-architecture, accessibility. Omit topic parameter to get the overview.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        topic: {
+          type: 'string',
+          enum: [
+            'getting-started', 'fluent-provider', 'theming',
+            'styling-griffel', 'component-architecture', 'accessibility',
+          ],
+          description: 'Foundation topic (optional). Omit for overview.',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+    },
+    outputSchema: GET_FOUNDATION_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_pattern',
+    description:
+      'Get FluentUI v9 UI pattern documentation. Covers composition, data handling, ' +
+      'forms, layout, modals, navigation, and state management patterns. ' +
+      'Specify a category to list patterns, or also specify a pattern name for details.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        patternCategory: {
+          type: 'string',
+          enum: ['composition', 'data', 'forms', 'layout', 'modals', 'navigation', 'state'],
+          description: 'Pattern category (e.g., "forms", "layout", "navigation")',
+        },
+        patternName: {
+          type: 'string',
+          description: 'Optional: specific pattern within the category (e.g., "validation", "responsive-design")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['patternCategory'],
+    },
+    outputSchema: GET_PATTERN_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_enterprise',
+    description:
+      'Get FluentUI v9 enterprise pattern documentation. Covers app-shell, dashboard, ' +
+      'admin panels, data management, and accessibility compliance patterns.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        topic: {
+          type: 'string',
+          description:
+            'Enterprise topic (e.g., "app-shell", "dashboard", "admin", "data", "accessibility")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['topic'],
+    },
+    outputSchema: GET_ENTERPRISE_OUTPUT_SCHEMA,
+  },
+
+  // --- Intelligence Tools (6) ---
+  {
+    name: 'get_component_examples',
+    description:
+      'Extract all code examples from a FluentUI v9 component\'s documentation. ' +
+      'Returns labeled, ready-to-use code snippets organized by section.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        componentName: {
+          type: 'string',
+          description: 'Component name to extract examples from (e.g., "Button", "Dialog")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['componentName'],
+    },
+    outputSchema: GET_COMPONENT_EXAMPLES_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_props_reference',
+    description:
+      'Extract the props/slots reference table from a FluentUI v9 component\'s documentation. ' +
+      'Returns structured prop definitions with types, defaults, and descriptions. ' +
+      'Pass propName to look up a single prop, or type to filter props by type.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        componentName: {
+          type: 'string',
+          description: 'Component name to extract props from (e.g., "Button", "Input")',
+        },
+        propName: {
+          type: 'string',
+          description: 'Only return this prop or slot (e.g., "appearance", "icon")',
+        },
+        type: {
+          type: 'string',
+          description: 'Only return props whose type contains this text (e.g., "boolean", "Slot")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['componentName'],
+    },
+    outputSchema: GET_PROPS_REFERENCE_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'suggest_components',
+    description:
+      'Suggest FluentUI v9 components for a described UI scenario. ' +
+      'Describe what you want to build and get ranked component suggestions with relevance scores.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        uiDescription: {
+          type: 'string',
+          description: 'Description of the UI you want to build (e.g., "a user profile card with avatar and actions")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['uiDescription'],
+    },
+    outputSchema: SUGGEST_COMPONENTS_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'get_implementation_guide',
+    description:
+      'Generate a step-by-step implementation guide for a FluentUI v9 UI goal. ' +
+      'Includes component suggestions, imports, patterns, styling tips, and accessibility checklist.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        goal: {
+          type: 'string',
+          description: 'Description of the UI goal (e.g., "build a settings page with form validation")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['goal'],
+    },
+    outputSchema: GET_IMPLEMENTATION_GUIDE_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'validate_usage',
+    description:
+      'Check a TSX/JSX snippet against the documented FluentUI v9 props. ' +
+      'Reports unknown props (e.g., variant on Button), invalid values for union-typed props ' +
+      '(e.g., size="huge"), missing required props, and syntax errors, with line numbers.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        code: {
+          type: 'string',
+          description: 'TSX/JSX code using @fluentui/react-components (imports optional)',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['code'],
+    },
+    outputSchema: VALIDATE_USAGE_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'compare_components',
+    description:
+      'Compare 2–5 FluentUI v9 components side by side (e.g., Select vs Combobox, ' +
+      'Dialog vs Drawer vs Popover): package, import, shared and unique props, slots, ' +
+      'when to use each (from the Overview and Best Practices), and accessibility notes. ' +
+      'Names are matched like query_component; names without a doc are reported.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        components: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 2,
+          maxItems: 5,
+          description: 'Component names (e.g., ["Select", "Combobox"])',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+      required: ['components'],
+    },
+    outputSchema: COMPARE_COMPONENTS_OUTPUT_SCHEMA,
+  },
+
+  // --- Utility Tools (3) ---
+  {
+    name: 'list_all_docs',
+    description:
+      'List all indexed FluentUI v9 documentation entries, grouped by module and category, ' +
+      'with the document count of every served FluentUI version. ' +
+      'Useful for discovering what documentation is available.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+    },
+    outputSchema: LIST_ALL_DOCS_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'lint_docs',
+    description:
+      'Check the indexed documentation against the required doc shape and list the violations per file: ' +
+      'missing-package, unparseable-props-table, unresolved-see-also, duplicate-title, and empty-section. ' +
+      'For documentation maintainers; run reindex after editing the docs to re-check.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        rule: {
+          type: 'string',
+          enum: [...LINT_RULES],
+          description: 'Optional: report only violations of this rule',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional: lint only documents whose path or ID starts with this (e.g., "02-components/forms")',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+    },
+    outputSchema: LINT_DOCS_OUTPUT_SCHEMA,
+  },
+  {
+    name: 'reindex',
+    description:
+      'Refresh the documentation index by re-scanning the docs directory. ' +
+      'Only added and modified files are re-parsed; the result lists the IDs of ' +
+      'added, changed, and deleted documents. ' +
+      'Use this if documentation files have been added, modified, or removed.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        force: {
+          type: 'boolean',
+          description: 'Re-parse every file, even unchanged ones (default: false)',
+        },
+        ...VERSION_PROPERTY,
+        ...PAGINATION_PROPERTIES,
+      },
+    },
+    outputSchema: REINDEX_OUTPUT_SCHEMA,
+  },
+];
@@ -0,0 +1,275 @@
+/**
+ * Tool dispatcher — routes MCP tool calls to their implementations.
+ *
+ * Every transport (stdio, Streamable HTTP) shares this single routing table,
+ * so a tool behaves identically no matter how the client is connected.
+ *
+ * Every tool accepts an optional `version` argument. The dispatcher resolves
+ * it to that version's index (falling back to the default version) before
+ * the tool runs, so the tools themselves stay version-agnostic.
+ *
+ * Likewise, every tool accepts `maxTokens` / `maxChars` and `cursor`; the
+ * dispatcher splits the tool's text into pages afterwards (see
+ * `tools/pagination`), so the tools never deal with response size.
+ *
+ * @module tools/dispatcher
+ */
+
+import type { DocumentStore } from '../indexer/document-store.js';
+import type { SearchEngine } from '../indexer/search-engine.js';
+import type { BuildQueue } from '../indexer/build-queue.js';
+
+// Tool imports — 9 core tools
+import { queryComponentResult } from './query-component.js';
+import { getSectionResult } from './get-section.js';
+import { getOutlineResult } from './get-outline.js';
+import { getRelatedDocsResult } from './get-related-docs.js';
+import { searchDocsResult } from './search-docs.js';
+import { listByCategoryResult } from './list-by-category.js';
+import { getFoundationResult } from './get-foundation.js';
+import { getPatternResult } from './get-pattern.js';
+import { getEnterpriseResult } from './get-enterprise.js';
+
+// Tool imports — 6 intelligence tools
+import { getComponentExamplesResult } from './get-component-examples.js';
+import { getPropsReferenceResult } from './get-props-reference.js';
+import { suggestComponentsResult } from './suggest-components.js';
+import { getImplementationGuideResult } from './get-implementation-guide.js';
+import { validateUsageResult } from './validate-usage.js';
+import { compareComponentsResult } from './compare-components.js';
+
+// Tool imports — 3 utility tools
+import { listAllDocsResult } from './list-all-docs.js';
+import { lintDocsResult } from './lint-docs.js';
+import { reindexResult } from './reindex.js';
+
+// Type imports for tool argument casting
+import type {
+  QueryComponentArgs,
+  GetSectionArgs,
+  GetOutlineArgs,
+  GetRelatedDocsArgs,
+  SearchDocsArgs,
+  ListByCategoryArgs,
+  GetFoundationArgs,
+  GetPatternArgs,
+  GetEnterpriseArgs,
+  GetComponentExamplesArgs,
+  GetPropsReferenceArgs,
+  SuggestComponentsArgs,
+  GetImplementationGuideArgs,
+  ValidateUsageArgs,
+  CompareComponentsArgs,
+  LintDocsArgs,
+  ReindexArgs,
+  PaginationArgs,
+  ToolResult,
+  VersionArgs,
+  VersionCount,
+} from '../types/index.js';
+import { toolError, formatError } from './tool-result.js';
+import { paginateResult } from './pagination.js';
+
+/**
+ * The index built from one FluentUI version's documentation folder.
+ */
+export interface VersionIndex {
+  /** FluentUI version identifier (e.g., "v9") */
+  version: string;
+
+  /** The populated document store */
+  store: DocumentStore;
+
+  /** The search engine built over the store */
+  searchEngine: SearchEngine;
+
+  /** The docs directory path (needed for reindex) */
+  docsPath: string;
+
+  /** Path of the version's index cache file (null or omitted: no cache) */
+  cacheFile?: string | null;
+
+  /** Runs the version's rebuilds (reindex, watch mode) one at a time */
+  buildQueue: BuildQueue;
+}
+
+/**
+ * Everything a tool call needs to run: the index of every served version
+ * and the version to use when a call does not name one.
+ *
+ * A single context is shared by every connected client, so all sessions
+ * see the same indexes (and the same result of a `reindex` call).
+ */
+export interface ToolContext {
+  /** Per-version indexes, keyed by version */
+  indexes: Map<string, VersionIndex>;
+
+  /** Version used when a call omits `version` */
+  defaultVersion: string;
+}
+
+/**
+ * Look up the index of a version.
+ *
+ * The version comes straight from the call's arguments, so anything but a
+ * string (or nothing) is treated as a version that is not served.
+ *
+ * @param context - The shared indexes
+ * @param version - Requested version (default: the context's default version)
+ * @returns The version's index, or undefined if the version is not served
+ */
+export function getVersionIndex(
+  context: ToolContext,
+  version?: unknown
+): VersionIndex | undefined {
+  if (version === undefined || version === null) {
+    return context.indexes.get(context.defaultVersion);
+  }
+  if (typeof version !== 'string') {
+    return undefined;
+  }
+  return context.indexes.get(version.trim() || context.defaultVersion);
+}
+
+/**
+ * Describe a requested version that is not served.
+ *
+ * @param context - The shared indexes
+ * @param version - The requested version, as given in the call's arguments
+ * @returns Message naming the version and listing the served versions
+ */
+export function formatUnknownVersion(context: ToolContext, version: unknown): string {
+  const available = Array.from(context.indexes.keys()).join(', ');
+  return `Unknown version ${JSON.stringify(version)}. Available versions: ${available}`;
+}
+
+/**
+ * List every served version with its document count.
+ *
+ * @param context - The shared indexes
+ * @returns One entry per version, in the order the indexes were added
+ */
+export function getVersionCounts(context: ToolContext): VersionCount[] {
+  return Array.from(context.indexes.values(), ({ version, store }) => ({
+    version,
+    count: store.size,
+    isDefault: version === context.defaultVersion,
+  }));
+}
+
+/**
+ * Dispatch a tool call to the appropriate handler function.
+ *
+ * Routes the incoming MCP tool call to the correct tool implementation
+ * based on the tool name, against the index of the requested version.
+ * Every tool returns a markdown rendering plus, where applicable,
+ * structured output matching its `outputSchema`. An unknown version
+ * is reported as an error result. The text is then cut to the page the
+ * pagination arguments ask for.
+ *
+ * @param toolName - The name of the tool being called
+ * @param args - The tool arguments (varies per tool)
+ * @param context - The shared indexes the tools operate on
+ * @returns The tool result (text, structured output, and error flag)
+ * @throws Error if the tool name is unknown
+ */
+export async function dispatchToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<ToolResult> {
+  const { version } = args as VersionArgs;
+  const index = getVersionIndex(context, version);
+  if (!index) {
+    return toolError(formatError(formatUnknownVersion(context, version)));
+  }
+
+  const result = await runTool(toolName, args, index, context);
+  return paginateResult(result, args as PaginationArgs);
+}
+
+/**
+ * Run a tool against the index of one version.
+ *
+ * @param toolName - The name of the tool being called
+ * @param args - The tool arguments (varies per tool)
+ * @param index - The index of the requested version
+ * @param context - The shared indexes (for tools that report on every version)
+ * @returns The tool's complete result
+ * @throws Error if the tool name is unknown
+ */
+async function runTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  index: VersionIndex,
+  context: ToolContext
+): Promise<ToolResult> {
+  const { store, searchEngine, docsPath } = index;
+
+  switch (toolName) {
+    // Core tools
+    case 'query_component':
+      return queryComponentResult(store, args as unknown as QueryComponentArgs);
+
+    case 'get_section':
+      return getSectionResult(store, args as unknown as GetSectionArgs);
+
+    case 'get_outline':
+      return getOutlineResult(store, args as unknown as GetOutlineArgs);
+
+    case 'get_related_docs':
+      return getRelatedDocsResult(store, args as unknown as GetRelatedDocsArgs);
+
+    case 'search_docs':
+      return searchDocsResult(searchEngine, args as unknown as SearchDocsArgs);
+
+    case 'list_by_category':
+      return listByCategoryResult(store, args as unknown as ListByCategoryArgs);
+
+    case 'get_foundation':
+      return getFoundationResult(store, args as unknown as GetFoundationArgs);
+
+    case 'get_pattern':
+      return getPatternResult(store, args as unknown as GetPatternArgs);
+
+    case 'get_enterprise':
+      return getEnterpriseResult(store, args as unknown as GetEnterpriseArgs);
+
+    // Intelligence tools
+    case 'get_component_examples':
+      return getComponentExamplesResult(store, args as unknown as GetComponentExamplesArgs);
+
+    case 'get_props_reference':
+      return getPropsReferenceResult(store, args as unknown as GetPropsReferenceArgs);
+
+    case 'suggest_components':
+      return suggestComponentsResult(store, searchEngine, args as unknown as SuggestComponentsArgs);
+
+    case 'get_implementation_guide':
+      return getImplementationGuideResult(store, searchEngine, args as unknown as GetImplementationGuideArgs);
+
+    case 'validate_usage':
+      return validateUsageResult(store, args as unknown as ValidateUsageArgs);
+
+    case 'compare_components':
+      return compareComponentsResult(store, args as unknown as CompareComponentsArgs);
+
+    // Utility tools
+    case 'list_all_docs':
+      return listAllDocsResult(store, index.version, getVersionCounts(context));
+
+    case 'lint_docs':
+      return lintDocsResult(store, args as unknown as LintDocsArgs);
+
+    case 'reindex':
+      return index.buildQueue.run(() =>
+        reindexResult(store, searchEngine, docsPath, {
+          cacheFile: index.cacheFile,
+          force: (args as unknown as ReindexArgs).force,
+        })
+      );
+
+    default:
+      throw new Error(`Unknown tool: ${toolName}`);
+  }
+}
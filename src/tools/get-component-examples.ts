@@ -12,8 +12,15 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { GetComponentExamplesArgs, DocumentEntry } from '../types/index.js';
+import type {
+  GetComponentExamplesArgs,
+  GetComponentExamplesOutput,
+  CodeExample,
+  DocumentEntry,
+  ToolResult,
+} from '../types/index.js';
 import { extractCodeBlocks } from '../indexer/metadata-extractor.js';
+import { toDocumentSummary, toolError, formatError } from './tool-result.js';
 
 /**
  * Execute the get_component_examples tool.
@@ -37,45 +44,57 @@ export function getComponentExamples(
   store: DocumentStore,
   args: GetComponentExamplesArgs
 ): string {
+  return getComponentExamplesResult(store, args).text;
+}
+
+/**
+ * Execute the get_component_examples tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the component name
+ * @returns The markdown rendering and the structured result
+ */
+export function getComponentExamplesResult(
+  store: DocumentStore,
+  args: GetComponentExamplesArgs
+): ToolResult<GetComponentExamplesOutput> {
   const { componentName } = args;
 
   if (!componentName || componentName.trim().length === 0) {
-    return formatError('Component name is required. Example: "Button", "Dialog", "Input"');
+    return toolError(formatError('Component name is required. Example: "Button", "Dialog", "Input"'));
   }
 
   // Find the component using fuzzy matching
   const doc = store.findByName(componentName.trim());
 
   if (!doc) {
-    return formatNotFound(componentName, store);
+    return {
+      text: formatNotFound(componentName, store),
+      structured: {
+        component: null,
+        examples: [],
+        availableComponents: getComponentsWithExamples(store),
+      },
+    };
   }
 
   // Extract raw code blocks using the metadata extractor utility
   const codeBlocks = extractCodeBlocks(doc.content);
 
   if (codeBlocks.length === 0) {
-    return formatNoExamples(doc);
+    return {
+      text: formatNoExamples(doc),
+      structured: { component: toDocumentSummary(doc), examples: [], availableComponents: [] },
+    };
   }
 
   // Extract code blocks with their section context for better labeling
-  const labeledBlocks = extractLabeledCodeBlocks(doc.content);
-
-  return formatExamplesResponse(doc, labeledBlocks);
-}
-
-/**
- * A code block paired with its section heading context.
- * Helps the LLM understand what each code example demonstrates.
- */
-interface LabeledCodeBlock {
-  /** The section heading this code block appeared under (e.g., "Basic Usage") */
-  sectionHeading: string;
-
-  /** The raw code content (without fence markers) */
-  code: string;
+  const labeledBlocks = extractCodeExamples(doc.content);
 
-  /** The language hint from the code fence (e.g., "typescript", "tsx") */
-  language: string;
+  return {
+    text: formatExamplesResponse(doc, labeledBlocks),
+    structured: { component: toDocumentSummary(doc), examples: labeledBlocks, availableComponents: [] },
+  };
 }
 
 /**
@@ -87,8 +106,8 @@ interface LabeledCodeBlock {
  * @param content - Raw markdown content
  * @returns Array of code blocks with section labels
  */
-function extractLabeledCodeBlocks(content: string): LabeledCodeBlock[] {
-  const blocks: LabeledCodeBlock[] = [];
+function extractCodeExamples(content: string): CodeExample[] {
+  const blocks: CodeExample[] = [];
   const lines = content.split('\n');
 
   // Track the current section heading as we scan through the document
@@ -148,7 +167,7 @@ function extractLabeledCodeBlocks(content: string): LabeledCodeBlock[] {
  */
 function formatExamplesResponse(
   doc: DocumentEntry,
-  blocks: LabeledCodeBlock[]
+  blocks: CodeExample[]
 ): string {
   const parts: string[] = [];
 
@@ -214,12 +233,10 @@ function formatNotFound(name: string, store: DocumentStore): string {
   parts.push('');
 
   // List available components that have code examples
-  const componentDocs = store.getByModule('components');
-  const withExamples = componentDocs.filter((doc) => doc.metadata.hasCodeExamples);
+  const names = getComponentsWithExamples(store);
 
-  if (withExamples.length > 0) {
+  if (names.length > 0) {
     parts.push('**Components with code examples:**');
-    const names = withExamples.map((doc) => doc.title).sort();
     parts.push(names.join(', '));
     parts.push('');
     parts.push('*Tip: Use partial names (e.g., "button" for Button)*');
@@ -229,11 +246,14 @@ function formatNotFound(name: string, store: DocumentStore): string {
 }
 
 /**
- * Format a generic error message.
+ * List the titles of all components that have code examples.
  *
- * @param message - The error description
- * @returns Formatted error string
+ * @param store - The document store
+ * @returns Sorted component titles
  */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
+function getComponentsWithExamples(store: DocumentStore): string[] {
+  return store.getByModule('components')
+    .filter((doc) => doc.metadata.hasCodeExamples)
+    .map((doc) => doc.title)
+    .sort();
 }
@@ -16,7 +16,14 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { GetEnterpriseArgs, DocumentEntry } from '../types/index.js';
+import type {
+  GetEnterpriseArgs,
+  GetEnterpriseOutput,
+  EnterpriseTopicInfo,
+  DocumentEntry,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentWithContent, toolError } from './tool-result.js';
 
 /**
  * Enterprise topic groups.
@@ -111,33 +118,123 @@ export function getEnterprise(
   store: DocumentStore,
   args: GetEnterpriseArgs
 ): string {
+  return getEnterpriseResult(store, args).text;
+}
+
+/**
+ * Execute the get_enterprise tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param args - Tool arguments containing the topic name
+ * @returns The markdown rendering and the structured result
+ */
+export function getEnterpriseResult(
+  store: DocumentStore,
+  args: GetEnterpriseArgs
+): ToolResult<GetEnterpriseOutput> {
   const { topic } = args;
+  const topics = buildTopicInfos(store);
 
   // No topic — show overview of all enterprise topics
   if (!topic || topic.trim().length === 0) {
-    return formatEnterpriseOverview(store);
+    return {
+      text: formatEnterpriseOverview(store),
+      structured: { topic: null, documents: [], topics },
+    };
   }
 
   // Resolve topic (with alias support)
   const resolvedTopic = resolveTopic(topic.trim().toLowerCase());
 
   if (!resolvedTopic) {
-    return formatInvalidTopic(topic);
+    return toolError(formatInvalidTopic(topic));
   }
 
   // Get matching enterprise docs
   const topicConfig = ENTERPRISE_TOPICS[resolvedTopic];
-  const enterpriseDocs = store.getByModule('enterprise');
-  const matchingDocs = enterpriseDocs.filter((doc) => {
-    const filename = doc.relativePath.split('/').pop() || '';
-    return topicConfig.matchesDoc(filename);
-  });
+  const matchingDocs = getTopicDocs(store, resolvedTopic);
 
   if (matchingDocs.length === 0) {
-    return `No enterprise documentation found for topic "${resolvedTopic}". The docs directory may be incomplete.`;
+    return {
+      text: `No enterprise documentation found for topic "${resolvedTopic}". The docs directory may be incomplete.`,
+      structured: { topic: resolvedTopic, documents: [], topics },
+    };
   }
 
-  return formatEnterpriseTopicResponse(resolvedTopic, topicConfig.displayName, matchingDocs);
+  return {
+    text: formatEnterpriseTopicResponse(resolvedTopic, topicConfig.displayName, matchingDocs),
+    structured: {
+      topic: resolvedTopic,
+      documents: sortByPath(matchingDocs).map(toDocumentWithContent),
+      topics,
+    },
+  };
+}
+
+/**
+ * List the canonical enterprise topics with the aliases that resolve to each.
+ * Used for argument auto-completion.
+ *
+ * @returns One entry per topic, in definition order
+ */
+export function listEnterpriseTopics(): Array<{ topic: string; aliases: string[] }> {
+  return Object.keys(ENTERPRISE_TOPICS).map((topic) => ({
+    topic,
+    aliases: getAliasesForTopic(topic),
+  }));
+}
+
+/**
+ * Describe every enterprise topic for structured output.
+ *
+ * @param store - Document store for resolving topic documents
+ * @returns One entry per topic, in definition order
+ */
+function buildTopicInfos(store: DocumentStore): EnterpriseTopicInfo[] {
+  return Object.entries(ENTERPRISE_TOPICS).map(([topic, config]) => ({
+    topic,
+    displayName: config.displayName,
+    description: config.description,
+    aliases: getAliasesForTopic(topic),
+    documentIds: sortByPath(getTopicDocs(store, topic)).map((doc) => doc.id),
+  }));
+}
+
+/**
+ * Get the enterprise documents that belong to a topic group.
+ *
+ * @param store - Document store to query
+ * @param topic - Canonical topic key
+ * @returns Matching documents (unsorted)
+ */
+function getTopicDocs(store: DocumentStore, topic: string): DocumentEntry[] {
+  const config = ENTERPRISE_TOPICS[topic];
+  return store.getByModule('enterprise').filter((doc) => {
+    const filename = doc.relativePath.split('/').pop() || '';
+    return config.matchesDoc(filename);
+  });
+}
+
+/**
+ * Get all aliases that map to a given enterprise topic.
+ *
+ * @param topic - Canonical topic key
+ * @returns Array of alias strings
+ */
+function getAliasesForTopic(topic: string): string[] {
+  return Object.keys(ENTERPRISE_TOPIC_ALIASES).filter(
+    (alias) => ENTERPRISE_TOPIC_ALIASES[alias] === topic
+  );
+}
+
+/**
+ * Sort documents by relative path (preserves numeric ordering: 02a, 02b, 02c).
+ *
+ * @param docs - Documents to sort (not modified)
+ * @returns A sorted copy
+ */
+function sortByPath(docs: DocumentEntry[]): DocumentEntry[] {
+  return [...docs].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
 }
 
 /**
@@ -182,13 +279,8 @@ function formatEnterpriseOverview(store: DocumentStore): string {
   parts.push('Enterprise-scale application patterns and best practices.');
   parts.push('');
 
-  const enterpriseDocs = store.getByModule('enterprise');
-
   for (const [topicKey, config] of Object.entries(ENTERPRISE_TOPICS)) {
-    const matchingDocs = enterpriseDocs.filter((doc) => {
-      const filename = doc.relativePath.split('/').pop() || '';
-      return config.matchesDoc(filename);
-    });
+    const matchingDocs = getTopicDocs(store, topicKey);
 
     parts.push(`### ${config.displayName}`);
     parts.push(config.description);
@@ -231,10 +323,7 @@ function formatEnterpriseTopicResponse(
   parts.push(`**Documents:** ${docs.length}`);
   parts.push('');
 
-  // Sort by relative path (preserves numeric ordering: 02a, 02b, 02c)
-  const sorted = [...docs].sort((a, b) =>
-    a.relativePath.localeCompare(b.relativePath)
-  );
+  const sorted = sortByPath(docs);
 
   // If multiple docs, show a table of contents first
   if (sorted.length > 1) {
@@ -275,10 +364,7 @@ function formatInvalidTopic(topic: string): string {
   parts.push('**Available enterprise topics:**');
 
   for (const [key, config] of Object.entries(ENTERPRISE_TOPICS)) {
-    // Find aliases for this topic
-    const aliases = Object.entries(ENTERPRISE_TOPIC_ALIASES)
-      .filter(([, target]) => target === key)
-      .map(([alias]) => alias);
+    const aliases = getAliasesForTopic(key);
     const aliasNote = aliases.length > 0 ? ` (aliases: ${aliases.join(', ')})` : '';
 
     parts.push(`- **${key}** — ${config.description}${aliasNote}`);
@@ -15,13 +15,20 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { GetFoundationArgs, DocumentEntry } from '../types/index.js';
+import type {
+  GetFoundationArgs,
+  GetFoundationOutput,
+  FoundationTopicInfo,
+  DocumentEntry,
+  ToolResult,
+} from '../types/index.js';
 import {
   FOUNDATION_TOPICS,
   FOUNDATION_TOPIC_ALIASES,
   FOUNDATION_TOPIC_FILE_MAP,
 } from '../types/index.js';
 import type { FoundationTopic } from '../types/index.js';
+import { toDocumentWithContent, toolError } from './tool-result.js';
 
 /**
  * Execute the get_foundation tool.
@@ -46,28 +53,62 @@ export function getFoundation(
   store: DocumentStore,
   args: GetFoundationArgs
 ): string {
+  return getFoundationResult(store, args).text;
+}
+
+/**
+ * Execute the get_foundation tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param args - Tool arguments with optional topic name
+ * @returns The markdown rendering and the structured result
+ */
+export function getFoundationResult(
+  store: DocumentStore,
+  args: GetFoundationArgs
+): ToolResult<GetFoundationOutput> {
   const { topic } = args;
+  const topics = buildTopicInfos(store);
 
   // No topic specified — return overview of all foundation docs
   if (!topic || topic.trim().length === 0) {
-    return formatFoundationOverview(store);
+    return {
+      text: formatFoundationOverview(store),
+      structured: { topic: null, document: null, topics },
+    };
   }
 
   // Resolve topic aliases (e.g., "theme" → "theming", "a11y" → "accessibility")
   const resolvedTopic = resolveTopic(topic.trim().toLowerCase());
 
   if (!resolvedTopic) {
-    return formatInvalidTopic(topic);
+    return toolError(formatInvalidTopic(topic));
   }
 
   // Find the document for this topic in the store
   const doc = findFoundationDoc(store, resolvedTopic);
 
   if (!doc) {
-    return formatTopicNotIndexed(resolvedTopic);
+    return {
+      text: formatTopicNotIndexed(resolvedTopic),
+      structured: { topic: resolvedTopic, document: null, topics },
+    };
   }
 
-  return formatFoundationResponse(doc);
+  return {
+    text: formatFoundationResponse(doc),
+    structured: { topic: resolvedTopic, document: toDocumentWithContent(doc), topics },
+  };
+}
+
+/**
+ * List the canonical foundation topics with the aliases that resolve to each.
+ * Used for argument auto-completion.
+ *
+ * @returns One entry per topic, in FOUNDATION_TOPICS order
+ */
+export function listFoundationTopics(): Array<{ topic: FoundationTopic; aliases: string[] }> {
+  return FOUNDATION_TOPICS.map((topic) => ({ topic, aliases: getAliasesForTopic(topic) }));
 }
 
 /**
@@ -138,6 +179,24 @@ function findFoundationDoc(
   return store.findByName(topic);
 }
 
+/**
+ * Describe every foundation topic for structured output.
+ *
+ * @param store - The document store for resolving topic documents
+ * @returns One entry per topic, in FOUNDATION_TOPICS order
+ */
+function buildTopicInfos(store: DocumentStore): FoundationTopicInfo[] {
+  return FOUNDATION_TOPICS.map((topic) => {
+    const doc = findFoundationDoc(store, topic);
+    return {
+      topic,
+      aliases: getAliasesForTopic(topic),
+      description: doc?.metadata.description || getTopicFallbackDescription(topic),
+      documentId: doc?.id ?? null,
+    };
+  });
+}
+
 /**
  * Format the overview of all available foundation topics.
  *
@@ -19,9 +19,12 @@ import type { DocumentStore } from '../indexer/document-store.js';
 import type { SearchEngine } from '../indexer/search-engine.js';
 import type {
   GetImplementationGuideArgs,
+  GetImplementationGuideOutput,
   DocumentEntry,
   SearchResult,
+  ToolResult,
 } from '../types/index.js';
+import { toSearchHit, toolError, formatError } from './tool-result.js';
 
 /**
  * Maximum number of components to include in the guide.
@@ -59,12 +62,28 @@ export function getImplementationGuide(
   searchEngine: SearchEngine,
   args: GetImplementationGuideArgs
 ): string {
+  return getImplementationGuideResult(store, searchEngine, args).text;
+}
+
+/**
+ * Execute the get_implementation_guide tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param searchEngine - The search engine for finding relevant docs
+ * @param args - Tool arguments containing the implementation goal
+ * @returns The markdown rendering and the structured result
+ */
+export function getImplementationGuideResult(
+  store: DocumentStore,
+  searchEngine: SearchEngine,
+  args: GetImplementationGuideArgs
+): ToolResult<GetImplementationGuideOutput> {
   const { goal } = args;
 
   if (!goal || goal.trim().length === 0) {
-    return formatError(
+    return toolError(formatError(
       'An implementation goal is required. Example: "build a login form with email and password fields"'
-    );
+    ));
   }
 
   const trimmedGoal = goal.trim();
@@ -73,12 +92,28 @@ export function getImplementationGuide(
   const relevantComponents = findRelevantComponents(searchEngine, trimmedGoal);
   const relevantPatterns = findRelevantPatterns(searchEngine, trimmedGoal);
 
+  const structured: GetImplementationGuideOutput = {
+    goal: trimmedGoal,
+    components: relevantComponents.map(toSearchHit),
+    patterns: relevantPatterns.map((result) => ({
+      ...toSearchHit(result),
+      patternCategory: extractPatternCategory(result.document),
+      patternName: extractPatternName(result.document),
+    })),
+    imports: collectImports(relevantComponents),
+    tips: generateComponentTips(relevantComponents),
+    accessibilityChecklist: collectAccessibilityItems(relevantComponents),
+  };
+
   // If we found nothing at all, provide a helpful fallback
   if (relevantComponents.length === 0 && relevantPatterns.length === 0) {
-    return formatNoResults(trimmedGoal, store);
+    return { text: formatNoResults(trimmedGoal, store), structured };
   }
 
-  return formatImplementationGuide(trimmedGoal, relevantComponents, relevantPatterns);
+  return {
+    text: formatImplementationGuide(trimmedGoal, relevantComponents, relevantPatterns),
+    structured,
+  };
 }
 
 /**
@@ -242,7 +277,7 @@ function formatComponentsSection(components: SearchResult[]): string {
  * so this deduplicates nicely.
  *
  * @param components - Component search results
- * @returns Array of import statement strings
+ * @returns Array of import statements (long imports span multiple lines)
  */
 function collectImports(components: SearchResult[]): string[] {
   const importMap = new Map<string, Set<string>>();
@@ -280,9 +315,7 @@ function collectImports(components: SearchResult[]): string[] {
     const sortedNames = Array.from(componentNames).sort();
     // Split long imports across lines for readability
     if (sortedNames.length > 4) {
-      imports.push(`import {`);
-      imports.push(`  ${sortedNames.join(',\n  ')},`);
-      imports.push(`} from '${packageName}';`);
+      imports.push(`import {\n  ${sortedNames.join(',\n  ')},\n} from '${packageName}';`);
     } else {
       imports.push(`import { ${sortedNames.join(', ')} } from '${packageName}';`);
     }
@@ -315,9 +348,7 @@ function formatPatternsSection(patterns: SearchResult[]): string {
       parts.push(doc.metadata.description);
     }
 
-    // Extract the pattern category from the relative path
-    const pathParts = doc.relativePath.split('/');
-    const category = pathParts.length >= 2 ? pathParts[1] : 'general';
+    const category = extractPatternCategory(doc);
     const patternName = extractPatternName(doc);
 
     parts.push(`*→ \`get_pattern("${category}", "${patternName}")\` for full pattern documentation*`);
@@ -437,9 +468,6 @@ function formatImplementationSteps(
 /**
  * Format the accessibility section.
  *
- * Generates accessibility reminders based on the types of
- * components recommended in the guide.
- *
  * @param components - Relevant component search results
  * @returns Formatted markdown section
  */
@@ -449,44 +477,63 @@ function formatAccessibilitySection(components: SearchResult[]): string {
   parts.push('## Accessibility Checklist');
   parts.push('');
 
+  for (const item of collectAccessibilityItems(components)) {
+    parts.push(`- [ ] ${item}`);
+  }
+
+  parts.push('');
+
+  return parts.join('\n');
+}
+
+/**
+ * Collect accessibility checklist items.
+ *
+ * Generates accessibility reminders based on the types of
+ * components recommended in the guide.
+ *
+ * @param components - Relevant component search results
+ * @returns Checklist items, universal items first
+ */
+function collectAccessibilityItems(components: SearchResult[]): string[] {
   // Always include these universal accessibility items
-  parts.push('- [ ] Ensure proper heading hierarchy (h1 → h2 → h3)');
-  parts.push('- [ ] Test keyboard navigation (Tab, Enter, Escape)');
-  parts.push('- [ ] Verify screen reader announces interactive elements');
-  parts.push('- [ ] Check color contrast meets WCAG 2.1 AA standards');
+  const items: string[] = [
+    'Ensure proper heading hierarchy (h1 → h2 → h3)',
+    'Test keyboard navigation (Tab, Enter, Escape)',
+    'Verify screen reader announces interactive elements',
+    'Check color contrast meets WCAG 2.1 AA standards',
+  ];
 
   // Add component-specific accessibility reminders
   const componentTitles = components.map((r) => r.document.title.toLowerCase());
 
   if (hasAny(componentTitles, ['button'])) {
-    parts.push('- [ ] Icon-only buttons have `aria-label`');
-    parts.push('- [ ] Use `disabledFocusable` for buttons in toolbars');
+    items.push('Icon-only buttons have `aria-label`');
+    items.push('Use `disabledFocusable` for buttons in toolbars');
   }
 
   if (hasAny(componentTitles, ['input', 'textarea', 'select', 'combobox', 'field', 'checkbox', 'radio', 'switch', 'slider', 'searchbox', 'spinbutton'])) {
-    parts.push('- [ ] All form fields have associated `<Field>` with labels');
-    parts.push('- [ ] Required fields are marked with `required` prop');
-    parts.push('- [ ] Error messages are linked via `validationMessage`');
+    items.push('All form fields have associated `<Field>` with labels');
+    items.push('Required fields are marked with `required` prop');
+    items.push('Error messages are linked via `validationMessage`');
   }
 
   if (hasAny(componentTitles, ['dialog'])) {
-    parts.push('- [ ] Dialog traps focus when open');
-    parts.push('- [ ] Dialog has `aria-label` or `aria-labelledby`');
+    items.push('Dialog traps focus when open');
+    items.push('Dialog has `aria-label` or `aria-labelledby`');
   }
 
   if (hasAny(componentTitles, ['table', 'datagrid'])) {
-    parts.push('- [ ] Table has appropriate `aria-label`');
-    parts.push('- [ ] Sortable columns announce sort state');
+    items.push('Table has appropriate `aria-label`');
+    items.push('Sortable columns announce sort state');
   }
 
   if (hasAny(componentTitles, ['menu'])) {
-    parts.push('- [ ] Menu items have clear labels');
-    parts.push('- [ ] Keyboard navigation works (arrow keys, escape)');
+    items.push('Menu items have clear labels');
+    items.push('Keyboard navigation works (arrow keys, escape)');
   }
 
-  parts.push('');
-
-  return parts.join('\n');
+  return items;
 }
 
 /**
@@ -608,6 +655,17 @@ function hasAny(items: string[], values: string[]): boolean {
   );
 }
 
+/**
+ * Extract the pattern category from a pattern document's relative path.
+ *
+ * @param doc - The document entry
+ * @returns Pattern category folder name (e.g., "forms"), or "general"
+ */
+function extractPatternCategory(doc: DocumentEntry): string {
+  const pathParts = doc.relativePath.split('/');
+  return pathParts.length >= 2 ? pathParts[1] : 'general';
+}
+
 /**
  * Extract a clean pattern name from a document for use in tool hints.
  *
@@ -647,13 +705,3 @@ function formatNoResults(goal: string, store: DocumentStore): string {
 
   return parts.join('\n');
 }
-
-/**
- * Format a generic error message.
- *
- * @param message - The error description
- * @returns Formatted error string
- */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
-}
@@ -0,0 +1,267 @@
+/**
+ * Tool: get_outline — Show the heading structure of FluentUI documents.
+ *
+ * Returns a document's H1–H4 heading tree with each section's approximate
+ * token size and whether it contains code or tables, so an agent can see
+ * what a document covers — and what reading it would cost — before
+ * fetching it. This is the cheap first step of a "browse then read"
+ * workflow: outline, then `get_section` for the parts that matter.
+ *
+ * The outline is parsed once at index time and stored on the
+ * `DocumentEntry`, so this tool does no markdown parsing of its own.
+ *
+ * In module mode, every document of a module or folder is outlined at once
+ * (e.g., every pattern in `03-patterns/forms`).
+ *
+ * @module tools/get-outline
+ */
+
+import type { DocumentStore } from '../indexer/document-store.js';
+import { estimateTokens } from '../indexer/section-parser.js';
+import { parseFrontmatter } from '../indexer/frontmatter.js';
+import type {
+  DocumentEntry,
+  DocumentOutline,
+  GetOutlineArgs,
+  GetOutlineOutput,
+  OutlineNode,
+  ToolResult,
+} from '../types/index.js';
+import { OUTLINE_MAX_LEVEL } from '../types/index.js';
+import { findDocument } from './get-section.js';
+import { toDocumentSummary, toolError, formatError, withDidYouMean } from './tool-result.js';
+
+/**
+ * Execute the get_outline tool.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing a document name or a module, and the depth
+ * @returns Formatted markdown string with the heading tree(s),
+ *          or an error/not-found message
+ *
+ * @example
+ * ```typescript
+ * const outline = getOutline(store, { docName: 'Input' });
+ * // Returns the Input heading tree with "~210 tokens · code" per section
+ *
+ * const forms = getOutline(store, { module: '03-patterns/forms', maxLevel: 2 });
+ * // Returns the H1/H2 outline of every form pattern
+ * ```
+ */
+export function getOutline(store: DocumentStore, args: GetOutlineArgs): string {
+  return getOutlineResult(store, args).text;
+}
+
+/**
+ * Execute the get_outline tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing a document name or a module, and the depth
+ * @returns The markdown rendering and the structured result
+ */
+export function getOutlineResult(
+  store: DocumentStore,
+  args: GetOutlineArgs
+): ToolResult<GetOutlineOutput> {
+  const docName = args.docName?.trim() || null;
+  const module = args.module?.trim() || null;
+
+  if (docName && module) {
+    return toolError(formatError('Pass either docName or module, not both.'));
+  }
+  if (!docName && !module) {
+    return toolError(formatError(
+      'A document name or module is required. Example: { docName: "Input" } or { module: "patterns/forms" }'
+    ));
+  }
+
+  const maxLevel = Math.min(
+    Math.max(Math.trunc(args.maxLevel ?? OUTLINE_MAX_LEVEL), 1),
+    OUTLINE_MAX_LEVEL
+  );
+
+  if (module) {
+    const docs = findModuleDocuments(store, module);
+    if (docs.length === 0) {
+      return toolError(formatUnknownModule(module, store));
+    }
+    const documents = docs.map((doc) => toDocumentOutline(doc, maxLevel));
+    return {
+      text: formatModuleOutline(module, documents),
+      structured: { docName: null, module, maxLevel, documents, didYouMean: null },
+    };
+  }
+
+  const match = findDocument(store, docName!);
+  if (!match) {
+    return {
+      text: formatError(
+        `Document "${docName}" not found. Use search_docs or list_all_docs to find the document name.`
+      ),
+      structured: { docName, module: null, maxLevel, documents: [], didYouMean: null },
+    };
+  }
+
+  const { document: doc, corrected } = match;
+  const didYouMean = corrected ? doc.title : null;
+  const documentOutline = toDocumentOutline(doc, maxLevel);
+  return {
+    text: withDidYouMean(formatDocumentOutline(documentOutline), docName!, didYouMean),
+    structured: { docName, module: null, maxLevel, documents: [documentOutline], didYouMean },
+  };
+}
+
+/**
+ * Find every document of a module or folder.
+ *
+ * A module name matches the module's documents (including root-level docs
+ * the scanner assigns to it). A folder may be given as a document ID prefix
+ * ("patterns/forms") or as a path with numeric prefixes ("03-patterns/forms");
+ * both match the same documents.
+ *
+ * @param store - The document store
+ * @param module - Module name or folder path
+ * @returns The matching documents, in file order
+ */
+function findModuleDocuments(store: DocumentStore, module: string): DocumentEntry[] {
+  const prefix = module
+    .toLowerCase()
+    .split('/')
+    .filter((segment) => segment.length > 0)
+    .map((segment) => segment.replace(/^\d+-/, ''))
+    .join('/');
+
+  const isModule = store.getModules().some(({ module: name }) => name === prefix);
+  const docs = isModule
+    ? store.getByModule(prefix)
+    : store.getAllDocuments().filter((doc) => doc.id.startsWith(`${prefix}/`));
+  return docs.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Pair a document with its outline, cut to the requested depth.
+ *
+ * @param doc - The document entry
+ * @param maxLevel - Deepest heading level to keep
+ * @returns The document summary, its size, and its outline
+ */
+function toDocumentOutline(doc: DocumentEntry, maxLevel: number): DocumentOutline {
+  return {
+    document: toDocumentSummary(doc),
+    tokens: estimateTokens(parseFrontmatter(doc.content).body),
+    outline: pruneOutline(doc.outline, maxLevel),
+  };
+}
+
+/**
+ * Drop the headings below a level from an outline.
+ *
+ * Sizes and flags are kept as they are, since they already cover each
+ * section's sub-sections.
+ *
+ * @param nodes - Outline nodes
+ * @param maxLevel - Deepest heading level to keep
+ * @returns Copies of the nodes down to `maxLevel`
+ */
+function pruneOutline(nodes: OutlineNode[], maxLevel: number): OutlineNode[] {
+  return nodes
+    .filter((node) => node.level <= maxLevel)
+    .map((node) => ({ ...node, children: pruneOutline(node.children, maxLevel) }));
+}
+
+/**
+ * Format the outline of a single document.
+ *
+ * @param documentOutline - The document and its outline
+ * @returns Formatted response string
+ */
+function formatDocumentOutline(documentOutline: DocumentOutline): string {
+  const parts: string[] = [];
+  parts.push(`# Outline: ${documentOutline.document.title}`);
+  parts.push('');
+  appendDocumentOutline(parts, documentOutline);
+  parts.push('');
+  parts.push(formatReadTip());
+  return parts.join('\n');
+}
+
+/**
+ * Format the outlines of every document of a module or folder.
+ *
+ * @param module - The module or folder as given
+ * @param documents - The outlined documents
+ * @returns Formatted response string
+ */
+function formatModuleOutline(module: string, documents: DocumentOutline[]): string {
+  const tokens = documents.reduce((sum, documentOutline) => sum + documentOutline.tokens, 0);
+  const parts: string[] = [];
+  parts.push(`# Outline: ${module}`);
+  parts.push('');
+  parts.push(`${documents.length} documents · ~${tokens} tokens`);
+
+  for (const documentOutline of documents) {
+    parts.push('');
+    parts.push(`## ${documentOutline.document.title}`);
+    parts.push('');
+    appendDocumentOutline(parts, documentOutline);
+  }
+
+  parts.push('');
+  parts.push(formatReadTip());
+  return parts.join('\n');
+}
+
+/**
+ * Append a document's ID, size, and heading tree.
+ *
+ * @param parts - Output lines (appended to)
+ * @param documentOutline - The document and its outline
+ */
+function appendDocumentOutline(parts: string[], { document, tokens, outline }: DocumentOutline): void {
+  parts.push(`**Document:** \`${document.id}\` · ~${tokens} tokens`);
+  parts.push('');
+  if (outline.length === 0) {
+    parts.push('*This document has no headings.*');
+  } else {
+    appendOutlineNodes(parts, outline, 0);
+  }
+}
+
+/**
+ * Append outline nodes as a nested markdown list.
+ *
+ * @param parts - Output lines (appended to)
+ * @param nodes - Nodes to append, with their children
+ * @param depth - Nesting depth of the nodes
+ */
+function appendOutlineNodes(parts: string[], nodes: OutlineNode[], depth: number): void {
+  for (const node of nodes) {
+    const flags = [node.hasCode ? 'code' : '', node.hasTable ? 'table' : ''].filter(Boolean);
+    const details = [`~${node.tokens} tokens`, ...flags].join(' · ');
+    parts.push(`${'  '.repeat(depth)}- ${node.heading} (\`${node.anchor}\`) — ${details}`);
+    appendOutlineNodes(parts, node.children, depth + 1);
+  }
+}
+
+/**
+ * Format the hint on how to read a section from an outline.
+ *
+ * @returns Markdown tip pointing at get_section
+ */
+function formatReadTip(): string {
+  return '*Tip: Read one section with get_section({ docName, heading: "<anchor>" })*';
+}
+
+/**
+ * Format an "unknown module" error listing the modules.
+ *
+ * @param module - The module or folder that matched no documents
+ * @param store - The document store (for listing modules)
+ * @returns Formatted error message
+ */
+function formatUnknownModule(module: string, store: DocumentStore): string {
+  const modules = store.getModules().map(({ module: name }) => name).join(', ');
+  return formatError(
+    `No documents in "${module}". Modules: ${modules} (or a folder within one, e.g., "patterns/forms")`
+  );
+}
@@ -12,8 +12,15 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { GetPatternArgs, DocumentEntry } from '../types/index.js';
+import type {
+  GetPatternArgs,
+  GetPatternOutput,
+  PatternSummary,
+  DocumentEntry,
+  ToolResult,
+} from '../types/index.js';
 import { PATTERN_CATEGORIES } from '../types/index.js';
+import { toDocumentSummary, toDocumentWithContent, toolError } from './tool-result.js';
 
 /**
  * Execute the get_pattern tool.
@@ -39,30 +46,65 @@ export function getPattern(
   store: DocumentStore,
   args: GetPatternArgs
 ): string {
+  return getPatternResult(store, args).text;
+}
+
+/**
+ * Execute the get_pattern tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param args - Tool arguments with pattern category and optional pattern name
+ * @returns The markdown rendering and the structured result
+ */
+export function getPatternResult(
+  store: DocumentStore,
+  args: GetPatternArgs
+): ToolResult<GetPatternOutput> {
   const { patternCategory, patternName } = args;
 
   // No category — show all pattern categories
   if (!patternCategory || patternCategory.trim().length === 0) {
-    return formatPatternOverview(store);
+    const allPatterns = PATTERN_CATEGORIES.flatMap((category) =>
+      toPatternSummaries(category, getPatternDocsForCategory(store, category))
+    );
+    return {
+      text: formatPatternOverview(store),
+      structured: { patternCategory: null, patternName: null, pattern: null, patterns: allPatterns },
+    };
   }
 
   const normalizedCategory = patternCategory.trim().toLowerCase();
 
   // Validate category
   if (!isValidPatternCategory(normalizedCategory)) {
-    return formatInvalidPatternCategory(normalizedCategory);
+    return toolError(formatInvalidPatternCategory(normalizedCategory));
   }
 
   // Get all pattern docs in this category
   const categoryDocs = getPatternDocsForCategory(store, normalizedCategory);
+  const patterns = toPatternSummaries(normalizedCategory, categoryDocs);
 
   // If a specific pattern was requested, find and return it
   if (patternName && patternName.trim().length > 0) {
-    return findAndFormatPattern(categoryDocs, patternName.trim(), normalizedCategory);
+    const match = findPattern(categoryDocs, patternName.trim());
+    return {
+      text: match
+        ? formatPatternResponse(match)
+        : formatPatternNotFound(patternName.trim(), normalizedCategory, categoryDocs),
+      structured: {
+        patternCategory: normalizedCategory,
+        patternName: patternName.trim(),
+        pattern: match ? toDocumentWithContent(match) : null,
+        patterns,
+      },
+    };
   }
 
   // No specific pattern — list all patterns in the category
-  return formatPatternCategoryList(normalizedCategory, categoryDocs);
+  return {
+    text: formatPatternCategoryList(normalizedCategory, categoryDocs),
+    structured: { patternCategory: normalizedCategory, patternName: null, pattern: null, patterns },
+  };
 }
 
 /**
@@ -97,14 +139,12 @@ function getPatternDocsForCategory(
  *
  * @param docs - Pattern documents in the category
  * @param name - Pattern name to find
- * @param category - The category (for error messages)
- * @returns Formatted markdown for the pattern, or error if not found
+ * @returns The matching pattern document, or undefined if not found
  */
-function findAndFormatPattern(
+function findPattern(
   docs: DocumentEntry[],
-  name: string,
-  category: string
-): string {
+  name: string
+): DocumentEntry | undefined {
   const normalized = name.toLowerCase();
 
   // Strategy 1: Match title contains the name
@@ -129,11 +169,24 @@ function findAndFormatPattern(
     );
   }
 
-  if (!match) {
-    return formatPatternNotFound(name, category, docs);
-  }
+  return match;
+}
 
-  return formatPatternResponse(match);
+/**
+ * Summarize pattern documents for structured output, in reading order.
+ *
+ * @param category - The pattern category the documents belong to
+ * @param docs - Pattern documents in the category
+ * @returns Pattern summaries sorted by relative path (numeric prefix order)
+ */
+function toPatternSummaries(category: string, docs: DocumentEntry[]): PatternSummary[] {
+  return [...docs]
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+    .map((doc) => ({
+      ...toDocumentSummary(doc),
+      patternCategory: category,
+      patternName: extractPatternName(doc),
+    }));
 }
 
 /**
@@ -8,12 +8,24 @@
  * If the document doesn't have a dedicated "Props Reference" section,
  * it falls back to scanning for any markdown tables that look like prop definitions.
  *
+ * With `propName` or `type`, only the matching props (and slots) are
+ * returned, from the prop definitions parsed at index time.
+ *
  * @module tools/get-props-reference
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { GetPropsReferenceArgs, DocumentEntry } from '../types/index.js';
+import type {
+  GetPropsReferenceArgs,
+  GetPropsReferenceOutput,
+  DocumentEntry,
+  PropDefinition,
+  SlotDefinition,
+  ToolResult,
+} from '../types/index.js';
 import { extractPropsSection } from '../indexer/metadata-extractor.js';
+import { extractPropTables, parseMarkdownTables } from '../indexer/props-parser.js';
+import { toDocumentSummary, toolError, formatError, withDidYouMean, escapeTableCell } from './tool-result.js';
 
 /**
  * Execute the get_props_reference tool.
@@ -22,7 +34,7 @@ import { extractPropsSection } from '../indexer/metadata-extractor.js';
  * tables from its documentation.
  *
  * @param store - The populated document store to search
- * @param args - Tool arguments containing the component name
+ * @param args - Tool arguments containing the component name and optional filters
  * @returns Formatted markdown string with the props reference,
  *          or an error message if the component was not found or has no props table
  *
@@ -30,99 +42,133 @@ import { extractPropsSection } from '../indexer/metadata-extractor.js';
  * ```typescript
  * const props = getPropsReference(store, { componentName: "Button" });
  * // Returns Button props table with Prop, Type, Default, Description columns
+ *
+ * const flags = getPropsReference(store, { componentName: "Button", type: "boolean" });
+ * // Returns only disabled and disabledFocusable
  * ```
  */
 export function getPropsReference(
   store: DocumentStore,
   args: GetPropsReferenceArgs
 ): string {
+  return getPropsReferenceResult(store, args).text;
+}
+
+/**
+ * Execute the get_props_reference tool, returning markdown and structured output.
+ *
+ * The structured output carries the props/slots tables parsed into rows
+ * keyed by column header, and the typed prop and slot definitions, so
+ * callers don't have to parse markdown tables.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the component name and optional filters
+ * @returns The markdown rendering and the structured result
+ */
+export function getPropsReferenceResult(
+  store: DocumentStore,
+  args: GetPropsReferenceArgs
+): ToolResult<GetPropsReferenceOutput> {
   const { componentName } = args;
 
   if (!componentName || componentName.trim().length === 0) {
-    return formatError('Component name is required. Example: "Button", "Dialog", "Input"');
+    return toolError(formatError('Component name is required. Example: "Button", "Dialog", "Input"'));
   }
 
   // Find the component using fuzzy matching
-  const doc = store.findByName(componentName.trim());
-
-  if (!doc) {
-    return formatNotFound(componentName, store);
-  }
-
-  // Extract the props section using the metadata extractor utility
-  const propsSection = extractPropsSection(doc.content);
-
-  // If no formal props section, try to extract any prop-like tables
-  if (!propsSection) {
-    const fallbackTables = extractPropTables(doc.content);
-    if (fallbackTables.length > 0) {
-      return formatFallbackPropsResponse(doc, fallbackTables);
-    }
-    return formatNoProps(doc);
+  const match = store.matchName(componentName.trim());
+
+  if (!match) {
+    return {
+      text: formatNotFound(componentName, store),
+      structured: {
+        component: null,
+        source: null,
+        tables: [],
+        props: [],
+        slots: [],
+        availableComponents: getComponentsWithProps(store),
+        didYouMean: null,
+      },
+    };
   }
 
-  return formatPropsResponse(doc, propsSection);
-}
-
-/**
- * Extract markdown tables that appear to contain prop definitions.
- *
- * This is a fallback strategy for docs that don't have a formal
- * "## Props Reference" section but do contain tables with prop information.
- * Looks for tables whose headers contain "Prop", "Type", or "Description".
- *
- * @param content - Raw markdown content
- * @returns Array of table strings that look like prop tables
- */
-function extractPropTables(content: string): string[] {
-  const tables: string[] = [];
-  const lines = content.split('\n');
-
-  let inTable = false;
-  let currentTable: string[] = [];
-  let isPropTable = false;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Detect table start (line starting with |)
-    if (trimmed.startsWith('|') && !inTable) {
-      inTable = true;
-      currentTable = [trimmed];
-
-      // Check if this is a prop-like table by inspecting the header row
-      const headerLower = trimmed.toLowerCase();
-      isPropTable = headerLower.includes('prop') ||
-                    headerLower.includes('type') ||
-                    headerLower.includes('slot') ||
-                    (headerLower.includes('name') && headerLower.includes('description'));
-      continue;
-    }
+  const { document: doc, corrected } = match;
+  const didYouMean = corrected ? doc.title : null;
 
-    // Continue collecting table rows
-    if (inTable && trimmed.startsWith('|')) {
-      currentTable.push(trimmed);
-      continue;
+  // Extract the props section using the metadata extractor utility,
+  // falling back to any prop-like tables
+  const propsSection = extractPropsSection(doc.content);
+  const fallbackTables = propsSection ? [] : extractPropTables(doc.content);
+  const source = propsSection ? 'props-section' : fallbackTables.length > 0 ? 'inline-tables' : null;
+
+  const propName = args.propName?.trim() || null;
+  const type = args.type?.trim() || null;
+
+  if (propName || type) {
+    const props = doc.props.filter((prop) =>
+      (!propName || prop.name.toLowerCase() === propName.toLowerCase()) &&
+      (!type || prop.type.toLowerCase().includes(type.toLowerCase()))
+    );
+    const slots = type
+      ? []
+      : doc.slots.filter((slot) => slot.name.toLowerCase() === propName!.toLowerCase());
+    const filter = formatFilter(propName, type);
+
+    let text: string;
+    if (doc.props.length === 0 && doc.slots.length === 0) {
+      text = formatNoProps(doc);
+    } else if (props.length === 0 && slots.length === 0) {
+      text = formatNoMatchingProps(doc, filter);
+    } else {
+      text = formatPropDefinitions(doc, filter, props, slots);
     }
 
-    // End of table — save it if it looked like a prop table
-    if (inTable && !trimmed.startsWith('|')) {
-      inTable = false;
-      if (isPropTable && currentTable.length >= 3) {
-        // At least header + separator + one data row
-        tables.push(currentTable.join('\n'));
-      }
-      currentTable = [];
-      isPropTable = false;
-    }
+    return {
+      text: withDidYouMean(text, componentName, didYouMean),
+      structured: {
+        component: toDocumentSummary(doc),
+        source,
+        tables: [],
+        props,
+        slots,
+        availableComponents: [],
+        didYouMean,
+      },
+    };
   }
 
-  // Handle table at end of document
-  if (inTable && isPropTable && currentTable.length >= 3) {
-    tables.push(currentTable.join('\n'));
+  if (!propsSection) {
+    return {
+      text: withDidYouMean(
+        fallbackTables.length > 0 ? formatFallbackPropsResponse(doc, fallbackTables) : formatNoProps(doc),
+        componentName,
+        didYouMean
+      ),
+      structured: {
+        component: toDocumentSummary(doc),
+        source,
+        tables: fallbackTables.flatMap(parseMarkdownTables),
+        props: doc.props,
+        slots: doc.slots,
+        availableComponents: [],
+        didYouMean,
+      },
+    };
   }
 
-  return tables;
+  return {
+    text: withDidYouMean(formatPropsResponse(doc, propsSection), componentName, didYouMean),
+    structured: {
+      component: toDocumentSummary(doc),
+      source,
+      tables: parseMarkdownTables(propsSection),
+      props: doc.props,
+      slots: doc.slots,
+      availableComponents: [],
+      didYouMean,
+    },
+  };
 }
 
 /**
@@ -137,17 +183,7 @@ function formatPropsResponse(
   propsSection: string
 ): string {
   const parts: string[] = [];
-
-  // Header with component info
-  parts.push(`# ${doc.title} — Props Reference`);
-  parts.push('');
-
-  if (doc.metadata.packageName) {
-    parts.push(`**Package:** \`${doc.metadata.packageName}\``);
-  }
-  if (doc.metadata.importStatement) {
-    parts.push(`**Import:** \`${doc.metadata.importStatement}\``);
-  }
+  appendComponentHeader(parts, doc);
 
   parts.push('');
   parts.push('---');
@@ -171,16 +207,7 @@ function formatFallbackPropsResponse(
   tables: string[]
 ): string {
   const parts: string[] = [];
-
-  parts.push(`# ${doc.title} — Props Reference`);
-  parts.push('');
-
-  if (doc.metadata.packageName) {
-    parts.push(`**Package:** \`${doc.metadata.packageName}\``);
-  }
-  if (doc.metadata.importStatement) {
-    parts.push(`**Import:** \`${doc.metadata.importStatement}\``);
-  }
+  appendComponentHeader(parts, doc);
 
   parts.push('');
   parts.push('*Note: Extracted from inline tables (no formal Props Reference section found)*');
@@ -200,6 +227,120 @@ function formatFallbackPropsResponse(
   return parts.join('\n');
 }
 
+/**
+ * Format the props and slots that matched a propName/type filter.
+ *
+ * @param doc - The component document entry
+ * @param filter - Description of the filter (see `formatFilter`)
+ * @param props - The matching props
+ * @param slots - The matching slots
+ * @returns Formatted markdown string with a props table and/or a slots table
+ */
+function formatPropDefinitions(
+  doc: DocumentEntry,
+  filter: string,
+  props: PropDefinition[],
+  slots: SlotDefinition[]
+): string {
+  const parts: string[] = [];
+  appendComponentHeader(parts, doc);
+  parts.push(`**Filter:** ${filter}`);
+  parts.push('');
+  parts.push('---');
+
+  if (props.length > 0) {
+    parts.push('');
+    parts.push('## Props');
+    parts.push('');
+    parts.push('| Prop | Type | Default | Description |');
+    parts.push('|------|------|---------|-------------|');
+    for (const prop of props) {
+      const name = prop.deprecated ? `~~\`${prop.name}\`~~` : `\`${prop.name}\``;
+      const defaultValue = prop.required ? '**required**' : prop.default ? `\`${prop.default}\`` : '-';
+      parts.push(`| ${name} | \`${escapeTableCell(prop.type)}\` | ${escapeTableCell(defaultValue)} | ${escapeTableCell(prop.description)} |`);
+    }
+  }
+
+  if (slots.length > 0) {
+    parts.push('');
+    parts.push('## Slots');
+    parts.push('');
+    parts.push('| Slot | Element | Description |');
+    parts.push('|------|---------|-------------|');
+    for (const slot of slots) {
+      parts.push(`| \`${slot.name}\` | ${escapeTableCell(slot.element)} | ${escapeTableCell(slot.description)} |`);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Format a message when no prop or slot matches a propName/type filter.
+ *
+ * @param doc - The component document entry
+ * @param filter - Description of the filter (see `formatFilter`)
+ * @returns Message listing the component's props and slots
+ */
+function formatNoMatchingProps(doc: DocumentEntry, filter: string): string {
+  const parts: string[] = [];
+  parts.push(`No props of ${doc.title} match ${filter}.`);
+  parts.push('');
+
+  if (doc.props.length > 0) {
+    parts.push(`**Props:** ${unique(doc.props.map((prop) => prop.name)).join(', ')}`);
+  }
+  if (doc.slots.length > 0) {
+    parts.push(`**Slots:** ${unique(doc.slots.map((slot) => slot.name)).join(', ')}`);
+  }
+
+  parts.push('');
+  parts.push('*Tip: Omit propName and type to see the full props reference*');
+  return parts.join('\n');
+}
+
+/**
+ * Describe a propName/type filter for display.
+ *
+ * @param propName - Prop or slot name, if given
+ * @param type - Type text, if given
+ * @returns Description (e.g., "name `size` and type containing `boolean`")
+ */
+function formatFilter(propName: string | null, type: string | null): string {
+  return [
+    propName ? `name \`${propName}\`` : '',
+    type ? `type containing \`${type}\`` : '',
+  ].filter(Boolean).join(' and ');
+}
+
+/**
+ * Append the component title, package, and import to a response.
+ *
+ * @param parts - Output lines (appended to)
+ * @param doc - The component document entry
+ */
+function appendComponentHeader(parts: string[], doc: DocumentEntry): void {
+  parts.push(`# ${doc.title} — Props Reference`);
+  parts.push('');
+
+  if (doc.metadata.packageName) {
+    parts.push(`**Package:** \`${doc.metadata.packageName}\``);
+  }
+  if (doc.metadata.importStatement) {
+    parts.push(`**Import:** \`${doc.metadata.importStatement}\``);
+  }
+}
+
+/**
+ * Remove duplicate names, keeping the first occurrence.
+ *
+ * @param names - Names in document order
+ * @returns The distinct names
+ */
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
+
 /**
  * Format a message when the component exists but has no props table.
  *
@@ -241,12 +382,10 @@ function formatNotFound(name: string, store: DocumentStore): string {
   parts.push('');
 
   // List available components that have props tables
-  const componentDocs = store.getByModule('components');
-  const withProps = componentDocs.filter((doc) => doc.metadata.hasPropsTable);
+  const names = getComponentsWithProps(store);
 
-  if (withProps.length > 0) {
+  if (names.length > 0) {
     parts.push('**Components with props references:**');
-    const names = withProps.map((doc) => doc.title).sort();
     parts.push(names.join(', '));
     parts.push('');
     parts.push('*Tip: Use partial names (e.g., "button" for Button)*');
@@ -256,11 +395,14 @@ function formatNotFound(name: string, store: DocumentStore): string {
 }
 
 /**
- * Format a generic error message.
+ * List the titles of all components that have props tables.
  *
- * @param message - The error description
- * @returns Formatted error string
+ * @param store - The document store
+ * @returns Sorted component titles
  */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
+function getComponentsWithProps(store: DocumentStore): string[] {
+  return store.getByModule('components')
+    .filter((doc) => doc.metadata.hasPropsTable)
+    .map((doc) => doc.title)
+    .sort();
 }
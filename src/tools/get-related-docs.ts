@@ -0,0 +1,173 @@
+/**
+ * Tool: get_related_docs — Show how a document links to the rest of the docs.
+ *
+ * Answers "which docs reference Field?": lists the documents linking to a
+ * document (backlinks), the documents it links to, and its broken links —
+ * links to a file that is not indexed or to a heading that does not exist.
+ *
+ * The links are extracted at index time and resolved by the store's link
+ * graph (see `indexer/link-graph`), so this tool does no markdown parsing
+ * of its own.
+ *
+ * @module tools/get-related-docs
+ */
+
+import type { DocumentStore } from '../indexer/document-store.js';
+import type {
+  Backlink,
+  DocumentEntry,
+  GetRelatedDocsArgs,
+  GetRelatedDocsOutput,
+  ResolvedLink,
+  ToolResult,
+} from '../types/index.js';
+import { findDocument } from './get-section.js';
+import { toDocumentSummary, toolError, formatError, withDidYouMean, escapeTableCell } from './tool-result.js';
+
+/**
+ * Execute the get_related_docs tool.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the document name
+ * @returns Formatted markdown string with the backlinks, links, and broken links,
+ *          or an error/not-found message
+ *
+ * @example
+ * ```typescript
+ * const related = getRelatedDocs(store, { docName: 'Field' });
+ * // Lists Input, Checkbox, Combobox, ... under "Referenced By"
+ * ```
+ */
+export function getRelatedDocs(store: DocumentStore, args: GetRelatedDocsArgs): string {
+  return getRelatedDocsResult(store, args).text;
+}
+
+/**
+ * Execute the get_related_docs tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the document name
+ * @returns The markdown rendering and the structured result
+ */
+export function getRelatedDocsResult(
+  store: DocumentStore,
+  args: GetRelatedDocsArgs
+): ToolResult<GetRelatedDocsOutput> {
+  const { docName } = args;
+
+  if (!docName || docName.trim().length === 0) {
+    return toolError(formatError('Document name is required. Example: "Field", "validation", "foundation/theming"'));
+  }
+
+  const match = findDocument(store, docName.trim());
+  if (!match) {
+    return {
+      text: formatError(
+        `Document "${docName}" not found. Use search_docs or list_all_docs to find the document name.`
+      ),
+      structured: { docName, document: null, backlinks: [], links: [], brokenLinks: [], didYouMean: null },
+    };
+  }
+
+  const { document: doc, corrected } = match;
+  const didYouMean = corrected ? doc.title : null;
+  const graph = store.getLinkGraph();
+  const allLinks = graph.getLinks(doc.id);
+
+  const structured: GetRelatedDocsOutput = {
+    docName,
+    document: toDocumentSummary(doc),
+    backlinks: graph.getBacklinks(doc.id),
+    links: allLinks.filter((link) => link.status === 'ok'),
+    brokenLinks: allLinks.filter((link) => link.status !== 'ok'),
+    didYouMean,
+  };
+
+  return {
+    text: withDidYouMean(formatRelatedDocs(doc, structured, store), docName, didYouMean),
+    structured,
+  };
+}
+
+/**
+ * Format the related documents of a document.
+ *
+ * @param doc - The looked-up document
+ * @param result - The structured result
+ * @param store - The store, to name linked documents by title
+ * @returns Markdown with a section each for backlinks, links, and broken links
+ */
+function formatRelatedDocs(doc: DocumentEntry, result: GetRelatedDocsOutput, store: DocumentStore): string {
+  const { backlinks, links, brokenLinks } = result;
+  const lines: string[] = [
+    `# Related Docs: ${doc.title}`,
+    '',
+    `> \`${doc.id}\` · ${doc.relativePath}`,
+    '',
+  ];
+
+  const referencing = new Set(backlinks.map((backlink) => backlink.docId)).size;
+  lines.push(`## Referenced By (${referencing} document${referencing === 1 ? '' : 's'})`, '');
+  if (backlinks.length === 0) {
+    lines.push('No other document links here.', '');
+  } else {
+    lines.push('| Document | Section | Link |', '|----------|---------|------|');
+    lines.push(...backlinks.map(formatBacklinkRow), '');
+  }
+
+  lines.push(`## Links To (${links.length})`, '');
+  if (links.length === 0) {
+    lines.push('This document links to no other document.', '');
+  } else {
+    lines.push('| Link | Target | Section |', '|------|--------|---------|');
+    for (const link of links) {
+      const target = link.docId === null ? `${link.path} (folder)` : formatTarget(link, store.getById(link.docId));
+      lines.push(`| ${escapeTableCell(link.text)} | ${escapeTableCell(target)} | ${escapeTableCell(link.section)} |`);
+    }
+    lines.push('');
+  }
+
+  if (brokenLinks.length > 0) {
+    lines.push(`## Broken Links (${brokenLinks.length})`, '');
+    lines.push('| Link | Target | Section | Problem |', '|------|--------|---------|---------|');
+    for (const link of brokenLinks) {
+      const problem = link.status === 'missing-file'
+        ? `No indexed document at ${link.path}`
+        : `No heading with anchor "${link.anchor}" in ${link.path}`;
+      lines.push(
+        `| ${escapeTableCell(link.text)} | \`${escapeTableCell(link.target)}\` | ` +
+        `${escapeTableCell(link.section)} | ${escapeTableCell(problem)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('---', '*Use query_component or get_section to read a related document.*');
+  return lines.join('\n');
+}
+
+/**
+ * Format one backlink as a table row.
+ *
+ * @param backlink - The backlink
+ * @returns Markdown table row
+ */
+function formatBacklinkRow(backlink: Backlink): string {
+  const link = backlink.anchor ? `${backlink.text} → #${backlink.anchor}` : backlink.text;
+  return (
+    `| ${escapeTableCell(backlink.title)} (\`${backlink.docId}\`) | ` +
+    `${escapeTableCell(backlink.section)} | ${escapeTableCell(link)} |`
+  );
+}
+
+/**
+ * Name a link's target document, with the heading it points to.
+ *
+ * @param link - The resolved link
+ * @param target - The linked document
+ * @returns The target's title and ID (e.g., "Field (`components/forms/field`) #usage")
+ */
+function formatTarget(link: ResolvedLink, target: DocumentEntry | undefined): string {
+  const name = target ? `${target.title} (\`${target.id}\`)` : `\`${link.docId}\``;
+  return link.anchor ? `${name} #${link.anchor}` : name;
+}
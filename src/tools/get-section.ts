@@ -0,0 +1,197 @@
+/**
+ * Tool: get_section — Fetch a single section of a FluentUI document.
+ *
+ * `query_component` returns a whole document; when only "Accessibility" or
+ * "Best Practices" is needed, this tool returns just that heading and the
+ * sub-headings below it, saving context.
+ *
+ * The document is looked up by name with the store's fuzzy matching (any
+ * module, including typo correction) or by its exact ID. The section is
+ * looked up by anchor, heading, or heading path (see `findSection`). When
+ * the heading isn't found, the document's outline is returned instead so
+ * the caller can pick a heading that exists.
+ *
+ * @module tools/get-section
+ */
+
+import type { DocumentStore, NameMatch } from '../indexer/document-store.js';
+import {
+  parseSections,
+  findSection,
+  getSectionMarkdown,
+  formatSectionPath,
+} from '../indexer/section-parser.js';
+import type {
+  DocumentEntry,
+  GetSectionArgs,
+  GetSectionOutput,
+  SectionHeading,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentSummary, toolError, formatError, withDidYouMean } from './tool-result.js';
+
+/**
+ * Execute the get_section tool.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the document name and heading
+ * @returns Formatted markdown string with the section,
+ *          or the document's outline if the heading was not found
+ *
+ * @example
+ * ```typescript
+ * const result = getSection(store, { docName: 'dialog', heading: 'Accessibility' });
+ * // Returns the Dialog "Accessibility" section with its sub-sections
+ * ```
+ */
+export function getSection(store: DocumentStore, args: GetSectionArgs): string {
+  return getSectionResult(store, args).text;
+}
+
+/**
+ * Execute the get_section tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the document name and heading
+ * @returns The markdown rendering and the structured result
+ */
+export function getSectionResult(
+  store: DocumentStore,
+  args: GetSectionArgs
+): ToolResult<GetSectionOutput> {
+  const { docName, heading } = args;
+
+  if (!docName || docName.trim().length === 0) {
+    return toolError(formatError('Document name is required. Example: "Dialog", "validation", "theming"'));
+  }
+  if (!heading || heading.trim().length === 0) {
+    return toolError(formatError('Heading is required. Example: "Accessibility", "usage", "Props › Slots"'));
+  }
+
+  const match = findDocument(store, docName.trim());
+  if (!match) {
+    return {
+      text: formatError(
+        `Document "${docName}" not found. Use search_docs or list_all_docs to find the document name.`
+      ),
+      structured: {
+        docName,
+        heading,
+        document: null,
+        section: null,
+        content: null,
+        outline: [],
+        didYouMean: null,
+      },
+    };
+  }
+
+  const { document: doc, corrected } = match;
+  const didYouMean = corrected ? doc.title : null;
+  const sections = parseSections(doc.content);
+  const index = findSection(sections, heading);
+
+  if (index < 0) {
+    const outline = sections.filter((section) => section.level > 0).map(toSectionHeading);
+    return {
+      text: withDidYouMean(formatSectionNotFound(doc, heading, outline), docName, didYouMean),
+      structured: {
+        docName,
+        heading,
+        document: toDocumentSummary(doc),
+        section: null,
+        content: null,
+        outline,
+        didYouMean,
+      },
+    };
+  }
+
+  const section = toSectionHeading(sections[index]);
+  const content = getSectionMarkdown(sections, index);
+  return {
+    text: withDidYouMean(formatSectionResponse(doc, section, content), docName, didYouMean),
+    structured: {
+      docName,
+      heading,
+      document: toDocumentSummary(doc),
+      section,
+      content,
+      outline: [],
+      didYouMean,
+    },
+  };
+}
+
+/**
+ * Find a document by exact ID, falling back to fuzzy name matching.
+ *
+ * Exported so that argument completion resolves `docName` exactly like
+ * the tool does.
+ *
+ * @param store - The document store
+ * @param name - Document ID or name
+ * @returns The match, or undefined if nothing is close enough
+ */
+export function findDocument(store: DocumentStore, name: string): NameMatch | undefined {
+  const doc = store.getById(name);
+  return doc ? { document: doc, corrected: false } : store.matchName(name);
+}
+
+/**
+ * Reduce a section to its heading.
+ *
+ * @param section - A section with its content
+ * @returns The section's heading, level, anchor, and path
+ */
+function toSectionHeading({ heading, level, anchor, path }: SectionHeading): SectionHeading {
+  return { heading, level, anchor, path };
+}
+
+/**
+ * Format a found section with a short header naming its document.
+ *
+ * @param doc - The document the section belongs to
+ * @param section - The section's heading
+ * @param content - The section as markdown, including its sub-sections
+ * @returns Formatted response string
+ */
+function formatSectionResponse(doc: DocumentEntry, section: SectionHeading, content: string): string {
+  const parts: string[] = [];
+  parts.push(`**Section:** ${formatSectionPath(section.path)}`);
+  parts.push(`**Document:** ${doc.title} (\`${doc.id}#${section.anchor}\`)`);
+  parts.push('');
+  parts.push('---');
+  parts.push('');
+  parts.push(content);
+  return parts.join('\n');
+}
+
+/**
+ * Format a "heading not found" message with the document's outline.
+ *
+ * @param doc - The document that was searched
+ * @param heading - The heading that wasn't found
+ * @param outline - The document's headings, in document order
+ * @returns Formatted message listing the headings to choose from
+ */
+function formatSectionNotFound(doc: DocumentEntry, heading: string, outline: SectionHeading[]): string {
+  const parts: string[] = [];
+  parts.push(`Heading "${heading}" not found in ${doc.title} (\`${doc.id}\`).`);
+  parts.push('');
+
+  if (outline.length === 0) {
+    parts.push('*This document has no headings.*');
+    return parts.join('\n');
+  }
+
+  parts.push('**Outline:**');
+  const topLevel = Math.min(...outline.map((section) => section.level));
+  for (const section of outline) {
+    parts.push(`${'  '.repeat(section.level - topLevel)}- ${section.heading} (\`${section.anchor}\`)`);
+  }
+  parts.push('');
+  parts.push('*Tip: Pass a heading, its anchor, or a heading path (e.g., "Usage › Controlled")*');
+
+  return parts.join('\n');
+}
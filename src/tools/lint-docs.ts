@@ -0,0 +1,121 @@
+/**
+ * Tool: lint_docs — Check the docs against the required doc shape.
+ *
+ * Runs the docs linter (see `indexer/docs-linter`) over the indexed
+ * documents and lists the violations per file, with their rule IDs:
+ * missing packages, unparseable props tables, unresolvable See Also
+ * links, titles that collide in the name index, and empty sections.
+ *
+ * Meant for maintainers editing the docs; combine with `reindex` (or
+ * `--watch`) to re-check after each edit. The same check runs from the
+ * command line as `fluentui-mcp lint-docs`.
+ *
+ * @module tools/lint-docs
+ */
+
+import type { DocumentStore } from '../indexer/document-store.js';
+import { lintDocuments } from '../indexer/docs-linter.js';
+import type { LintDocsArgs, LintDocsOutput, LintRule, LintViolation, ToolResult } from '../types/index.js';
+import { LINT_RULES } from '../types/index.js';
+import { toolError, formatError, escapeTableCell } from './tool-result.js';
+
+/**
+ * Execute the lint_docs tool.
+ *
+ * @param store - The populated document store
+ * @param args - Tool arguments with optional rule and path filters
+ * @returns Formatted markdown string listing the violations per file
+ *
+ * @example
+ * ```typescript
+ * const report = lintDocs(store, { rule: 'missing-package' });
+ * // Lists the component docs without a "> **Package**:" line
+ * ```
+ */
+export function lintDocs(store: DocumentStore, args: LintDocsArgs = {}): string {
+  return lintDocsResult(store, args).text;
+}
+
+/**
+ * Execute the lint_docs tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store
+ * @param args - Tool arguments with optional rule and path filters
+ * @returns The markdown rendering and the structured result
+ */
+export function lintDocsResult(store: DocumentStore, args: LintDocsArgs = {}): ToolResult<LintDocsOutput> {
+  const { rule, path } = args;
+
+  if (rule !== undefined && !(LINT_RULES as readonly string[]).includes(rule)) {
+    return toolError(formatError(`Unknown rule "${rule}". Available rules: ${LINT_RULES.join(', ')}`));
+  }
+
+  const inPath = (doc: { id: string; relativePath: string }): boolean =>
+    !path || doc.relativePath.startsWith(path) || doc.id.startsWith(path);
+
+  const documents = store.getAllDocuments().filter(inPath).length;
+  if (documents === 0) {
+    return toolError(formatError(`No documents match path "${path}".`));
+  }
+
+  const violations = lintDocuments(store).filter((violation) => (
+    (!rule || violation.rule === rule) &&
+    inPath({ id: violation.docId, relativePath: violation.relativePath })
+  ));
+
+  const counts = Object.fromEntries(LINT_RULES.map((name) => [name, 0])) as Record<LintRule, number>;
+  for (const violation of violations) {
+    counts[violation.rule]++;
+  }
+
+  const structured: LintDocsOutput = { documents, counts, violations };
+  return { text: formatLintResult(structured), structured };
+}
+
+/**
+ * Format the lint report: a summary, then a table of violations per file.
+ *
+ * @param result - The structured result
+ * @returns Markdown report
+ */
+function formatLintResult(result: LintDocsOutput): string {
+  const { documents, violations } = result;
+  const lines: string[] = ['# Docs Lint', ''];
+  const documentsLabel = `${documents} document${documents === 1 ? '' : 's'}`;
+
+  if (violations.length === 0) {
+    lines.push(`✅ **No violations** in ${documentsLabel}.`);
+    return lines.join('\n');
+  }
+
+  const byFile = new Map<string, LintViolation[]>();
+  for (const violation of violations) {
+    byFile.set(violation.relativePath, [...(byFile.get(violation.relativePath) ?? []), violation]);
+  }
+
+  const violationsLabel = `${violations.length} violation${violations.length === 1 ? '' : 's'}`;
+  lines.push(`❌ **${violationsLabel}** in ${byFile.size} of ${documentsLabel}:`, '');
+
+  const counted = LINT_RULES.filter((rule) => result.counts[rule] > 0);
+  lines.push(counted.map((rule) => `\`${rule}\`: ${result.counts[rule]}`).join(' · '), '');
+
+  for (const [relativePath, fileViolations] of byFile) {
+    lines.push(`## ${relativePath}`, '');
+    lines.push('| Rule | Section | Violation |');
+    lines.push('|------|---------|-----------|');
+    for (const violation of fileViolations) {
+      lines.push(
+        `| \`${violation.rule}\` | ${violation.section ? escapeTableCell(violation.section) : '—'} | ` +
+        `${escapeTableCell(violation.message)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push(
+    '---',
+    '*The required doc shape is described in the Document Format Reference of `maintenance/DOCS-MAINTENANCE.md`.*'
+  );
+
+  return lines.join('\n');
+}
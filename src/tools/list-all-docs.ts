@@ -3,7 +3,8 @@
  *
  * Returns a structured overview of every document in the store,
  * grouped by module and category. Useful for getting a bird's-eye
- * view of what documentation is available.
+ * view of what documentation is available, plus the document count
+ * of every served FluentUI version.
  *
  * This is a utility tool — no arguments required.
  *
@@ -11,6 +12,9 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
+import type { ListAllDocsOutput, ToolResult, VersionCount } from '../types/index.js';
+import { DEFAULT_VERSION } from '../types/index.js';
+import { toDocumentSummary } from './tool-result.js';
 
 /**
  * Execute the list_all_docs tool.
@@ -19,20 +23,53 @@ import type { DocumentStore } from '../indexer/document-store.js';
  * module and category, with document counts and available categories.
  *
  * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @param versions - Every served version with its document count (default: none listed)
  * @returns Formatted markdown string listing all indexed documentation
  *
  * @example
  * ```typescript
- * const result = listAllDocs(store);
+ * const result = listAllDocs(store, 'v9');
  * // Returns grouped list of all docs with counts
  * ```
  */
-export function listAllDocs(store: DocumentStore): string {
+export function listAllDocs(
+  store: DocumentStore,
+  version = DEFAULT_VERSION,
+  versions: VersionCount[] = []
+): string {
+  return listAllDocsResult(store, version, versions).text;
+}
+
+/**
+ * Execute the list_all_docs tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @param versions - Every served version with its document count (default: none listed)
+ * @returns The markdown rendering and the structured result
+ */
+export function listAllDocsResult(
+  store: DocumentStore,
+  version = DEFAULT_VERSION,
+  versions: VersionCount[] = []
+): ToolResult<ListAllDocsOutput> {
+  const structured: ListAllDocsOutput = {
+    version,
+    versions,
+    totalDocuments: store.size,
+    modules: store.getModules(),
+    categories: store.getCategories(),
+    documents: store.getAllDocuments()
+      .map(toDocumentSummary)
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  };
+
   if (store.size === 0) {
-    return formatEmpty();
+    return { text: formatEmpty(), structured };
   }
 
-  return formatDocumentOverview(store);
+  return { text: formatDocumentOverview(store, version, versions), structured };
 }
 
 /**
@@ -44,9 +81,15 @@ export function listAllDocs(store: DocumentStore): string {
  * - Components sub-grouped by category
  *
  * @param store - The populated document store
+ * @param version - FluentUI version the store was built from
+ * @param versions - Every served version with its document count
  * @returns Formatted markdown overview
  */
-function formatDocumentOverview(store: DocumentStore): string {
+function formatDocumentOverview(
+  store: DocumentStore,
+  version: string,
+  versions: VersionCount[]
+): string {
   const parts: string[] = [];
 
   // Header with summary
@@ -55,6 +98,10 @@ function formatDocumentOverview(store: DocumentStore): string {
 
   parts.push('# FluentUI Documentation Index');
   parts.push('');
+  parts.push(`**Version:** ${version}`);
+  if (versions.length > 1) {
+    parts.push(`**Versions:** ${versions.map(formatVersionCount).join(', ')}`);
+  }
   parts.push(`**Total documents:** ${store.size}`);
   parts.push(`**Modules:** ${modules.map((m) => `${m.module} (${m.count})`).join(', ')}`);
 
@@ -152,6 +199,16 @@ function formatDocumentLine(
   return `- **${title}** — \`${id}\`${suffix}`;
 }
 
+/**
+ * Format a version with its document count.
+ *
+ * @param versionCount - The version and its document count
+ * @returns e.g. "v9 (152 docs, default)"
+ */
+function formatVersionCount({ version, count, isDefault }: VersionCount): string {
+  return `${version} (${count} docs${isDefault ? ', default' : ''})`;
+}
+
 /**
  * Format a message when no documents are indexed.
  *
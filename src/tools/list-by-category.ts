@@ -12,7 +12,13 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { ListByCategoryArgs, DocumentEntry } from '../types/index.js';
+import type {
+  ListByCategoryArgs,
+  ListByCategoryOutput,
+  DocumentEntry,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentSummary, toolError } from './tool-result.js';
 
 /**
  * Execute the list_by_category tool.
@@ -35,25 +41,53 @@ export function listByCategory(
   store: DocumentStore,
   args: ListByCategoryArgs
 ): string {
+  return listByCategoryResult(store, args).text;
+}
+
+/**
+ * Execute the list_by_category tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param args - Tool arguments containing the category name
+ * @returns The markdown rendering and the structured result
+ */
+export function listByCategoryResult(
+  store: DocumentStore,
+  args: ListByCategoryArgs
+): ToolResult<ListByCategoryOutput> {
   const { category } = args;
+  const categories = store.getCategories();
 
   if (!category || category.trim().length === 0) {
-    return formatCategoryList(store);
+    return {
+      text: formatCategoryList(store),
+      structured: { category: null, components: [], categories },
+    };
   }
 
   // Validate category against what the store actually contains (fully dynamic)
   const normalizedCategory = category.trim().toLowerCase();
   if (!isValidCategory(normalizedCategory, store)) {
-    return formatInvalidCategory(normalizedCategory, store);
+    return toolError(formatInvalidCategory(normalizedCategory, store));
   }
 
   const docs = store.getByCategory(normalizedCategory);
 
   if (docs.length === 0) {
-    return `No components found in category "${normalizedCategory}".`;
+    return {
+      text: `No components found in category "${normalizedCategory}".`,
+      structured: { category: normalizedCategory, components: [], categories },
+    };
   }
 
-  return formatCategoryResponse(normalizedCategory, docs);
+  return {
+    text: formatCategoryResponse(normalizedCategory, docs),
+    structured: {
+      category: normalizedCategory,
+      components: sortByTitle(docs).map(toDocumentSummary),
+      categories,
+    },
+  };
 }
 
 /**
@@ -76,10 +110,7 @@ function formatCategoryResponse(
   parts.push(`*${docs.length} component${docs.length === 1 ? '' : 's'} in this category*`);
   parts.push('');
 
-  // Sort alphabetically by title
-  const sorted = [...docs].sort((a, b) => a.title.localeCompare(b.title));
-
-  for (const doc of sorted) {
+  for (const doc of sortByTitle(docs)) {
     // Component name with metadata indicators
     const indicators: string[] = [];
     if (doc.metadata.hasCodeExamples) {
@@ -182,6 +213,16 @@ function isValidCategory(value: string, store: DocumentStore): boolean {
   return categories.some((c) => c.category === value);
 }
 
+/**
+ * Sort documents alphabetically by title.
+ *
+ * @param docs - Documents to sort (not modified)
+ * @returns A sorted copy
+ */
+function sortByTitle(docs: DocumentEntry[]): DocumentEntry[] {
+  return [...docs].sort((a, b) => a.title.localeCompare(b.title));
+}
+
 /**
  * Capitalize the first letter of a string.
  *
@@ -0,0 +1,658 @@
+/**
+ * MCP tool output schemas.
+ *
+ * JSON Schemas describing the `structuredContent` each tool returns,
+ * mirroring the output types in `types/index.ts`. Clients use these to
+ * validate and consume results without parsing the markdown text.
+ *
+ * Shared shapes (document summaries, search hits, counts) are declared
+ * once and composed into the per-tool schemas.
+ *
+ * @module tools/output-schemas
+ */
+
+import { SEARCH_SCOPES, USAGE_RULES, LINT_RULES, LINK_STATUSES } from '../types/index.js';
+
+// ============================================================================
+// Shared building blocks
+// ============================================================================
+
+/** A string that may be null */
+const NULLABLE_STRING = { type: ['string', 'null'] };
+
+/** An array of strings */
+const STRING_ARRAY = { type: 'array', items: { type: 'string' } };
+
+/** A map of names to counts */
+const COUNT_MAP = { type: 'object', additionalProperties: { type: 'number' } };
+
+/** Properties of a DocumentSummary */
+const DOCUMENT_SUMMARY_PROPERTIES = {
+  id: { type: 'string', description: 'Document ID (e.g., "components/buttons/button")' },
+  title: { type: 'string' },
+  module: { type: 'string' },
+  category: NULLABLE_STRING,
+  packageName: NULLABLE_STRING,
+  importStatement: NULLABLE_STRING,
+  description: NULLABLE_STRING,
+  hasPropsTable: { type: 'boolean' },
+  hasCodeExamples: { type: 'boolean' },
+  aliases: STRING_ARRAY,
+  tags: STRING_ARRAY,
+  status: NULLABLE_STRING,
+  since: NULLABLE_STRING,
+  deprecated: { type: 'boolean' },
+  deprecationNote: NULLABLE_STRING,
+};
+
+/** Required properties of a DocumentSummary */
+const DOCUMENT_SUMMARY_REQUIRED = Object.keys(DOCUMENT_SUMMARY_PROPERTIES);
+
+/** Schema for DocumentSummary */
+const DOCUMENT_SUMMARY = {
+  type: 'object',
+  properties: DOCUMENT_SUMMARY_PROPERTIES,
+  required: DOCUMENT_SUMMARY_REQUIRED,
+};
+
+/** Schema for DocumentWithContent */
+const DOCUMENT_WITH_CONTENT = {
+  type: 'object',
+  properties: {
+    ...DOCUMENT_SUMMARY_PROPERTIES,
+    content: { type: 'string', description: 'Full markdown content' },
+  },
+  required: [...DOCUMENT_SUMMARY_REQUIRED, 'content'],
+};
+
+/**
+ * Make an object schema nullable.
+ *
+ * @param schema - An object schema
+ * @returns A schema accepting the object or null
+ */
+function nullable(schema: object): object {
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+/** Properties of a SectionHeading */
+const SECTION_HEADING_PROPERTIES = {
+  heading: { type: 'string' },
+  level: { type: 'number', description: 'Heading level (1-6; 0 for text before the first heading)' },
+  anchor: { type: 'string', description: 'URL fragment of the heading (e.g., "controlled-vs-uncontrolled")' },
+  path: { ...STRING_ARRAY, description: 'Headings from the outermost section down to this one' },
+};
+
+/** Schema for SectionHeading */
+const SECTION_HEADING = {
+  type: 'object',
+  properties: SECTION_HEADING_PROPERTIES,
+  required: Object.keys(SECTION_HEADING_PROPERTIES),
+};
+
+/** Schema for DocumentSection */
+const DOCUMENT_SECTION = {
+  type: 'object',
+  properties: {
+    ...SECTION_HEADING_PROPERTIES,
+    content: { type: 'string', description: 'The text below the heading, up to the next heading' },
+  },
+  required: [...Object.keys(SECTION_HEADING_PROPERTIES), 'content'],
+};
+
+/**
+ * Schema for OutlineNode. Children are outline nodes themselves, referenced
+ * through the `$defs` of the tool schema that uses it.
+ */
+const OUTLINE_NODE = {
+  type: 'object',
+  properties: {
+    ...SECTION_HEADING_PROPERTIES,
+    tokens: { type: 'number', description: 'Approximate size of the section (with sub-sections) in tokens' },
+    hasCode: { type: 'boolean' },
+    hasTable: { type: 'boolean' },
+    children: { type: 'array', items: { $ref: '#/$defs/outlineNode' } },
+  },
+  required: [...Object.keys(SECTION_HEADING_PROPERTIES), 'tokens', 'hasCode', 'hasTable', 'children'],
+};
+
+/** Properties of a PropDefinition */
+const PROP_DEFINITION_PROPERTIES = {
+  name: { type: 'string' },
+  type: { type: 'string', description: 'TypeScript type (e.g., "\'small\' | \'medium\'")' },
+  default: NULLABLE_STRING,
+  description: { type: 'string' },
+  required: { type: 'boolean' },
+  deprecated: { type: 'boolean' },
+  component: { ...NULLABLE_STRING, description: 'Component named by the table heading (null: the document\'s own)' },
+};
+
+/** Schema for PropDefinition */
+const PROP_DEFINITION = {
+  type: 'object',
+  properties: PROP_DEFINITION_PROPERTIES,
+  required: Object.keys(PROP_DEFINITION_PROPERTIES),
+};
+
+/** Schema for SlotDefinition */
+const SLOT_DEFINITION = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    element: { type: 'string', description: 'Element the slot renders (e.g., "`<span>`")' },
+    description: { type: 'string' },
+    component: { ...NULLABLE_STRING, description: 'Component named by the table heading (null: the document\'s own)' },
+  },
+  required: ['name', 'element', 'description', 'component'],
+};
+
+/** Properties of a SearchHit */
+const SEARCH_HIT_PROPERTIES = {
+  document: DOCUMENT_SUMMARY,
+  relevance: { type: 'number', description: 'Relevance score (0-100)' },
+  excerpt: { type: 'string' },
+  matchedFields: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { field: { type: 'string' }, score: { type: 'number' } },
+      required: ['field', 'score'],
+    },
+  },
+  section: nullable(DOCUMENT_SECTION),
+};
+
+/** Schema for SearchHit */
+const SEARCH_HIT = {
+  type: 'object',
+  properties: SEARCH_HIT_PROPERTIES,
+  required: Object.keys(SEARCH_HIT_PROPERTIES),
+};
+
+/** Schema for CategoryCount */
+const CATEGORY_COUNT = {
+  type: 'object',
+  properties: { category: { type: 'string' }, count: { type: 'number' } },
+  required: ['category', 'count'],
+};
+
+/** Schema for ModuleCount */
+const MODULE_COUNT = {
+  type: 'object',
+  properties: { module: { type: 'string' }, count: { type: 'number' } },
+  required: ['module', 'count'],
+};
+
+/** Schema for VersionCount */
+const VERSION_COUNT = {
+  type: 'object',
+  properties: {
+    version: { type: 'string' },
+    count: { type: 'number' },
+    isDefault: { type: 'boolean' },
+  },
+  required: ['version', 'count', 'isDefault'],
+};
+
+/**
+ * The `page` property every tool's output may carry: added by the
+ * dispatcher when the text was split into pages (see `tools/pagination`).
+ */
+const PAGE_PROPERTY = {
+  page: {
+    type: 'object',
+    description: 'Which part of the markdown text was returned (only when the text was split into pages)',
+    properties: {
+      start: { type: 'number', description: 'Offset of the first returned character' },
+      end: { type: 'number', description: 'Offset after the last returned character' },
+      total: { type: 'number', description: 'Length of the full text' },
+      nextCursor: { ...NULLABLE_STRING, description: 'Cursor for the next page (null on the last page)' },
+      contentOmitted: {
+        type: 'boolean',
+        description: 'Whether content/code fields were emptied (their text is paged through the markdown)',
+      },
+    },
+    required: ['start', 'end', 'total', 'nextCursor', 'contentOmitted'],
+  },
+};
+
+/** Pattern names accepted by get_pattern */
+const PATTERN_NAME_PROPERTIES = {
+  patternCategory: { type: 'string' },
+  patternName: { type: 'string' },
+};
+
+// ============================================================================
+// Tool output schemas
+// ============================================================================
+
+/** Output schema of query_component */
+export const QUERY_COMPONENT_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' },
+    component: nullable(DOCUMENT_WITH_CONTENT),
+    availableComponents: STRING_ARRAY,
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['query', 'component', 'availableComponents', 'didYouMean'],
+};
+
+/** Output schema of get_section */
+export const GET_SECTION_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    docName: { type: 'string' },
+    heading: { type: 'string' },
+    document: nullable(DOCUMENT_SUMMARY),
+    section: nullable(SECTION_HEADING),
+    content: { ...NULLABLE_STRING, description: 'The section as markdown, including its sub-sections' },
+    outline: { type: 'array', items: SECTION_HEADING },
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['docName', 'heading', 'document', 'section', 'content', 'outline', 'didYouMean'],
+};
+
+/** Schema for DocumentLink, resolved (ResolvedLink) */
+const RESOLVED_LINK = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    target: { type: 'string', description: 'Link target as written (e.g., "../forms/field.md#usage")' },
+    section: { type: 'string', description: 'Heading path of the section the link appears in' },
+    path: { type: 'string', description: 'Target path relative to the docs root' },
+    anchor: NULLABLE_STRING,
+    docId: { ...NULLABLE_STRING, description: 'ID of the linked document (null: a folder, or not indexed)' },
+    status: { enum: [...LINK_STATUSES] },
+  },
+  required: ['text', 'target', 'section', 'path', 'anchor', 'docId', 'status'],
+};
+
+/** Output schema of get_outline */
+export const GET_OUTLINE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  $defs: { outlineNode: OUTLINE_NODE },
+  properties: {
+    docName: NULLABLE_STRING,
+    module: NULLABLE_STRING,
+    maxLevel: { type: 'number' },
+    documents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          document: DOCUMENT_SUMMARY,
+          tokens: { type: 'number', description: 'Approximate size of the whole document in tokens' },
+          outline: { type: 'array', items: { $ref: '#/$defs/outlineNode' } },
+        },
+        required: ['document', 'tokens', 'outline'],
+      },
+    },
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['docName', 'module', 'maxLevel', 'documents', 'didYouMean'],
+};
+
+/** Output schema of get_related_docs */
+export const GET_RELATED_DOCS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    docName: { type: 'string' },
+    document: nullable(DOCUMENT_SUMMARY),
+    backlinks: {
+      type: 'array',
+      description: 'Links to the document from other documents',
+      items: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string', description: 'ID of the linking document' },
+          title: { type: 'string' },
+          text: { type: 'string' },
+          section: { type: 'string' },
+          anchor: NULLABLE_STRING,
+        },
+        required: ['docId', 'title', 'text', 'section', 'anchor'],
+      },
+    },
+    links: { type: 'array', items: RESOLVED_LINK },
+    brokenLinks: { type: 'array', items: RESOLVED_LINK },
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['docName', 'document', 'backlinks', 'links', 'brokenLinks', 'didYouMean'],
+};
+
+/** Output schema of search_docs */
+export const SEARCH_DOCS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string' },
+    module: NULLABLE_STRING,
+    searchIn: { enum: [...SEARCH_SCOPES] },
+    results: { type: 'array', items: SEARCH_HIT },
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['query', 'module', 'searchIn', 'results', 'didYouMean'],
+};
+
+/** Output schema of list_by_category */
+export const LIST_BY_CATEGORY_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    category: NULLABLE_STRING,
+    components: { type: 'array', items: DOCUMENT_SUMMARY },
+    categories: { type: 'array', items: CATEGORY_COUNT },
+    ...PAGE_PROPERTY,
+  },
+  required: ['category', 'components', 'categories'],
+};
+
+/** Output schema of get_foundation */
+export const GET_FOUNDATION_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    topic: NULLABLE_STRING,
+    document: nullable(DOCUMENT_WITH_CONTENT),
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          aliases: STRING_ARRAY,
+          description: { type: 'string' },
+          documentId: NULLABLE_STRING,
+        },
+        required: ['topic', 'aliases', 'description', 'documentId'],
+      },
+    },
+    ...PAGE_PROPERTY,
+  },
+  required: ['topic', 'document', 'topics'],
+};
+
+/** Output schema of get_pattern */
+export const GET_PATTERN_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    patternCategory: NULLABLE_STRING,
+    patternName: NULLABLE_STRING,
+    pattern: nullable(DOCUMENT_WITH_CONTENT),
+    patterns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...DOCUMENT_SUMMARY_PROPERTIES, ...PATTERN_NAME_PROPERTIES },
+        required: [...DOCUMENT_SUMMARY_REQUIRED, ...Object.keys(PATTERN_NAME_PROPERTIES)],
+      },
+    },
+    ...PAGE_PROPERTY,
+  },
+  required: ['patternCategory', 'patternName', 'pattern', 'patterns'],
+};
+
+/** Output schema of get_enterprise */
+export const GET_ENTERPRISE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    topic: NULLABLE_STRING,
+    documents: { type: 'array', items: DOCUMENT_WITH_CONTENT },
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          displayName: { type: 'string' },
+          description: { type: 'string' },
+          aliases: STRING_ARRAY,
+          documentIds: STRING_ARRAY,
+        },
+        required: ['topic', 'displayName', 'description', 'aliases', 'documentIds'],
+      },
+    },
+    ...PAGE_PROPERTY,
+  },
+  required: ['topic', 'documents', 'topics'],
+};
+
+/** Output schema of get_component_examples */
+export const GET_COMPONENT_EXAMPLES_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    component: nullable(DOCUMENT_SUMMARY),
+    examples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sectionHeading: { type: 'string' },
+          language: { type: 'string' },
+          code: { type: 'string' },
+        },
+        required: ['sectionHeading', 'language', 'code'],
+      },
+    },
+    availableComponents: STRING_ARRAY,
+    ...PAGE_PROPERTY,
+  },
+  required: ['component', 'examples', 'availableComponents'],
+};
+
+/** Output schema of get_props_reference */
+export const GET_PROPS_REFERENCE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    component: nullable(DOCUMENT_SUMMARY),
+    source: { enum: ['props-section', 'inline-tables', null] },
+    tables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          heading: NULLABLE_STRING,
+          columns: STRING_ARRAY,
+          rows: {
+            type: 'array',
+            items: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        required: ['heading', 'columns', 'rows'],
+      },
+    },
+    props: { type: 'array', items: PROP_DEFINITION },
+    slots: { type: 'array', items: SLOT_DEFINITION },
+    availableComponents: STRING_ARRAY,
+    didYouMean: NULLABLE_STRING,
+    ...PAGE_PROPERTY,
+  },
+  required: ['component', 'source', 'tables', 'props', 'slots', 'availableComponents', 'didYouMean'],
+};
+
+/** Output schema of suggest_components */
+export const SUGGEST_COMPONENTS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    uiDescription: { type: 'string' },
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          component: DOCUMENT_SUMMARY,
+          relevance: { type: 'number' },
+          reason: { type: 'string' },
+        },
+        required: ['component', 'relevance', 'reason'],
+      },
+    },
+    ...PAGE_PROPERTY,
+  },
+  required: ['uiDescription', 'suggestions'],
+};
+
+/** Output schema of get_implementation_guide */
+export const GET_IMPLEMENTATION_GUIDE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    goal: { type: 'string' },
+    components: { type: 'array', items: SEARCH_HIT },
+    patterns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...SEARCH_HIT_PROPERTIES, ...PATTERN_NAME_PROPERTIES },
+        required: [...Object.keys(SEARCH_HIT_PROPERTIES), ...Object.keys(PATTERN_NAME_PROPERTIES)],
+      },
+    },
+    imports: STRING_ARRAY,
+    tips: STRING_ARRAY,
+    accessibilityChecklist: STRING_ARRAY,
+    ...PAGE_PROPERTY,
+  },
+  required: ['goal', 'components', 'patterns', 'imports', 'tips', 'accessibilityChecklist'],
+};
+
+/** Output schema of validate_usage */
+export const VALIDATE_USAGE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    valid: { type: 'boolean', description: 'True when no issues were found' },
+    checkedElements: { type: 'number', description: 'FluentUI elements checked against documented props' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { enum: [...USAGE_RULES] },
+          component: NULLABLE_STRING,
+          prop: NULLABLE_STRING,
+          line: { type: 'number', description: 'Line in the snippet (1-based)' },
+          column: { type: 'number', description: 'Column in the snippet (1-based)' },
+          message: { type: 'string' },
+        },
+        required: ['rule', 'component', 'prop', 'line', 'column', 'message'],
+      },
+    },
+    uncheckedComponents: { ...STRING_ARRAY, description: 'FluentUI components without documented props' },
+    ...PAGE_PROPERTY,
+  },
+  required: ['valid', 'checkedElements', 'issues', 'uncheckedComponents'],
+};
+
+/** Output schema of compare_components */
+export const COMPARE_COMPONENTS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'The requested name' },
+          document: DOCUMENT_SUMMARY,
+          props: { type: 'array', items: PROP_DEFINITION },
+          uniqueProps: { ...STRING_ARRAY, description: 'Props no other compared component documents' },
+          slots: { type: 'array', items: SLOT_DEFINITION },
+          whenToUse: { ...NULLABLE_STRING, description: 'From the Overview section' },
+          dos: { ...STRING_ARRAY, description: 'Recommendations of the Best Practices section' },
+          donts: { ...STRING_ARRAY, description: 'Warnings of the Best Practices section' },
+          accessibility: { ...STRING_ARRAY, description: 'Notes of the Accessibility section' },
+          comparisonSections: { ...STRING_ARRAY, description: 'Heading paths of "X vs Y" sections' },
+        },
+        required: [
+          'name',
+          'document',
+          'props',
+          'uniqueProps',
+          'slots',
+          'whenToUse',
+          'dos',
+          'donts',
+          'accessibility',
+          'comparisonSections',
+        ],
+      },
+    },
+    sharedProps: { ...STRING_ARRAY, description: 'Props every compared component documents' },
+    notFound: { ...STRING_ARRAY, description: 'Requested names without a document' },
+    ...PAGE_PROPERTY,
+  },
+  required: ['components', 'sharedProps', 'notFound'],
+};
+
+/** Output schema of list_all_docs */
+export const LIST_ALL_DOCS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    version: { type: 'string', description: 'The version whose documents are listed' },
+    versions: { type: 'array', items: VERSION_COUNT },
+    totalDocuments: { type: 'number' },
+    modules: { type: 'array', items: MODULE_COUNT },
+    categories: { type: 'array', items: CATEGORY_COUNT },
+    documents: { type: 'array', items: DOCUMENT_SUMMARY },
+    ...PAGE_PROPERTY,
+  },
+  required: ['version', 'versions', 'totalDocuments', 'modules', 'categories', 'documents'],
+};
+
+/** Output schema of lint_docs */
+export const LINT_DOCS_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    documents: { type: 'number', description: 'Documents linted' },
+    counts: { ...COUNT_MAP, description: 'Violations per rule' },
+    violations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { enum: [...LINT_RULES] },
+          docId: { type: 'string' },
+          relativePath: { type: 'string' },
+          section: { ...NULLABLE_STRING, description: 'Heading path of the section concerned' },
+          message: { type: 'string' },
+        },
+        required: ['rule', 'docId', 'relativePath', 'section', 'message'],
+      },
+    },
+    ...PAGE_PROPERTY,
+  },
+  required: ['documents', 'counts', 'violations'],
+};
+
+/** Output schema of reindex */
+export const REINDEX_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    indexedFiles: { type: 'number' },
+    previousCount: { type: 'number' },
+    failedFiles: { type: 'number' },
+    cachedFiles: { type: 'number', description: 'Files reused unchanged from the previous index or the index cache' },
+    forced: { type: 'boolean' },
+    added: { ...STRING_ARRAY, description: 'IDs of documents that are new since the previous index' },
+    changed: { ...STRING_ARRAY, description: 'IDs of documents whose content changed' },
+    deleted: { ...STRING_ARRAY, description: 'IDs of documents that are no longer present' },
+    durationMs: { type: 'number' },
+    byModule: COUNT_MAP,
+    byCategory: COUNT_MAP,
+    ...PAGE_PROPERTY,
+  },
+  required: [
+    'indexedFiles',
+    'previousCount',
+    'failedFiles',
+    'cachedFiles',
+    'forced',
+    'added',
+    'changed',
+    'deleted',
+    'durationMs',
+    'byModule',
+    'byCategory',
+  ],
+};
@@ -0,0 +1,213 @@
+/**
+ * Token-budgeted tool responses with continuation cursors.
+ *
+ * Some tools return whole documents (or, like `get_enterprise`, several of
+ * them) — tens of thousands of tokens in one response. Every tool accepts
+ * `maxTokens` / `maxChars` and an opaque `cursor`; the dispatcher applies
+ * them to the tool's markdown text with `paginateResult`, so no tool
+ * implements paging itself.
+ *
+ * A page ends at the last heading that fits the budget, falling back to the
+ * last blank line, then the last line break, when a single section is
+ * larger than the budget. A page that does not reach the end of the text
+ * gets a footer with the cursor to continue with; the caller repeats the
+ * same call with that `cursor` for the next page.
+ *
+ * The cursor encodes where the next page starts and a fingerprint of the
+ * full text, so a cursor used with other arguments, or after the docs were
+ * reindexed, is rejected instead of returning a mismatched page.
+ *
+ * Structured output gets a `page` field describing which part of the text
+ * was returned. Its bulk text fields (documents' `content`, examples'
+ * `code`) repeat what the markdown text pages through, so they are emptied
+ * on every page — otherwise each page would carry the whole response again
+ * and the budget would not bound what clients reading `structuredContent`
+ * receive. The rest of the structured output is returned as is.
+ *
+ * @module tools/pagination
+ */
+
+import { hashContent } from '../indexer/index-cache.js';
+import { findHeadingOffsets } from '../indexer/section-parser.js';
+import type { PageInfo, PaginationArgs, ToolResult } from '../types/index.js';
+import { CHARS_PER_TOKEN } from '../types/index.js';
+import { toolError, formatError } from './tool-result.js';
+
+/** Length of the text fingerprint stored in a cursor */
+const FINGERPRINT_LENGTH = 12;
+
+/** Decoded form of a cursor: `<offset>:<fingerprint>` */
+const CURSOR_PATTERN = /^(\d+):([0-9a-f]+)$/;
+
+/** Structured output fields holding text the markdown pages through */
+const BULK_TEXT_FIELDS = new Set(['content', 'code']);
+
+/**
+ * Split a tool result's text according to the pagination arguments.
+ *
+ * Results are returned unchanged when no budget or cursor is given, when
+ * the result is an error, or when the whole text fits the budget.
+ *
+ * @param result - The tool's complete result
+ * @param args - The call's pagination arguments
+ * @returns The requested page of the result, or an error result for an
+ *          invalid budget or cursor
+ *
+ * @example
+ * ```typescript
+ * const first = paginateResult(result, { maxTokens: 2000 });
+ * // first.text ends with: Continue with cursor "MTIzNDU6YWJj..." ...
+ * const next = paginateResult(result, { maxTokens: 2000, cursor: first.structured.page.nextCursor });
+ * ```
+ */
+export function paginateResult<T extends object>(
+  result: ToolResult<T>,
+  args: PaginationArgs
+): ToolResult<T & { page?: PageInfo }> {
+  const { maxTokens, maxChars, cursor } = args;
+  if (result.isError || (maxTokens === undefined && maxChars === undefined && !cursor)) {
+    return result;
+  }
+
+  for (const [name, value] of [['maxTokens', maxTokens], ['maxChars', maxChars]] as const) {
+    if (value !== undefined && !(Number.isFinite(value) && value >= 1)) {
+      return toolError(formatError(`${name} must be a positive number.`));
+    }
+  }
+
+  const { text } = result;
+  const fingerprint = hashContent(text).slice(0, FINGERPRINT_LENGTH);
+  const start = cursor ? decodeCursor(cursor, fingerprint) : 0;
+  if (start === null || start > text.length) {
+    return toolError(formatError(
+      'Invalid or expired cursor. The arguments or the documentation changed since it was issued; ' +
+      'repeat the call without a cursor to start over.'
+    ));
+  }
+
+  const budget = Math.floor(Math.min(
+    maxChars ?? Infinity,
+    maxTokens !== undefined ? maxTokens * CHARS_PER_TOKEN : Infinity
+  ));
+  if (start === 0 && text.length <= budget) {
+    return result;
+  }
+
+  const end = findPageEnd(text, start, budget);
+  const nextCursor = end < text.length ? encodeCursor(end, fingerprint) : null;
+  const structured = result.structured && omitBulkText(result.structured);
+  const page: PageInfo = {
+    start,
+    end,
+    total: text.length,
+    nextCursor,
+    contentOmitted: structured !== undefined && structured.omitted,
+  };
+
+  return {
+    text: `${text.slice(start, end).trimEnd()}\n\n${formatPageFooter(page)}`,
+    structured: structured && { ...structured.value, page },
+  };
+}
+
+/**
+ * Empty the bulk text fields of a structured result.
+ *
+ * @param value - The structured result, or any value nested in it
+ * @returns A copy with every `BULK_TEXT_FIELDS` string emptied, and whether one was
+ */
+function omitBulkText<T>(value: T): { value: T; omitted: boolean } {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => omitBulkText(item));
+    return {
+      value: items.map((item) => item.value) as T,
+      omitted: items.some((item) => item.omitted),
+    };
+  }
+  if (value === null || typeof value !== 'object') {
+    return { value, omitted: false };
+  }
+
+  let omitted = false;
+  const copy: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (BULK_TEXT_FIELDS.has(key) && typeof field === 'string') {
+      copy[key] = '';
+      omitted ||= field.length > 0;
+    } else {
+      const nested = omitBulkText(field);
+      copy[key] = nested.value;
+      omitted ||= nested.omitted;
+    }
+  }
+  return { value: copy as T, omitted };
+}
+
+/**
+ * Find where a page should end.
+ *
+ * @param text - The full text
+ * @param start - Offset of the page's first character
+ * @param budget - Maximum number of characters in the page
+ * @returns Offset after the page's last character (always past `start`)
+ */
+function findPageEnd(text: string, start: number, budget: number): number {
+  const limit = start + budget;
+  if (limit >= text.length) {
+    return text.length;
+  }
+
+  // The last heading that starts a new section within the budget
+  const headings = findHeadingOffsets(text).filter((offset) => offset > start && offset <= limit);
+  if (headings.length > 0) {
+    return headings[headings.length - 1];
+  }
+
+  // A section larger than the budget: the last paragraph, then line, break
+  const window = text.slice(start, limit);
+  for (const separator of ['\n\n', '\n']) {
+    const index = window.lastIndexOf(separator);
+    if (index > 0) {
+      return start + index + separator.length;
+    }
+  }
+
+  return limit;
+}
+
+/**
+ * Format the footer of a page.
+ *
+ * @param page - The returned part of the text
+ * @returns Markdown footer with the character range and, if more follows, the cursor
+ */
+function formatPageFooter(page: PageInfo): string {
+  const range = `Characters ${page.start + 1}–${page.end} of ${page.total}.`;
+  return page.nextCursor
+    ? `---\n*${range} Continue with cursor "${page.nextCursor}" ` +
+      '(repeat the call with the same arguments plus `cursor`).*'
+    : `---\n*${range} End of response.*`;
+}
+
+/**
+ * Encode where the next page starts as an opaque cursor.
+ *
+ * @param offset - Offset of the next page's first character
+ * @param fingerprint - Fingerprint of the full text
+ * @returns URL-safe cursor string
+ */
+function encodeCursor(offset: number, fingerprint: string): string {
+  return Buffer.from(`${offset}:${fingerprint}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it belongs to the same text.
+ *
+ * @param cursor - Cursor from a previous page
+ * @param fingerprint - Fingerprint of the current full text
+ * @returns Offset of the page to return, or null if the cursor is invalid or expired
+ */
+function decodeCursor(cursor: string, fingerprint: string): number | null {
+  const match = Buffer.from(cursor, 'base64url').toString().match(CURSOR_PATTERN);
+  return match && match[2] === fingerprint ? Number(match[1]) : null;
+}
@@ -2,7 +2,8 @@
  * Tool: query_component — Look up complete documentation for a FluentUI component.
  *
  * Supports partial and fuzzy name matching (e.g., "button" finds "Button",
- * "toggle" finds "ToggleButton"). Returns the full markdown documentation
+ * "toggle" finds "ToggleButton"), including typos ("datagird" finds "DataGrid",
+ * with a "Did you mean" notice). Returns the full markdown documentation
  * for the best-matching component.
  *
  * This is the primary tool for getting detailed component information
@@ -12,7 +13,14 @@
  */
 
 import type { DocumentStore } from '../indexer/document-store.js';
-import type { QueryComponentArgs } from '../types/index.js';
+import { parseFrontmatter } from '../indexer/frontmatter.js';
+import type {
+  DocumentEntry,
+  QueryComponentArgs,
+  QueryComponentOutput,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentWithContent, toolError, formatError, withDidYouMean } from './tool-result.js';
 
 /**
  * Execute the query_component tool.
@@ -35,68 +43,107 @@ export function queryComponent(
   store: DocumentStore,
   args: QueryComponentArgs
 ): string {
+  return queryComponentResult(store, args).text;
+}
+
+/**
+ * Execute the query_component tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to search
+ * @param args - Tool arguments containing the component name
+ * @returns The markdown rendering and the structured result
+ */
+export function queryComponentResult(
+  store: DocumentStore,
+  args: QueryComponentArgs
+): ToolResult<QueryComponentOutput> {
   const { componentName } = args;
 
   if (!componentName || componentName.trim().length === 0) {
-    return formatError('Component name is required. Example: "Button", "Dialog", "Input"');
+    return toolError(formatError('Component name is required. Example: "Button", "Dialog", "Input"'));
   }
 
   // Use the store's fuzzy matching to find the best match
-  const doc = store.findByName(componentName.trim());
-
-  if (!doc) {
-    return formatNotFound(componentName, store);
+  const match = store.matchName(componentName.trim());
+
+  if (!match) {
+    return {
+      text: formatNotFound(componentName, store),
+      structured: {
+        query: componentName,
+        component: null,
+        availableComponents: store.getByModule('components').map((d) => d.title),
+        didYouMean: null,
+      },
+    };
   }
 
   // Build the response with a metadata header followed by full content
-  return formatComponentResponse(doc.title, doc.content, doc.metadata.packageName, doc.metadata.importStatement, doc.module, doc.category);
+  const { document: doc, corrected } = match;
+  const didYouMean = corrected ? doc.title : null;
+  return {
+    text: withDidYouMean(formatComponentResponse(doc), componentName, didYouMean),
+    structured: {
+      query: componentName,
+      component: toDocumentWithContent(doc),
+      availableComponents: [],
+      didYouMean,
+    },
+  };
 }
 
 /**
  * Format a successful component documentation response.
  *
- * Prepends a structured metadata header to the raw markdown content
- * so the LLM gets key info (package, import) upfront.
+ * Prepends a structured metadata header to the markdown content
+ * so the LLM gets key info (package, import, status) upfront. The
+ * header replaces the document's frontmatter, if any.
  *
- * @param title - Component display name
- * @param content - Full markdown content
- * @param packageName - NPM package name, if known
- * @param importStatement - Import statement, if known
- * @param module - Documentation module
- * @param category - Component category, if applicable
+ * @param doc - The component's document entry
  * @returns Formatted response string
  */
-function formatComponentResponse(
-  title: string,
-  content: string,
-  packageName: string | null,
-  importStatement: string | null,
-  module: string,
-  category: string | null
-): string {
+function formatComponentResponse(doc: DocumentEntry): string {
+  const { title, module, category, metadata } = doc;
   const parts: string[] = [];
 
   // Metadata header — gives the LLM quick-reference info
   parts.push(`# ${title}`);
   parts.push('');
 
-  if (packageName) {
-    parts.push(`**Package:** \`${packageName}\``);
+  if (metadata.deprecated) {
+    parts.push(`> ⚠️ **Deprecated**${metadata.deprecationNote ? `: ${metadata.deprecationNote}` : ''}`);
+    parts.push('');
   }
-  if (importStatement) {
-    parts.push(`**Import:** \`${importStatement}\``);
+
+  if (metadata.packageName) {
+    parts.push(`**Package:** \`${metadata.packageName}\``);
+  }
+  if (metadata.importStatement) {
+    parts.push(`**Import:** \`${metadata.importStatement}\``);
   }
   parts.push(`**Module:** ${module}`);
   if (category) {
     parts.push(`**Category:** ${category}`);
   }
+  if (metadata.status) {
+    parts.push(`**Status:** ${metadata.status}`);
+  }
+  if (metadata.since) {
+    parts.push(`**Since:** ${metadata.since}`);
+  }
+  if (metadata.aliases.length > 0) {
+    parts.push(`**Also known as:** ${metadata.aliases.join(', ')}`);
+  }
+  if (metadata.tags.length > 0) {
+    parts.push(`**Tags:** ${metadata.tags.join(', ')}`);
+  }
 
   parts.push('');
   parts.push('---');
   parts.push('');
 
   // Full documentation content
-  parts.push(content);
+  parts.push(parseFrontmatter(doc.content).body);
 
   return parts.join('\n');
 }
@@ -142,13 +189,3 @@ function formatNotFound(name: string, store: DocumentStore): string {
 
   return parts.join('\n');
 }
-
-/**
- * Format a generic error message.
- *
- * @param message - The error description
- * @returns Formatted error string
- */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
-}
@@ -1,12 +1,18 @@
 /**
- * Tool: reindex — Rebuild the documentation index.
+ * Tool: reindex — Refresh the documentation index.
  *
  * Re-scans the docs directory and rebuilds all in-memory indexes
  * (document store + search engine). Useful if documentation files
  * have been added, modified, or removed at runtime.
  *
+ * The rebuild is incremental: only added and modified files are re-read
+ * and re-parsed, and the result reports the IDs of added, changed, and
+ * deleted documents. `force` re-parses every file.
+ *
  * This reuses existing store and search engine instances so that
- * all tool references remain valid after reindexing.
+ * all tool references remain valid after reindexing. The dispatcher runs
+ * it through the version's build queue, so it never overlaps a rebuild
+ * by the docs watcher (`--watch` mode).
  *
  * @module tools/reindex
  */
@@ -14,18 +20,24 @@
 import { buildIndex } from '../indexer/index-builder.js';
 import type { DocumentStore } from '../indexer/document-store.js';
 import type { SearchEngine } from '../indexer/search-engine.js';
-import type { IndexStats } from '../indexer/index-builder.js';
+import type { IndexStats, IndexChanges, BuildIndexOptions } from '../indexer/index-builder.js';
+import type { ReindexOutput, ToolResult } from '../types/index.js';
+import { toolError } from './tool-result.js';
 
 /**
  * Execute the reindex tool.
  *
- * Clears all existing data and re-scans the documentation directory,
- * rebuilding the document store and search engine indexes.
+ * Re-scans the documentation directory and rebuilds the document store
+ * and search engine indexes, re-parsing only added and modified files.
  *
- * @param store - The existing document store (will be cleared and repopulated)
- * @param searchEngine - The existing search engine (will be cleared and rebuilt)
+ * @param store - The existing document store; it holds the previous build, whose
+ *   entries are reused for unchanged files (none with `force`), and is swapped
+ *   to the new documents in place
+ * @param searchEngine - The existing search engine; unchanged files keep their
+ *   tokens (none with `force`) and only re-parsed files are tokenized again
  * @param docsPath - Absolute path to the docs version directory
- * @returns Formatted markdown string with reindex results and statistics
+ * @param options - Optional: index cache location and force flag
+ * @returns Formatted markdown string with the changes and statistics
  *
  * @example
  * ```typescript
@@ -36,31 +48,77 @@ import type { IndexStats } from '../indexer/index-builder.js';
 export async function reindex(
   store: DocumentStore,
   searchEngine: SearchEngine,
-  docsPath: string
+  docsPath: string,
+  options: BuildIndexOptions = {}
 ): Promise<string> {
+  return (await reindexResult(store, searchEngine, docsPath, options)).text;
+}
+
+/**
+ * Execute the reindex tool, returning markdown and structured output.
+ *
+ * A failed reindex is reported as an error result.
+ *
+ * @param store - The existing document store; it holds the previous build, whose
+ *   entries are reused for unchanged files (none with `force`), and is swapped
+ *   to the new documents in place
+ * @param searchEngine - The existing search engine; unchanged files keep their
+ *   tokens (none with `force`) and only re-parsed files are tokenized again
+ * @param docsPath - Absolute path to the docs version directory
+ * @param options - Optional: index cache location and force flag
+ * @returns The markdown rendering and the structured result
+ */
+export async function reindexResult(
+  store: DocumentStore,
+  searchEngine: SearchEngine,
+  docsPath: string,
+  options: BuildIndexOptions = {}
+): Promise<ToolResult<ReindexOutput>> {
   try {
     // Track the previous state for comparison
     const previousCount = store.size;
 
-    // Rebuild the index using existing instances (they'll be cleared internally)
-    const { stats } = await buildIndex(docsPath, store, searchEngine);
+    // Rebuild the index using existing instances (they hold the previous build)
+    const { stats, changes } = await buildIndex(docsPath, store, searchEngine, options);
+    const forced = options.force ?? false;
 
-    return formatReindexResult(stats, previousCount);
+    return {
+      text: formatReindexResult(stats, changes, previousCount, forced),
+      structured: {
+        indexedFiles: stats.indexedFiles,
+        previousCount,
+        failedFiles: stats.failedFiles,
+        cachedFiles: stats.cachedFiles,
+        forced,
+        ...changes,
+        durationMs: stats.durationMs,
+        byModule: stats.byModule,
+        byCategory: stats.byCategory,
+      },
+    };
   } catch (error) {
-    return formatReindexError(error, docsPath);
+    return toolError(formatReindexError(error, docsPath));
   }
 }
 
 /**
  * Format a successful reindex result with statistics.
  *
- * Shows document counts, timing, and breakdown by module/category.
+ * Shows the changed documents, document counts, timing, and breakdown
+ * by module/category.
  *
  * @param stats - Indexing statistics from the build operation
+ * @param changes - Documents added, changed, and deleted by the reindex
  * @param previousCount - How many documents were indexed before
+ * @param forced - Whether every file was re-parsed
  * @returns Formatted markdown result
  */
-function formatReindexResult(stats: IndexStats, previousCount: number): string {
+function formatReindexResult(
+  stats: IndexStats,
+  changes: IndexChanges,
+  previousCount: number,
+  forced: boolean
+): string {
   const parts: string[] = [];
 
   parts.push('# Reindex Complete ✅');
@@ -71,12 +129,21 @@ function formatReindexResult(stats: IndexStats, previousCount: number): string {
   parts.push(`**Previous count:** ${previousCount}`);
   parts.push(`**Duration:** ${stats.durationMs}ms`);
 
+  if (forced) {
+    parts.push('**Mode:** forced (every file re-parsed)');
+  } else {
+    parts.push(`**Unchanged (reused):** ${stats.cachedFiles}`);
+  }
+
   if (stats.failedFiles > 0) {
     parts.push(`**⚠️ Failed files:** ${stats.failedFiles}`);
   }
 
   parts.push('');
 
+  // What changed
+  parts.push(...formatChanges(changes));
+
   // Module breakdown
   const moduleEntries = Object.entries(stats.byModule);
   if (moduleEntries.length > 0) {
@@ -94,20 +161,38 @@ function formatReindexResult(stats: IndexStats, previousCount: number): string {
     for (const [category, count] of categoryEntries) {
       parts.push(`- **${category}:** ${count} docs`);
     }
-    parts.push('');
   }
 
-  // Delta info
-  const delta = stats.indexedFiles - previousCount;
-  if (delta > 0) {
-    parts.push(`*${delta} new document(s) discovered.*`);
-  } else if (delta < 0) {
-    parts.push(`*${Math.abs(delta)} document(s) no longer present.*`);
-  } else {
-    parts.push('*No change in document count.*');
+  return parts.join('\n').trimEnd();
+}
+
+/**
+ * Format the added, changed, and deleted documents as markdown sections.
+ *
+ * @param changes - Documents added, changed, and deleted by the reindex
+ * @returns Markdown lines, ending with a blank line
+ */
+function formatChanges(changes: IndexChanges): string[] {
+  const sections: Array<[string, string[]]> = [
+    ['Added', changes.added],
+    ['Changed', changes.changed],
+    ['Deleted', changes.deleted],
+  ];
+
+  if (sections.every(([, ids]) => ids.length === 0)) {
+    return ['*No documents added, changed, or deleted.*', ''];
   }
 
-  return parts.join('\n');
+  const lines: string[] = [];
+  for (const [heading, ids] of sections) {
+    if (ids.length === 0) {
+      continue;
+    }
+    lines.push(`## ${heading} (${ids.length})`);
+    lines.push(...ids.map((id) => `- \`${id}\``));
+    lines.push('');
+  }
+  return lines;
 }
 
 /**
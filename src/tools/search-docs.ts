@@ -1,19 +1,32 @@
 /**
  * Tool: search_docs — Full-text search across all FluentUI documentation.
  *
- * Uses the TF-IDF search engine to find relevant documentation matching
+ * Uses the search engine to find relevant documentation matching
  * a query string. Results are ranked by relevance and can be filtered
- * by documentation module (foundation, components, patterns, enterprise).
+ * by documentation module (foundation, components, patterns, enterprise),
+ * or with inline filters in the query (`category:forms has:props`).
+ * Code examples are searched along with the prose, or on their own.
+ * Misspelled words are corrected, with a "Did you mean" notice.
  *
  * Returns a formatted list of results with titles, relevance scores,
- * excerpts, and module/category information.
+ * the best matching section, excerpts, and module/category information.
  *
  * @module tools/search-docs
  */
 
 import type { SearchEngine } from '../indexer/search-engine.js';
-import type { SearchDocsArgs, DocumentModule, SearchResult } from '../types/index.js';
-import { DEFAULT_SEARCH_LIMIT } from '../types/index.js';
+import type {
+  SearchDocsArgs,
+  SearchDocsOutput,
+  DocumentModule,
+  SearchResult,
+  SearchScope,
+  ToolResult,
+} from '../types/index.js';
+import { DEFAULT_SEARCH_LIMIT, DEFAULT_SEARCH_SCOPE, SEARCH_SCOPES } from '../types/index.js';
+import { parseQuery, isValidFilter, HAS_FILTER_VALUES } from '../indexer/query-parser.js';
+import { formatSectionPath } from '../indexer/section-parser.js';
+import { toSearchHit, toolError, formatError, formatDidYouMean } from './tool-result.js';
 
 /**
  * Execute the search_docs tool.
@@ -36,23 +49,62 @@ export function searchDocs(
   searchEngine: SearchEngine,
   args: SearchDocsArgs
 ): string {
-  const { query, module, limit } = args;
+  return searchDocsResult(searchEngine, args).text;
+}
+
+/**
+ * Execute the search_docs tool, returning markdown and structured output.
+ *
+ * @param searchEngine - The populated search engine to query
+ * @param args - Tool arguments containing the query, optional module filter, and limit
+ * @returns The markdown rendering and the structured result
+ */
+export function searchDocsResult(
+  searchEngine: SearchEngine,
+  args: SearchDocsArgs
+): ToolResult<SearchDocsOutput> {
+  const { query, module, limit, searchIn = DEFAULT_SEARCH_SCOPE } = args;
 
   if (!query || query.trim().length === 0) {
-    return formatError('Search query is required. Example: "form validation", "dialog patterns"');
+    return toolError(formatError('Search query is required. Example: "form validation", "dialog patterns"'));
+  }
+
+  if (!SEARCH_SCOPES.includes(searchIn)) {
+    return toolError(formatError(
+      `Invalid searchIn "${searchIn}". Valid values: ${SEARCH_SCOPES.join(', ')}`
+    ));
+  }
+
+  const invalidFilter = parseQuery(query).groups
+    .flatMap((group) => group.filters)
+    .find((filter) => !isValidFilter(filter));
+  if (invalidFilter) {
+    const validValues = HAS_FILTER_VALUES.map((value) => `has:${value}`).join(', ');
+    return toolError(formatError(
+      `Unknown filter "${invalidFilter.field}:${invalidFilter.value}". Valid values: ${validValues}`
+    ));
   }
 
   const effectiveLimit = limit ?? DEFAULT_SEARCH_LIMIT;
   const moduleFilter = module as DocumentModule | undefined;
 
-  // Run the search
-  const results = searchEngine.search(query.trim(), effectiveLimit, moduleFilter);
+  // Run the search (misspelled words are corrected by the engine)
+  const results = searchEngine.search(query.trim(), effectiveLimit, moduleFilter, searchIn);
+  const didYouMean = searchEngine.suggestQuery(query.trim());
+
+  const structured: SearchDocsOutput = {
+    query,
+    module: moduleFilter ?? null,
+    searchIn,
+    results: results.map(toSearchHit),
+    didYouMean,
+  };
 
   if (results.length === 0) {
-    return formatNoResults(query, moduleFilter);
+    return { text: formatNoResults(query, moduleFilter, searchIn), structured };
   }
 
-  return formatSearchResults(query, results, moduleFilter);
+  return { text: formatSearchResults(query, results, searchIn, moduleFilter, didYouMean), structured };
 }
 
 /**
@@ -61,24 +113,33 @@ export function searchDocs(
  * Each result includes:
  * - Title with relevance percentage
  * - Module and category tags
+ * - Best matching section, with its heading path and anchor
  * - Context excerpt
  * - Document ID for reference
  *
  * @param query - The original search query
  * @param results - Array of search results from the engine
+ * @param searchIn - The text that was searched
  * @param moduleFilter - The module filter that was applied, if any
+ * @param didYouMean - The corrected query, if misspelled words were corrected
  * @returns Formatted markdown string
  */
 function formatSearchResults(
   query: string,
   results: SearchResult[],
-  moduleFilter?: DocumentModule
+  searchIn: SearchScope,
+  moduleFilter?: DocumentModule,
+  didYouMean?: string | null
 ): string {
   const parts: string[] = [];
 
   // Header with search context
   const filterNote = moduleFilter ? ` in **${moduleFilter}**` : '';
-  parts.push(`## Search Results for "${query}"${filterNote}`);
+  parts.push(`## Search Results for "${query}"${filterNote}${formatScopeNote(searchIn)}`);
+  if (didYouMean) {
+    parts.push(formatDidYouMean(query, didYouMean));
+    parts.push('');
+  }
   parts.push(`*Found ${results.length} result${results.length === 1 ? '' : 's'}*`);
   parts.push('');
 
@@ -103,6 +164,11 @@ function formatSearchResults(
     }
     parts.push(tags.join(' · '));
 
+    // Best matching section
+    if (result.section && result.section.level > 0) {
+      parts.push(`📍 ${formatSectionPath(result.section.path)} (\`#${result.section.anchor}\`)`);
+    }
+
     // Excerpt
     if (result.excerpt) {
       parts.push(`> ${result.excerpt}`);
@@ -121,13 +187,19 @@ function formatSearchResults(
  *
  * @param query - The search query that returned no results
  * @param moduleFilter - Module filter that was applied, if any
+ * @param searchIn - The text that was searched
  * @returns Formatted message with suggestions
  */
-function formatNoResults(query: string, moduleFilter?: DocumentModule): string {
+function formatNoResults(query: string, moduleFilter: DocumentModule | undefined, searchIn: SearchScope): string {
   const parts: string[] = [];
-  parts.push(`No results found for "${query}".`);
+  parts.push(`No results found for "${query}"${formatScopeNote(searchIn)}.`);
   parts.push('');
 
+  if (searchIn !== DEFAULT_SEARCH_SCOPE) {
+    parts.push('*Try `searchIn: "all"` to search both prose and code examples.*');
+    parts.push('');
+  }
+
   if (moduleFilter) {
     parts.push(`*You searched only in the **${moduleFilter}** module. Try removing the module filter for broader results.*`);
     parts.push('');
@@ -143,11 +215,11 @@ function formatNoResults(query: string, moduleFilter?: DocumentModule): string {
 }
 
 /**
- * Format a generic error message.
+ * Describe a restricted search scope for a heading or message.
  *
- * @param message - The error description
- * @returns Formatted error string
+ * @param searchIn - The text that was searched
+ * @returns " (code only)" or " (prose only)", or an empty string for all text
  */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
+function formatScopeNote(searchIn: SearchScope): string {
+  return searchIn === DEFAULT_SEARCH_SCOPE ? '' : ` (${searchIn} only)`;
 }
@@ -14,7 +14,14 @@
 
 import type { DocumentStore } from '../indexer/document-store.js';
 import type { SearchEngine } from '../indexer/search-engine.js';
-import type { SuggestComponentsArgs, DocumentEntry, ComponentCategory } from '../types/index.js';
+import type {
+  SuggestComponentsArgs,
+  SuggestComponentsOutput,
+  DocumentEntry,
+  ComponentCategory,
+  ToolResult,
+} from '../types/index.js';
+import { toDocumentSummary, toolError, formatError } from './tool-result.js';
 
 /**
  * Maximum number of component suggestions to return.
@@ -53,12 +60,28 @@ export function suggestComponents(
   searchEngine: SearchEngine,
   args: SuggestComponentsArgs
 ): string {
+  return suggestComponentsResult(store, searchEngine, args).text;
+}
+
+/**
+ * Execute the suggest_components tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store to query
+ * @param searchEngine - The search engine for full-text matching
+ * @param args - Tool arguments containing the UI description
+ * @returns The markdown rendering and the structured result
+ */
+export function suggestComponentsResult(
+  store: DocumentStore,
+  searchEngine: SearchEngine,
+  args: SuggestComponentsArgs
+): ToolResult<SuggestComponentsOutput> {
   const { uiDescription } = args;
 
   if (!uiDescription || uiDescription.trim().length === 0) {
-    return formatError(
+    return toolError(formatError(
       'A UI description is required. Example: "a settings page with toggles, dropdowns, and a save button"'
-    );
+    ));
   }
 
   const description = uiDescription.trim();
@@ -66,11 +89,20 @@ export function suggestComponents(
   // Build component suggestions using multiple matching strategies
   const suggestions = buildSuggestions(store, searchEngine, description);
 
+  const structured: SuggestComponentsOutput = {
+    uiDescription: description,
+    suggestions: suggestions.map((suggestion) => ({
+      component: toDocumentSummary(suggestion.document),
+      relevance: suggestion.relevance,
+      reason: suggestion.reason,
+    })),
+  };
+
   if (suggestions.length === 0) {
-    return formatNoSuggestions(description, store);
+    return { text: formatNoSuggestions(description, store), structured };
   }
 
-  return formatSuggestionsResponse(description, suggestions);
+  return { text: formatSuggestionsResponse(description, suggestions), structured };
 }
 
 /**
@@ -439,13 +471,3 @@ function formatNoSuggestions(description: string, store: DocumentStore): string
 
   return parts.join('\n');
 }
-
-/**
- * Format a generic error message.
- *
- * @param message - The error description
- * @returns Formatted error string
- */
-function formatError(message: string): string {
-  return `**Error:** ${message}`;
-}
@@ -0,0 +1,125 @@
+/**
+ * Shared helpers for building tool results.
+ *
+ * Every tool returns a `ToolResult`: the markdown rendering plus a typed
+ * structured result. These helpers convert index types (which carry
+ * non-serializable or bulky fields) into the output types, and build the
+ * common error result.
+ *
+ * @module tools/tool-result
+ */
+
+import type {
+  DocumentEntry,
+  DocumentSummary,
+  DocumentWithContent,
+  SearchResult,
+  SearchHit,
+  ToolResult,
+} from '../types/index.js';
+
+/**
+ * Summarize a document for structured output.
+ *
+ * @param doc - The document entry
+ * @returns Document summary without the content
+ */
+export function toDocumentSummary(doc: DocumentEntry): DocumentSummary {
+  return {
+    id: doc.id,
+    title: doc.title,
+    module: doc.module,
+    category: doc.category,
+    packageName: doc.metadata.packageName,
+    importStatement: doc.metadata.importStatement,
+    description: doc.metadata.description,
+    hasPropsTable: doc.metadata.hasPropsTable,
+    hasCodeExamples: doc.metadata.hasCodeExamples,
+    aliases: doc.metadata.aliases,
+    tags: doc.metadata.tags,
+    status: doc.metadata.status,
+    since: doc.metadata.since,
+    deprecated: doc.metadata.deprecated,
+    deprecationNote: doc.metadata.deprecationNote,
+  };
+}
+
+/**
+ * Summarize a document for structured output, including its content.
+ *
+ * @param doc - The document entry
+ * @returns Document summary with the full markdown content
+ */
+export function toDocumentWithContent(doc: DocumentEntry): DocumentWithContent {
+  return { ...toDocumentSummary(doc), content: doc.content };
+}
+
+/**
+ * Convert a search engine result for structured output.
+ *
+ * @param result - The search result
+ * @returns Search hit with the document reduced to its summary
+ */
+export function toSearchHit(result: SearchResult): SearchHit {
+  return {
+    document: toDocumentSummary(result.document),
+    relevance: result.relevance,
+    excerpt: result.excerpt,
+    matchedFields: result.matchedFields,
+    section: result.section,
+  };
+}
+
+/**
+ * Build an error result.
+ *
+ * @param text - The markdown error message
+ * @returns Tool result flagged as an error, without structured content
+ */
+export function toolError(text: string): ToolResult<never> {
+  return { text, isError: true };
+}
+
+/**
+ * Format a generic error message.
+ *
+ * @param message - The error description
+ * @returns Formatted error string
+ */
+export function formatError(message: string): string {
+  return `**Error:** ${message}`;
+}
+
+/**
+ * Format a "did you mean" notice for a lookup that only matched after
+ * correcting a typo.
+ *
+ * @param query - What the user asked for
+ * @param suggestion - The corrected name or query
+ * @returns Markdown notice, e.g. `> **Did you mean: DataGrid?** ...`
+ */
+export function formatDidYouMean(query: string, suggestion: string): string {
+  return `> **Did you mean: ${suggestion}?** Nothing matched "${query}" exactly; showing results for "${suggestion}".`;
+}
+
+/**
+ * Prefix a response with a "did you mean" notice when the name was corrected.
+ *
+ * @param text - The formatted response
+ * @param query - The name that was asked for
+ * @param didYouMean - The corrected name, or null if the name matched as typed
+ * @returns The response, with the notice if needed
+ */
+export function withDidYouMean(text: string, query: string, didYouMean: string | null): string {
+  return didYouMean ? `${formatDidYouMean(query, didYouMean)}\n\n${text}` : text;
+}
+
+/**
+ * Escape pipes so a value can be written into a markdown table cell.
+ *
+ * @param value - Cell value
+ * @returns The value with every `|` escaped as `\|`
+ */
+export function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
@@ -0,0 +1,605 @@
+/**
+ * Tool: validate_usage — Check FluentUI JSX against the documented props.
+ *
+ * Agents write plausible-looking JSX with props that don't exist
+ * (`<Button variant="primary">`) or values a union type doesn't allow
+ * (`<Input size="huge">`). This tool parses a TSX/JSX snippet with the
+ * TypeScript compiler API, finds every element imported from
+ * `@fluentui/react-components`, and checks its attributes against the
+ * props and slots parsed from the component docs at index time.
+ *
+ * Reported issues (see `USAGE_RULES`):
+ * - syntax errors
+ * - unknown props — neither documented props/slots nor common HTML/React
+ *   attributes (`className`, `aria-*`, `data-*`, `on*` handlers, ...)
+ * - string literals that are not one of a union type's literals
+ *   (`appearance`, `size`, `shape`, ...)
+ * - documented required props that are not set
+ *
+ * Props are looked up by component: tables under a "<Component> Props"
+ * heading belong to that component (e.g., `DialogSurface`), other tables to
+ * the document's own component, which also accepts the props it inherits
+ * ("Inherits all Button props"). Elements without documented props are
+ * listed as unchecked rather than flagged. A snippet without any imports
+ * is checked by tag name, so bare JSX works too.
+ *
+ * @module tools/validate-usage
+ */
+
+import ts from 'typescript';
+import type { DocumentStore } from '../indexer/document-store.js';
+import { findClosestMatches } from '../indexer/fuzzy-match.js';
+import type {
+  PropDefinition,
+  SlotDefinition,
+  ToolResult,
+  UsageIssue,
+  ValidateUsageArgs,
+  ValidateUsageOutput,
+} from '../types/index.js';
+import { toolError, formatError, escapeTableCell } from './tool-result.js';
+
+/** The package whose elements are checked (subpaths like "/unstable" included) */
+const FLUENT_PACKAGE = '@fluentui/react-components';
+
+/** File name the snippet is parsed as (TSX, so JSX is allowed) */
+const SNIPPET_FILE_NAME = 'snippet.tsx';
+
+/**
+ * React and HTML attributes that FluentUI components pass through to their
+ * root, and the `root` slot every v9 component has
+ */
+const COMMON_ATTRIBUTES = new Set([
+  'root', 'key', 'ref', 'children', 'className', 'style', 'id', 'title', 'role', 'tabIndex', 'hidden',
+  'lang', 'dir', 'name', 'value', 'defaultValue', 'type', 'href', 'target', 'rel', 'download',
+  'placeholder', 'autoFocus', 'autoComplete', 'readOnly', 'required', 'disabled', 'checked',
+  'defaultChecked', 'htmlFor', 'form', 'min', 'max', 'step', 'minLength', 'maxLength', 'pattern',
+  'multiple', 'accept', 'src', 'alt', 'width', 'height', 'draggable', 'spellCheck', 'inputMode',
+  'enterKeyHint', 'contentEditable', 'suppressHydrationWarning', 'dangerouslySetInnerHTML',
+]);
+
+/** Attribute prefixes that are always allowed (`aria-label`, `data-testid`, `onClick`) */
+const COMMON_ATTRIBUTE_PATTERN = /^(?:aria-|data-|on[A-Z])/;
+
+/** Props commonly written for another library, and the FluentUI v9 prop to use instead */
+const PROP_ALIASES: Record<string, string> = {
+  variant: 'appearance',
+  primary: 'appearance',
+  iconProps: 'icon',
+};
+
+/** Union members that don't accept arbitrary strings */
+const NON_STRING_MEMBERS = new Set(['undefined', 'null', 'boolean', 'true', 'false', 'number']);
+
+/**
+ * The documented API of one component.
+ */
+interface ComponentApi {
+  /** Documented props */
+  props: PropDefinition[];
+
+  /** Documented slots */
+  slots: SlotDefinition[];
+}
+
+/**
+ * How the snippet refers to FluentUI components.
+ */
+interface FluentImports {
+  /** Local name → component name, for named imports (`import { Button as B }`) */
+  named: Map<string, string>;
+
+  /** Local names of namespace imports (`import * as F`), used as `<F.Button>` */
+  namespaces: Set<string>;
+
+  /** Whether the snippet has any import declarations at all */
+  hasImports: boolean;
+}
+
+/**
+ * State of one validation run.
+ */
+interface ValidationContext {
+  /** The document store with the parsed props */
+  store: DocumentStore;
+
+  /** The parsed snippet */
+  sourceFile: ts.SourceFile;
+
+  /** FluentUI imports of the snippet */
+  imports: FluentImports;
+
+  /** Component APIs looked up so far (null: no documented props) */
+  apis: Map<string, ComponentApi | null>;
+
+  /** Issues found so far */
+  issues: UsageIssue[];
+
+  /** Number of elements checked against documented props */
+  checkedElements: number;
+
+  /** FluentUI components without documented props */
+  unchecked: Set<string>;
+}
+
+/**
+ * Execute the validate_usage tool.
+ *
+ * @param store - The populated document store with parsed props
+ * @param args - Tool arguments containing the code to check
+ * @returns Formatted markdown string listing the issues found
+ *
+ * @example
+ * ```typescript
+ * const report = validateUsage(store, {
+ *   code: 'import { Button } from "@fluentui/react-components";\n<Button variant="primary">Save</Button>',
+ * });
+ * // Reports: unknown-prop — Unknown prop `variant` on Button. Did you mean `appearance`?
+ * ```
+ */
+export function validateUsage(store: DocumentStore, args: ValidateUsageArgs): string {
+  return validateUsageResult(store, args).text;
+}
+
+/**
+ * Execute the validate_usage tool, returning markdown and structured output.
+ *
+ * @param store - The populated document store with parsed props
+ * @param args - Tool arguments containing the code to check
+ * @returns The markdown rendering and the structured result
+ */
+export function validateUsageResult(
+  store: DocumentStore,
+  args: ValidateUsageArgs
+): ToolResult<ValidateUsageOutput> {
+  const { code } = args;
+
+  if (!code || code.trim().length === 0) {
+    return toolError(formatError(
+      'Code is required. Example: \'<Button appearance="primary">Save</Button>\''
+    ));
+  }
+
+  const sourceFile = ts.createSourceFile(SNIPPET_FILE_NAME, code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const context: ValidationContext = {
+    store,
+    sourceFile,
+    imports: collectFluentImports(sourceFile),
+    apis: new Map(),
+    issues: getSyntaxIssues(code, sourceFile),
+    checkedElements: 0,
+    unchecked: new Set(),
+  };
+
+  visitNode(sourceFile, context);
+
+  const issues = context.issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  const structured: ValidateUsageOutput = {
+    valid: issues.length === 0,
+    checkedElements: context.checkedElements,
+    issues,
+    uncheckedComponents: [...context.unchecked].sort(),
+  };
+
+  return { text: formatValidationResult(structured), structured };
+}
+
+/**
+ * Report the snippet's syntax errors.
+ *
+ * @param code - The snippet
+ * @param sourceFile - The parsed snippet (for positions)
+ * @returns One syntax-error issue per diagnostic
+ */
+function getSyntaxIssues(code: string, sourceFile: ts.SourceFile): UsageIssue[] {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: SNIPPET_FILE_NAME,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ES2022 },
+  });
+
+  return diagnostics.map((diagnostic): UsageIssue => ({
+    rule: 'syntax-error',
+    component: null,
+    prop: null,
+    ...getPosition(sourceFile, diagnostic.start ?? 0),
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+  }));
+}
+
+/**
+ * Find the names the snippet imports from @fluentui/react-components.
+ *
+ * @param sourceFile - The parsed snippet
+ * @returns Named and namespace imports of the package
+ */
+function collectFluentImports(sourceFile: ts.SourceFile): FluentImports {
+  const imports: FluentImports = { named: new Map(), namespaces: new Set(), hasImports: false };
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement)) {
+      continue;
+    }
+    imports.hasImports = true;
+
+    const { moduleSpecifier, importClause } = statement;
+    const specifier = ts.isStringLiteral(moduleSpecifier) ? moduleSpecifier.text : '';
+    if ((specifier !== FLUENT_PACKAGE && !specifier.startsWith(`${FLUENT_PACKAGE}/`)) || !importClause?.namedBindings) {
+      continue;
+    }
+
+    const bindings = importClause.namedBindings;
+    if (ts.isNamespaceImport(bindings)) {
+      imports.namespaces.add(bindings.name.text);
+    } else {
+      for (const element of bindings.elements) {
+        imports.named.set(element.name.text, (element.propertyName ?? element.name).text);
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Check every JSX element below a node.
+ *
+ * @param node - The node to walk
+ * @param context - The validation run
+ */
+function visitNode(node: ts.Node, context: ValidationContext): void {
+  if (ts.isJsxSelfClosingElement(node) || ts.isJsxOpeningElement(node)) {
+    checkElement(node, context);
+  }
+  ts.forEachChild(node, (child) => visitNode(child, context));
+}
+
+/**
+ * Resolve which FluentUI component a JSX tag refers to.
+ *
+ * @param tagName - The element's tag
+ * @param context - The validation run
+ * @returns The component name, or null for HTML elements and other components
+ */
+function resolveComponentName(tagName: ts.JsxTagNameExpression, context: ValidationContext): string | null {
+  const { imports } = context;
+
+  if (ts.isIdentifier(tagName)) {
+    const imported = imports.named.get(tagName.text);
+    if (imported) {
+      return imported;
+    }
+    // Bare JSX without imports: any documented component, by tag name
+    return !imports.hasImports && /^[A-Z]/.test(tagName.text) && getComponentApi(tagName.text, context)
+      ? tagName.text
+      : null;
+  }
+
+  if (
+    ts.isPropertyAccessExpression(tagName) &&
+    ts.isIdentifier(tagName.expression) &&
+    imports.namespaces.has(tagName.expression.text)
+  ) {
+    return tagName.name.text;
+  }
+
+  return null;
+}
+
+/**
+ * Look up the documented props and slots of a component.
+ *
+ * Tables headed "<name> Props" in any component doc belong to the
+ * component; so do the other tables of the document titled `name`, and
+ * the props of the components that document says it inherits from.
+ *
+ * @param name - Component name (e.g., "Button", "DialogSurface")
+ * @param context - The validation run (caches the lookups)
+ * @returns The documented API, or null if the component has no documented props
+ */
+function getComponentApi(name: string, context: ValidationContext): ComponentApi | null {
+  const cached = context.apis.get(name);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { store } = context;
+  const docs = store.getByModule('components');
+  const props = docs.flatMap((doc) => doc.props.filter((prop) => prop.component === name));
+  const slots = docs.flatMap((doc) => doc.slots.filter((slot) => slot.component === name));
+
+  const match = store.matchName(name);
+  const doc = match && !match.corrected && store.normalizeName(match.document.title) === store.normalizeName(name)
+    ? match.document
+    : undefined;
+  if (doc) {
+    props.push(...doc.props.filter((prop) => prop.component === null));
+    slots.push(...doc.slots.filter((slot) => slot.component === null));
+
+    // Guard against inheritance cycles while the inherited APIs are looked up
+    context.apis.set(name, null);
+    for (const inherited of doc.inheritsPropsFrom) {
+      const inheritedApi = getComponentApi(inherited, context);
+      props.push(...(inheritedApi?.props ?? []).filter((prop) => !props.some((own) => own.name === prop.name)));
+      slots.push(...(inheritedApi?.slots ?? []).filter((slot) => !slots.some((own) => own.name === slot.name)));
+    }
+  }
+
+  const api = props.length > 0 || slots.length > 0 ? { props, slots } : null;
+  context.apis.set(name, api);
+  return api;
+}
+
+/**
+ * Check one element's attributes against its component's documented API.
+ *
+ * @param element - The opening or self-closing element
+ * @param context - The validation run (issues are appended)
+ */
+function checkElement(
+  element: ts.JsxSelfClosingElement | ts.JsxOpeningElement,
+  context: ValidationContext
+): void {
+  const component = resolveComponentName(element.tagName, context);
+  if (!component) {
+    return;
+  }
+
+  const api = getComponentApi(component, context);
+  if (!api) {
+    context.unchecked.add(component);
+    return;
+  }
+  context.checkedElements++;
+
+  const { sourceFile } = context;
+  const documented = new Map<string, PropDefinition | null>();
+  for (const slot of api.slots) {
+    documented.set(slot.name, null);
+  }
+  for (const prop of api.props) {
+    documented.set(prop.name, prop);
+  }
+
+  const given = new Set<string>();
+  let hasSpread = false;
+
+  for (const attribute of element.attributes.properties) {
+    if (!ts.isJsxAttribute(attribute)) {
+      hasSpread = true;
+      continue;
+    }
+
+    const name = attribute.name.getText(sourceFile);
+    given.add(name);
+    const position = getPosition(sourceFile, attribute.getStart(sourceFile));
+
+    if (!documented.has(name)) {
+      if (!COMMON_ATTRIBUTES.has(name) && !COMMON_ATTRIBUTE_PATTERN.test(name)) {
+        context.issues.push({
+          rule: 'unknown-prop',
+          component,
+          prop: name,
+          ...position,
+          message: `Unknown prop \`${name}\` on ${component}.${formatPropSuggestion(name, documented)}`,
+        });
+      }
+      continue;
+    }
+
+    const prop = documented.get(name);
+    const value = getStringValue(attribute);
+    const allowed = prop ? getStringLiterals(prop.type) : null;
+    if (value !== null && allowed && !allowed.includes(value)) {
+      context.issues.push({
+        rule: 'invalid-value',
+        component,
+        prop: name,
+        ...position,
+        message: `Invalid value "${value}" for \`${name}\` on ${component}. ` +
+          `Expected one of: ${allowed.map((literal) => `"${literal}"`).join(', ')}.`,
+      });
+    }
+  }
+
+  if (hasSpread) {
+    // Required props may come from the spread
+    return;
+  }
+
+  const hasChildren = ts.isJsxOpeningElement(element) &&
+    ts.isJsxElement(element.parent) &&
+    element.parent.children.some((child) => !ts.isJsxText(child) || !child.containsOnlyTriviaWhiteSpaces);
+
+  for (const prop of uniqueByName(api.props.filter((candidate) => candidate.required))) {
+    if (given.has(prop.name) || (prop.name === 'children' && hasChildren)) {
+      continue;
+    }
+    context.issues.push({
+      rule: 'missing-required-prop',
+      component,
+      prop: prop.name,
+      ...getPosition(sourceFile, element.getStart(sourceFile)),
+      message: `Missing required prop \`${prop.name}\` on ${component} (type \`${prop.type}\`).`,
+    });
+  }
+}
+
+/**
+ * Get an attribute's value when it is a string literal.
+ *
+ * @param attribute - The JSX attribute
+ * @returns The string for `size="small"` or `size={'small'}`, otherwise null
+ */
+function getStringValue(attribute: ts.JsxAttribute): string | null {
+  const { initializer } = attribute;
+  if (!initializer) {
+    return null;
+  }
+  if (ts.isStringLiteral(initializer)) {
+    return initializer.text;
+  }
+  if (
+    ts.isJsxExpression(initializer) &&
+    initializer.expression &&
+    (ts.isStringLiteral(initializer.expression) || ts.isNoSubstitutionTemplateLiteral(initializer.expression))
+  ) {
+    return initializer.expression.text;
+  }
+  return null;
+}
+
+/**
+ * Get the string literals a union type allows.
+ *
+ * Only closed unions are checked: every member must be a string literal or
+ * a non-string type (`undefined`, `boolean`, `number`, ...). A union with
+ * `string`, a type reference, or anything else that may accept other
+ * strings is not checked.
+ *
+ * @param type - The documented type (e.g., "'small' | 'medium' | 'large'")
+ * @returns The allowed strings, or null if the type is not a closed union of string literals
+ */
+function getStringLiterals(type: string): string[] | null {
+  const literals: string[] = [];
+
+  for (const member of splitUnion(type)) {
+    const literal = member.match(/^(['"])(.*)\1$/);
+    if (literal) {
+      literals.push(literal[2]);
+    } else if (!NON_STRING_MEMBERS.has(member) && !/^-?\d+(?:\.\d+)?$/.test(member)) {
+      return null;
+    }
+  }
+
+  return literals.length > 0 ? literals : null;
+}
+
+/**
+ * Split a type at its top-level `|`s.
+ *
+ * @param type - A TypeScript type as written in the docs
+ * @returns The union members, trimmed (a single member for non-unions)
+ */
+function splitUnion(type: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of type) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if ('<({['.includes(char)) {
+      depth++;
+    } else if ('>)}]'.includes(char)) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      members.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  members.push(current.trim());
+  return members.filter((member) => member.length > 0);
+}
+
+/**
+ * Suggest the documented prop that was probably meant.
+ *
+ * @param name - The unknown prop
+ * @param documented - Documented props and slots of the component
+ * @returns " Did you mean `x`?" or '' when there is no close match
+ */
+function formatPropSuggestion(name: string, documented: Map<string, PropDefinition | null>): string {
+  const alias = PROP_ALIASES[name];
+  if (alias && documented.has(alias)) {
+    return ` Did you mean \`${alias}\`?`;
+  }
+
+  const names = new Map([...documented.keys()].map((prop) => [prop.toLowerCase(), prop]));
+  const exactCase = names.get(name.toLowerCase());
+  const [closest] = exactCase ? [] : findClosestMatches(name.toLowerCase(), names.keys());
+  const suggestion = exactCase ?? (closest && names.get(closest.candidate));
+  return suggestion ? ` Did you mean \`${suggestion}\`?` : '';
+}
+
+/**
+ * Remove props documented more than once (e.g., by two docs).
+ *
+ * @param props - Props in document order
+ * @returns The first definition of each prop name
+ */
+function uniqueByName(props: PropDefinition[]): PropDefinition[] {
+  const byName = new Map<string, PropDefinition>();
+  for (const prop of props) {
+    if (!byName.has(prop.name)) {
+      byName.set(prop.name, prop);
+    }
+  }
+  return [...byName.values()];
+}
+
+/**
+ * Convert an offset in the snippet into a 1-based line and column.
+ *
+ * @param sourceFile - The parsed snippet
+ * @param offset - Character offset
+ * @returns Line and column, both 1-based
+ */
+function getPosition(sourceFile: ts.SourceFile, offset: number): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+/**
+ * Format the validation report.
+ *
+ * @param output - The structured result
+ * @returns Formatted markdown string
+ */
+function formatValidationResult(output: ValidateUsageOutput): string {
+  const { issues, checkedElements, uncheckedComponents } = output;
+  const parts: string[] = [];
+  parts.push('# Usage Validation');
+  parts.push('');
+
+  if (checkedElements === 0 && uncheckedComponents.length === 0 && issues.length === 0) {
+    parts.push(`No ${FLUENT_PACKAGE} elements found.`);
+    parts.push('');
+    parts.push(`*Tip: Import components from "${FLUENT_PACKAGE}" so their elements can be checked*`);
+    return parts.join('\n');
+  }
+
+  const elements = `${checkedElements} checked FluentUI element${checkedElements === 1 ? '' : 's'}`;
+  if (issues.length === 0) {
+    parts.push(`✅ **No issues** in ${elements}.`);
+  } else {
+    parts.push(`❌ **${issues.length} issue${issues.length === 1 ? '' : 's'}** in ${elements}:`);
+    parts.push('');
+    parts.push('| Line | Component | Rule | Issue |');
+    parts.push('|------|-----------|------|-------|');
+    for (const issue of issues) {
+      const component = issue.component ? `\`${issue.component}\`` : '-';
+      parts.push(
+        `| ${issue.line}:${issue.column} | ${component} | \`${issue.rule}\` | ${escapeTableCell(issue.message)} |`
+      );
+    }
+  }
+
+  if (uncheckedComponents.length > 0) {
+    parts.push('');
+    parts.push(`**Not checked** (no documented props): ${uncheckedComponents.map((name) => `\`${name}\``).join(', ')}`);
+  }
+
+  if (issues.length > 0) {
+    parts.push('');
+    parts.push('*Tip: Use get_props_reference({ componentName, propName }) for a prop\'s type and allowed values*');
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,439 @@
+/**
+ * Streamable HTTP transport host.
+ *
+ * Serves the MCP protocol over the Streamable HTTP transport (POST for
+ * client → server messages, GET for the server → client SSE stream,
+ * DELETE to end a session) on a single endpoint, `/mcp` by default.
+ *
+ * Unlike stdio — where one process serves exactly one client — a single
+ * HTTP server can serve many clients at once. Each client gets its own
+ * session (identified by the `Mcp-Session-Id` header) backed by its own
+ * `StreamableHTTPServerTransport` and MCP `Server` instance, while all
+ * sessions share the one in-memory index the server factory closes over.
+ *
+ * Session lifecycle:
+ * 1. Client POSTs an `initialize` request without a session header
+ * 2. A new transport + server pair is created and a session ID is issued
+ * 3. Subsequent requests carry the session ID and are routed to that pair
+ * 4. A DELETE request (or server shutdown) closes the session
+ *
+ * Clients that go away without a DELETE would leave their session open
+ * forever, so a session that sees no request for `idleTimeoutMs` is closed
+ * by a periodic sweep. At most `maxSessions` sessions are open at once; an
+ * `initialize` request beyond that is refused with 503.
+ *
+ * Request bodies larger than `MAX_BODY_BYTES` are refused with 413. When
+ * bound to a loopback address, the SDK's DNS rebinding protection is on:
+ * requests must name a local host (`localhost`, `127.0.0.1`, `[::1]`) in
+ * their `Host` header, so a web page cannot reach the server through a
+ * rebound domain name.
+ *
+ * @module transports/http
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/** Default URL path of the MCP endpoint */
+export const DEFAULT_MCP_ENDPOINT = '/mcp';
+
+/** HTTP header carrying the MCP session ID (lowercased, as Node exposes it) */
+const SESSION_ID_HEADER = 'mcp-session-id';
+
+/** Largest request body accepted (4 MB) */
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Default time a session may go without a request before it is closed (30 minutes) */
+export const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Default limit on the number of open sessions */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/** Longest interval between two sweeps for idle sessions (1 minute) */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Bind addresses that only accept connections from this machine */
+const LOOPBACK_ADDRESSES = new Set(['localhost', '127.0.0.1', '::1']);
+
+/** Host names a client on this machine uses to reach a loopback address */
+const LOOPBACK_HOST_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * JSON-RPC error codes used in transport-level error responses.
+ * These are sent before a request ever reaches an MCP server instance.
+ */
+const JSON_RPC_ERRORS = {
+  /** Request body is not valid JSON */
+  parseError: -32700,
+  /** Request is structurally valid JSON but cannot be served (or is too large) */
+  invalidRequest: -32600,
+  /** Referenced session does not exist (MCP-specific server error range) */
+  sessionNotFound: -32001,
+  /** Too many sessions are open to start another (MCP-specific server error range) */
+  serverBusy: -32000,
+} as const;
+
+/**
+ * Sentinel returned by `readJsonBody` when the body could not be parsed.
+ * An error response has already been sent in that case.
+ */
+const INVALID_BODY = Symbol('invalid-body');
+
+/**
+ * Options for starting the HTTP transport host.
+ */
+export interface HttpTransportOptions {
+  /** Port to listen on (0 picks a free port — useful in tests) */
+  port: number;
+
+  /** Host/interface to bind to (e.g., "127.0.0.1", "0.0.0.0") */
+  host: string;
+
+  /** URL path of the MCP endpoint (default: "/mcp") */
+  endpoint?: string;
+
+  /** Close a session after this long without a request (default: `DEFAULT_IDLE_TIMEOUT_MS`) */
+  idleTimeoutMs?: number;
+
+  /** Most sessions open at once (default: `DEFAULT_MAX_SESSIONS`) */
+  maxSessions?: number;
+}
+
+/**
+ * An open MCP session.
+ */
+interface HttpSession {
+  /** Transport serving the session */
+  transport: StreamableHTTPServerTransport;
+
+  /** When the session last received a request (ms since the epoch) */
+  lastSeen: number;
+}
+
+/**
+ * A running HTTP transport host.
+ * Returned by `startHttpTransport` so the caller can report the URL and shut down.
+ */
+export interface HttpTransportHandle {
+  /** The underlying Node.js HTTP server */
+  httpServer: HttpServer;
+
+  /** Full URL of the MCP endpoint (e.g., "http://127.0.0.1:3333/mcp") */
+  url: string;
+
+  /** Number of currently open MCP sessions */
+  readonly sessionCount: number;
+
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Start an HTTP server that serves MCP over the Streamable HTTP transport.
+ *
+ * @param createMcpServer - Factory returning a fresh, unconnected MCP server;
+ *   called once per client session
+ * @param options - Port, host, endpoint path, and session limits
+ * @returns A handle to the running server
+ * @throws Error if the server cannot bind to the requested host/port
+ *
+ * @example
+ * ```typescript
+ * const handle = await startHttpTransport(
+ *   () => createMcpServer(config, context),
+ *   { port: 3333, host: '127.0.0.1' }
+ * );
+ * console.error(`Listening on ${handle.url}`);
+ * ```
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const endpoint = options.endpoint ?? DEFAULT_MCP_ENDPOINT;
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  /** Active sessions: session ID → session */
+  const sessions = new Map<string, HttpSession>();
+
+  /** `Host` header values accepted (set once the port is known; undefined: any) */
+  let allowedHosts: string[] | undefined;
+
+  const httpServer = createServer((req, res) => {
+    const handled = handleHttpRequest(req, res, endpoint, sessions, createMcpServer, {
+      allowedHosts,
+      maxSessions,
+    });
+    handled.catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[fluentui-mcp] HTTP transport error: ${message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, JSON_RPC_ERRORS.invalidRequest, 'Internal server error');
+      }
+    });
+  });
+
+  // Wait until the server is actually listening (or fails to bind)
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    httpServer.once('error', rejectPromise);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', rejectPromise);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const url = `http://${formatHost(options.host)}:${address.port}${endpoint}`;
+  if (LOOPBACK_ADDRESSES.has(options.host)) {
+    allowedHosts = LOOPBACK_HOST_NAMES.flatMap((name) => [name, `${name}:${address.port}`]);
+  }
+
+  // Close sessions whose client went away without a DELETE. The timer must
+  // not keep the process alive on its own.
+  const sweepTimer = setInterval(
+    () => closeIdleSessions(sessions, idleTimeoutMs),
+    Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+  );
+  sweepTimer.unref();
+
+  return {
+    httpServer,
+    url,
+    get sessionCount() {
+      return sessions.size;
+    },
+    async close() {
+      clearInterval(sweepTimer);
+
+      // Close every session first so open SSE streams don't keep the server alive
+      const transports = Array.from(sessions.values(), (session) => session.transport);
+      sessions.clear();
+      await Promise.all(transports.map((transport) => transport.close()));
+
+      await new Promise<void>((resolvePromise, rejectPromise) => {
+        httpServer.close((error) => (error ? rejectPromise(error) : resolvePromise()));
+      });
+    },
+  };
+}
+
+/**
+ * Close every session that has gone `idleTimeoutMs` without a request.
+ *
+ * @param sessions - Active session map (closed sessions are removed)
+ * @param idleTimeoutMs - How long a session may go without a request
+ */
+function closeIdleSessions(sessions: Map<string, HttpSession>, idleTimeoutMs: number): void {
+  const now = Date.now();
+  for (const [sessionId, session] of sessions) {
+    if (now - session.lastSeen >= idleTimeoutMs) {
+      sessions.delete(sessionId);
+      session.transport.close().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[fluentui-mcp] Failed to close idle session ${sessionId}: ${message}`);
+      });
+    }
+  }
+}
+
+/**
+ * Route a single HTTP request to the right session transport.
+ *
+ * - Requests to any path other than the endpoint → 404
+ * - POST without a session ID → must be an `initialize` request, which opens a new session
+ * - An `initialize` request while `maxSessions` sessions are open → 503
+ * - POST/GET/DELETE with a known session ID → delegated to that session's transport
+ * - Unknown session ID → 404 (the client should re-initialize)
+ * - A POST body over `MAX_BODY_BYTES` → 413
+ *
+ * @param req - Incoming HTTP request
+ * @param res - HTTP response
+ * @param endpoint - URL path of the MCP endpoint
+ * @param sessions - Active session map (mutated when sessions open/close)
+ * @param createMcpServer - Factory for per-session MCP servers
+ * @param limits - `Host` header values new sessions accept (undefined: any) and the session cap
+ */
+async function handleHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  endpoint: string,
+  sessions: Map<string, HttpSession>,
+  createMcpServer: () => Server,
+  limits: { allowedHosts: string[] | undefined; maxSessions: number }
+): Promise<void> {
+  // Ignore the query string when matching the endpoint path
+  const path = (req.url ?? '').split('?')[0];
+  if (path !== endpoint) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+    return;
+  }
+
+  if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    return;
+  }
+
+  const sessionId = readSessionId(req);
+
+  // Existing session — hand over to its transport
+  if (sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, JSON_RPC_ERRORS.sessionNotFound, 'Session not found');
+      return;
+    }
+    session.lastSeen = Date.now();
+
+    const body = req.method === 'POST' ? await readJsonBody(req, res) : undefined;
+    if (body === INVALID_BODY) {
+      return;
+    }
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  // No session — only an initialize POST may open one
+  if (req.method !== 'POST') {
+    sendJsonRpcError(res, 400, JSON_RPC_ERRORS.invalidRequest, 'Bad Request: Mcp-Session-Id header is required');
+    return;
+  }
+
+  const body = await readJsonBody(req, res);
+  if (body === INVALID_BODY) {
+    return;
+  }
+
+  if (!isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, JSON_RPC_ERRORS.invalidRequest, 'Bad Request: No valid session ID provided');
+    return;
+  }
+
+  if (sessions.size >= limits.maxSessions) {
+    sendJsonRpcError(res, 503, JSON_RPC_ERRORS.serverBusy, 'Service Unavailable: too many open sessions');
+    return;
+  }
+
+  const { allowedHosts } = limits;
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (newSessionId) => {
+      sessions.set(newSessionId, { transport, lastSeen: Date.now() });
+    },
+    enableDnsRebindingProtection: allowedHosts !== undefined,
+    allowedHosts,
+  });
+
+  // Drop the session from the map when the client ends it (DELETE) or it closes
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+    }
+  };
+
+  const server = createMcpServer();
+  await server.connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Read and parse a JSON request body.
+ *
+ * The body must be parsed up front (rather than by the SDK transport)
+ * because routing depends on whether it is an `initialize` request.
+ * A body over `MAX_BODY_BYTES` is not buffered: once it is known to be
+ * too large, the rest is read and discarded, then refused.
+ *
+ * @param req - Incoming HTTP request
+ * @param res - HTTP response (used to report parse errors)
+ * @returns The parsed JSON value, or `INVALID_BODY` after sending a 400 or 413 response
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<unknown> {
+  const tooLarge = (): typeof INVALID_BODY => {
+    sendJsonRpcError(
+      res,
+      413,
+      JSON_RPC_ERRORS.invalidRequest,
+      `Payload Too Large: request body exceeds ${MAX_BODY_BYTES} bytes`
+    );
+    return INVALID_BODY;
+  };
+
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    return tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk as Buffer);
+    }
+  }
+  if (size > MAX_BODY_BYTES) {
+    return tooLarge();
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+
+  try {
+    return JSON.parse(raw);
+  } catch (_error) {
+    sendJsonRpcError(res, 400, JSON_RPC_ERRORS.parseError, 'Parse error: request body is not valid JSON');
+    return INVALID_BODY;
+  }
+}
+
+/**
+ * Read the MCP session ID header from a request.
+ *
+ * @param req - Incoming HTTP request
+ * @returns The session ID, or undefined if the header is absent
+ */
+function readSessionId(req: IncomingMessage): string | undefined {
+  const header = req.headers[SESSION_ID_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Send a JSON-RPC error response with no request ID.
+ *
+ * @param res - HTTP response
+ * @param status - HTTP status code
+ * @param code - JSON-RPC error code
+ * @param message - Human-readable error message
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    })
+  );
+}
+
+/**
+ * Format a host for use in a URL.
+ * IPv6 literals must be wrapped in brackets (e.g., "::1" → "[::1]").
+ *
+ * @param host - Host name or IP address
+ * @returns Host formatted for a URL authority
+ */
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
@@ -39,11 +39,29 @@ export interface DocumentEntry {
 
   /** Extracted metadata from markdown content */
   metadata: DocumentMetadata;
+
+  /** Heading tree (H1–H4) with section sizes, parsed once at index time */
+  outline: OutlineNode[];
+
+  /** Props parsed from the document's props tables, in document order */
+  props: PropDefinition[];
+
+  /** Slots parsed from the document's slots tables, in document order */
+  slots: SlotDefinition[];
+
+  /** Components whose props this one also accepts (from "Inherits all Button props") */
+  inheritsPropsFrom: string[];
+
+  /** Internal markdown links to other documents or own headings, in document order */
+  links: DocumentLink[];
 }
 
 /**
  * Metadata extracted from a markdown document's headers and content.
  * Used for search ranking and tool responses.
+ *
+ * Values from YAML frontmatter (`package`, `import`, `aliases`, `tags`,
+ * `status`, `since`, `deprecated`) take precedence over the heuristics.
  */
 export interface DocumentMetadata {
   /** NPM package name (e.g., "@fluentui/react-button"), extracted from doc header */
@@ -63,6 +81,166 @@ export interface DocumentMetadata {
 
   /** Whether this document contains code examples */
   hasCodeExamples: boolean;
+
+  /** Alternative names the document is also found by (frontmatter `aliases`) */
+  aliases: string[];
+
+  /** Free-form tags (frontmatter `tags`) */
+  tags: string[];
+
+  /** Maturity status, e.g. "stable" or "preview" (frontmatter `status`) */
+  status: string | null;
+
+  /** Version the component/feature was introduced in (frontmatter `since`) */
+  since: string | null;
+
+  /** Whether the component/feature is deprecated (frontmatter `deprecated`, or `status: deprecated`) */
+  deprecated: boolean;
+
+  /** Deprecation notice, when `deprecated` is given as text instead of `true` */
+  deprecationNote: string | null;
+}
+
+/**
+ * The heading of a document section: where the section sits in the document.
+ */
+export interface SectionHeading {
+  /** Heading text, without the #s ('' for text before the first heading) */
+  heading: string;
+
+  /** Heading level (1–6; 0 for text before the first heading) */
+  level: number;
+
+  /** URL fragment of the heading, unique within the document (e.g., "controlled-vs-uncontrolled") */
+  anchor: string;
+
+  /** Headings from the outermost enclosing section down to this one */
+  path: string[];
+}
+
+/**
+ * A heading-delimited section of a document: a heading and the text below
+ * it, up to the next heading of any level.
+ */
+export interface DocumentSection extends SectionHeading {
+  /** The text below the heading, up to the next heading */
+  content: string;
+}
+
+/**
+ * A heading in a document's outline, with the size and kind of content of
+ * its section. Sizes and flags cover the section's sub-sections, including
+ * headings too deep for the outline.
+ */
+export interface OutlineNode extends SectionHeading {
+  /** Approximate size of the section in tokens */
+  tokens: number;
+
+  /** Whether the section contains a fenced code block */
+  hasCode: boolean;
+
+  /** Whether the section contains a markdown table */
+  hasTable: boolean;
+
+  /** Sub-headings, in document order */
+  children: OutlineNode[];
+}
+
+/**
+ * A component prop, parsed from a row of a props table
+ * (`| Prop | Type | Default | Description |`).
+ */
+export interface PropDefinition {
+  /** Prop name, without backticks (e.g., "appearance") */
+  name: string;
+
+  /** TypeScript type, without backticks or pipe escapes (e.g., "'small' | 'medium'") */
+  type: string;
+
+  /** Default value, without backticks, or null when there is none */
+  default: string | null;
+
+  /** Description as markdown */
+  description: string;
+
+  /** Whether the docs mark the prop as required */
+  required: boolean;
+
+  /** Whether the docs mark the prop as deprecated */
+  deprecated: boolean;
+
+  /**
+   * Component the prop belongs to, from a table heading like
+   * "DialogSurface Props" — null when the heading names no component
+   * (e.g., "Props Reference"), i.e. the document's own component
+   */
+  component: string | null;
+}
+
+/**
+ * A component slot, parsed from a row of a slots table
+ * (`| Slot | Element | Description |`).
+ */
+export interface SlotDefinition {
+  /** Slot name, without backticks (e.g., "icon") */
+  name: string;
+
+  /** Element the slot renders, as written in the docs (e.g., "`<span>`") */
+  element: string;
+
+  /** Description as markdown */
+  description: string;
+
+  /** Component the slot belongs to, from a heading like "Radio Slots" (see `PropDefinition.component`) */
+  component: string | null;
+}
+
+/**
+ * An internal markdown link (`[Field](../forms/field.md#usage)`), extracted
+ * at index time with its target resolved against the linking document.
+ */
+export interface DocumentLink {
+  /** Link text (e.g., "Field") */
+  text: string;
+
+  /** Link target as written (e.g., "../forms/field.md#usage") */
+  target: string;
+
+  /** Heading path of the section the link appears in (e.g., "Input › See Also") */
+  section: string;
+
+  /** Target path relative to the docs root (e.g., "02-components/forms/field.md"); own path for "#anchor" links */
+  path: string;
+
+  /** Target heading anchor (e.g., "usage"), or null for the whole document */
+  anchor: string | null;
+}
+
+/** A document link resolved against the indexed documents (see `LinkGraph`) */
+export interface ResolvedLink extends DocumentLink {
+  /** ID of the linked document, or null when the target is a folder or not indexed */
+  docId: string | null;
+
+  /** Whether the target exists */
+  status: LinkStatus;
+}
+
+/** A link to a document from another document */
+export interface Backlink {
+  /** ID of the linking document */
+  docId: string;
+
+  /** Title of the linking document */
+  title: string;
+
+  /** Link text */
+  text: string;
+
+  /** Heading path of the section the link appears in */
+  section: string;
+
+  /** Heading anchor the link points to, or null for the whole document */
+  anchor: string | null;
 }
 
 // ============================================================================
@@ -85,6 +263,9 @@ export interface SearchResult {
 
   /** Which fields matched the query (for debugging/transparency) */
   matchedFields: MatchedField[];
+
+  /** The section that best matches the query (null if no section matches a query term) */
+  section: DocumentSection | null;
 }
 
 /**
@@ -92,7 +273,7 @@ export interface SearchResult {
  * Used for transparency in search results.
  */
 export interface MatchedField {
-  /** Name of the field that matched (e.g., "title", "content", "description") */
+  /** Name of the field that matched (e.g., "title", "content", "description", "code") */
   field: string;
 
   /** The matching score contribution from this field */
@@ -109,6 +290,13 @@ export interface SearchIndexEntry {
 
   /** Term frequency — how many times the token appears in this document */
   termFrequency: number;
+
+  /**
+   * Positions of the token in the document's token stream, ascending: title,
+   * then description, then content (with a gap between fields) in the prose
+   * index, and the code tokens in the code index. Used to match quoted phrases.
+   */
+  positions: number[];
 }
 
 // ============================================================================
@@ -119,23 +307,93 @@ export interface SearchIndexEntry {
  * Server configuration resolved from CLI args, environment variables, and defaults.
  */
 export interface ServerConfig {
-  /** Which FluentUI version to serve (e.g., "v9", "v10") */
+  /** Default FluentUI version, used when a tool call omits `version` (e.g., "v9") */
   version: string;
 
-  /** Absolute path to the documentation folder for the selected version */
+  /** Absolute path to the documentation folder for the default version */
   docsPath: string;
 
+  /** Every version to index, sorted by version (always includes the default) */
+  versions: VersionSource[];
+
   /** Server name used in MCP registration (e.g., "fluentui-v9-docs") */
   serverName: string;
 
   /** Server version string from package.json */
   serverVersion: string;
+
+  /** How the server is exposed to clients (stdio or Streamable HTTP) */
+  transport: TransportMode;
+
+  /** Port for the HTTP transport (ignored for stdio) */
+  httpPort: number;
+
+  /** Host/interface the HTTP transport binds to (ignored for stdio) */
+  httpHost: string;
+
+  /** Directory holding the on-disk index cache, or null when caching is disabled */
+  cacheDir: string | null;
+
+  /** Whether to watch the docs folders and reindex automatically on changes */
+  watch: boolean;
+
+  /** How search results are ranked */
+  ranking: RankingOptions;
+}
+
+/**
+ * Search ranking model and its parameters.
+ */
+export interface RankingOptions {
+  /** The scoring model */
+  model: RankingModel;
+
+  /** BM25 term-frequency saturation (higher: repeated terms keep adding score) */
+  k1: number;
+
+  /** BM25 length normalization (0: none, 1: full) */
+  b: number;
+}
+
+/**
+ * A FluentUI version and the documentation folder it is indexed from.
+ */
+export interface VersionSource {
+  /** FluentUI version identifier (e.g., "v8", "v9") */
+  version: string;
+
+  /** Absolute path to the version's documentation folder */
+  docsPath: string;
 }
 
 // ============================================================================
 // Tool Argument Types
 // ============================================================================
 
+/**
+ * Arguments accepted by every tool, on top of its own arguments.
+ * Resolved by the dispatcher before the tool runs.
+ */
+export interface VersionArgs {
+  /** Optional: FluentUI version to answer from (default: the server's default version) */
+  version?: string;
+}
+
+/**
+ * Arguments accepted by every tool for splitting a long response into pages.
+ * Applied by the dispatcher to the markdown text, so the tools never see them.
+ */
+export interface PaginationArgs {
+  /** Optional: approximate token budget of the returned text */
+  maxTokens?: number;
+
+  /** Optional: character budget of the returned text */
+  maxChars?: number;
+
+  /** Optional: cursor from the previous page's footer, to continue where it ended */
+  cursor?: string;
+}
+
 /** Arguments for the query_component tool */
 export interface QueryComponentArgs {
   /** Component name to look up (case-insensitive, supports partial matching) */
@@ -144,12 +402,23 @@ export interface QueryComponentArgs {
 
 /** Arguments for the search_docs tool */
 export interface SearchDocsArgs {
-  /** Search query string */
+  /**
+   * Search query string. Supports:
+   * - `"exact phrase"` — the words must appear in this order
+   * - `+term` — required; `-term` / `-"phrase"` — excluded
+   * - `a b OR c d` — alternatives (`OR` in capitals)
+   * - `category:forms`, `package:@fluentui/react-table`, `module:patterns`,
+   *   `title:menu`, `has:examples`, `has:props` — filters (`-` negates)
+   * Plain words are optional and only affect the ranking.
+   */
   query: string;
 
   /** Optional: limit results to a specific module */
   module?: DocumentModule;
 
+  /** Optional: search prose, code, or both (default: all) */
+  searchIn?: SearchScope;
+
   /** Optional: maximum number of results to return (default: 10) */
   limit?: number;
 }
@@ -203,14 +472,758 @@ export interface GetComponentExamplesArgs {
 export interface GetPropsReferenceArgs {
   /** Component name to extract props table from */
   componentName: string;
+
+  /** Only return the prop or slot with this name (case-insensitive) */
+  propName?: string;
+
+  /** Only return props whose type contains this text (case-insensitive, e.g., "boolean") */
+  type?: string;
+}
+
+/** Arguments for the get_section tool */
+export interface GetSectionArgs {
+  /** Document to read: a component, pattern, or topic name, or a document ID */
+  docName: string;
+
+  /** Section to return: an anchor ("controlled-vs-uncontrolled"), heading, or heading path ("Usage › Controlled") */
+  heading: string;
+}
+
+/** Arguments for the get_outline tool */
+export interface GetOutlineArgs {
+  /** Document to outline: a component, pattern, or topic name, or a document ID */
+  docName?: string;
+
+  /** Outline every document of a module or folder instead (e.g., "patterns", "patterns/forms", "03-patterns/forms") */
+  module?: string;
+
+  /** Optional: deepest heading level to include (1–4, default: 4) */
+  maxLevel?: number;
+}
+
+/** Arguments for the compare_components tool */
+export interface CompareComponentsArgs {
+  /** 2–5 component names (e.g., ["Select", "Combobox"]) */
+  components: string[];
+}
+
+/** Arguments for the validate_usage tool */
+export interface ValidateUsageArgs {
+  /** TSX/JSX code using @fluentui/react-components */
+  code: string;
+}
+
+/** Arguments for the get_related_docs tool */
+export interface GetRelatedDocsArgs {
+  /** Document to look up: a component, pattern, or topic name, or a document ID */
+  docName: string;
+}
+
+/** Arguments for the lint_docs tool */
+export interface LintDocsArgs {
+  /** Optional: report only violations of this rule */
+  rule?: LintRule;
+
+  /** Optional: lint only documents whose path starts with this (e.g., "02-components/forms") */
+  path?: string;
 }
 
 /** Arguments for the reindex tool */
 export interface ReindexArgs {
-  /** Optional: force reindex even if no changes detected */
+  /** Optional: re-parse every file instead of only added and modified ones */
   force?: boolean;
 }
 
+// ============================================================================
+// Tool Output Types
+// ============================================================================
+
+/**
+ * The result of a tool call, rendered two ways.
+ *
+ * `text` is the markdown rendering returned as text content (for LLMs and
+ * clients without structured output support). `structured` is the typed
+ * result returned as `structuredContent`, matching the tool's `outputSchema`.
+ * Error results carry only text and set `isError`.
+ */
+export interface ToolResult<T extends object = object> {
+  /** Markdown rendering of the result */
+  text: string;
+
+  /** Typed result (omitted for errors) */
+  structured?: T;
+
+  /** True if the call failed (invalid arguments, reindex failure) */
+  isError?: boolean;
+}
+
+/**
+ * Which part of a tool's markdown text a paginated response returned.
+ * Added to the structured output as `page` when the text was split.
+ */
+export interface PageInfo {
+  /** Offset of the first returned character in the full text */
+  start: number;
+
+  /** Offset after the last returned character */
+  end: number;
+
+  /** Length of the full text in characters */
+  total: number;
+
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+
+  /** Whether bulk text fields (`content`, `code`) were emptied; their text is in the pages */
+  contentOmitted: boolean;
+}
+
+/** Serializable summary of a document (everything except the content) */
+export interface DocumentSummary {
+  /** Document ID (e.g., "components/buttons/button") */
+  id: string;
+
+  /** Display name (e.g., "Button") */
+  title: string;
+
+  /** Documentation module */
+  module: DocumentModule;
+
+  /** Component category (components only) */
+  category: ComponentCategory | null;
+
+  /** NPM package name, if known */
+  packageName: string | null;
+
+  /** Import statement, if known */
+  importStatement: string | null;
+
+  /** Brief description, if known */
+  description: string | null;
+
+  /** Whether the document contains props reference tables */
+  hasPropsTable: boolean;
+
+  /** Whether the document contains code examples */
+  hasCodeExamples: boolean;
+
+  /** Alternative names (from frontmatter) */
+  aliases: string[];
+
+  /** Tags (from frontmatter) */
+  tags: string[];
+
+  /** Maturity status, if known */
+  status: string | null;
+
+  /** Version the component/feature was introduced in, if known */
+  since: string | null;
+
+  /** Whether the component/feature is deprecated */
+  deprecated: boolean;
+
+  /** Deprecation notice, if any */
+  deprecationNote: string | null;
+}
+
+/** A document summary with the full markdown content */
+export interface DocumentWithContent extends DocumentSummary {
+  /** Full raw markdown content */
+  content: string;
+}
+
+/** A search result with the document reduced to its summary */
+export interface SearchHit {
+  /** The matching document */
+  document: DocumentSummary;
+
+  /** Relevance score (0-100) */
+  relevance: number;
+
+  /** Context excerpt showing where the query matched */
+  excerpt: string;
+
+  /** Which fields matched the query */
+  matchedFields: MatchedField[];
+
+  /** The section that best matches the query (null if no section matches a query term) */
+  section: DocumentSection | null;
+}
+
+/** A component category with its document count */
+export interface CategoryCount {
+  /** Category name */
+  category: string;
+
+  /** Number of documents in the category */
+  count: number;
+}
+
+/** A documentation module with its document count */
+export interface ModuleCount {
+  /** Module name */
+  module: string;
+
+  /** Number of documents in the module */
+  count: number;
+}
+
+/** Number of documents indexed for a FluentUI version */
+export interface VersionCount {
+  /** FluentUI version identifier */
+  version: string;
+
+  /** Number of documents indexed for the version */
+  count: number;
+
+  /** Whether this is the default version */
+  isDefault: boolean;
+}
+
+/** Structured output of the query_component tool */
+export interface QueryComponentOutput {
+  /** The component name that was looked up */
+  query: string;
+
+  /** The matching component, or null if not found */
+  component: DocumentWithContent | null;
+
+  /** Titles of all components (only when not found, for suggestions) */
+  availableComponents: string[];
+
+  /** The component's title when the name only matched after correcting a typo */
+  didYouMean: string | null;
+}
+
+/** Structured output of the get_section tool */
+export interface GetSectionOutput {
+  /** The document name that was looked up */
+  docName: string;
+
+  /** The section that was asked for */
+  heading: string;
+
+  /** The matching document, or null if not found */
+  document: DocumentSummary | null;
+
+  /** The matching section's heading, or null if the document or heading was not found */
+  section: SectionHeading | null;
+
+  /** The section as markdown, including its sub-sections (null if not found) */
+  content: string | null;
+
+  /** Headings of the document (only when the heading was not found) */
+  outline: SectionHeading[];
+
+  /** The document's title when the name only matched after correcting a typo */
+  didYouMean: string | null;
+}
+
+/** A document with its outline */
+export interface DocumentOutline {
+  /** The outlined document */
+  document: DocumentSummary;
+
+  /** Approximate size of the whole document in tokens */
+  tokens: number;
+
+  /** The document's heading tree, down to the requested level */
+  outline: OutlineNode[];
+}
+
+/** Structured output of the get_outline tool */
+export interface GetOutlineOutput {
+  /** The document name that was looked up, or null in module mode */
+  docName: string | null;
+
+  /** The module or folder that was outlined, or null for a single document */
+  module: string | null;
+
+  /** Deepest heading level included */
+  maxLevel: number;
+
+  /** Outlined documents (one for a document name; empty when not found) */
+  documents: DocumentOutline[];
+
+  /** The document's title when the name only matched after correcting a typo */
+  didYouMean: string | null;
+}
+
+/** Structured output of the search_docs tool */
+export interface SearchDocsOutput {
+  /** The search query */
+  query: string;
+
+  /** Module filter that was applied, if any */
+  module: DocumentModule | null;
+
+  /** The text that was searched: prose, code, or all */
+  searchIn: SearchScope;
+
+  /** Ranked results (empty when nothing matched) */
+  results: SearchHit[];
+
+  /** The corrected query when some query words matched nothing as typed */
+  didYouMean: string | null;
+}
+
+/** Structured output of the list_by_category tool */
+export interface ListByCategoryOutput {
+  /** The listed category, or null when listing available categories */
+  category: ComponentCategory | null;
+
+  /** Components in the category, sorted by title */
+  components: DocumentSummary[];
+
+  /** All available categories with counts */
+  categories: CategoryCount[];
+}
+
+/** A foundation topic with its aliases and document */
+export interface FoundationTopicInfo {
+  /** Canonical topic identifier (e.g., "theming") */
+  topic: string;
+
+  /** Aliases that resolve to this topic */
+  aliases: string[];
+
+  /** Topic description */
+  description: string;
+
+  /** ID of the topic's document, or null if not indexed */
+  documentId: string | null;
+}
+
+/** Structured output of the get_foundation tool */
+export interface GetFoundationOutput {
+  /** Resolved topic, or null for the overview */
+  topic: string | null;
+
+  /** The topic document, or null for the overview / when not indexed */
+  document: DocumentWithContent | null;
+
+  /** All foundation topics */
+  topics: FoundationTopicInfo[];
+}
+
+/** A pattern document summary with the names get_pattern accepts */
+export interface PatternSummary extends DocumentSummary {
+  /** Pattern category (e.g., "forms") */
+  patternCategory: string;
+
+  /** Pattern name (e.g., "validation") */
+  patternName: string;
+}
+
+/** Structured output of the get_pattern tool */
+export interface GetPatternOutput {
+  /** Requested pattern category, or null for the overview */
+  patternCategory: string | null;
+
+  /** Requested pattern name, or null when listing */
+  patternName: string | null;
+
+  /** The matching pattern document, or null when listing / not found */
+  pattern: DocumentWithContent | null;
+
+  /** Patterns in the category (all patterns for the overview) */
+  patterns: PatternSummary[];
+}
+
+/** An enterprise topic group with its documents */
+export interface EnterpriseTopicInfo {
+  /** Topic key (e.g., "dashboard") */
+  topic: string;
+
+  /** Human-readable topic name */
+  displayName: string;
+
+  /** Topic description */
+  description: string;
+
+  /** Aliases that resolve to this topic */
+  aliases: string[];
+
+  /** IDs of the documents in this topic */
+  documentIds: string[];
+}
+
+/** Structured output of the get_enterprise tool */
+export interface GetEnterpriseOutput {
+  /** Resolved topic, or null for the overview */
+  topic: string | null;
+
+  /** Documents in the topic, in reading order (empty for the overview) */
+  documents: DocumentWithContent[];
+
+  /** All enterprise topics */
+  topics: EnterpriseTopicInfo[];
+}
+
+/** A code example extracted from a document */
+export interface CodeExample {
+  /** Heading of the section the example appears under */
+  sectionHeading: string;
+
+  /** Fence language (e.g., "tsx") */
+  language: string;
+
+  /** Code without fence markers */
+  code: string;
+}
+
+/** Structured output of the get_component_examples tool */
+export interface GetComponentExamplesOutput {
+  /** The matching component, or null if not found */
+  component: DocumentSummary | null;
+
+  /** Code examples (empty when none / not found) */
+  examples: CodeExample[];
+
+  /** Titles of components with examples (only when not found) */
+  availableComponents: string[];
+}
+
+/** A markdown table parsed into rows keyed by column header */
+export interface PropsTable {
+  /** Nearest heading above the table, if any (e.g., "Props") */
+  heading: string | null;
+
+  /** Column headers, in order */
+  columns: string[];
+
+  /** Data rows, keyed by column header */
+  rows: Array<Record<string, string>>;
+}
+
+/** Structured output of the get_props_reference tool */
+export interface GetPropsReferenceOutput {
+  /** The matching component, or null if not found */
+  component: DocumentSummary | null;
+
+  /**
+   * Where the tables came from: the formal props section, inline
+   * prop-like tables, or null when none were found
+   */
+  source: 'props-section' | 'inline-tables' | null;
+
+  /** Parsed props/slots tables (empty when filtering by propName or type) */
+  tables: PropsTable[];
+
+  /** The component's props, narrowed by propName and type */
+  props: PropDefinition[];
+
+  /** The component's slots, narrowed by propName (empty when filtering by type) */
+  slots: SlotDefinition[];
+
+  /** Titles of components with props tables (only when not found) */
+  availableComponents: string[];
+
+  /** The component's title when the name only matched after correcting a typo */
+  didYouMean: string | null;
+}
+
+/** A suggested component with its relevance and reasoning */
+export interface ComponentSuggestionOutput {
+  /** The suggested component */
+  component: DocumentSummary;
+
+  /** Relevance score (0-100) */
+  relevance: number;
+
+  /** Why the component was suggested */
+  reason: string;
+}
+
+/** Structured output of the suggest_components tool */
+export interface SuggestComponentsOutput {
+  /** The UI description */
+  uiDescription: string;
+
+  /** Ranked suggestions (empty when nothing matched) */
+  suggestions: ComponentSuggestionOutput[];
+}
+
+/** One component of a comparison, from its doc */
+export interface ComponentComparison {
+  /** The requested name */
+  name: string;
+
+  /** The component's document */
+  document: DocumentSummary;
+
+  /** The component's own documented props (not those of its sub-components) */
+  props: PropDefinition[];
+
+  /** Names of the props no other compared component documents */
+  uniqueProps: string[];
+
+  /** The component's own documented slots */
+  slots: SlotDefinition[];
+
+  /** When to use the component, from the Overview section */
+  whenToUse: string | null;
+
+  /** Recommendations of the Best Practices section */
+  dos: string[];
+
+  /** Warnings of the Best Practices section */
+  donts: string[];
+
+  /** Notes of the Accessibility section (keyboard support, ARIA, practices) */
+  accessibility: string[];
+
+  /** Heading paths of "X vs Y" sections that compare with another of the components */
+  comparisonSections: string[];
+}
+
+/** Structured output of the compare_components tool */
+export interface CompareComponentsOutput {
+  /** The compared components, in the requested order */
+  components: ComponentComparison[];
+
+  /** Names of the props every compared component documents */
+  sharedProps: string[];
+
+  /** Requested names without a document, left out of the comparison */
+  notFound: string[];
+}
+
+/** A problem found in a code snippet by validate_usage */
+export interface UsageIssue {
+  /** Which check failed */
+  rule: UsageRule;
+
+  /** The FluentUI element the issue is on (null for syntax errors) */
+  component: string | null;
+
+  /** The prop the issue is about (null for syntax errors) */
+  prop: string | null;
+
+  /** Line of the issue in the snippet (1-based) */
+  line: number;
+
+  /** Column of the issue in the snippet (1-based) */
+  column: number;
+
+  /** What is wrong, with a suggestion when there is one */
+  message: string;
+}
+
+/** Structured output of the validate_usage tool */
+export interface ValidateUsageOutput {
+  /** True when no issues were found */
+  valid: boolean;
+
+  /** Number of FluentUI elements checked against a props table */
+  checkedElements: number;
+
+  /** Issues, in snippet order */
+  issues: UsageIssue[];
+
+  /** FluentUI components used in the snippet that have no documented props */
+  uncheckedComponents: string[];
+}
+
+/** Structured output of the lint_docs tool */
+export interface LintDocsOutput {
+  /** Number of documents linted */
+  documents: number;
+
+  /** Number of violations per rule */
+  counts: Record<LintRule, number>;
+
+  /** Violations, by document path */
+  violations: LintViolation[];
+}
+
+/** Structured output of the get_related_docs tool */
+export interface GetRelatedDocsOutput {
+  /** The requested document name */
+  docName: string;
+
+  /** The matched document, or null if not found */
+  document: DocumentSummary | null;
+
+  /** Links to the document from other documents, by linking document */
+  backlinks: Backlink[];
+
+  /** Links of the document that resolve, in document order */
+  links: ResolvedLink[];
+
+  /** Links of the document to missing files or headings, in document order */
+  brokenLinks: ResolvedLink[];
+
+  /** Corrected document name when the query had a typo, or null */
+  didYouMean: string | null;
+}
+
+/** A pattern search hit with the names get_pattern accepts */
+export interface PatternHit extends SearchHit {
+  /** Pattern category (e.g., "forms") */
+  patternCategory: string;
+
+  /** Pattern name (e.g., "validation") */
+  patternName: string;
+}
+
+/** Structured output of the get_implementation_guide tool */
+export interface GetImplementationGuideOutput {
+  /** The implementation goal */
+  goal: string;
+
+  /** Recommended components */
+  components: SearchHit[];
+
+  /** Relevant patterns */
+  patterns: PatternHit[];
+
+  /** Consolidated import statements for the recommended components */
+  imports: string[];
+
+  /** Component-specific implementation tips */
+  tips: string[];
+
+  /** Accessibility checklist items */
+  accessibilityChecklist: string[];
+}
+
+/** Structured output of the list_all_docs tool */
+export interface ListAllDocsOutput {
+  /** The version whose documents are listed */
+  version: string;
+
+  /** Every served version with its document count */
+  versions: VersionCount[];
+
+  /** Total number of indexed documents in the listed version */
+  totalDocuments: number;
+
+  /** Modules with document counts */
+  modules: ModuleCount[];
+
+  /** Component categories with document counts */
+  categories: CategoryCount[];
+
+  /** Every indexed document of the listed version */
+  documents: DocumentSummary[];
+}
+
+/** Structured output of the reindex tool */
+export interface ReindexOutput {
+  /** Number of documents indexed */
+  indexedFiles: number;
+
+  /** Number of documents indexed before the reindex */
+  previousCount: number;
+
+  /** Number of files that failed to read/parse */
+  failedFiles: number;
+
+  /** Number of files reused unchanged from the previous index or the index cache */
+  cachedFiles: number;
+
+  /** Whether every file was re-parsed (`force`) */
+  forced: boolean;
+
+  /** IDs of documents that are new since the previous index */
+  added: string[];
+
+  /** IDs of documents whose content changed */
+  changed: string[];
+
+  /** IDs of documents that are no longer present */
+  deleted: string[];
+
+  /** Time taken in milliseconds */
+  durationMs: number;
+
+  /** Document counts by module */
+  byModule: Record<string, number>;
+
+  /** Document counts by category */
+  byCategory: Record<string, number>;
+}
+
+// ============================================================================
+// CLI Command Types
+// ============================================================================
+
+/**
+ * A problem found in a documented code example by `check-examples`.
+ */
+export interface ExampleIssue {
+  /** The check that failed */
+  rule: ExampleRule;
+
+  /** ID of the document holding the example */
+  docId: string;
+
+  /** Path of the document relative to the docs root */
+  relativePath: string;
+
+  /** Heading path of the section holding the example (e.g., "Input › Usage") */
+  section: string;
+
+  /** Anchor of the section holding the example (e.g., "usage") */
+  anchor: string;
+
+  /** Position of the example among the document's examples (1-based) */
+  example: number;
+
+  /** Line within the example (1-based) */
+  line: number;
+
+  /** Column within the line (1-based) */
+  column: number;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * A document that does not follow the required doc shape, found by `lint-docs`.
+ */
+export interface LintViolation {
+  /** The rule that was violated */
+  rule: LintRule;
+
+  /** ID of the document */
+  docId: string;
+
+  /** Path of the document relative to the docs root */
+  relativePath: string;
+
+  /** Heading path of the section concerned, or null for the document as a whole */
+  section: string | null;
+
+  /** Human-readable description of the violation */
+  message: string;
+}
+
+/**
+ * Machine-readable report of `check-examples`.
+ */
+export interface ExampleCheckReport {
+  /** FluentUI version whose docs were checked (e.g., "v9") */
+  version: string;
+
+  /** Number of documents checked */
+  documents: number;
+
+  /** Number of TypeScript/TSX examples checked */
+  examples: number;
+
+  /** Number of examples with at least one issue */
+  failedExamples: number;
+
+  /** Number of issues per rule */
+  counts: Record<ExampleRule, number>;
+
+  /** Every issue, by document, example, and position */
+  issues: ExampleIssue[];
+}
+
 // ============================================================================
 // Enum-like Types (using const arrays for runtime + type safety)
 // ============================================================================
@@ -305,6 +1318,28 @@ export const PATTERN_CATEGORIES = [
 /** Type for pattern category identifiers */
 export type PatternCategory = typeof PATTERN_CATEGORIES[number];
 
+/**
+ * Transport modes the server can be started with.
+ * - `stdio`: one client per process, spawned by the MCP host (default)
+ * - `http`: MCP Streamable HTTP transport, many clients per process
+ */
+export const TRANSPORT_MODES = ['stdio', 'http'] as const;
+
+/** Type for transport mode identifiers */
+export type TransportMode = typeof TRANSPORT_MODES[number];
+
+/** Default transport when none is specified */
+export const DEFAULT_TRANSPORT: TransportMode = 'stdio';
+
+/** Default port for the HTTP transport */
+export const DEFAULT_HTTP_PORT = 3333;
+
+/**
+ * Default host for the HTTP transport.
+ * Loopback only, so the server is not exposed to the network unless asked.
+ */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
 /** Default FluentUI version when none is specified */
 export const DEFAULT_VERSION = 'v9';
 
@@ -313,3 +1348,105 @@ export const DEFAULT_SEARCH_LIMIT = 10;
 
 /** Maximum number of search results allowed */
 export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Which text of a document a search looks at:
+ * - `prose`: title, description, and content outside code
+ * - `code`: fenced code blocks and inline code only
+ * - `all`: both
+ */
+export const SEARCH_SCOPES = ['prose', 'code', 'all'] as const;
+
+/** Type for search scope identifiers */
+export type SearchScope = typeof SEARCH_SCOPES[number];
+
+/** Default search scope when none is specified */
+export const DEFAULT_SEARCH_SCOPE: SearchScope = 'all';
+
+/**
+ * Search ranking models.
+ * - `tfidf`: field-weighted TF×IDF with length-normalized term frequency (default)
+ * - `bm25`: BM25 per field, combined with the field weights — saturating term
+ *   frequency, and length normalization against each field's average length
+ */
+export const RANKING_MODELS = ['tfidf', 'bm25'] as const;
+
+/** Type for ranking model identifiers */
+export type RankingModel = typeof RANKING_MODELS[number];
+
+/** Default ranking model when none is specified */
+export const DEFAULT_RANKING_MODEL: RankingModel = 'tfidf';
+
+/** Default BM25 term-frequency saturation parameter */
+export const DEFAULT_BM25_K1 = 1.2;
+
+/** Default BM25 length normalization parameter */
+export const DEFAULT_BM25_B = 0.75;
+
+/** Deepest heading level kept in document outlines (H1–H4) */
+export const OUTLINE_MAX_LEVEL = 4;
+
+/** Characters per token, for estimating the token size of markdown */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Checks run by validate_usage:
+ * - `syntax-error` — the snippet does not parse
+ * - `unknown-prop` — an attribute that is neither a documented prop/slot nor a common HTML attribute
+ * - `invalid-value` — a string literal that is not one of a union type's literals
+ * - `missing-required-prop` — a documented required prop that is not set
+ */
+export const USAGE_RULES = ['syntax-error', 'unknown-prop', 'invalid-value', 'missing-required-prop'] as const;
+
+/** A check run by validate_usage */
+export type UsageRule = typeof USAGE_RULES[number];
+
+/**
+ * Checks run by check-examples:
+ * - `syntax-error` — the example does not parse
+ * - `unresolved-identifier` — a name that is neither declared nor imported
+ * - `unresolved-in-snippet` — the same, in a snippet without any import
+ *   (usually an excerpt of a larger file that leaves its imports out)
+ * - `inconsistent-import` — a name imported from another module than in most examples
+ */
+export const EXAMPLE_RULES = [
+  'syntax-error',
+  'unresolved-identifier',
+  'unresolved-in-snippet',
+  'inconsistent-import',
+] as const;
+
+/** A check run by check-examples */
+export type ExampleRule = typeof EXAMPLE_RULES[number];
+
+/**
+ * Status of a resolved document link:
+ * - `ok` — the target document (or folder) and heading exist
+ * - `missing-file` — no indexed document or folder at the target path
+ * - `missing-anchor` — the target document has no heading with the anchor
+ */
+export const LINK_STATUSES = ['ok', 'missing-file', 'missing-anchor'] as const;
+
+/** Status of a resolved document link */
+export type LinkStatus = typeof LINK_STATUSES[number];
+
+/**
+ * Rules checked by lint-docs and lint_docs:
+ * - `missing-package` — a component doc without a `> **Package**` line
+ * - `unparseable-props-table` — a Props Reference section without a readable props or slots table
+ * - `unresolved-see-also` — a See Also link to a file that is not indexed
+ * - `broken-link` — any other link to a file that is not indexed, or to a heading that does not exist
+ * - `duplicate-title` — a title that resolves to another document in the name index
+ * - `empty-section` — a heading with neither text nor sub-sections
+ */
+export const LINT_RULES = [
+  'missing-package',
+  'unparseable-props-table',
+  'unresolved-see-also',
+  'broken-link',
+  'duplicate-title',
+  'empty-section',
+] as const;
+
+/** A rule checked by lint-docs and lint_docs */
+export type LintRule = typeof LINT_RULES[number];